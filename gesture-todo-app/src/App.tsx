@@ -1,6 +1,6 @@
 /** @format */
 
-import React, { useEffect } from "react";
+import React, { useCallback, useEffect, useMemo } from "react";
 import "./App.css";
 import { useTodo, useApp } from "./contexts";
 import {
@@ -8,11 +8,20 @@ import {
   GestureCamera,
   GestureManager,
   GestureIndicator,
+  GestureBindingSettings,
+  GestureSettingsPanel,
+  CustomGestureTrainer,
   GestureFallbackNotification,
+  UndoToast,
+  ListSwitcher,
+  TaskQueryBar,
 } from "./components";
+import { CameraStatus } from "./components/GestureCamera";
 import { ErrorBoundary } from "./components/ErrorBoundary";
 import { DatabaseErrorNotification } from "./components/DatabaseErrorNotification";
-import { GestureType } from "./types";
+import { GestureType, Task } from "./types";
+import { LandmarkStream } from "./services/landmarkStream";
+import { isTaskQueryActive } from "./services/taskQuery";
 
 function AppContent() {
   const [videoElement, setVideoElement] =
@@ -20,6 +29,9 @@ function AppContent() {
   const [isHandDetected, setIsHandDetected] = React.useState(false);
   const [gestureError, setGestureError] = React.useState<string | null>(null);
   const [fallbackMode, setFallbackMode] = React.useState(false);
+  // Hands detected in each camera frame, shared by the camera preview, the
+  // custom gesture trainer and the settings preview
+  const landmarkStream = useMemo(() => new LandmarkStream(), []);
 
   const {
     state: todoState,
@@ -28,8 +40,11 @@ function AppContent() {
     updateTask,
     deleteTask,
     toggleTaskCompletion,
+    moveTask,
     setSelectedTask,
+    setTaskCollapsed,
     setCurrentGesture,
+    setCameraStatus,
   } = useTodo();
   const { state: appState } = useApp();
 
@@ -40,9 +55,9 @@ function AppContent() {
     }
   }, [appState.isInitialized, loadTasks]);
 
-  const handleTaskAdd = async (text: string) => {
+  const handleTaskAdd = async (text: string, parentId?: string) => {
     try {
-      await addTask(text);
+      await addTask(text, parentId);
     } catch (error) {
       console.error("Failed to add task:", error);
       // Error is handled by TodoContext and displayed via DatabaseErrorNotification
@@ -58,6 +73,15 @@ function AppContent() {
     }
   };
 
+  const handleTaskUpdate = async (id: string, updates: Partial<Task>) => {
+    try {
+      await updateTask(id, updates);
+    } catch (error) {
+      console.error("Failed to update task:", error);
+      // Error is handled by TodoContext and displayed via DatabaseErrorNotification
+    }
+  };
+
   const handleTaskToggle = async (id: string) => {
     try {
       await toggleTaskCompletion(id);
@@ -76,6 +100,15 @@ function AppContent() {
     }
   };
 
+  const handleTaskMove = async (id: string, toIndex: number) => {
+    try {
+      await moveTask(id, toIndex);
+    } catch (error) {
+      console.error("Failed to move task:", error);
+      // Error is handled by TodoContext and displayed via DatabaseErrorNotification
+    }
+  };
+
   const handleGestureDetected = (gesture: GestureType) => {
     setCurrentGesture(gesture);
     // Note: Actual gesture handling is now done by GestureManager
@@ -92,6 +125,17 @@ function AppContent() {
     setIsHandDetected(isDetected);
   };
 
+  const handleCameraStatusChange = useCallback(
+    (status: CameraStatus) =>
+      setCameraStatus(status === "permission_denied" ? "error" : status),
+    [setCameraStatus]
+  );
+
+  const getHandLandmarks = useCallback(
+    () => landmarkStream.getHands()[0] ?? null,
+    [landmarkStream]
+  );
+
   const handleRetryCamera = () => {
     // This will trigger re-initialization of the camera
     window.location.reload();
@@ -125,6 +169,7 @@ function AppContent() {
         onRetryCamera={handleRetryCamera}
         onEnableTraditionalMode={handleEnableTraditionalMode}
       />
+      <UndoToast />
 
       <div className="container mx-auto px-4 py-8 max-w-4xl">
         <header className="text-center mb-8">
@@ -135,6 +180,8 @@ function AppContent() {
             Control your todos with hand gestures
           </p>
 
+          <ListSwitcher />
+
           {/* Status indicators */}
           <div className="flex items-center justify-center space-x-4 mt-4 text-sm">
             <div className="flex items-center space-x-1">
@@ -178,14 +225,23 @@ function AppContent() {
         <main className="grid grid-cols-1 lg:grid-cols-2 gap-8">
           {/* Todo List */}
           <div>
+            <TaskQueryBar />
             <TodoList
               tasks={todoState.tasks}
+              visibleTasks={todoState.visibleTasks}
+              isFiltered={isTaskQueryActive(todoState.taskQuery)}
               selectedTaskIndex={todoState.selectedTaskIndex}
               onTaskSelect={setSelectedTask}
               onTaskToggle={handleTaskToggle}
               onTaskDelete={handleTaskDelete}
               onTaskEdit={handleTaskEdit}
+              onTaskUpdate={handleTaskUpdate}
               onTaskAdd={handleTaskAdd}
+              onTaskMove={handleTaskMove}
+              grabbedTaskId={todoState.grabbedTaskId}
+              collapsedTaskIds={todoState.collapsedTaskIds}
+              onTaskCollapsedChange={setTaskCollapsed}
+              onSubtaskAdd={(parentId, text) => handleTaskAdd(text, parentId)}
             />
           </div>
 
@@ -195,7 +251,10 @@ function AppContent() {
               onGestureDetected={handleGestureDetected}
               isEnabled={appState.gestureEnabled}
               onVideoElementReady={handleVideoElementReady}
+              onCameraStatusChange={handleCameraStatusChange}
               onHandDetectionChange={handleHandDetectionChange}
+              landmarkStream={landmarkStream}
+              recorderEnabled={import.meta.env.DEV}
             />
 
             {/* Gesture Indicator - shows current gesture and guide */}
@@ -203,13 +262,24 @@ function AppContent() {
               currentGesture={todoState.currentGesture}
               isHandDetected={isHandDetected}
               showGuide={false}
+              bindings={appState.gestureBindings}
+              customGestures={appState.customGestures}
+              confirmation={todoState.pendingConfirmation}
+              scoreSource={landmarkStream}
             />
+
+            <GestureSettingsPanel getLandmarks={getHandLandmarks} />
+
+            <GestureBindingSettings />
+
+            <CustomGestureTrainer getLandmarks={getHandLandmarks} />
           </div>
         </main>
 
         {/* Gesture Manager - handles gesture-to-action mapping */}
         <GestureManager
           videoElement={videoElement}
+          landmarkStream={landmarkStream}
           isEnabled={
             appState.gestureEnabled && todoState.cameraStatus === "active"
           }
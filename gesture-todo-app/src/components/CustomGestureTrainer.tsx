@@ -0,0 +1,207 @@
+/** @format */
+
+import React, { useRef, useState } from "react";
+import { NormalizedLandmark } from "@mediapipe/hands";
+import { useApp } from "../contexts";
+import {
+  CustomGestureError,
+  MIN_TEMPLATE_SAMPLES,
+  createCustomGestureTemplate,
+  parseCustomGestureExport,
+  serializeCustomGestures,
+} from "../services/customGestures";
+import { HandLandmarks, toRightHand } from "../services/landmarkFeatures";
+
+interface CustomGestureTrainerProps {
+  // The hand currently in front of the camera
+  getLandmarks: () => HandLandmarks | null;
+}
+
+export const CustomGestureTrainer: React.FC<CustomGestureTrainerProps> = ({
+  getLandmarks,
+}) => {
+  const {
+    state: appState,
+    saveCustomGesture,
+    deleteCustomGesture,
+    importCustomGestures,
+  } = useApp();
+  const [name, setName] = useState("");
+  const [samples, setSamples] = useState<NormalizedLandmark[][]>([]);
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const canSave = name.trim() !== "" && samples.length >= MIN_TEMPLATE_SAMPLES;
+
+  const handleCaptureSample = () => {
+    const hand = getLandmarks();
+    if (!hand) {
+      setMessage("手が検出されていません");
+      return;
+    }
+
+    // Samples are stored as right hands so both hands can train a gesture
+    setSamples((prev) => [
+      ...prev,
+      toRightHand(hand.landmarks, hand.handedness).map(({ x, y, z }) => ({
+        x,
+        y,
+        z,
+      })),
+    ]);
+    setMessage(null);
+  };
+
+  const handleSave = async () => {
+    try {
+      const template = createCustomGestureTemplate(name, samples);
+      await saveCustomGesture(template);
+      setMessage(`ジェスチャー「${template.name}」を保存しました`);
+      setName("");
+      setSamples([]);
+    } catch (error) {
+      console.error("Failed to create custom gesture:", error);
+      setMessage(
+        "ジェスチャーを作成できませんでした。手がはっきり映るようにサンプルを記録し直してください"
+      );
+    }
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([serializeCustomGestures(appState.customGestures)], {
+      type: "application/json",
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "custom-gestures.json";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    try {
+      const templates = parseCustomGestureExport(await file.text());
+      await importCustomGestures(templates);
+      setMessage(`${templates.length}件のジェスチャーを読み込みました`);
+    } catch (error) {
+      console.error("Failed to import custom gestures:", error);
+      setMessage(
+        error instanceof CustomGestureError
+          ? "ジェスチャーファイルの形式が正しくありません"
+          : "ジェスチャーファイルを読み込めませんでした"
+      );
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-600 p-4">
+      <h3 className="text-lg font-semibold text-gray-800 dark:text-white mb-4">
+        カスタムジェスチャー
+      </h3>
+
+      {/* Training */}
+      <div className="space-y-2">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="ジェスチャー名"
+          aria-label="ジェスチャー名"
+          className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-800 dark:text-white placeholder-gray-500 dark:placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={handleCaptureSample}
+            className="px-3 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors text-sm font-medium"
+          >
+            サンプルを記録
+          </button>
+          <span className="text-sm text-gray-600 dark:text-gray-300">
+            {samples.length} / {MIN_TEMPLATE_SAMPLES}
+          </span>
+          {samples.length > 0 && (
+            <button
+              onClick={() => setSamples([])}
+              className="text-sm text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300 transition-colors"
+            >
+              やり直す
+            </button>
+          )}
+        </div>
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          ジェスチャーをカメラに向けたまま、角度を少しずつ変えて
+          {MIN_TEMPLATE_SAMPLES}回以上記録してください
+        </p>
+        <button
+          onClick={handleSave}
+          disabled={!canSave}
+          className="w-full px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors text-sm font-medium"
+        >
+          ジェスチャーを保存
+        </button>
+      </div>
+
+      {message && (
+        <p className="mt-3 text-xs text-gray-700 dark:text-gray-300">
+          {message}
+        </p>
+      )}
+
+      {/* Saved gestures */}
+      {appState.customGestures.length > 0 && (
+        <ul className="mt-4 space-y-1">
+          {appState.customGestures.map((template) => (
+            <li
+              key={template.id}
+              className="flex items-center justify-between text-sm"
+            >
+              <span className="text-gray-800 dark:text-white">
+                ✨ {template.name}
+                <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
+                  ({template.samples.length}サンプル)
+                </span>
+              </span>
+              <button
+                onClick={() => deleteCustomGesture(template.id)}
+                className="text-xs text-red-600 dark:text-red-400 hover:text-red-800 dark:hover:text-red-300 transition-colors"
+                aria-label={`${template.name}を削除`}
+              >
+                削除
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* Export / import */}
+      <div className="flex space-x-2 mt-4">
+        <button
+          onClick={handleExport}
+          disabled={appState.customGestures.length === 0}
+          className="flex-1 px-3 py-2 bg-gray-300 dark:bg-gray-600 text-gray-800 dark:text-white rounded-lg hover:bg-gray-400 dark:hover:bg-gray-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors text-sm font-medium"
+        >
+          エクスポート
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex-1 px-3 py-2 bg-gray-300 dark:bg-gray-600 text-gray-800 dark:text-white rounded-lg hover:bg-gray-400 dark:hover:bg-gray-500 transition-colors text-sm font-medium"
+        >
+          インポート
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleImport}
+          className="hidden"
+          data-testid="custom-gesture-import"
+        />
+      </div>
+    </div>
+  );
+};
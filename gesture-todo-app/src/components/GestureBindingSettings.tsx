@@ -0,0 +1,139 @@
+/** @format */
+
+import React, { useEffect, useState } from "react";
+import { useApp } from "../contexts";
+import { GestureActionType, GestureBindings } from "../types";
+import {
+  BindingKey,
+  DEFAULT_GESTURE_BINDINGS,
+  GESTURE_ACTION_INFO,
+  GESTURE_ACTION_TYPES,
+  findBindingConflicts,
+  getBindingKeys,
+  getGestureDisplayInfo,
+} from "../services/gestureBindings";
+
+// Value used by the <select> for "no action"
+const UNBOUND = "";
+
+export const GestureBindingSettings: React.FC = () => {
+  const { state: appState, updateGestureBindings } = useApp();
+  const [draft, setDraft] = useState<GestureBindings>(appState.gestureBindings);
+  const [savedMessage, setSavedMessage] = useState<string | null>(null);
+
+  // Pick up bindings loaded from the database after mount
+  useEffect(() => {
+    setDraft(appState.gestureBindings);
+  }, [appState.gestureBindings]);
+
+  const { customGestures } = appState;
+  const bindingKeys = getBindingKeys(customGestures);
+  const conflicts = findBindingConflicts(draft);
+  const conflictingGestures = new Set(conflicts.flatMap((c) => c.gestures));
+  const isDirty = bindingKeys.some(
+    (gesture) =>
+      (draft[gesture] ?? null) !== (appState.gestureBindings[gesture] ?? null)
+  );
+
+  const handleChange = (gesture: BindingKey, value: string) => {
+    setDraft((prev) => ({
+      ...prev,
+      [gesture]: value === UNBOUND ? null : (value as GestureActionType),
+    }));
+    setSavedMessage(null);
+  };
+
+  const handleSave = async () => {
+    if (conflicts.length > 0) return;
+    await updateGestureBindings(draft);
+    setSavedMessage("ジェスチャー割り当てを保存しました");
+  };
+
+  const handleReset = () => {
+    setDraft(DEFAULT_GESTURE_BINDINGS);
+    setSavedMessage(null);
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-600 p-4">
+      <h3 className="text-lg font-semibold text-gray-800 dark:text-white mb-4">
+        ジェスチャー割り当て
+      </h3>
+
+      <div className="space-y-2">
+        {bindingKeys.map((gesture) => {
+          const info = getGestureDisplayInfo(gesture, customGestures);
+          const hasConflict = conflictingGestures.has(gesture);
+          return (
+            <div key={gesture} className="flex items-center space-x-3">
+              <span className="text-lg">{info.icon}</span>
+              <label
+                htmlFor={`binding-${gesture}`}
+                className={`flex-1 text-sm font-medium ${info.color}`}
+              >
+                {info.name}
+              </label>
+              <select
+                id={`binding-${gesture}`}
+                value={draft[gesture] ?? UNBOUND}
+                onChange={(e) => handleChange(gesture, e.target.value)}
+                aria-invalid={hasConflict}
+                className={`px-2 py-1 text-sm border rounded-lg bg-white dark:bg-gray-700 text-gray-800 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                  hasConflict
+                    ? "border-red-500"
+                    : "border-gray-300 dark:border-gray-600"
+                }`}
+              >
+                <option value={UNBOUND}>未割り当て</option>
+                {GESTURE_ACTION_TYPES.map((action) => (
+                  <option key={action} value={action}>
+                    {GESTURE_ACTION_INFO[action].label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          );
+        })}
+      </div>
+
+      {conflicts.length > 0 && (
+        <div
+          role="alert"
+          className="mt-3 p-2 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-700 rounded-lg"
+        >
+          {conflicts.map(({ action, gestures }) => (
+            <p key={action} className="text-xs text-red-700 dark:text-red-300">
+              「{GESTURE_ACTION_INFO[action].label}」が複数のジェスチャー（
+              {gestures
+                .map((g) => getGestureDisplayInfo(g, customGestures).name)
+                .join("、")}
+              ）に割り当てられています
+            </p>
+          ))}
+        </div>
+      )}
+
+      {savedMessage && (
+        <p className="mt-3 text-xs text-green-600 dark:text-green-400">
+          {savedMessage}
+        </p>
+      )}
+
+      <div className="flex space-x-2 mt-4">
+        <button
+          onClick={handleSave}
+          disabled={!isDirty || conflicts.length > 0}
+          className="flex-1 px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors text-sm font-medium"
+        >
+          保存
+        </button>
+        <button
+          onClick={handleReset}
+          className="flex-1 px-3 py-2 bg-gray-300 dark:bg-gray-600 text-gray-800 dark:text-white rounded-lg hover:bg-gray-400 dark:hover:bg-gray-500 transition-colors text-sm font-medium"
+        >
+          初期設定に戻す
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -1,119 +1,124 @@
 /** @format */
 
 import React, { useRef, useEffect, useState, useCallback } from "react";
-import { Hands, Results } from "@mediapipe/hands";
-import { Camera } from "@mediapipe/camera_utils";
 import { drawConnectors, drawLandmarks } from "@mediapipe/drawing_utils";
 import { HAND_CONNECTIONS } from "@mediapipe/hands";
 import { GestureType } from "../types";
+import {
+  LandmarkRecorder,
+  LandmarkRecording,
+} from "../services/landmarkRecording";
+import { HandsSource } from "../services/landmarkStream";
+
+const RECORDING_LABELS: GestureType[] = [
+  "thumbs_up",
+  "peace_sign",
+  "fist",
+  "point_up",
+  "two_fingers",
+  "open_palm",
+  "none",
+];
+
+export type CameraStatus =
+  | "initializing"
+  | "active"
+  | "error"
+  | "disabled"
+  | "permission_denied";
 
 interface GestureCameraProps {
   onGestureDetected: (gesture: GestureType) => void;
   isEnabled: boolean;
   onVideoElementReady?: (videoElement: HTMLVideoElement | null) => void;
+  onCameraStatusChange?: (status: CameraStatus) => void;
   onHandDetectionChange?: (isDetected: boolean) => void;
+  // Hands to draw over the video. The camera only captures; landmarks are
+  // detected once per frame by the gesture recognizer, which reads the
+  // video element.
+  landmarkStream?: HandsSource;
+  // Shows controls for recording landmark fixtures (see gestureReplay.ts)
+  recorderEnabled?: boolean;
+  onRecordingComplete?: (recording: LandmarkRecording) => void;
 }
 
-type CameraStatus =
-  | "initializing"
-  | "active"
-  | "error"
-  | "disabled"
-  | "permission_denied";
-
 export const GestureCamera: React.FC<GestureCameraProps> = ({
   onGestureDetected,
   isEnabled,
   onVideoElementReady,
+  onCameraStatusChange,
   onHandDetectionChange,
+  landmarkStream,
+  recorderEnabled = false,
+  onRecordingComplete,
 }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const handsRef = useRef<Hands | null>(null);
-  const cameraRef = useRef<Camera | null>(null);
+  const mediaStreamRef = useRef<MediaStream | null>(null);
+  // Bumped when the camera stops, so a start still waiting for permission
+  // releases the camera it gets
+  const sessionRef = useRef(0);
+  const recorderRef = useRef(new LandmarkRecorder());
+  // Time of the latest frame, on the stream's clock (the gesture worker's
+  // when recognition runs there)
+  const lastFrameTimeRef = useRef<number | null>(null);
+  const onGestureDetectedRef = useRef(onGestureDetected);
+  onGestureDetectedRef.current = onGestureDetected;
 
   const [cameraStatus, setCameraStatus] = useState<CameraStatus>("disabled");
   const [error, setError] = useState<string | null>(null);
   const [handsDetected, setHandsDetected] = useState(false);
+  const [isRecording, setIsRecording] = useState(false);
+  const [recordingLabel, setRecordingLabel] =
+    useState<GestureType>("thumbs_up");
+
+  // Draw the hands of each detected frame over the video
+  useEffect(() => {
+    if (!landmarkStream) return;
+
+    return landmarkStream.addHandsListener((hands, timestamp, controlling) => {
+      lastFrameTimeRef.current = timestamp;
+      // Record the hand the recognizer classified, as replays do
+      if (recorderRef.current.isRecording) {
+        recorderRef.current.addFrame(
+          controlling?.landmarks ?? null,
+          timestamp,
+          controlling?.handedness
+        );
+      }
 
-  // Handle MediaPipe results
-  const onResults = useCallback(
-    (results: Results) => {
-      if (!canvasRef.current) return;
+      setHandsDetected(hands.length > 0);
 
       const canvas = canvasRef.current;
-      const ctx = canvas.getContext("2d");
-      if (!ctx) return;
+      const ctx = canvas?.getContext("2d");
+      if (!canvas || !ctx) return;
 
-      // Clear canvas
       ctx.clearRect(0, 0, canvas.width, canvas.height);
-
-      // Draw the video frame
-      if (results.image) {
-        ctx.drawImage(results.image, 0, 0, canvas.width, canvas.height);
+      for (const { landmarks } of hands) {
+        drawConnectors(ctx, landmarks, HAND_CONNECTIONS, {
+          color: "#00FF00",
+          lineWidth: 2,
+        });
+        drawLandmarks(ctx, landmarks, {
+          color: "#FF0000",
+          lineWidth: 1,
+          radius: 3,
+        });
       }
+    });
+  }, [landmarkStream]);
 
-      // Check if hands are detected
-      const hasHands =
-        results.multiHandLandmarks && results.multiHandLandmarks.length > 0;
-      setHandsDetected(hasHands);
-
-      // Draw hand landmarks and connections
-      if (results.multiHandLandmarks) {
-        for (const landmarks of results.multiHandLandmarks) {
-          drawConnectors(ctx, landmarks, HAND_CONNECTIONS, {
-            color: "#00FF00",
-            lineWidth: 2,
-          });
-          drawLandmarks(ctx, landmarks, {
-            color: "#FF0000",
-            lineWidth: 1,
-            radius: 3,
-          });
-        }
-
-        // For now, just detect basic hand presence
-        // Actual gesture recognition will be implemented in task 6
-        if (hasHands) {
-          onGestureDetected("none"); // Placeholder - actual gesture detection in task 6
-        }
-      }
-    },
-    [onGestureDetected]
-  );
+  // Open the camera
+  const startCamera = useCallback(async () => {
+    const session = sessionRef.current;
 
-  // Initialize MediaPipe Hands
-  const initializeMediaPipe = useCallback(async () => {
     try {
       setCameraStatus("initializing");
       setError(null);
 
-      // Check if MediaPipe is available
-      if (typeof Hands === "undefined") {
-        throw new Error(
-          "MediaPipe Hands library is not available. Please check your internet connection."
-        );
-      }
-
-      // Initialize MediaPipe Hands
-      const hands = new Hands({
-        locateFile: (file) => {
-          return `https://cdn.jsdelivr.net/npm/@mediapipe/hands/${file}`;
-        },
-      });
-
-      hands.setOptions({
-        maxNumHands: 1,
-        modelComplexity: 1,
-        minDetectionConfidence: 0.5,
-        minTrackingConfidence: 0.5,
-      });
-
-      hands.onResults(onResults);
-      handsRef.current = hands;
-
       // Request camera access with proper error handling
-      if (!videoRef.current) {
+      const video = videoRef.current;
+      if (!video) {
         throw new Error("Video element not available");
       }
 
@@ -122,26 +127,22 @@ export const GestureCamera: React.FC<GestureCameraProps> = ({
         throw new Error("Camera access is not supported in this browser");
       }
 
-      const camera = new Camera(videoRef.current, {
-        onFrame: async () => {
-          if (handsRef.current && videoRef.current) {
-            try {
-              await handsRef.current.send({ image: videoRef.current });
-            } catch (frameError) {
-              console.warn("Frame processing error:", frameError);
-              // Don't throw here to avoid stopping the camera
-            }
-          }
-        },
-        width: 640,
-        height: 480,
+      const mediaStream = await navigator.mediaDevices.getUserMedia({
+        video: { width: 640, height: 480 },
       });
+      if (session !== sessionRef.current) {
+        mediaStream.getTracks().forEach((track) => track.stop());
+        return;
+      }
 
-      await camera.start();
-      cameraRef.current = camera;
+      mediaStreamRef.current = mediaStream;
+      video.srcObject = mediaStream;
+      await video.play();
       setCameraStatus("active");
     } catch (err) {
-      console.error("Failed to initialize MediaPipe:", err);
+      if (session !== sessionRef.current) return;
+
+      console.error("Failed to start camera:", err);
       const errorMessage = err instanceof Error ? err.message : "Unknown error";
 
       // Enhanced error categorization for better fallback handling
@@ -155,17 +156,7 @@ export const GestureCamera: React.FC<GestureCameraProps> = ({
           "カメラアクセスが拒否されました。従来のマウス・キーボード操作をご利用ください。ジェスチャー機能を使用するには、ブラウザの設定でカメラアクセスを許可してください。"
         );
         // Notify parent component to switch to fallback mode
-        onGestureDetected("none");
-      } else if (
-        errorMessage.includes("MediaPipe") ||
-        errorMessage.includes("not available") ||
-        errorMessage.includes("network") ||
-        errorMessage.includes("internet")
-      ) {
-        setCameraStatus("error");
-        setError(
-          "ジェスチャー認識ライブラリの読み込みに失敗しました。インターネット接続を確認してください。従来の操作をご利用いただけます。"
-        );
+        onGestureDetectedRef.current("none");
       } else if (
         errorMessage.includes("not supported") ||
         errorMessage.includes("getUserMedia")
@@ -181,17 +172,15 @@ export const GestureCamera: React.FC<GestureCameraProps> = ({
         );
       }
     }
-  }, [onResults, onGestureDetected]);
+  }, []);
 
-  // Cleanup function
-  const cleanup = useCallback(() => {
-    if (cameraRef.current) {
-      cameraRef.current.stop();
-      cameraRef.current = null;
-    }
-    if (handsRef.current) {
-      handsRef.current.close();
-      handsRef.current = null;
+  // Release the camera
+  const stopCamera = useCallback(() => {
+    sessionRef.current++;
+    mediaStreamRef.current?.getTracks().forEach((track) => track.stop());
+    mediaStreamRef.current = null;
+    if (videoRef.current) {
+      videoRef.current.srcObject = null;
     }
     setCameraStatus("disabled");
     setHandsDetected(false);
@@ -199,14 +188,15 @@ export const GestureCamera: React.FC<GestureCameraProps> = ({
 
   // Effect to handle enable/disable
   useEffect(() => {
-    if (isEnabled && cameraStatus === "disabled") {
-      initializeMediaPipe();
-    } else if (!isEnabled && cameraStatus !== "disabled") {
-      cleanup();
-    }
+    if (!isEnabled) return;
 
-    return cleanup;
-  }, [isEnabled, cameraStatus, initializeMediaPipe, cleanup]);
+    startCamera();
+    return stopCamera;
+  }, [isEnabled, startCamera, stopCamera]);
+
+  useEffect(() => {
+    onCameraStatusChange?.(cameraStatus);
+  }, [cameraStatus, onCameraStatusChange]);
 
   // Effect to notify parent about video element
   useEffect(() => {
@@ -222,14 +212,51 @@ export const GestureCamera: React.FC<GestureCameraProps> = ({
     }
   }, [handsDetected, cameraStatus, onHandDetectionChange]);
 
+  // Landmark recorder controls
+  const handleToggleRecording = () => {
+    const recorder = recorderRef.current;
+
+    if (!recorder.isRecording) {
+      recorder.start(
+        recordingLabel,
+        lastFrameTimeRef.current ?? performance.now()
+      );
+      setIsRecording(true);
+      return;
+    }
+
+    const recording = recorder.stop(`${recordingLabel}-${Date.now()}`);
+    setIsRecording(false);
+
+    if (onRecordingComplete) {
+      onRecordingComplete(recording);
+      return;
+    }
+
+    // Default: download the recording as a JSON fixture
+    const blob = new Blob([JSON.stringify(recording)], {
+      type: "application/json",
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${recording.name}.recording.json`;
+    link.click();
+    // Revoking right away can cancel the download before it starts
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  };
+
+  const handleRecordingLabelChange = (label: GestureType) => {
+    setRecordingLabel(label);
+    recorderRef.current.setLabel(label);
+  };
+
   // Retry function for error states
   const handleRetry = () => {
-    cleanup();
-    setTimeout(() => {
-      if (isEnabled) {
-        initializeMediaPipe();
-      }
-    }, 100);
+    stopCamera();
+    if (isEnabled) {
+      startCamera();
+    }
   };
 
   if (!isEnabled) {
@@ -321,21 +348,21 @@ export const GestureCamera: React.FC<GestureCameraProps> = ({
         className="relative bg-black rounded-lg overflow-hidden"
         style={{ aspectRatio: "4/3" }}
       >
-        {/* Video element (hidden) */}
+        {/* Camera video */}
         <video
           ref={videoRef}
-          className="absolute inset-0 w-full h-full object-cover opacity-0"
+          className="absolute inset-0 w-full h-full object-cover"
           autoPlay
           muted
           playsInline
         />
 
-        {/* Canvas for MediaPipe visualization */}
+        {/* Canvas for the detected hands, over the video */}
         <canvas
           ref={canvasRef}
           width={640}
           height={480}
-          className="w-full h-full object-cover"
+          className="absolute inset-0 w-full h-full object-cover"
         />
 
         {/* Loading overlay */}
@@ -408,6 +435,39 @@ export const GestureCamera: React.FC<GestureCameraProps> = ({
         )}
       </div>
 
+      {/* Landmark recorder */}
+      {recorderEnabled && cameraStatus === "active" && (
+        <div className="mt-3 flex items-center space-x-2 text-sm">
+          <select
+            value={recordingLabel}
+            onChange={(e) =>
+              handleRecordingLabelChange(e.target.value as GestureType)
+            }
+            className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-800 dark:text-white"
+            aria-label="録画ラベル"
+          >
+            {RECORDING_LABELS.map((label) => (
+              <option key={label} value={label}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={handleToggleRecording}
+            className={`px-3 py-1 text-white rounded transition-colors ${
+              isRecording
+                ? "bg-red-600 hover:bg-red-700"
+                : "bg-gray-600 hover:bg-gray-700"
+            }`}
+          >
+            {isRecording ? "録画停止" : "ランドマーク録画"}
+          </button>
+          {isRecording && (
+            <span className="text-red-600 dark:text-red-400">● REC</span>
+          )}
+        </div>
+      )}
+
       {/* Instructions */}
       {cameraStatus === "active" && (
         <div className="mt-3 text-sm text-gray-600 dark:text-gray-300 text-center">
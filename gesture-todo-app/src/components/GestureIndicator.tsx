@@ -1,89 +1,185 @@
 /** @format */
 
-import React, { useState } from "react";
-import { GestureType } from "../types";
+import React, { useEffect, useState } from "react";
+import {
+  CustomGestureTemplate,
+  GestureBindings,
+  GestureScore,
+  PendingConfirmation,
+  RecognizedGesture,
+} from "../types";
+import {
+  DEFAULT_GESTURE_BINDINGS,
+  GESTURE_ACTION_INFO,
+  getBindingKeys,
+  getBoundAction,
+  getGestureDisplayInfo,
+} from "../services/gestureBindings";
+import { GestureScoresSource } from "../services/landmarkStream";
 
 interface GestureIndicatorProps {
-  currentGesture: GestureType | null;
+  currentGesture: RecognizedGesture | null;
   isHandDetected: boolean;
   showGuide?: boolean;
+  // Live gesture-to-action mapping; the guide shows what each gesture does
+  bindings?: GestureBindings;
+  // User-trained gestures, listed in the guide after the built-in ones
+  customGestures?: CustomGestureTemplate[];
+  // Destructive action waiting for confirmation; shown as a countdown
+  confirmation?: PendingConfirmation | null;
+  // Live gesture scores, shown as bars for the likeliest gestures
+  scoreSource?: GestureScoresSource;
 }
 
-// Gesture information mapping
-const GESTURE_INFO: Record<
-  GestureType,
-  {
-    name: string;
-    description: string;
-    action: string;
-    icon: string;
-    color: string;
+// Gestures shown as candidates, if they score at least MIN_CANDIDATE_SCORE
+const CANDIDATE_COUNT = 3;
+const MIN_CANDIDATE_SCORE = 0.01;
+
+const actionLabel = (bindings: GestureBindings, gesture: RecognizedGesture) => {
+  const action = getBoundAction(bindings, gesture);
+  return action ? GESTURE_ACTION_INFO[action].label : "未割り当て";
+};
+
+const ConfirmationOverlay: React.FC<{
+  confirmation: PendingConfirmation;
+  customGestures: CustomGestureTemplate[];
+}> = ({ confirmation, customGestures }) => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 100);
+    return () => clearInterval(timer);
+  }, []);
+
+  const total = confirmation.expiresAt - confirmation.armedAt;
+  const remaining = Math.max(0, confirmation.expiresAt - now);
+  const held =
+    confirmation.heldSince === null
+      ? 0
+      : Math.min(1, (now - confirmation.heldSince) / confirmation.holdDuration);
+  const iconOf = (gesture: RecognizedGesture) =>
+    getGestureDisplayInfo(gesture, customGestures).icon;
+
+  return (
+    <div
+      role="alert"
+      className="absolute inset-0 z-10 flex flex-col justify-center p-4 rounded-lg bg-red-50/95 dark:bg-red-900/90 border-2 border-red-400"
+    >
+      <p className="font-semibold text-red-800 dark:text-red-100">
+        「{GESTURE_ACTION_INFO[confirmation.action].label}」を実行しますか？
+      </p>
+      <p className="mt-1 text-sm text-red-700 dark:text-red-200">
+        {`${iconOf(confirmation.confirmGesture)} で実行、${iconOf(
+          confirmation.abortGesture
+        )} で中止（${iconOf(confirmation.gesture)} を保持しても実行）`}
+      </p>
+
+      {/* Countdown until the action is dropped */}
+      <div className="mt-3 flex items-center space-x-2">
+        <div className="flex-1 h-2 bg-red-200 dark:bg-red-800 rounded-full overflow-hidden">
+          <div
+            className="h-full bg-red-500 transition-all duration-100"
+            style={{ width: `${(remaining / total) * 100}%` }}
+          ></div>
+        </div>
+        <span className="text-xs font-medium text-red-700 dark:text-red-200">
+          残り {Math.ceil(remaining / 1000)} 秒
+        </span>
+      </div>
+
+      {held > 0 && (
+        <div className="mt-2 h-1 bg-red-200 dark:bg-red-800 rounded-full overflow-hidden">
+          <div
+            data-testid="confirmation-hold-progress"
+            className="h-full bg-red-700"
+            style={{ width: `${held * 100}%` }}
+          ></div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const GestureScoreBars: React.FC<{
+  source: GestureScoresSource;
+  customGestures: CustomGestureTemplate[];
+}> = ({ source, customGestures }) => {
+  const [scores, setScores] = useState<GestureScore[]>([]);
+
+  useEffect(() => source.addScoresListener(setScores), [source]);
+
+  const candidates = scores
+    .filter(
+      ({ gesture, score }) => gesture !== "none" && score >= MIN_CANDIDATE_SCORE
+    )
+    .slice(0, CANDIDATE_COUNT);
+  if (candidates.length === 0) {
+    return null;
   }
-> = {
-  thumbs_up: {
-    name: "親指立て",
-    description: "Thumbs Up",
-    action: "新しいタスクを追加",
-    icon: "👍",
-    color: "text-green-500",
-  },
-  peace_sign: {
-    name: "ピースサイン",
-    description: "Peace Sign",
-    action: "タスクを完了にする",
-    icon: "✌️",
-    color: "text-blue-500",
-  },
-  fist: {
-    name: "握りこぶし",
-    description: "Fist",
-    action: "タスクを削除",
-    icon: "✊",
-    color: "text-red-500",
-  },
-  point_up: {
-    name: "人差し指立て",
-    description: "Point Up",
-    action: "上のタスクを選択",
-    icon: "☝️",
-    color: "text-purple-500",
-  },
-  two_fingers: {
-    name: "2本指立て",
-    description: "Two Fingers",
-    action: "下のタスクを選択",
-    icon: "✌️",
-    color: "text-purple-500",
-  },
-  open_palm: {
-    name: "開いた手のひら",
-    description: "Open Palm",
-    action: "操作をキャンセル",
-    icon: "🖐️",
-    color: "text-gray-500",
-  },
-  none: {
-    name: "なし",
-    description: "None",
-    action: "ジェスチャーなし",
-    icon: "🤚",
-    color: "text-gray-400",
-  },
+
+  return (
+    <div className="mb-4">
+      <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
+        認識候補
+      </span>
+      <ul className="mt-2 space-y-1">
+        {candidates.map(({ gesture, score }, index) => {
+          const info = getGestureDisplayInfo(gesture, customGestures);
+          const percent = Math.round(score * 100);
+          return (
+            <li key={gesture} className="flex items-center space-x-2 text-sm">
+              <span className="w-6 text-center">{info.icon}</span>
+              <span className="w-24 truncate text-gray-700 dark:text-gray-300">
+                {info.name}
+              </span>
+              <div className="flex-1 h-2 bg-gray-200 dark:bg-gray-600 rounded-full overflow-hidden">
+                <div
+                  role="progressbar"
+                  aria-label={info.name}
+                  aria-valuemin={0}
+                  aria-valuemax={100}
+                  aria-valuenow={percent}
+                  className={`h-full transition-all duration-100 ${
+                    index === 0 ? "bg-green-500" : "bg-blue-400"
+                  }`}
+                  style={{ width: `${percent}%` }}
+                ></div>
+              </div>
+              <span className="w-10 text-right text-xs text-gray-500 dark:text-gray-400">
+                {percent}%
+              </span>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
 };
 
 export const GestureIndicator: React.FC<GestureIndicatorProps> = ({
   currentGesture,
   isHandDetected,
   showGuide = false,
+  bindings = DEFAULT_GESTURE_BINDINGS,
+  customGestures = [],
+  confirmation = null,
+  scoreSource,
 }) => {
   const [isGuideExpanded, setIsGuideExpanded] = useState(showGuide);
 
   const currentGestureInfo = currentGesture
-    ? GESTURE_INFO[currentGesture]
+    ? getGestureDisplayInfo(currentGesture, customGestures)
     : null;
 
   return (
-    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-600 p-4">
+    <div className="relative bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-600 p-4">
+      {confirmation && (
+        <ConfirmationOverlay
+          confirmation={confirmation}
+          customGestures={customGestures}
+        />
+      )}
+
       {/* Header */}
       <div className="flex items-center justify-between mb-4">
         <h3 className="text-lg font-semibold text-gray-800 dark:text-white">
@@ -124,7 +220,7 @@ export const GestureIndicator: React.FC<GestureIndicatorProps> = ({
           </span>
         </div>
 
-        {currentGestureInfo && currentGesture !== "none" ? (
+        {currentGesture && currentGestureInfo && currentGesture !== "none" ? (
           <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-3">
             <div className="flex items-center space-x-3">
               <span className="text-2xl">{currentGestureInfo.icon}</span>
@@ -133,7 +229,7 @@ export const GestureIndicator: React.FC<GestureIndicatorProps> = ({
                   {currentGestureInfo.name}
                 </p>
                 <p className="text-sm text-gray-600 dark:text-gray-400">
-                  {currentGestureInfo.action}
+                  {actionLabel(bindings, currentGesture)}
                 </p>
               </div>
             </div>
@@ -153,6 +249,14 @@ export const GestureIndicator: React.FC<GestureIndicatorProps> = ({
         )}
       </div>
 
+      {/* Scores of the likeliest gestures */}
+      {scoreSource && isHandDetected && (
+        <GestureScoreBars
+          source={scoreSource}
+          customGestures={customGestures}
+        />
+      )}
+
       {/* Gesture Guide */}
       {isGuideExpanded && (
         <div className="border-t border-gray-200 dark:border-gray-600 pt-4">
@@ -160,9 +264,9 @@ export const GestureIndicator: React.FC<GestureIndicatorProps> = ({
             ジェスチャーガイド
           </h4>
           <div className="space-y-2">
-            {Object.entries(GESTURE_INFO)
-              .filter(([key]) => key !== "none")
-              .map(([key, info]) => (
+            {getBindingKeys(customGestures).map((key) => {
+              const info = getGestureDisplayInfo(key, customGestures);
+              return (
                 <div
                   key={key}
                   className={`flex items-center space-x-3 p-2 rounded-lg transition-colors ${
@@ -182,14 +286,15 @@ export const GestureIndicator: React.FC<GestureIndicatorProps> = ({
                       </span>
                     </div>
                     <p className="text-xs text-gray-600 dark:text-gray-400">
-                      {info.action}
+                      {actionLabel(bindings, key)}
                     </p>
                   </div>
                   {currentGesture === key && (
                     <div className="w-2 h-2 bg-blue-500 rounded-full animate-pulse"></div>
                   )}
                 </div>
-              ))}
+              );
+            })}
           </div>
         </div>
       )}
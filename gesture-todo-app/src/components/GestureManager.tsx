@@ -1,65 +1,105 @@
 /** @format */
 
-import React, { useEffect, useRef, useState, useCallback } from "react";
+import React, {
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  useCallback,
+} from "react";
 import {
-  GestureRecognizer,
   GestureRecognitionError,
   MediaPipeInitializationError,
   FrameProcessingError,
 } from "../services/gestureRecognizer";
 import { useTodo, useApp } from "../contexts";
-import { GestureType } from "../types";
+import {
+  GestureActionType,
+  PendingConfirmation,
+  RecognizedGesture,
+  Task,
+} from "../types";
+import {
+  GESTURE_ACTION_INFO,
+  SELECTION_PAGE_SIZE,
+  findGestureForAction,
+  getBindingKeys,
+  getBoundAction,
+  getGestureDisplayInfo,
+} from "../services/gestureBindings";
+import {
+  ConfirmationOutcome,
+  GestureConfirmation,
+} from "../services/gestureConfirmation";
+import {
+  DictationError,
+  SpeechRecognitionProvider,
+  appendTranscript,
+  createDefaultSpeechRecognitionProvider,
+} from "../services/speechRecognition";
+import { isTaskQueryActive } from "../services/taskQuery";
+import { toRecognizerConfig } from "../services/appSettings";
+import {
+  GestureInference,
+  startGestureRecognition,
+} from "../services/gestureInference";
+import { LandmarkStream } from "../services/landmarkStream";
+import { FrameScheduler } from "../services/frameScheduler";
+import { getSubtasks } from "../utils/taskTree";
+import { CLOSE_KEY, VirtualKeyboard, applyVirtualKey } from "./VirtualKeyboard";
+import { PointerModeOverlay } from "./PointerModeOverlay";
 
 interface GestureManagerProps {
   videoElement: HTMLVideoElement | null;
   isEnabled: boolean;
+  // Shares the hands the recognizer detects with the rest of the app
+  landmarkStream?: LandmarkStream;
+  // Speech-to-text for the add task dialog; defaults to the Web Speech API
+  speechProvider?: SpeechRecognitionProvider;
 }
 
 interface GestureAction {
-  type: "add" | "complete" | "delete" | "navigate" | "cancel";
+  type: GestureActionType;
   description: string;
   icon: string;
 }
 
-const GESTURE_ACTIONS: Record<GestureType, GestureAction | null> = {
-  thumbs_up: {
-    type: "add",
-    description: "新しいタスクを追加",
-    icon: "👍",
-  },
-  peace_sign: {
-    type: "complete",
-    description: "タスクを完了",
-    icon: "✌️",
-  },
-  fist: {
-    type: "delete",
-    description: "タスクを削除",
-    icon: "✊",
-  },
-  point_up: {
-    type: "navigate",
-    description: "上に移動",
-    icon: "☝️",
-  },
-  two_fingers: {
-    type: "navigate",
-    description: "下に移動",
-    icon: "✌️",
-  },
-  open_palm: {
-    type: "cancel",
-    description: "操作をキャンセル",
-    icon: "✋",
-  },
-  none: null,
+// How often the held pose and timeout of an armed action are checked
+const CONFIRMATION_POLL_INTERVAL = 100;
+
+// Actions that act on a grabbed task; any other action puts it down first
+const GRAB_ACTIONS: GestureActionType[] = [
+  "grab",
+  "navigate_up",
+  "navigate_down",
+  "page_up",
+  "page_down",
+  "cancel",
+];
+
+const getDictationErrorMessage = (error: DictationError) => {
+  switch (error.code) {
+    case "unsupported":
+      return "このブラウザは音声入力に対応していません";
+    case "not-allowed":
+    case "service-not-allowed":
+      return "マイクの使用が許可されていません";
+    case "no-speech":
+      return "音声が検出されませんでした";
+    default:
+      return "音声入力でエラーが発生しました";
+  }
 };
 
 export const GestureManager: React.FC<GestureManagerProps> = ({
   videoElement,
   isEnabled,
+  landmarkStream,
+  speechProvider,
 }) => {
-  const gestureRecognizerRef = useRef<GestureRecognizer | null>(null);
+  const gestureRecognizerRef = useRef<GestureInference | null>(null);
+  const frameSchedulerRef = useRef<FrameScheduler | null>(null);
+  const confirmationRef = useRef(new GestureConfirmation());
   const [isInitialized, setIsInitialized] = useState(false);
   const [currentAction, setCurrentAction] = useState<GestureAction | null>(
     null
@@ -68,6 +108,11 @@ export const GestureManager: React.FC<GestureManagerProps> = ({
   const [feedbackMessage, setFeedbackMessage] = useState<string | null>(null);
   const [showAddTaskDialog, setShowAddTaskDialog] = useState(false);
   const [newTaskText, setNewTaskText] = useState("");
+  const [isDictating, setIsDictating] = useState(false);
+  const [interimTranscript, setInterimTranscript] = useState("");
+  const [showKeyboard, setShowKeyboard] = useState(false);
+  // The index fingertip drives a cursor instead of issuing commands
+  const [pointerMode, setPointerMode] = useState(false);
   const [gestureError, setGestureError] = useState<string | null>(null);
   const [fallbackMode, setFallbackMode] = useState(false);
   const [retryCount, setRetryCount] = useState(0);
@@ -76,14 +121,65 @@ export const GestureManager: React.FC<GestureManagerProps> = ({
   const {
     state: todoState,
     addTask,
+    updateTask,
     toggleTaskCompletion,
     deleteTask,
+    moveTask,
+    undoState,
+    undo,
+    redo,
     moveSelection,
+    setSelectedTask,
+    clearSelection,
     setCurrentGesture,
+    setPendingConfirmation,
+    setGrabbedTask,
+    cycleList,
     setGestureMode,
   } = useTodo();
+  // Order key of the grabbed task when it was picked up, for cancel
+  const grabOriginRef = useRef<string | null>(null);
+
+  const { state: appState, updateGestureSettings } = useApp();
 
-  const { state: appState } = useApp();
+  const dictation = useMemo(
+    () => speechProvider ?? createDefaultSpeechRecognitionProvider(),
+    [speechProvider]
+  );
+
+  // Dictate into the add task dialog; final text is appended to the input and
+  // the interim text is shown until it settles
+  const startDictation = useCallback(() => {
+    if (!dictation.isSupported) {
+      setFeedbackMessage("このブラウザは音声入力に対応していません");
+      return;
+    }
+
+    setInterimTranscript("");
+    setIsDictating(true);
+    dictation.start({
+      onTranscript: ({ final, interim }) => {
+        if (final) {
+          setNewTaskText((text) => appendTranscript(text, final));
+        }
+        setInterimTranscript(interim);
+      },
+      onError: (error) => {
+        console.error("Dictation error:", error);
+        setFeedbackMessage(getDictationErrorMessage(error));
+      },
+      onEnd: () => {
+        setIsDictating(false);
+        setInterimTranscript("");
+      },
+    });
+  }, [dictation]);
+
+  const stopDictation = useCallback(() => {
+    dictation.abort();
+    setIsDictating(false);
+    setInterimTranscript("");
+  }, [dictation]);
 
   // Handle gesture recognition errors
   const handleGestureError = useCallback(
@@ -165,6 +261,14 @@ export const GestureManager: React.FC<GestureManagerProps> = ({
     [retryCount, maxRetries, setGestureMode, gestureError, feedbackMessage]
   );
 
+  // Stop sending frames and release the recognizer
+  const disposeGestureRecognizer = useCallback(() => {
+    frameSchedulerRef.current?.stop();
+    frameSchedulerRef.current = null;
+    gestureRecognizerRef.current?.dispose();
+    gestureRecognizerRef.current = null;
+  }, []);
+
   // Retry gesture recognition
   const retryGestureRecognition = useCallback(() => {
     if (retryCount < maxRetries && videoElement) {
@@ -173,38 +277,64 @@ export const GestureManager: React.FC<GestureManagerProps> = ({
       setFallbackMode(false);
 
       // Reinitialize gesture recognizer
-      if (gestureRecognizerRef.current) {
-        gestureRecognizerRef.current.dispose();
-        gestureRecognizerRef.current = null;
-      }
-
+      disposeGestureRecognizer();
       setIsInitialized(false);
     }
-  }, [retryCount, maxRetries, videoElement]);
+  }, [retryCount, maxRetries, videoElement, disposeGestureRecognizer]);
 
-  // Handle gesture detection
-  const handleGestureDetected = useCallback(
-    async (gesture: GestureType) => {
-      if (!isEnabled || isProcessing) return;
-
-      setCurrentGesture(gesture);
-      const action = GESTURE_ACTIONS[gesture];
-      setCurrentAction(action);
+  // Move the grabbed task by `steps` among the tasks of its group: its
+  // sibling tasks, split by completion at the top level as in the list
+  const moveGrabbedTask = useCallback(
+    async (task: Task, steps: number) => {
+      const siblings = todoState.tasks.filter(
+        (t) => t.parentId === task.parentId
+      );
+      const group = siblings.filter(
+        (t) => t.parentId !== null || t.completed === task.completed
+      );
+      const from = group.indexOf(task);
+      const to = Math.max(0, Math.min(from + steps, group.length - 1));
+      if (to === from) {
+        setFeedbackMessage("これ以上移動できません");
+        return;
+      }
 
-      if (!action) return;
+      // Land just before (moving up) or after (moving down) the task there
+      const anchor = siblings
+        .filter((t) => t.id !== task.id)
+        .indexOf(group[to]);
+      await moveTask(task.id, steps < 0 ? anchor : anchor + 1);
+      setFeedbackMessage(
+        `タスク「${task.text}」を${steps < 0 ? "上" : "下"}に移動しました`
+      );
+    },
+    [todoState.tasks, moveTask]
+  );
 
+  // Run a gesture action. `taskId` pins the task a confirmed action was
+  // armed for; otherwise the selected task is used.
+  const runAction = useCallback(
+    async (type: GestureActionType, taskId?: string) => {
       setIsProcessing(true);
+      const grabbedTask = todoState.tasks.find(
+        (task) => task.id === todoState.grabbedTaskId
+      );
 
       try {
-        switch (action.type) {
+        switch (type) {
           case "add":
             setShowAddTaskDialog(true);
             setFeedbackMessage("新しいタスクを追加します");
+            // Opened hands-free, so take the text by voice too
+            if (dictation.isSupported) {
+              startDictation();
+            }
             break;
 
           case "complete":
             if (todoState.selectedTaskIndex >= 0) {
-              const selectedTask = todoState.tasks[todoState.selectedTaskIndex];
+              const selectedTask =
+                todoState.visibleTasks[todoState.selectedTaskIndex];
               if (selectedTask) {
                 await toggleTaskCompletion(selectedTask.id);
                 setFeedbackMessage(
@@ -218,23 +348,31 @@ export const GestureManager: React.FC<GestureManagerProps> = ({
             }
             break;
 
-          case "delete":
-            if (todoState.selectedTaskIndex >= 0) {
-              const selectedTask = todoState.tasks[todoState.selectedTaskIndex];
-              if (selectedTask) {
-                await deleteTask(selectedTask.id);
-                setFeedbackMessage(
-                  `タスク「${selectedTask.text}」を削除しました`
-                );
-              }
+          case "delete": {
+            const selectedTask =
+              taskId !== undefined
+                ? todoState.tasks.find((task) => task.id === taskId)
+                : todoState.visibleTasks[todoState.selectedTaskIndex];
+            if (selectedTask) {
+              await deleteTask(selectedTask.id);
+              setFeedbackMessage(
+                `タスク「${selectedTask.text}」を削除しました`
+              );
             } else {
               setFeedbackMessage("削除するタスクを選択してください");
             }
             break;
+          }
 
-          case "navigate":
-            if (todoState.tasks.length > 0) {
-              const direction = gesture === "point_up" ? "up" : "down";
+          case "navigate_up":
+          case "navigate_down":
+            if (grabbedTask) {
+              await moveGrabbedTask(
+                grabbedTask,
+                type === "navigate_up" ? -1 : 1
+              );
+            } else if (todoState.visibleTasks.length > 0) {
+              const direction = type === "navigate_up" ? "up" : "down";
               moveSelection(direction);
               setFeedbackMessage(
                 `選択を${direction === "up" ? "上" : "下"}に移動しました`
@@ -244,7 +382,134 @@ export const GestureManager: React.FC<GestureManagerProps> = ({
             }
             break;
 
+          case "step_in":
+          case "step_out": {
+            const selectedTask =
+              todoState.visibleTasks[todoState.selectedTaskIndex];
+            const target =
+              type === "step_in"
+                ? selectedTask &&
+                  getSubtasks(todoState.tasks, selectedTask.id)[0]
+                : todoState.tasks.find(
+                    (task) => task.id === selectedTask?.parentId
+                  );
+            // Filtered lists only step to tasks they show
+            const isListed =
+              !!target &&
+              (!isTaskQueryActive(todoState.taskQuery) ||
+                todoState.visibleTasks.includes(target));
+            if (selectedTask && target && isListed) {
+              moveSelection(type === "step_in" ? "in" : "out");
+              setFeedbackMessage(`タスク「${target.text}」を選択しました`);
+            } else {
+              setFeedbackMessage(
+                type === "step_in"
+                  ? "サブタスクがありません"
+                  : "親タスクがありません"
+              );
+            }
+            break;
+          }
+
+          case "page_up":
+          case "page_down":
+            if (grabbedTask) {
+              await moveGrabbedTask(
+                grabbedTask,
+                type === "page_up" ? -SELECTION_PAGE_SIZE : SELECTION_PAGE_SIZE
+              );
+            } else if (todoState.visibleTasks.length > 0) {
+              const direction = type === "page_up" ? "up" : "down";
+              const step =
+                direction === "up" ? -SELECTION_PAGE_SIZE : SELECTION_PAGE_SIZE;
+              // Unlike single steps, jumps stop at the ends of the list
+              setSelectedTask(Math.max(0, todoState.selectedTaskIndex + step));
+              setFeedbackMessage(
+                `選択を${SELECTION_PAGE_SIZE}件${
+                  direction === "up" ? "上" : "下"
+                }に移動しました`
+              );
+            } else {
+              setFeedbackMessage("移動できるタスクがありません");
+            }
+            break;
+
+          case "clear_selection":
+            clearSelection();
+            setFeedbackMessage("選択を解除しました");
+            break;
+
+          case "undo":
+          case "redo": {
+            const undoing = type === "undo";
+            if (undoing ? undoState.canUndo : undoState.canRedo) {
+              await (undoing ? undo() : redo());
+              setFeedbackMessage(
+                undoing ? "直前の操作を元に戻しました" : "操作をやり直しました"
+              );
+            } else {
+              setFeedbackMessage(
+                undoing
+                  ? "元に戻せる操作がありません"
+                  : "やり直せる操作がありません"
+              );
+            }
+            break;
+          }
+
+          case "toggle_pointer_mode":
+            setPointerMode(true);
+            setFeedbackMessage(
+              "ポインターモード: 人差し指で指し、つまんでクリックします"
+            );
+            break;
+
+          case "grab": {
+            if (grabbedTask) {
+              setGrabbedTask(null);
+              setFeedbackMessage(`タスク「${grabbedTask.text}」を置きました`);
+              break;
+            }
+            // The index can be stale, e.g. once a filter hides the task
+            const selectedTask =
+              todoState.visibleTasks[todoState.selectedTaskIndex];
+            if (!selectedTask) {
+              setFeedbackMessage("つかむタスクを選択してください");
+              break;
+            }
+            grabOriginRef.current = selectedTask.order;
+            setGrabbedTask(selectedTask.id);
+            setFeedbackMessage(
+              `タスク「${selectedTask.text}」をつかみました。上下に移動して並べ替えます`
+            );
+            break;
+          }
+
+          case "next_list":
+          case "previous_list": {
+            const list = await cycleList(type === "next_list" ? 1 : -1);
+            setFeedbackMessage(
+              list
+                ? `リスト「${list.name}」に切り替えました`
+                : "切り替えられるリストがありません"
+            );
+            break;
+          }
+
           case "cancel":
+            // Put a grabbed task back where it was picked up
+            if (grabbedTask) {
+              const origin = grabOriginRef.current;
+              if (origin !== null && origin !== grabbedTask.order) {
+                await updateTask(grabbedTask.id, { order: origin });
+              }
+              setGrabbedTask(null);
+              setFeedbackMessage(
+                `タスク「${grabbedTask.text}」を元の位置に戻しました`
+              );
+              break;
+            }
+            stopDictation();
             setShowAddTaskDialog(false);
             setNewTaskText("");
             setFeedbackMessage("操作をキャンセルしました");
@@ -263,80 +528,281 @@ export const GestureManager: React.FC<GestureManagerProps> = ({
       }
     },
     [
-      isEnabled,
-      isProcessing,
       todoState.selectedTaskIndex,
       todoState.tasks,
+      todoState.visibleTasks,
+      todoState.grabbedTaskId,
+      updateTask,
       toggleTaskCompletion,
       deleteTask,
+      moveGrabbedTask,
+      setGrabbedTask,
+      cycleList,
+      undoState,
+      undo,
+      redo,
       moveSelection,
+      setSelectedTask,
+      clearSelection,
+      dictation,
+      startDictation,
+      stopDictation,
+    ]
+  );
+
+  // Settle an armed destructive action
+  const finishConfirmation = useCallback(
+    async (pending: PendingConfirmation, outcome: ConfirmationOutcome) => {
+      setPendingConfirmation(null);
+
+      if (outcome === "confirmed") {
+        await runAction(pending.action, pending.taskId);
+        return;
+      }
+
+      setFeedbackMessage(
+        `「${GESTURE_ACTION_INFO[pending.action].shortLabel}」を中止しました`
+      );
+      setCurrentAction(null);
+      setTimeout(() => setFeedbackMessage(null), 3000);
+    },
+    [runAction, setPendingConfirmation]
+  );
+
+  // Handle add task dialog. Text still being dictated is kept.
+  const handleAddTask = useCallback(async () => {
+    const text = appendTranscript(newTaskText, interimTranscript).trim();
+    if (text) {
+      stopDictation();
+      try {
+        await addTask(text);
+        setFeedbackMessage(`新しいタスク「${text}」を追加しました`);
+        setNewTaskText("");
+        setShowAddTaskDialog(false);
+      } catch (error) {
+        console.error("Failed to add task:", error);
+        setFeedbackMessage("タスクの追加に失敗しました");
+      }
+    }
+  }, [newTaskText, interimTranscript, stopDictation, addTask]);
+
+  // Handle gesture detection
+  const handleGestureDetected = useCallback(
+    async (gesture: RecognizedGesture) => {
+      if (!isEnabled || isProcessing) return;
+
+      setCurrentGesture(gesture);
+      const confirmation = confirmationRef.current;
+
+      // While a destructive action is armed, gestures only confirm or abort it
+      const pending = confirmation.getPending();
+      if (pending) {
+        const outcome = confirmation.handleGesture(gesture, Date.now());
+        if (outcome) {
+          await finishConfirmation(pending, outcome);
+        }
+        return;
+      }
+
+      const actionType = getBoundAction(appState.gestureBindings, gesture);
+      const action: GestureAction | null = actionType && {
+        type: actionType,
+        description: GESTURE_ACTION_INFO[actionType].shortLabel,
+        icon: getGestureDisplayInfo(gesture, appState.customGestures).icon,
+      };
+      setCurrentAction(action);
+
+      if (!action) return;
+
+      // In pointer mode the hand is a cursor; the only command is to leave
+      if (pointerMode) {
+        if (action.type === "toggle_pointer_mode" || action.type === "cancel") {
+          setPointerMode(false);
+          setFeedbackMessage("コマンドモードに戻りました");
+        }
+        return;
+      }
+
+      // The add task dialog takes only accept (the add gesture again) and
+      // cancel, so stray poses while dictating do not touch the list
+      if (showAddTaskDialog) {
+        if (action.type === "add") {
+          await handleAddTask();
+        } else if (action.type === "cancel") {
+          await runAction(action.type);
+        }
+        return;
+      }
+
+      if (todoState.grabbedTaskId && !GRAB_ACTIONS.includes(action.type)) {
+        setGrabbedTask(null);
+      }
+
+      const selectedTask = todoState.visibleTasks[todoState.selectedTaskIndex];
+      if (confirmation.requiresConfirmation(action.type) && selectedTask) {
+        setPendingConfirmation(
+          confirmation.arm(action.type, gesture, Date.now(), selectedTask.id)
+        );
+        setFeedbackMessage(
+          `「${selectedTask.text}」: ${action.description}の確認待ち`
+        );
+        return;
+      }
+
+      await runAction(action.type);
+    },
+    [
+      isEnabled,
+      isProcessing,
+      appState.gestureBindings,
+      appState.customGestures,
+      todoState.selectedTaskIndex,
+      todoState.tasks,
+      todoState.visibleTasks,
+      todoState.grabbedTaskId,
+      pointerMode,
+      showAddTaskDialog,
+      handleAddTask,
+      runAction,
+      finishConfirmation,
       setCurrentGesture,
-      addTask,
+      setPendingConfirmation,
+      setGrabbedTask,
     ]
   );
 
+  // Track the held pose and the timeout of an armed action
+  const finishConfirmationRef = useRef(finishConfirmation);
+  finishConfirmationRef.current = finishConfirmation;
+  const isArmed = todoState.pendingConfirmation !== null;
+
+  useEffect(() => {
+    if (!isArmed) return;
+
+    const timer = setInterval(() => {
+      const confirmation = confirmationRef.current;
+      const pending = confirmation.getPending();
+      if (!pending) return;
+
+      const outcome = confirmation.update(
+        gestureRecognizerRef.current?.getStats().lastGesture ?? "none",
+        Date.now()
+      );
+      if (outcome) {
+        finishConfirmationRef.current(pending, outcome);
+      } else if (confirmation.getPending() !== pending) {
+        setPendingConfirmation(confirmation.getPending());
+      }
+    }, CONFIRMATION_POLL_INTERVAL);
+
+    return () => clearInterval(timer);
+  }, [isArmed, setPendingConfirmation]);
+
+  useEffect(() => {
+    confirmationRef.current.updateConfig({
+      enabled: appState.gestureSettings.confirmDestructive,
+      timeout: appState.gestureSettings.confirmTimeout,
+    });
+  }, [
+    appState.gestureSettings.confirmDestructive,
+    appState.gestureSettings.confirmTimeout,
+  ]);
+
+  // Stop listening once the dialog or the gesture manager goes away
+  useEffect(() => {
+    if (!showAddTaskDialog || !isEnabled) {
+      stopDictation();
+      setShowKeyboard(false);
+    }
+  }, [showAddTaskDialog, isEnabled, stopDictation]);
+
+  useEffect(() => () => dictation.abort(), [dictation]);
+
+  useEffect(() => {
+    if (!isEnabled || fallbackMode) {
+      setPointerMode(false);
+      setGrabbedTask(null);
+    }
+  }, [isEnabled, fallbackMode, setGrabbedTask]);
+
+  // Nothing stays armed while gestures are off
+  useEffect(() => {
+    if (!isEnabled && confirmationRef.current.getPending()) {
+      confirmationRef.current.cancel();
+      setPendingConfirmation(null);
+    }
+  }, [isEnabled, setPendingConfirmation]);
+
+  // Keep the latest callbacks and settings in refs so the recognizer (and its
+  // MediaPipe session) survives task and settings changes
+  const gestureHandlerRef = useRef(handleGestureDetected);
+  const errorHandlerRef = useRef(handleGestureError);
+  const gestureSettingsRef = useRef(appState.gestureSettings);
+  const customGesturesRef = useRef(appState.customGestures);
+  gestureHandlerRef.current = handleGestureDetected;
+  errorHandlerRef.current = handleGestureError;
+  gestureSettingsRef.current = appState.gestureSettings;
+  customGesturesRef.current = appState.customGestures;
+
   // Initialize gesture recognizer
   useEffect(() => {
     if (!isEnabled || !videoElement || fallbackMode) {
       if (gestureRecognizerRef.current) {
-        gestureRecognizerRef.current.dispose();
-        gestureRecognizerRef.current = null;
+        disposeGestureRecognizer();
         setIsInitialized(false);
         setGestureMode(false);
       }
       return;
     }
 
+    // Set by the cleanup, which may run while the recognizer starts
+    let isCancelled = false;
+
     const initializeGestureRecognizer = async () => {
       try {
-        const recognizer = new GestureRecognizer(
-          handleGestureDetected,
-          handleGestureError,
+        // MediaPipe runs in a worker where supported, so that inference
+        // does not block the task list
+        const recognizer = await startGestureRecognition(
+          videoElement,
+          (gesture) => gestureHandlerRef.current(gesture),
+          (error) => errorHandlerRef.current(error),
           {
-            confidenceThreshold: appState.gestureSettings.confidenceThreshold,
-            debounceFrames: Math.floor(
-              appState.gestureSettings.debounceTime / 33
-            ), // Convert ms to frames (assuming 30fps)
-            sensitivity: appState.gestureSettings.sensitivity,
+            ...toRecognizerConfig(gestureSettingsRef.current),
+            customGestures: customGesturesRef.current,
             maxRetries: 3,
             retryDelay: 1000,
           }
         );
-
-        await recognizer.initialize(videoElement);
+        if (isCancelled) {
+          recognizer.dispose();
+          return;
+        }
         gestureRecognizerRef.current = recognizer;
         setIsInitialized(true);
         setGestureMode(true);
         setGestureError(null);
 
-        // Start processing frames with error handling
-        const processFrames = async () => {
-          if (gestureRecognizerRef.current && isEnabled && !fallbackMode) {
-            try {
-              // Check if recognizer is still healthy
-              if (!gestureRecognizerRef.current.isHealthy()) {
-                console.warn(
-                  "Gesture recognizer is unhealthy, stopping frame processing"
-                );
-                return;
-              }
-
-              await gestureRecognizerRef.current.processFrame(videoElement);
-              requestAnimationFrame(processFrames);
-            } catch (error) {
-              console.error("Frame processing error:", error);
-              // Error is handled by the recognizer's error callback
-              // Continue processing frames unless in fallback mode
-              if (!fallbackMode) {
-                requestAnimationFrame(processFrames);
-              }
-            }
+        // Frames go to the recognizer at the target rate while a hand is in
+        // view, slower without one and not at all while the page is hidden
+        const scheduler = new FrameScheduler(async () => {
+          if (!recognizer.isHealthy()) {
+            console.warn(
+              "Gesture recognizer is unhealthy, stopping frame processing"
+            );
+            scheduler.stop();
+            return;
           }
-        };
-        processFrames();
+          // Errors also reach the recognizer's error callback
+          await recognizer.processFrame(videoElement);
+        });
+        recognizer.addHandsListener((hands) =>
+          scheduler.reportHands(hands.length > 0)
+        );
+        frameSchedulerRef.current = scheduler;
+        scheduler.start();
       } catch (error) {
         console.error("Failed to initialize gesture recognizer:", error);
-        handleGestureError(
+        errorHandlerRef.current(
           error instanceof GestureRecognitionError
             ? error
             : new MediaPipeInitializationError(
@@ -350,9 +816,9 @@ export const GestureManager: React.FC<GestureManagerProps> = ({
     initializeGestureRecognizer();
 
     return () => {
+      isCancelled = true;
       if (gestureRecognizerRef.current) {
-        gestureRecognizerRef.current.dispose();
-        gestureRecognizerRef.current = null;
+        disposeGestureRecognizer();
         setIsInitialized(false);
         setGestureMode(false);
       }
@@ -361,32 +827,51 @@ export const GestureManager: React.FC<GestureManagerProps> = ({
     isEnabled,
     videoElement,
     fallbackMode,
-    handleGestureDetected,
-    handleGestureError,
-    appState.gestureSettings.confidenceThreshold,
-    appState.gestureSettings.debounceTime,
-    appState.gestureSettings.sensitivity,
     setGestureMode,
+    disposeGestureRecognizer,
   ]);
 
-  // Handle add task dialog
-  const handleAddTask = async () => {
-    if (newTaskText.trim()) {
-      try {
-        await addTask(newTaskText.trim());
-        setFeedbackMessage(
-          `新しいタスク「${newTaskText.trim()}」を追加しました`
-        );
-        setNewTaskText("");
-        setShowAddTaskDialog(false);
-      } catch (error) {
-        console.error("Failed to add task:", error);
-        setFeedbackMessage("タスクの追加に失敗しました");
-      }
+  // Publish the landmarks of the running recognizer
+  useEffect(() => {
+    const recognizer = gestureRecognizerRef.current;
+    if (!isInitialized || !recognizer || !landmarkStream) return;
+
+    return landmarkStream.connect(recognizer);
+  }, [isInitialized, landmarkStream]);
+
+  // Apply settings changes to the running recognizer in place
+  useEffect(() => {
+    gestureRecognizerRef.current?.updateConfig(
+      toRecognizerConfig(appState.gestureSettings)
+    );
+  }, [appState.gestureSettings]);
+
+  // Retrain the running recognizer when custom gestures change
+  useEffect(() => {
+    gestureRecognizerRef.current?.setCustomGestures(appState.customGestures);
+  }, [appState.customGestures]);
+
+  const cancelGesture = findGestureForAction(
+    appState.gestureBindings,
+    "cancel"
+  );
+  const cancelGestureInfo =
+    cancelGesture &&
+    getGestureDisplayInfo(cancelGesture, appState.customGestures);
+  const addGesture = findGestureForAction(appState.gestureBindings, "add");
+  const addGestureInfo =
+    addGesture && getGestureDisplayInfo(addGesture, appState.customGestures);
+
+  const handleVirtualKey = (key: string) => {
+    if (key === CLOSE_KEY) {
+      setShowKeyboard(false);
+    } else {
+      setNewTaskText((text) => applyVirtualKey(text, key));
     }
   };
 
   const handleCancelAddTask = () => {
+    stopDictation();
     setShowAddTaskDialog(false);
     setNewTaskText("");
     setFeedbackMessage("タスクの追加をキャンセルしました");
@@ -423,6 +908,43 @@ export const GestureManager: React.FC<GestureManagerProps> = ({
           </span>
         </div>
 
+        {!fallbackMode && (
+          <label className="mt-2 flex items-center space-x-2 text-xs text-gray-600 dark:text-gray-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={appState.gestureSettings.twoHandMode}
+              onChange={(e) =>
+                updateGestureSettings({ twoHandMode: e.target.checked })
+              }
+            />
+            <span>両手モード</span>
+          </label>
+        )}
+
+        {!fallbackMode && (
+          <label className="mt-1 flex items-center space-x-2 text-xs text-gray-600 dark:text-gray-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={appState.gestureSettings.confirmDestructive}
+              onChange={(e) =>
+                updateGestureSettings({ confirmDestructive: e.target.checked })
+              }
+            />
+            <span>削除の前に確認する</span>
+          </label>
+        )}
+
+        {!fallbackMode && (
+          <label className="mt-1 flex items-center space-x-2 text-xs text-gray-600 dark:text-gray-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={pointerMode}
+              onChange={(e) => setPointerMode(e.target.checked)}
+            />
+            <span>ポインターモード</span>
+          </label>
+        )}
+
         {currentAction && !fallbackMode && (
           <div className="mt-2 flex items-center space-x-2">
             <span className="text-lg">{currentAction.icon}</span>
@@ -503,10 +1025,48 @@ export const GestureManager: React.FC<GestureManagerProps> = ({
               }
             }}
           />
+          {isDictating && (
+            <p
+              aria-live="polite"
+              className="mt-2 flex items-center space-x-2 text-sm text-gray-500 dark:text-gray-400"
+            >
+              <span className="w-2 h-2 rounded-full bg-red-500 animate-pulse"></span>
+              <span className="italic">
+                {interimTranscript || "聞き取り中..."}
+              </span>
+            </p>
+          )}
           <div className="flex space-x-2 mt-3">
+            {dictation.isSupported && (
+              <button
+                // Stopping keeps the words heard so far
+                onClick={isDictating ? () => dictation.stop() : startDictation}
+                aria-pressed={isDictating}
+                title={isDictating ? "音声入力を停止" : "音声入力"}
+                className={`px-3 py-2 rounded-lg transition-colors text-sm ${
+                  isDictating
+                    ? "bg-red-600 text-white hover:bg-red-700"
+                    : "bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-white hover:bg-gray-300 dark:hover:bg-gray-600"
+                }`}
+              >
+                🎤
+              </button>
+            )}
+            <button
+              onClick={() => setShowKeyboard((shown) => !shown)}
+              aria-pressed={showKeyboard}
+              title="仮想キーボード"
+              className={`px-3 py-2 rounded-lg transition-colors text-sm ${
+                showKeyboard
+                  ? "bg-blue-600 text-white hover:bg-blue-700"
+                  : "bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-white hover:bg-gray-300 dark:hover:bg-gray-600"
+              }`}
+            >
+              ⌨
+            </button>
             <button
               onClick={handleAddTask}
-              disabled={!newTaskText.trim()}
+              disabled={!newTaskText.trim() && !interimTranscript.trim()}
               className="flex-1 px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors text-sm font-medium"
             >
               追加
@@ -518,28 +1078,54 @@ export const GestureManager: React.FC<GestureManagerProps> = ({
               キャンセル
             </button>
           </div>
-          <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
-            ヒント: 開いた手のひら（✋）でキャンセルできます
-          </p>
+          {addGestureInfo && (
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+              ヒント: {addGestureInfo.name}（{addGestureInfo.icon}
+              ）で追加できます
+            </p>
+          )}
+          {cancelGestureInfo && (
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+              ヒント: {cancelGestureInfo.name}（{cancelGestureInfo.icon}
+              ）でキャンセルできます
+            </p>
+          )}
         </div>
       )}
 
+      {showAddTaskDialog && showKeyboard && (
+        <VirtualKeyboard
+          // In pointer mode the keys are clicked like any other button
+          source={
+            isInitialized && !pointerMode ? gestureRecognizerRef.current : null
+          }
+          onKey={handleVirtualKey}
+        />
+      )}
+
+      {pointerMode && isInitialized && (
+        <PointerModeOverlay source={gestureRecognizerRef.current} />
+      )}
+
       {/* Gesture Guide */}
       <details className="bg-white dark:bg-gray-800 rounded-lg shadow-lg border border-gray-200 dark:border-gray-600">
         <summary className="p-3 cursor-pointer text-sm font-medium text-gray-800 dark:text-white hover:bg-gray-50 dark:hover:bg-gray-700 rounded-lg">
           ジェスチャーガイド
         </summary>
         <div className="p-3 pt-0 space-y-2">
-          {Object.entries(GESTURE_ACTIONS).map(([gesture, action]) => {
+          {getBindingKeys(appState.customGestures).map((gesture) => {
+            const action = appState.gestureBindings[gesture];
             if (!action) return null;
             return (
               <div
                 key={gesture}
                 className="flex items-center space-x-2 text-sm"
               >
-                <span className="text-lg">{action.icon}</span>
+                <span className="text-lg">
+                  {getGestureDisplayInfo(gesture, appState.customGestures).icon}
+                </span>
                 <span className="text-gray-600 dark:text-gray-300">
-                  {action.description}
+                  {GESTURE_ACTION_INFO[action].shortLabel}
                 </span>
               </div>
             );
@@ -0,0 +1,454 @@
+/** @format */
+
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { useApp } from "../contexts";
+import { GestureSettings, RecognizedGesture } from "../types";
+import {
+  DEFAULT_SETTINGS,
+  GESTURE_SETTING_RANGES,
+  NUMERIC_GESTURE_SETTINGS,
+  NumericGestureSetting,
+  SettingsBlock,
+  SettingsError,
+  isSettingInRange,
+  parseSettingsExport,
+  serializeSettings,
+  toRecognizerConfig,
+} from "../services/appSettings";
+import { getGestureDisplayInfo } from "../services/gestureBindings";
+import { GestureRecognizer } from "../services/gestureRecognizer";
+import { HandLandmarks } from "../services/landmarkFeatures";
+
+// How often the preview samples the camera landmarks
+const PREVIEW_INTERVAL = 50;
+
+const SETTING_LABELS: Record<NumericGestureSetting, string> = {
+  sensitivity: "感度",
+  debounceTime: "保持時間（ミリ秒）",
+  confidenceThreshold: "信頼度しきい値",
+  confirmTimeout: "確認の待ち時間（ミリ秒）",
+};
+
+const INPUT_CLASS =
+  "w-28 px-2 py-1 text-sm border rounded-lg bg-white dark:bg-gray-700 text-gray-800 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500";
+const SECONDARY_BUTTON_CLASS =
+  "flex-1 px-3 py-2 bg-gray-300 dark:bg-gray-600 text-gray-800 dark:text-white rounded-lg hover:bg-gray-400 dark:hover:bg-gray-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors text-sm font-medium";
+
+// Settings being edited. Numbers are kept as typed so that out-of-range
+// values can be shown and corrected.
+interface SettingsDraft {
+  gestureEnabled: boolean;
+  theme: "light" | "dark";
+  values: Record<NumericGestureSetting, string>;
+  twoHandMode: boolean;
+  confirmDestructive: boolean;
+}
+
+interface PreviewState {
+  hasHand: boolean;
+  pose: RecognizedGesture;
+  // Share of recent frames showing the pose, compared to the threshold
+  confidence: number;
+  fired: RecognizedGesture | null;
+}
+
+const IDLE_PREVIEW: PreviewState = {
+  hasHand: false,
+  pose: "none",
+  confidence: 0,
+  fired: null,
+};
+
+const toDraft = ({
+  gestureEnabled,
+  theme,
+  gestureSettings,
+}: Omit<SettingsBlock, "gestureBindings">): SettingsDraft => ({
+  gestureEnabled,
+  theme,
+  values: Object.fromEntries(
+    NUMERIC_GESTURE_SETTINGS.map((key) => [key, String(gestureSettings[key])])
+  ) as SettingsDraft["values"],
+  twoHandMode: gestureSettings.twoHandMode,
+  confirmDestructive: gestureSettings.confirmDestructive,
+});
+
+interface GestureSettingsPanelProps {
+  // The hand currently in front of the camera
+  getLandmarks: () => HandLandmarks | null;
+}
+
+export const GestureSettingsPanel: React.FC<GestureSettingsPanelProps> = ({
+  getLandmarks,
+}) => {
+  const {
+    state: appState,
+    updateGestureSettings,
+    setTheme,
+    setGestureEnabled,
+    resetSettings,
+    importSettings,
+  } = useApp();
+  const { gestureSettings, theme, gestureEnabled } = appState;
+  const [draft, setDraft] = useState<SettingsDraft>(() => toDraft(appState));
+  const [message, setMessage] = useState<string | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [preview, setPreview] = useState<PreviewState>(IDLE_PREVIEW);
+  const recognizerRef = useRef<GestureRecognizer | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Pick up settings loaded, reset or imported after mount
+  useEffect(() => {
+    setDraft(toDraft({ gestureEnabled, theme, gestureSettings }));
+  }, [gestureSettings, theme, gestureEnabled]);
+
+  const invalidKeys = NUMERIC_GESTURE_SETTINGS.filter(
+    (key) => !isSettingInRange(key, Number(draft.values[key]))
+  );
+  // Invalid values are previewed with their saved value
+  const draftSettings: GestureSettings = {
+    ...gestureSettings,
+    ...Object.fromEntries(
+      NUMERIC_GESTURE_SETTINGS.filter((key) => !invalidKeys.includes(key)).map(
+        (key) => [key, Number(draft.values[key])]
+      )
+    ),
+    twoHandMode: draft.twoHandMode,
+    confirmDestructive: draft.confirmDestructive,
+  };
+  const isDirty =
+    draft.gestureEnabled !== gestureEnabled ||
+    draft.theme !== theme ||
+    (Object.keys(draftSettings) as (keyof GestureSettings)[]).some(
+      (key) => draftSettings[key] !== gestureSettings[key]
+    );
+
+  const recognizerConfig = useMemo(
+    () => toRecognizerConfig(draftSettings),
+    // The config only changes with these values
+    [
+      draftSettings.confidenceThreshold,
+      draftSettings.debounceTime,
+      draftSettings.sensitivity,
+      draftSettings.twoHandMode,
+    ]
+  );
+  const recognizerConfigRef = useRef(recognizerConfig);
+  recognizerConfigRef.current = recognizerConfig;
+
+  // Run the camera landmarks through a separate recognizer with the draft
+  // settings, so their effect shows before they are saved
+  useEffect(() => {
+    if (!isPreviewing) {
+      setPreview(IDLE_PREVIEW);
+      return;
+    }
+
+    const recognizer = new GestureRecognizer(
+      (gesture) => setPreview((prev) => ({ ...prev, fired: gesture })),
+      (error) => console.warn("Gesture preview error:", error),
+      {
+        ...recognizerConfigRef.current,
+        customGestures: appState.customGestures,
+      }
+    );
+    recognizerRef.current = recognizer;
+
+    const timer = setInterval(() => {
+      const hand = getLandmarks();
+      const pose = recognizer.processLandmarks(
+        hand?.landmarks ?? null,
+        performance.now(),
+        hand?.handedness
+      );
+      const { confidence } = recognizer.getStats();
+      setPreview((prev) => ({ ...prev, hasHand: !!hand, pose, confidence }));
+    }, PREVIEW_INTERVAL);
+
+    return () => {
+      clearInterval(timer);
+      recognizer.dispose();
+      recognizerRef.current = null;
+    };
+  }, [isPreviewing, getLandmarks, appState.customGestures]);
+
+  useEffect(() => {
+    recognizerRef.current?.updateConfig(recognizerConfig);
+  }, [recognizerConfig]);
+
+  const handleValueChange = (key: NumericGestureSetting, value: string) => {
+    setDraft((prev) => ({ ...prev, values: { ...prev.values, [key]: value } }));
+    setMessage(null);
+  };
+
+  const handleToggle = (
+    key: "gestureEnabled" | "twoHandMode" | "confirmDestructive",
+    value: boolean
+  ) => {
+    setDraft((prev) => ({ ...prev, [key]: value }));
+    setMessage(null);
+  };
+
+  const handleSave = async () => {
+    if (invalidKeys.length > 0) return;
+    await Promise.all([
+      updateGestureSettings(draftSettings),
+      setTheme(draft.theme),
+      setGestureEnabled(draft.gestureEnabled),
+    ]);
+    setMessage("設定を保存しました");
+  };
+
+  const handleReset = async () => {
+    await resetSettings();
+    // Unsaved edits go too, even where the saved value was the default
+    setDraft(toDraft(DEFAULT_SETTINGS));
+    setMessage("設定と割り当てを初期値に戻しました");
+  };
+
+  const handleExport = () => {
+    const blob = new Blob(
+      [
+        serializeSettings({
+          gestureEnabled,
+          theme,
+          gestureSettings,
+          gestureBindings: appState.gestureBindings,
+        }),
+      ],
+      { type: "application/json" }
+    );
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "gesture-settings.json";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    try {
+      await importSettings(parseSettingsExport(await file.text()));
+      setMessage("設定を読み込みました");
+    } catch (error) {
+      console.error("Failed to import settings:", error);
+      setMessage(
+        error instanceof SettingsError
+          ? "設定ファイルの形式が正しくありません"
+          : "設定ファイルを読み込めませんでした"
+      );
+    }
+  };
+
+  const poseInfo = getGestureDisplayInfo(preview.pose, appState.customGestures);
+  const threshold = draftSettings.confidenceThreshold;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-600 p-4">
+      <h3 className="text-lg font-semibold text-gray-800 dark:text-white mb-4">
+        ジェスチャー設定
+      </h3>
+
+      <div className="space-y-2">
+        <label className="flex items-center space-x-2 text-sm text-gray-800 dark:text-white">
+          <input
+            type="checkbox"
+            checked={draft.gestureEnabled}
+            onChange={(e) => handleToggle("gestureEnabled", e.target.checked)}
+          />
+          <span>ジェスチャー操作を使う</span>
+        </label>
+
+        {NUMERIC_GESTURE_SETTINGS.map((key) => {
+          const { min, max, step } = GESTURE_SETTING_RANGES[key];
+          const isInvalid = invalidKeys.includes(key);
+          return (
+            <div key={key}>
+              <div className="flex items-center space-x-3">
+                <label
+                  htmlFor={`setting-${key}`}
+                  className="flex-1 text-sm font-medium text-gray-800 dark:text-white"
+                >
+                  {SETTING_LABELS[key]}
+                </label>
+                <input
+                  id={`setting-${key}`}
+                  type="number"
+                  min={min}
+                  max={max}
+                  step={step}
+                  value={draft.values[key]}
+                  onChange={(e) => handleValueChange(key, e.target.value)}
+                  aria-invalid={isInvalid}
+                  className={`${INPUT_CLASS} ${
+                    isInvalid
+                      ? "border-red-500"
+                      : "border-gray-300 dark:border-gray-600"
+                  }`}
+                />
+              </div>
+              {isInvalid && (
+                <p
+                  role="alert"
+                  className="mt-1 text-xs text-red-700 dark:text-red-300"
+                >
+                  {SETTING_LABELS[key]}は{min}〜{max}の範囲で入力してください
+                </p>
+              )}
+            </div>
+          );
+        })}
+
+        <label className="flex items-center space-x-2 text-sm text-gray-800 dark:text-white">
+          <input
+            type="checkbox"
+            checked={draft.twoHandMode}
+            onChange={(e) => handleToggle("twoHandMode", e.target.checked)}
+          />
+          <span>両手ジェスチャーを使う</span>
+        </label>
+        <label className="flex items-center space-x-2 text-sm text-gray-800 dark:text-white">
+          <input
+            type="checkbox"
+            checked={draft.confirmDestructive}
+            onChange={(e) =>
+              handleToggle("confirmDestructive", e.target.checked)
+            }
+          />
+          <span>削除などの操作の前に確認する</span>
+        </label>
+
+        <div className="flex items-center space-x-3">
+          <label
+            htmlFor="setting-theme"
+            className="flex-1 text-sm font-medium text-gray-800 dark:text-white"
+          >
+            テーマ
+          </label>
+          <select
+            id="setting-theme"
+            value={draft.theme}
+            onChange={(e) => {
+              setDraft((prev) => ({
+                ...prev,
+                theme: e.target.value as SettingsDraft["theme"],
+              }));
+              setMessage(null);
+            }}
+            className={`${INPUT_CLASS} border-gray-300 dark:border-gray-600`}
+          >
+            <option value="light">ライト</option>
+            <option value="dark">ダーク</option>
+          </select>
+        </div>
+      </div>
+
+      {/* Live preview */}
+      <div className="mt-4 p-3 bg-gray-50 dark:bg-gray-700 rounded-lg">
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-medium text-gray-800 dark:text-white">
+            認識プレビュー
+          </span>
+          <button
+            onClick={() => setIsPreviewing((prev) => !prev)}
+            aria-pressed={isPreviewing}
+            className="text-sm text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300 transition-colors"
+          >
+            {isPreviewing ? "停止" : "開始"}
+          </button>
+        </div>
+        {isPreviewing ? (
+          <div className="mt-2 space-y-1">
+            <p className="text-sm text-gray-700 dark:text-gray-300">
+              {preview.hasHand
+                ? `${poseInfo.icon} ${poseInfo.name}`
+                : "手が検出されていません"}
+            </p>
+            <div className="relative h-2 bg-gray-200 dark:bg-gray-600 rounded-full">
+              <div
+                role="progressbar"
+                aria-label="一致率"
+                aria-valuemin={0}
+                aria-valuemax={100}
+                aria-valuenow={Math.round(preview.confidence * 100)}
+                className={`h-2 rounded-full ${
+                  preview.confidence >= threshold
+                    ? "bg-green-500"
+                    : "bg-blue-500"
+                }`}
+                style={{ width: `${preview.confidence * 100}%` }}
+              />
+              {/* Confidence needed to fire */}
+              <div
+                className="absolute top-0 h-2 w-0.5 bg-red-500"
+                style={{ left: `${threshold * 100}%` }}
+              />
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              一致率 {Math.round(preview.confidence * 100)}% / しきい値{" "}
+              {Math.round(threshold * 100)}%
+            </p>
+            <p className="text-xs text-gray-700 dark:text-gray-300">
+              {preview.fired
+                ? `発動: ${
+                    getGestureDisplayInfo(
+                      preview.fired,
+                      appState.customGestures
+                    ).name
+                  }`
+                : "まだ発動していません"}
+            </p>
+          </div>
+        ) : (
+          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+            保存する前の設定でジェスチャーの認識を試せます
+          </p>
+        )}
+      </div>
+
+      {message && (
+        <p className="mt-3 text-xs text-gray-700 dark:text-gray-300">
+          {message}
+        </p>
+      )}
+
+      <div className="flex space-x-2 mt-4">
+        <button
+          onClick={handleSave}
+          disabled={!isDirty || invalidKeys.length > 0}
+          className="flex-1 px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors text-sm font-medium"
+        >
+          保存
+        </button>
+        <button onClick={handleReset} className={SECONDARY_BUTTON_CLASS}>
+          初期設定に戻す
+        </button>
+      </div>
+
+      {/* Export / import */}
+      <div className="flex space-x-2 mt-2">
+        <button onClick={handleExport} className={SECONDARY_BUTTON_CLASS}>
+          エクスポート
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className={SECONDARY_BUTTON_CLASS}
+        >
+          インポート
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleImport}
+          className="hidden"
+          data-testid="settings-import"
+        />
+      </div>
+    </div>
+  );
+};
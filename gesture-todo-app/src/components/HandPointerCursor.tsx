@@ -0,0 +1,83 @@
+/** @format */
+
+import React, { useEffect, useRef, useState } from "react";
+import {
+  HandPointer,
+  HandPointerConfig,
+  LandmarkSource,
+  PointerHitTest,
+  PointerState,
+  domHitTest,
+} from "../services/handPointer";
+
+// Drive a hand pointer from `source` while mounted. Elements marked with
+// POINTER_TARGET_ATTRIBUTE can then be pressed by pinching or dwelling,
+// reported as `pressedId` to `onUpdate`, which sees every frame (null while
+// no hand is seen). `config` is read once.
+export function useHandPointer(
+  source: LandmarkSource | null,
+  onUpdate: (state: PointerState | null) => void,
+  config?: HandPointerConfig,
+  hitTest: PointerHitTest = domHitTest
+): PointerState | null {
+  const [pointer] = useState(() => new HandPointer(config));
+  const [state, setState] = useState<PointerState | null>(null);
+  const onUpdateRef = useRef(onUpdate);
+  onUpdateRef.current = onUpdate;
+
+  useEffect(() => {
+    if (!source) return;
+
+    const removeListener = source.addLandmarkListener(
+      (landmarks, timestamp) => {
+        const next = pointer.update(landmarks, timestamp, hitTest);
+        setState(next);
+        onUpdateRef.current(next);
+      }
+    );
+
+    return () => {
+      removeListener();
+      pointer.reset();
+      setState(null);
+    };
+  }, [source, pointer, hitTest]);
+
+  return state;
+}
+
+interface HandPointerCursorProps {
+  state: PointerState | null;
+}
+
+// Fingertip cursor with a ring that fills while dwelling on a target
+export const HandPointerCursor: React.FC<HandPointerCursorProps> = ({
+  state,
+}) => {
+  if (!state) {
+    return null;
+  }
+
+  return (
+    <div
+      aria-hidden="true"
+      className="fixed z-[60] pointer-events-none -translate-x-1/2 -translate-y-1/2"
+      style={{ left: `${state.x * 100}%`, top: `${state.y * 100}%` }}
+    >
+      <div
+        className="w-8 h-8 rounded-full flex items-center justify-center"
+        style={{
+          background: `conic-gradient(rgb(59 130 246) ${
+            state.dwellProgress * 360
+          }deg, rgb(59 130 246 / 0.2) 0deg)`,
+        }}
+      >
+        <div
+          className={`rounded-full border-2 border-white transition-all ${
+            state.isPinching ? "w-3 h-3 bg-blue-700" : "w-5 h-5 bg-blue-500"
+          }`}
+        ></div>
+      </div>
+    </div>
+  );
+};
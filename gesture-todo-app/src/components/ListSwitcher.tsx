@@ -0,0 +1,216 @@
+/** @format */
+
+import React, { useRef, useState } from "react";
+import { useTodo } from "../contexts";
+import {
+  DEFAULT_LIST_ID,
+  TaskListError,
+  parseTaskListExport,
+} from "../services/taskLists";
+
+const BUTTON_CLASS =
+  "px-2 py-1 text-sm rounded-lg bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-white hover:bg-gray-300 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors";
+
+// Picks the list shown below the header and manages lists: create, rename,
+// archive, delete, and export/import of a single list
+export const ListSwitcher: React.FC = () => {
+  const {
+    state,
+    createList,
+    renameList,
+    setListArchived,
+    deleteList,
+    switchList,
+    exportList,
+    importList,
+  } = useTodo();
+  // Name being typed for a new list ("create") or the active one ("rename");
+  // Enter saves it, Escape or leaving the field cancels
+  const [editing, setEditing] = useState<"create" | "rename" | null>(null);
+  const [name, setName] = useState("");
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const activeList = state.lists.find((list) => list.id === state.activeListId);
+  const currentLists = state.lists.filter((list) => !list.archived);
+  const archivedLists = state.lists.filter((list) => list.archived);
+
+  // Errors are reported by TodoContext; these only keep the UI consistent
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    setMessage(null);
+    try {
+      await action();
+    } catch (error) {
+      console.error(`Failed to ${failure}:`, error);
+      setMessage(
+        error instanceof TaskListError ? error.message : `Could not ${failure}`
+      );
+    }
+  };
+
+  const startEditing = (mode: "create" | "rename") => {
+    setEditing(mode);
+    setName(mode === "rename" ? activeList?.name ?? "" : "");
+  };
+
+  const handleSubmit = async () => {
+    if (!name.trim()) {
+      setEditing(null);
+      return;
+    }
+    await run(
+      () =>
+        editing === "create"
+          ? createList(name)
+          : renameList(state.activeListId, name),
+      editing === "create" ? "create list" : "rename list"
+    );
+    setEditing(null);
+  };
+
+  const handleDelete = async () => {
+    if (
+      !activeList ||
+      !window.confirm(
+        `Delete the list "${activeList.name}" and all of its tasks?`
+      )
+    ) {
+      return;
+    }
+    await run(() => deleteList(activeList.id), "delete list");
+  };
+
+  const handleExport = () =>
+    run(async () => {
+      const blob = new Blob([await exportList(state.activeListId)], {
+        type: "application/json",
+      });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `${activeList?.name ?? "list"}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    }, "export list");
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    await run(async () => {
+      const list = await importList(parseTaskListExport(await file.text()));
+      setMessage(`Imported "${list.name}"`);
+    }, "import list");
+  };
+
+  return (
+    <div className="mt-4 flex flex-col items-center space-y-2">
+      <div className="flex flex-wrap items-center justify-center gap-2">
+        {editing ? (
+          <input
+            type="text"
+            value={name}
+            autoFocus
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") handleSubmit();
+              if (e.key === "Escape") setEditing(null);
+            }}
+            onBlur={() => setEditing(null)}
+            placeholder="List name"
+            aria-label={editing === "create" ? "New list name" : "List name"}
+            className="px-3 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-800 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        ) : (
+          <select
+            value={state.activeListId}
+            onChange={(e) =>
+              run(() => switchList(e.target.value), "switch list")
+            }
+            aria-label="List"
+            className="px-3 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-800 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {currentLists.map((list) => (
+              <option key={list.id} value={list.id}>
+                {list.name}
+              </option>
+            ))}
+            {archivedLists.length > 0 && (
+              <optgroup label="Archived">
+                {archivedLists.map((list) => (
+                  <option key={list.id} value={list.id}>
+                    {list.name}
+                  </option>
+                ))}
+              </optgroup>
+            )}
+          </select>
+        )}
+
+        <button
+          onClick={() => startEditing("create")}
+          disabled={editing !== null}
+          className={BUTTON_CLASS}
+        >
+          New list
+        </button>
+        <button
+          onClick={() => startEditing("rename")}
+          disabled={editing !== null || !activeList}
+          className={BUTTON_CLASS}
+        >
+          Rename
+        </button>
+        <button
+          onClick={() =>
+            activeList &&
+            run(
+              () => setListArchived(activeList.id, !activeList.archived),
+              "archive list"
+            )
+          }
+          disabled={!activeList}
+          className={BUTTON_CLASS}
+        >
+          {activeList?.archived ? "Unarchive" : "Archive"}
+        </button>
+        <button
+          onClick={handleDelete}
+          disabled={state.activeListId === DEFAULT_LIST_ID}
+          title={
+            state.activeListId === DEFAULT_LIST_ID
+              ? "The default list cannot be deleted"
+              : undefined
+          }
+          className={BUTTON_CLASS}
+        >
+          Delete
+        </button>
+        <button onClick={handleExport} className={BUTTON_CLASS}>
+          Export
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className={BUTTON_CLASS}
+        >
+          Import
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleImport}
+          className="hidden"
+          data-testid="list-import"
+        />
+      </div>
+
+      {message && (
+        <p role="status" className="text-sm text-gray-600 dark:text-gray-300">
+          {message}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,30 @@
+/** @format */
+
+import React, { useEffect, useState } from "react";
+import { LandmarkSource } from "../services/handPointer";
+import { PointerDriver } from "../services/pointerDriver";
+import { HandPointerCursor, useHandPointer } from "./HandPointerCursor";
+
+interface PointerModeOverlayProps {
+  source: LandmarkSource | null;
+}
+
+// Clicks are made by pinching, so dwelling and pointer targets are not used
+const noTargets = () => null;
+
+// Pointer mode: the index fingertip moves a cursor over the whole page
+export const PointerModeOverlay: React.FC<PointerModeOverlayProps> = ({
+  source,
+}) => {
+  const [driver] = useState(() => new PointerDriver());
+  const pointer = useHandPointer(
+    source,
+    (state) => driver.update(state),
+    { dwellTime: 0 },
+    noTargets
+  );
+
+  useEffect(() => () => driver.cancel(), [driver]);
+
+  return <HandPointerCursor state={pointer} />;
+};
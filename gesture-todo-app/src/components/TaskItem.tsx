@@ -1,7 +1,25 @@
 /** @format */
 
 import React, { useState } from "react";
-import { Task } from "../types";
+import { Task, TaskPriority } from "../types";
+import {
+  RecurrenceError,
+  RecurrencePreset,
+  WEEKDAY_NAMES,
+  createRecurrence,
+  describeRecurrence,
+  formatRecurrenceRule,
+  getRecurrencePreset,
+  parseRecurrenceRule,
+} from "../services/recurrence";
+import {
+  TASK_PRIORITIES,
+  isTaskOverdue,
+  parseDueDate,
+  parseTags,
+  toDateInputValue,
+  toTimeInputValue,
+} from "../utils";
 
 interface TaskItemProps {
   task: Task;
@@ -10,8 +28,57 @@ interface TaskItemProps {
   onDelete: () => void;
   onSelect: () => void;
   onEdit?: (id: string, newText: string) => void;
+  // Priority, due date and tag changes
+  onUpdate?: (id: string, updates: Partial<Task>) => void;
+  // Pointer handlers of the drag handle; without them there is none
+  dragHandleProps?: React.HTMLAttributes<HTMLElement>;
+  // Picked up with the grab gesture
+  isGrabbed?: boolean;
+  // Done and total count of the task's direct subtasks
+  subtaskProgress?: { completed: number; total: number };
+  // Whether the subtasks are hidden, and the toggle for it
+  isCollapsed?: boolean;
+  onToggleCollapsed?: () => void;
+  onAddSubtask?: (text: string) => void;
 }
 
+const PRIORITY_INFO: Record<TaskPriority, { label: string; color: string }> = {
+  none: { label: "None", color: "" },
+  low: {
+    label: "Low",
+    color: "bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300",
+  },
+  medium: {
+    label: "Medium",
+    color:
+      "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/40 dark:text-yellow-300",
+  },
+  high: {
+    label: "High",
+    color: "bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300",
+  },
+};
+
+const REPEAT_OPTIONS: {
+  value: RecurrencePreset | "none" | "custom";
+  label: string;
+}[] = [
+  { value: "none", label: "Does not repeat" },
+  { value: "daily", label: "Daily" },
+  { value: "weekdays", label: "Every weekday" },
+  { value: "weekly", label: "Weekly" },
+  { value: "monthly", label: "Monthly" },
+  { value: "custom", label: "Custom rule" },
+];
+
+const formatDueDate = (task: Task) =>
+  task.hasDueTime
+    ? task.dueDate!.toLocaleString([], {
+        dateStyle: "short",
+        timeStyle: "short",
+      })
+    : task.dueDate!.toLocaleDateString();
+
 export const TaskItem: React.FC<TaskItemProps> = ({
   task,
   isSelected,
@@ -19,9 +86,24 @@ export const TaskItem: React.FC<TaskItemProps> = ({
   onDelete,
   onSelect,
   onEdit,
+  onUpdate,
+  dragHandleProps,
+  isGrabbed = false,
+  subtaskProgress,
+  isCollapsed = false,
+  onToggleCollapsed,
+  onAddSubtask,
 }) => {
   const [isEditing, setIsEditing] = useState(false);
+  const [isAddingSubtask, setIsAddingSubtask] = useState(false);
+  const [subtaskText, setSubtaskText] = useState("");
   const [editText, setEditText] = useState(task.text);
+  const [isEditingDetails, setIsEditingDetails] = useState(false);
+  const [tagsText, setTagsText] = useState(task.tags.join(", "));
+  // RRULE text being written; shown until it is valid and saved
+  const [isCustomRule, setIsCustomRule] = useState(false);
+  const [ruleText, setRuleText] = useState("");
+  const [ruleError, setRuleError] = useState<string | null>(null);
 
   const handleEdit = () => {
     if (isEditing && onEdit && editText.trim() !== task.text) {
@@ -39,12 +121,93 @@ export const TaskItem: React.FC<TaskItemProps> = ({
     }
   };
 
+  const handleDueDateChange = (date: string, time: string) => {
+    const dueDate = parseDueDate(date, time);
+    onUpdate?.(task.id, {
+      dueDate,
+      hasDueTime: dueDate ? time !== "" : undefined,
+    });
+  };
+
+  const handleTagsCommit = () => {
+    const tags = parseTags(tagsText);
+    setTagsText(tags.join(", "));
+    if (tags.join("\n") !== task.tags.join("\n")) {
+      onUpdate?.(task.id, { tags });
+    }
+  };
+
+  const repeatValue = isCustomRule
+    ? "custom"
+    : task.recurrence
+    ? getRecurrencePreset(task.recurrence)
+    : "none";
+
+  const handleRepeatChange = (value: string) => {
+    setRuleError(null);
+    if (value === "custom") {
+      setRuleText(task.recurrence ? formatRecurrenceRule(task.recurrence) : "");
+      setIsCustomRule(true);
+      return;
+    }
+
+    setIsCustomRule(false);
+    onUpdate?.(task.id, {
+      recurrence:
+        value === "none"
+          ? undefined
+          : createRecurrence(value as RecurrencePreset, task.dueDate),
+    });
+  };
+
+  const handleRuleCommit = () => {
+    if (!ruleText.trim()) {
+      return;
+    }
+    try {
+      onUpdate?.(task.id, { recurrence: parseRecurrenceRule(ruleText) });
+      setRuleError(null);
+    } catch (error) {
+      if (!(error instanceof RecurrenceError)) {
+        throw error;
+      }
+      setRuleError(error.message);
+    }
+  };
+
+  // Weekly rules keep at least one day
+  const handleWeekdayToggle = (day: number) => {
+    const weekdays = task.recurrence?.weekdays ?? [];
+    const next = weekdays.includes(day)
+      ? weekdays.filter((d) => d !== day)
+      : [...weekdays, day].sort((a, b) => a - b);
+    if (task.recurrence && next.length > 0) {
+      onUpdate?.(task.id, {
+        recurrence: { ...task.recurrence, weekdays: next },
+      });
+    }
+  };
+
+  const dueDateValue = task.dueDate ? toDateInputValue(task.dueDate) : "";
+  const dueTimeValue =
+    task.dueDate && task.hasDueTime ? toTimeInputValue(task.dueDate) : "";
+
   const handleClick = () => {
     if (!isEditing) {
       onSelect();
     }
   };
 
+  const handleAddSubtask = () => {
+    if (subtaskText.trim()) {
+      onAddSubtask?.(subtaskText.trim());
+    }
+    setSubtaskText("");
+    setIsAddingSubtask(false);
+  };
+
+  const hasSubtasks = !!subtaskProgress && subtaskProgress.total > 0;
+
   return (
     <div
       className={`
@@ -55,11 +218,54 @@ export const TaskItem: React.FC<TaskItemProps> = ({
             : "border-gray-200 dark:border-gray-600 hover:border-gray-300 dark:hover:border-gray-500"
         }
         ${task.completed ? "opacity-75" : ""}
+        ${isGrabbed ? "ring-2 ring-blue-400 shadow-lg scale-[1.02]" : ""}
         bg-white dark:bg-gray-800
       `}
       onClick={handleClick}
     >
       <div className="flex items-center space-x-3">
+        {/* Drag handle */}
+        {dragHandleProps && (
+          <span
+            {...dragHandleProps}
+            data-pointer-draggable
+            title="Drag to reorder"
+            onClick={(e) => e.stopPropagation()}
+            className="flex-shrink-0 -ml-1 p-1 text-gray-300 hover:text-gray-500 dark:text-gray-500 dark:hover:text-gray-300 cursor-grab active:cursor-grabbing touch-none"
+          >
+            <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
+              <path d="M7 4a1.5 1.5 0 110 3 1.5 1.5 0 010-3zm6 0a1.5 1.5 0 110 3 1.5 1.5 0 010-3zM7 8.5a1.5 1.5 0 110 3 1.5 1.5 0 010-3zm6 0a1.5 1.5 0 110 3 1.5 1.5 0 010-3zM7 13a1.5 1.5 0 110 3 1.5 1.5 0 010-3zm6 0a1.5 1.5 0 110 3 1.5 1.5 0 010-3z" />
+            </svg>
+          </span>
+        )}
+
+        {/* Subtask toggle */}
+        {hasSubtasks && onToggleCollapsed && (
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onToggleCollapsed();
+            }}
+            aria-expanded={!isCollapsed}
+            title={isCollapsed ? "Show subtasks" : "Hide subtasks"}
+            className="flex-shrink-0 -mx-1 p-0.5 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 transition-colors"
+          >
+            <svg
+              className={`w-4 h-4 transition-transform ${
+                isCollapsed ? "" : "rotate-90"
+              }`}
+              fill="currentColor"
+              viewBox="0 0 20 20"
+            >
+              <path
+                fillRule="evenodd"
+                d="M7.293 14.707a1 1 0 010-1.414L10.586 10 7.293 6.707a1 1 0 011.414-1.414l4 4a1 1 0 010 1.414l-4 4a1 1 0 01-1.414 0z"
+                clipRule="evenodd"
+              />
+            </svg>
+          </button>
+        )}
+
         {/* Checkbox */}
         <button
           onClick={(e) => {
@@ -113,7 +319,61 @@ export const TaskItem: React.FC<TaskItemProps> = ({
               {task.text}
             </span>
           )}
-          <div className="flex items-center space-x-2 mt-1 text-xs text-gray-500 dark:text-gray-400">
+          <div className="flex flex-wrap items-center gap-x-2 gap-y-1 mt-1 text-xs text-gray-500 dark:text-gray-400">
+            {hasSubtasks && (
+              <span className="flex items-center space-x-1">
+                <span className="w-12 h-1.5 rounded-full bg-gray-200 dark:bg-gray-600 overflow-hidden">
+                  <span
+                    className="block h-full bg-green-500 transition-all duration-300"
+                    style={{
+                      width: `${
+                        (subtaskProgress.completed / subtaskProgress.total) *
+                        100
+                      }%`,
+                    }}
+                  ></span>
+                </span>
+                <span>
+                  {subtaskProgress.completed}/{subtaskProgress.total}
+                </span>
+              </span>
+            )}
+            {task.priority !== "none" && (
+              <span
+                className={`px-1.5 py-0.5 rounded font-medium ${
+                  PRIORITY_INFO[task.priority].color
+                }`}
+              >
+                {PRIORITY_INFO[task.priority].label}
+              </span>
+            )}
+            {task.dueDate && (
+              <span
+                className={
+                  isTaskOverdue(task)
+                    ? "font-medium text-red-600 dark:text-red-400"
+                    : ""
+                }
+              >
+                Due: {formatDueDate(task)}
+              </span>
+            )}
+            {task.recurrence && (
+              <span
+                title="Repeats"
+                className="text-indigo-600 dark:text-indigo-400"
+              >
+                ↻ {describeRecurrence(task.recurrence)}
+              </span>
+            )}
+            {task.tags.map((tag) => (
+              <span
+                key={tag}
+                className="px-1.5 py-0.5 rounded bg-blue-100 text-blue-700 dark:bg-blue-900/40 dark:text-blue-300"
+              >
+                #{tag}
+              </span>
+            ))}
             <span>Created: {task.createdAt.toLocaleDateString()}</span>
             {task.updatedAt.getTime() !== task.createdAt.getTime() && (
               <span>• Updated: {task.updatedAt.toLocaleDateString()}</span>
@@ -156,6 +416,47 @@ export const TaskItem: React.FC<TaskItemProps> = ({
             </button>
           )}
 
+          {onAddSubtask && (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                setIsAddingSubtask(true);
+              }}
+              className="p-1 text-gray-400 hover:text-blue-500 transition-colors"
+              title="Add subtask"
+            >
+              <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
+                <path
+                  fillRule="evenodd"
+                  d="M10 3a1 1 0 011 1v5h5a1 1 0 110 2h-5v5a1 1 0 11-2 0v-5H4a1 1 0 110-2h5V4a1 1 0 011-1z"
+                  clipRule="evenodd"
+                />
+              </svg>
+            </button>
+          )}
+
+          {onUpdate && (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                setTagsText(task.tags.join(", "));
+                setIsCustomRule(false);
+                setRuleError(null);
+                setIsEditingDetails(!isEditingDetails);
+              }}
+              className="p-1 text-gray-400 hover:text-blue-500 transition-colors"
+              title="Details"
+            >
+              <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
+                <path
+                  fillRule="evenodd"
+                  d="M6 2a1 1 0 00-1 1v1H4a2 2 0 00-2 2v10a2 2 0 002 2h12a2 2 0 002-2V6a2 2 0 00-2-2h-1V3a1 1 0 10-2 0v1H7V3a1 1 0 00-1-1zm0 5a1 1 0 000 2h8a1 1 0 100-2H6z"
+                  clipRule="evenodd"
+                />
+              </svg>
+            </button>
+          )}
+
           <button
             onClick={(e) => {
               e.stopPropagation();
@@ -180,6 +481,139 @@ export const TaskItem: React.FC<TaskItemProps> = ({
         </div>
       </div>
 
+      {/* Priority, due date, tags and repeat editor */}
+      {onUpdate && isEditingDetails && (
+        <div
+          className="mt-3 ml-8 grid grid-cols-1 sm:grid-cols-3 gap-2 text-sm"
+          onClick={(e) => e.stopPropagation()}
+        >
+          <select
+            aria-label="Priority"
+            value={task.priority}
+            onChange={(e) =>
+              onUpdate(task.id, { priority: e.target.value as TaskPriority })
+            }
+            className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+          >
+            {TASK_PRIORITIES.map((priority) => (
+              <option key={priority} value={priority}>
+                {PRIORITY_INFO[priority].label}
+              </option>
+            ))}
+          </select>
+          <div className="flex space-x-2">
+            <input
+              type="date"
+              aria-label="Due date"
+              value={dueDateValue}
+              onChange={(e) =>
+                handleDueDateChange(e.target.value, dueTimeValue)
+              }
+              className="flex-1 min-w-0 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            />
+            <input
+              type="time"
+              aria-label="Due time"
+              value={dueTimeValue}
+              disabled={!dueDateValue}
+              onChange={(e) =>
+                handleDueDateChange(dueDateValue, e.target.value)
+              }
+              className="w-24 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white disabled:opacity-50"
+            />
+          </div>
+          <input
+            type="text"
+            aria-label="Tags"
+            placeholder="work, home"
+            value={tagsText}
+            onChange={(e) => setTagsText(e.target.value)}
+            onBlur={handleTagsCommit}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                handleTagsCommit();
+              }
+            }}
+            className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+          />
+          <div className="sm:col-span-3 flex flex-wrap items-center gap-2">
+            <select
+              aria-label="Repeat"
+              value={repeatValue}
+              onChange={(e) => handleRepeatChange(e.target.value)}
+              className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            >
+              {REPEAT_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            {repeatValue === "weekly" &&
+              WEEKDAY_NAMES.map((name, day) => (
+                <button
+                  key={name}
+                  onClick={() => handleWeekdayToggle(day)}
+                  aria-pressed={!!task.recurrence?.weekdays?.includes(day)}
+                  className={`px-2 py-1 rounded text-xs font-medium ${
+                    task.recurrence?.weekdays?.includes(day)
+                      ? "bg-blue-500 text-white"
+                      : "bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300"
+                  }`}
+                >
+                  {name}
+                </button>
+              ))}
+            {repeatValue === "custom" && (
+              <input
+                type="text"
+                aria-label="Recurrence rule"
+                placeholder="FREQ=WEEKLY;BYDAY=MO,WE"
+                value={ruleText}
+                onChange={(e) => setRuleText(e.target.value)}
+                onBlur={handleRuleCommit}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") {
+                    handleRuleCommit();
+                  }
+                }}
+                className="flex-1 min-w-0 px-2 py-1 font-mono border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              />
+            )}
+            {ruleError && (
+              <span className="text-xs text-red-600 dark:text-red-400">
+                {ruleError}
+              </span>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* New subtask */}
+      {onAddSubtask && isAddingSubtask && (
+        <div className="mt-3 ml-8" onClick={(e) => e.stopPropagation()}>
+          <input
+            type="text"
+            aria-label="Subtask"
+            placeholder="Enter a subtask..."
+            value={subtaskText}
+            onChange={(e) => setSubtaskText(e.target.value)}
+            onBlur={handleAddSubtask}
+            onKeyDown={(e) => {
+              // Leaving the field adds the subtask
+              if (e.key === "Enter") {
+                e.currentTarget.blur();
+              } else if (e.key === "Escape") {
+                setSubtaskText("");
+                setIsAddingSubtask(false);
+              }
+            }}
+            className="w-full px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            autoFocus
+          />
+        </div>
+      )}
+
       {/* Selection indicator */}
       {isSelected && (
         <div className="absolute left-0 top-0 bottom-0 w-1 bg-blue-500 rounded-l-lg"></div>
@@ -0,0 +1,264 @@
+/** @format */
+
+import React, { useState } from "react";
+import { useTodo } from "../contexts";
+import { TaskSortKey, TaskStatusFilter } from "../types";
+import {
+  TaskQueryError,
+  isSameTaskQuery,
+  isTaskQueryActive,
+} from "../services/taskQuery";
+import { TASK_PRIORITIES } from "../utils";
+
+const INPUT_CLASS =
+  "px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500";
+const BUTTON_CLASS =
+  "px-2 py-1 text-sm rounded-lg bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-white hover:bg-gray-300 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors";
+const TOGGLE_CLASS = "px-2 py-0.5 text-xs rounded-full font-medium";
+
+const STATUS_OPTIONS: { value: TaskStatusFilter; label: string }[] = [
+  { value: "all", label: "All tasks" },
+  { value: "active", label: "Active" },
+  { value: "completed", label: "Completed" },
+];
+
+const SORT_OPTIONS: { value: TaskSortKey; label: string }[] = [
+  { value: "manual", label: "Manual order" },
+  { value: "dueDate", label: "Due date" },
+  { value: "priority", label: "Priority" },
+  { value: "createdAt", label: "Newest first" },
+  { value: "text", label: "Name" },
+];
+
+const PRIORITY_LABELS = {
+  none: "No priority",
+  low: "Low",
+  medium: "Medium",
+  high: "High",
+};
+
+// Toggle chip for a filter value
+const toggleClass = (isOn: boolean) =>
+  `${TOGGLE_CLASS} ${
+    isOn
+      ? "bg-blue-500 text-white"
+      : "bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300"
+  }`;
+
+// Search, filters and sort of the task list, and saved views of them. The
+// selection and gesture navigation follow the filtered list.
+export const TaskQueryBar: React.FC = () => {
+  const {
+    state,
+    setTaskQuery,
+    resetTaskQuery,
+    saveView,
+    applyView,
+    deleteView,
+  } = useTodo();
+  const { taskQuery: query } = state;
+  // Name being typed for a new view; Enter saves it, Escape or leaving the
+  // field cancels
+  const [isNaming, setIsNaming] = useState(false);
+  const [viewName, setViewName] = useState("");
+  const [message, setMessage] = useState<string | null>(null);
+
+  const activeView = state.savedViews.find((view) =>
+    isSameTaskQuery(view.query, query)
+  );
+  const tags = Array.from(new Set(state.tasks.flatMap((task) => task.tags)));
+  tags.sort((a, b) => a.localeCompare(b));
+
+  // Errors are reported by TodoContext; these only keep the UI consistent
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    setMessage(null);
+    try {
+      await action();
+    } catch (error) {
+      console.error(`Failed to ${failure}:`, error);
+      setMessage(
+        error instanceof TaskQueryError ? error.message : `Could not ${failure}`
+      );
+    }
+  };
+
+  const handleSaveView = async () => {
+    if (viewName.trim()) {
+      await run(() => saveView(viewName), "save view");
+    }
+    setIsNaming(false);
+  };
+
+  const toggle = <T,>(values: T[], value: T): T[] =>
+    values.includes(value)
+      ? values.filter((v) => v !== value)
+      : [...values, value];
+
+  return (
+    <div className="mb-4 bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-600 p-4 space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="search"
+          value={query.text}
+          onChange={(e) => setTaskQuery({ text: e.target.value })}
+          placeholder="Search tasks..."
+          aria-label="Search tasks"
+          className={`flex-1 min-w-[10rem] ${INPUT_CLASS}`}
+        />
+        <select
+          value={query.status}
+          onChange={(e) =>
+            setTaskQuery({ status: e.target.value as TaskStatusFilter })
+          }
+          aria-label="Status"
+          className={INPUT_CLASS}
+        >
+          {STATUS_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <select
+          value={query.sort}
+          onChange={(e) =>
+            setTaskQuery({ sort: e.target.value as TaskSortKey })
+          }
+          aria-label="Sort"
+          className={INPUT_CLASS}
+        >
+          {SORT_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {TASK_PRIORITIES.map((priority) => (
+          <button
+            key={priority}
+            onClick={() =>
+              setTaskQuery({
+                priorities: toggle(query.priorities, priority),
+              })
+            }
+            aria-pressed={query.priorities.includes(priority)}
+            className={toggleClass(query.priorities.includes(priority))}
+          >
+            {PRIORITY_LABELS[priority]}
+          </button>
+        ))}
+        {tags.map((tag) => (
+          <button
+            key={tag}
+            onClick={() => setTaskQuery({ tags: toggle(query.tags, tag) })}
+            aria-pressed={query.tags.includes(tag)}
+            className={toggleClass(query.tags.includes(tag))}
+          >
+            #{tag}
+          </button>
+        ))}
+        <label className="flex items-center space-x-1 text-xs text-gray-500 dark:text-gray-400">
+          <span>Due</span>
+          <input
+            type="date"
+            value={query.dueFrom ?? ""}
+            max={query.dueTo}
+            onChange={(e) =>
+              setTaskQuery({ dueFrom: e.target.value || undefined })
+            }
+            aria-label="Due from"
+            className={INPUT_CLASS}
+          />
+          <span>–</span>
+          <input
+            type="date"
+            value={query.dueTo ?? ""}
+            min={query.dueFrom}
+            onChange={(e) =>
+              setTaskQuery({ dueTo: e.target.value || undefined })
+            }
+            aria-label="Due to"
+            className={INPUT_CLASS}
+          />
+        </label>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {isNaming ? (
+          <input
+            type="text"
+            value={viewName}
+            autoFocus
+            onChange={(e) => setViewName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") handleSaveView();
+              if (e.key === "Escape") setIsNaming(false);
+            }}
+            onBlur={() => setIsNaming(false)}
+            placeholder="View name"
+            aria-label="View name"
+            className={INPUT_CLASS}
+          />
+        ) : (
+          <select
+            value={activeView?.id ?? ""}
+            onChange={(e) =>
+              e.target.value ? applyView(e.target.value) : resetTaskQuery()
+            }
+            aria-label="Saved view"
+            className={INPUT_CLASS}
+          >
+            <option value="">
+              {isTaskQueryActive(query) ? "Unsaved view" : "Saved views"}
+            </option>
+            {state.savedViews.map((view) => (
+              <option key={view.id} value={view.id}>
+                {view.name}
+              </option>
+            ))}
+          </select>
+        )}
+        <button
+          onClick={() => {
+            setViewName("");
+            setIsNaming(true);
+          }}
+          disabled={isNaming || !isTaskQueryActive(query) || !!activeView}
+          className={BUTTON_CLASS}
+        >
+          Save view
+        </button>
+        <button
+          onClick={() =>
+            activeView && run(() => deleteView(activeView.id), "delete view")
+          }
+          disabled={!activeView}
+          className={BUTTON_CLASS}
+        >
+          Delete view
+        </button>
+        <button
+          onClick={resetTaskQuery}
+          disabled={!isTaskQueryActive(query)}
+          className={BUTTON_CLASS}
+        >
+          Clear
+        </button>
+        {isTaskQueryActive(query) && (
+          <span className="text-sm text-gray-500 dark:text-gray-400">
+            {state.visibleTasks.length} of {state.tasks.length} tasks
+          </span>
+        )}
+      </div>
+
+      {message && (
+        <p role="status" className="text-sm text-gray-600 dark:text-gray-300">
+          {message}
+        </p>
+      )}
+    </div>
+  );
+};
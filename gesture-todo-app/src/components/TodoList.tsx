@@ -2,29 +2,77 @@
 
 import React, { useState } from "react";
 import { Task } from "../types";
+import { DEFAULT_TASK_QUERY, getVisibleTasks } from "../services/taskQuery";
+import { getSubtaskProgress, getSubtasks } from "../utils/taskTree";
 import { TaskItem } from "./TaskItem";
 
 interface TodoListProps {
   tasks: Task[];
+  // Tasks as shown (see TodoState.visibleTasks); all of them by default
+  visibleTasks?: Task[];
+  // Whether visibleTasks are search results, listed flat
+  isFiltered?: boolean;
+  // Index into visibleTasks
   selectedTaskIndex: number;
   onTaskSelect: (index: number) => void;
   onTaskToggle: (id: string) => void;
   onTaskDelete: (id: string) => void;
   onTaskEdit?: (id: string, newText: string) => void;
+  onTaskUpdate?: (id: string, updates: Partial<Task>) => void;
   onTaskAdd?: (text: string) => void;
+  // Drag-and-drop reordering; `toIndex` is the task's index among its
+  // sibling tasks afterwards
+  onTaskMove?: (id: string, toIndex: number) => void;
+  grabbedTaskId?: string | null;
+  // Tasks whose subtasks are hidden
+  collapsedTaskIds?: string[];
+  onTaskCollapsedChange?: (id: string, collapsed: boolean) => void;
+  onSubtaskAdd?: (parentId: string, text: string) => void;
 }
 
+// Task being dragged, and the task it would be dropped before (null: the end
+// of its group)
+interface DragState {
+  taskId: string;
+  beforeId: string | null;
+}
+
+// Task under `clientY` that a drop would go before; tasks only move within
+// their own group, and subtasks form a group of their own
+const findDropTarget = (handle: Element, clientY: number): string | null => {
+  const items =
+    handle
+      .closest("[data-task-group]")
+      ?.querySelectorAll<HTMLElement>(":scope > [data-task-id]") ?? [];
+  for (const item of Array.from(items)) {
+    const rect = item.getBoundingClientRect();
+    if (clientY < rect.top + rect.height / 2) {
+      return item.dataset.taskId ?? null;
+    }
+  }
+  return null;
+};
+
 export const TodoList: React.FC<TodoListProps> = ({
   tasks,
+  visibleTasks: visibleTasksProp,
+  isFiltered = false,
   selectedTaskIndex,
   onTaskSelect,
   onTaskToggle,
   onTaskDelete,
   onTaskEdit,
+  onTaskUpdate,
   onTaskAdd,
+  onTaskMove,
+  grabbedTaskId = null,
+  collapsedTaskIds = [],
+  onTaskCollapsedChange,
+  onSubtaskAdd,
 }) => {
   const [newTaskText, setNewTaskText] = useState("");
   const [isAddingTask, setIsAddingTask] = useState(false);
+  const [drag, setDrag] = useState<DragState | null>(null);
 
   const handleAddTask = () => {
     if (newTaskText.trim() && onTaskAdd) {
@@ -45,6 +93,139 @@ export const TodoList: React.FC<TodoListProps> = ({
 
   const completedTasks = tasks.filter((task) => task.completed);
   const incompleteTasks = tasks.filter((task) => !task.completed);
+  const visibleTasks =
+    visibleTasksProp ??
+    getVisibleTasks(tasks, DEFAULT_TASK_QUERY, collapsedTaskIds);
+  const selectedTaskId = visibleTasks[selectedTaskIndex]?.id;
+
+  // Subtasks are listed under their parent; only top-level tasks are split
+  // by completion. Search results are all split, and listed flat.
+  const taskIds = new Set(tasks.map((task) => task.id));
+  const topLevelTasks = isFiltered
+    ? visibleTasks
+    : tasks.filter((task) => !task.parentId || !taskIds.has(task.parentId));
+  const completedTopLevelTasks = topLevelTasks.filter((task) => task.completed);
+  const incompleteTopLevelTasks = topLevelTasks.filter(
+    (task) => !task.completed
+  );
+  // Dragging only makes sense in the manual order
+  const canDrag = !!onTaskMove && !isFiltered;
+
+  const handleDrop = ({ taskId, beforeId }: DragState) => {
+    const task = tasks.find((t) => t.id === taskId);
+    if (!task || !onTaskMove || beforeId === taskId) {
+      return;
+    }
+
+    const siblings = tasks.filter((t) => t.parentId === task.parentId);
+    const others = siblings.filter((t) => t.id !== taskId);
+    let toIndex: number;
+    if (beforeId) {
+      toIndex = others.findIndex((t) => t.id === beforeId);
+    } else {
+      // After the last other task of the group
+      const lastInGroup = others
+        .map((t) => t.parentId !== null || t.completed === task.completed)
+        .lastIndexOf(true);
+      if (lastInGroup === -1) {
+        return;
+      }
+      toIndex = lastInGroup + 1;
+    }
+
+    if (toIndex !== -1 && toIndex !== siblings.indexOf(task)) {
+      onTaskMove(taskId, toIndex);
+    }
+  };
+
+  // Pointer events cover mouse, touch and the hand pointer. Capture fails
+  // for synthesized pointers, which are sent to the handle anyway.
+  const dragHandleProps = (task: Task): React.HTMLAttributes<HTMLElement> => ({
+    onPointerDown: (e) => {
+      if (e.button !== 0) return;
+      e.preventDefault();
+      try {
+        e.currentTarget.setPointerCapture(e.pointerId);
+      } catch {
+        // Not a real pointer
+      }
+      setDrag({ taskId: task.id, beforeId: task.id });
+    },
+    onPointerMove: (e) => {
+      if (drag?.taskId !== task.id) return;
+      const beforeId = findDropTarget(e.currentTarget, e.clientY);
+      if (beforeId !== drag.beforeId) {
+        setDrag({ taskId: task.id, beforeId });
+      }
+    },
+    onPointerUp: () => {
+      if (drag?.taskId === task.id) {
+        handleDrop(drag);
+      }
+      setDrag(null);
+    },
+    onPointerCancel: () => setDrag(null),
+  });
+
+  const dropIndicator = (
+    <div className="h-0.5 -my-1 bg-blue-500 rounded" aria-hidden="true"></div>
+  );
+
+  const renderGroup = (group: Task[]): React.ReactNode => {
+    const isDropGroup = group.some((t) => t.id === drag?.taskId);
+    return (
+      <div data-task-group className="space-y-2">
+        {group.map((task) => {
+          const subtasks = isFiltered ? [] : getSubtasks(tasks, task.id);
+          const isCollapsed = collapsedTaskIds.includes(task.id);
+          return (
+            <React.Fragment key={task.id}>
+              {isDropGroup &&
+                drag?.beforeId === task.id &&
+                drag.taskId !== task.id &&
+                dropIndicator}
+              <div
+                data-task-id={task.id}
+                className={drag?.taskId === task.id ? "opacity-50" : ""}
+              >
+                <TaskItem
+                  task={task}
+                  isSelected={task.id === selectedTaskId}
+                  onToggle={() => onTaskToggle(task.id)}
+                  onDelete={() => onTaskDelete(task.id)}
+                  onSelect={() =>
+                    onTaskSelect(
+                      visibleTasks.findIndex((t) => t.id === task.id)
+                    )
+                  }
+                  onEdit={onTaskEdit}
+                  onUpdate={onTaskUpdate}
+                  dragHandleProps={canDrag ? dragHandleProps(task) : undefined}
+                  isGrabbed={task.id === grabbedTaskId}
+                  subtaskProgress={getSubtaskProgress(tasks, task.id)}
+                  isCollapsed={isCollapsed}
+                  onToggleCollapsed={
+                    onTaskCollapsedChange
+                      ? () => onTaskCollapsedChange(task.id, !isCollapsed)
+                      : undefined
+                  }
+                  onAddSubtask={
+                    onSubtaskAdd
+                      ? (text) => onSubtaskAdd(task.id, text)
+                      : undefined
+                  }
+                />
+                {subtasks.length > 0 && !isCollapsed && (
+                  <div className="ml-6 mt-2">{renderGroup(subtasks)}</div>
+                )}
+              </div>
+            </React.Fragment>
+          );
+        })}
+        {isDropGroup && drag?.beforeId === null && dropIndicator}
+      </div>
+    );
+  };
 
   return (
     <div className="space-y-6">
@@ -120,61 +301,36 @@ export const TodoList: React.FC<TodoListProps> = ({
             Add your first task to get started!
           </p>
         </div>
+      ) : topLevelTasks.length === 0 ? (
+        <div className="text-center py-12">
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-2">
+            No matching tasks
+          </h3>
+          <p className="text-gray-500 dark:text-gray-400">
+            Try other search terms or filters.
+          </p>
+        </div>
       ) : (
         <div className="space-y-6">
           {/* Incomplete tasks */}
-          {incompleteTasks.length > 0 && (
+          {incompleteTopLevelTasks.length > 0 && (
             <div>
               <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-3 flex items-center">
                 <span className="w-3 h-3 bg-blue-500 rounded-full mr-2"></span>
-                Active Tasks ({incompleteTasks.length})
+                Active Tasks ({incompleteTopLevelTasks.length})
               </h3>
-              <div className="space-y-2">
-                {incompleteTasks.map((task, index) => {
-                  const originalIndex = tasks.findIndex(
-                    (t) => t.id === task.id
-                  );
-                  return (
-                    <TaskItem
-                      key={task.id}
-                      task={task}
-                      isSelected={selectedTaskIndex === originalIndex}
-                      onToggle={() => onTaskToggle(task.id)}
-                      onDelete={() => onTaskDelete(task.id)}
-                      onSelect={() => onTaskSelect(originalIndex)}
-                      onEdit={onTaskEdit}
-                    />
-                  );
-                })}
-              </div>
+              {renderGroup(incompleteTopLevelTasks)}
             </div>
           )}
 
           {/* Completed tasks */}
-          {completedTasks.length > 0 && (
+          {completedTopLevelTasks.length > 0 && (
             <div>
               <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-3 flex items-center">
                 <span className="w-3 h-3 bg-green-500 rounded-full mr-2"></span>
-                Completed Tasks ({completedTasks.length})
+                Completed Tasks ({completedTopLevelTasks.length})
               </h3>
-              <div className="space-y-2">
-                {completedTasks.map((task, index) => {
-                  const originalIndex = tasks.findIndex(
-                    (t) => t.id === task.id
-                  );
-                  return (
-                    <TaskItem
-                      key={task.id}
-                      task={task}
-                      isSelected={selectedTaskIndex === originalIndex}
-                      onToggle={() => onTaskToggle(task.id)}
-                      onDelete={() => onTaskDelete(task.id)}
-                      onSelect={() => onTaskSelect(originalIndex)}
-                      onEdit={onTaskEdit}
-                    />
-                  );
-                })}
-              </div>
+              {renderGroup(completedTopLevelTasks)}
             </div>
           )}
         </div>
@@ -0,0 +1,93 @@
+/** @format */
+
+import React, { useEffect, useState } from "react";
+import { useTodo } from "../contexts";
+import { describeHistoryEntry } from "../services/undoHistory";
+
+interface UndoToastProps {
+  // How long the toast stays up after a change, in milliseconds
+  duration?: number;
+}
+
+// Text fields keep their own native undo
+const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable ||
+    ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
+// Offers to undo the latest task change and handles the Ctrl+Z / Ctrl+Shift+Z
+// shortcuts (Cmd on macOS)
+export const UndoToast: React.FC<UndoToastProps> = ({ duration = 5000 }) => {
+  const { undoState, undo, redo } = useTodo();
+  const [isVisible, setIsVisible] = useState(false);
+
+  // Show again for every new change
+  useEffect(() => {
+    if (!undoState.lastChange) {
+      setIsVisible(false);
+      return;
+    }
+
+    setIsVisible(true);
+    const timer = setTimeout(() => setIsVisible(false), duration);
+    return () => clearTimeout(timer);
+  }, [undoState.lastChange, duration]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (
+        !(e.ctrlKey || e.metaKey) ||
+        e.key.toLowerCase() !== "z" ||
+        isEditableTarget(e.target)
+      ) {
+        return;
+      }
+
+      e.preventDefault();
+      const action = e.shiftKey ? redo : undo;
+      action().catch((error) => {
+        console.error(`Failed to ${e.shiftKey ? "redo" : "undo"}:`, error);
+      });
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [undo, redo]);
+
+  if (!isVisible || !undoState.lastChange) {
+    return null;
+  }
+
+  const handleUndo = async () => {
+    try {
+      await undo();
+    } catch (error) {
+      console.error("Failed to undo:", error);
+      // Error is handled by TodoContext and displayed via DatabaseErrorNotification
+    }
+  };
+
+  return (
+    <div
+      role="status"
+      className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 flex items-center space-x-4 px-4 py-3 rounded-lg shadow-lg bg-gray-800 text-white dark:bg-gray-700"
+    >
+      <span className="text-sm">
+        {describeHistoryEntry(undoState.lastChange)}
+      </span>
+      <button
+        onClick={handleUndo}
+        className="text-sm font-medium text-blue-300 hover:text-blue-200 transition-colors"
+      >
+        Undo
+      </button>
+      <button
+        onClick={() => setIsVisible(false)}
+        className="text-gray-400 hover:text-gray-200 transition-colors"
+        title="Dismiss"
+      >
+        ×
+      </button>
+    </div>
+  );
+};
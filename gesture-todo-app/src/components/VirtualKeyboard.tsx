@@ -0,0 +1,110 @@
+/** @format */
+
+import React from "react";
+import {
+  LandmarkSource,
+  PointerHitTest,
+  domHitTest,
+} from "../services/handPointer";
+import { HandPointerCursor, useHandPointer } from "./HandPointerCursor";
+
+// Special keys; every other key is the character it types
+export const BACKSPACE_KEY = "Backspace";
+export const CLOSE_KEY = "Close";
+
+const KEY_ROWS = [
+  ["1", "2", "3", "4", "5", "6", "7", "8", "9", "0"],
+  ["q", "w", "e", "r", "t", "y", "u", "i", "o", "p"],
+  ["a", "s", "d", "f", "g", "h", "j", "k", "l", "-"],
+  ["z", "x", "c", "v", "b", "n", "m", ",", ".", "?"],
+];
+
+const TARGET_PREFIX = "key:";
+
+// Apply a virtual key press to the text being typed
+export function applyVirtualKey(text: string, key: string): string {
+  if (key === BACKSPACE_KEY) {
+    return Array.from(text).slice(0, -1).join("");
+  }
+  if (key === CLOSE_KEY) {
+    return text;
+  }
+  return text + key;
+}
+
+interface VirtualKeyboardProps {
+  // Hand landmarks driving the pointer; without one only clicks work
+  source: LandmarkSource | null;
+  onKey: (key: string) => void;
+  hitTest?: PointerHitTest;
+}
+
+// On-screen keyboard typed with the index fingertip: point at a key and
+// pinch, or hold the pointer on it
+export const VirtualKeyboard: React.FC<VirtualKeyboardProps> = ({
+  source,
+  onKey,
+  hitTest = domHitTest,
+}) => {
+  const pointer = useHandPointer(
+    source,
+    (state) => {
+      if (state?.pressedId?.startsWith(TARGET_PREFIX)) {
+        onKey(state.pressedId.slice(TARGET_PREFIX.length));
+      }
+    },
+    undefined,
+    hitTest
+  );
+
+  const renderKey = (key: string, label: string, className = "flex-1") => {
+    const targetId = `${TARGET_PREFIX}${key}`;
+    const isHovered = pointer?.targetId === targetId;
+    return (
+      <button
+        key={key}
+        type="button"
+        data-pointer-target={targetId}
+        onClick={() => onKey(key)}
+        className={`${className} relative overflow-hidden h-12 rounded-lg text-lg font-medium transition-colors ${
+          isHovered
+            ? "bg-blue-500 text-white"
+            : "bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-white hover:bg-gray-200 dark:hover:bg-gray-600"
+        }`}
+      >
+        {label}
+        {isHovered && pointer && pointer.dwellProgress > 0 && (
+          <span
+            className="absolute bottom-0 left-0 h-1 bg-white"
+            style={{ width: `${pointer.dwellProgress * 100}%` }}
+          ></span>
+        )}
+      </button>
+    );
+  };
+
+  return (
+    <>
+      <div
+        role="group"
+        aria-label="仮想キーボード"
+        className="fixed inset-x-0 bottom-0 z-50 p-3 space-y-2 bg-white/95 dark:bg-gray-800/95 border-t border-gray-200 dark:border-gray-600 shadow-2xl"
+      >
+        {KEY_ROWS.map((row, index) => (
+          <div key={index} className="flex space-x-2">
+            {row.map((key) => renderKey(key, key))}
+          </div>
+        ))}
+        <div className="flex space-x-2">
+          {renderKey(" ", "スペース", "flex-[4]")}
+          {renderKey(BACKSPACE_KEY, "⌫", "flex-1")}
+          {renderKey(CLOSE_KEY, "閉じる", "flex-[2]")}
+        </div>
+        <p className="text-xs text-center text-gray-500 dark:text-gray-400">
+          人差し指でキーを指し、つまむか少し止めると入力できます
+        </p>
+      </div>
+      <HandPointerCursor state={pointer} />
+    </>
+  );
+};
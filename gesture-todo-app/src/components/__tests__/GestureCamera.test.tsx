@@ -1,9 +1,12 @@
 /** @format */
 
 import React from "react";
-import { render, screen } from "@testing-library/react";
+import { render, screen, act, waitFor } from "@testing-library/react";
 import { vi } from "vitest";
+import { Hands, NormalizedLandmark } from "@mediapipe/hands";
+import { drawLandmarks } from "@mediapipe/drawing_utils";
 import { GestureCamera } from "../GestureCamera";
+import { HandsListener, LandmarkStream } from "../../services/landmarkStream";
 
 // Mock MediaPipe modules
 vi.mock("@mediapipe/hands", () => ({
@@ -16,13 +19,6 @@ vi.mock("@mediapipe/hands", () => ({
   HAND_CONNECTIONS: [],
 }));
 
-vi.mock("@mediapipe/camera_utils", () => ({
-  Camera: vi.fn().mockImplementation(() => ({
-    start: vi.fn(),
-    stop: vi.fn(),
-  })),
-}));
-
 vi.mock("@mediapipe/drawing_utils", () => ({
   drawConnectors: vi.fn(),
   drawLandmarks: vi.fn(),
@@ -31,8 +27,15 @@ vi.mock("@mediapipe/drawing_utils", () => ({
 describe("GestureCamera", () => {
   const mockOnGestureDetected = vi.fn();
 
+  // Camera access stays pending unless a test grants it
+  const getUserMedia = vi.fn(() => new Promise<MediaStream>(() => {}));
+
   beforeEach(() => {
     vi.clearAllMocks();
+    Object.defineProperty(navigator, "mediaDevices", {
+      value: { getUserMedia },
+      configurable: true,
+    });
   });
 
   it("should render disabled state when not enabled", () => {
@@ -84,4 +87,138 @@ describe("GestureCamera", () => {
     expect(video).toBeInTheDocument();
     expect(canvas).toBeInTheDocument();
   });
+
+  it("should draw the hands of the landmark stream without running MediaPipe", async () => {
+    const track = { stop: vi.fn() };
+    getUserMedia.mockResolvedValueOnce({
+      getTracks: () => [track],
+    } as unknown as MediaStream);
+    vi.spyOn(HTMLMediaElement.prototype, "play").mockResolvedValue();
+    vi.spyOn(HTMLCanvasElement.prototype, "getContext").mockReturnValue({
+      clearRect: vi.fn(),
+    } as unknown as CanvasRenderingContext2D);
+
+    // A recognizer detecting hands in the camera video
+    let detect: HandsListener = () => {};
+    const landmarkStream = new LandmarkStream();
+    landmarkStream.connect({
+      addHandsListener: (listener) => {
+        detect = listener;
+        return () => {};
+      },
+      addScoresListener: () => () => {},
+      getStats: () => ({ inferenceCount: 0, inferenceTime: 0 }),
+    });
+    const onCameraStatusChange = vi.fn();
+
+    const { unmount } = render(
+      <GestureCamera
+        onGestureDetected={mockOnGestureDetected}
+        isEnabled={true}
+        onCameraStatusChange={onCameraStatusChange}
+        landmarkStream={landmarkStream}
+      />
+    );
+    await waitFor(() =>
+      expect(screen.getByText("アクティブ")).toBeInTheDocument()
+    );
+    expect(onCameraStatusChange).toHaveBeenLastCalledWith("active");
+
+    const landmarks = [{ x: 0.5, y: 0.5, z: 0 }] as NormalizedLandmark[];
+    act(() => detect([{ landmarks }], 0, { landmarks }));
+
+    expect(drawLandmarks).toHaveBeenCalledWith(
+      expect.anything(),
+      landmarks,
+      expect.anything()
+    );
+    expect(screen.getByText("手を検出")).toBeInTheDocument();
+    expect(Hands).not.toHaveBeenCalled();
+    expect(mockOnGestureDetected).not.toHaveBeenCalled();
+
+    unmount();
+    expect(track.stop).toHaveBeenCalled();
+    vi.restoreAllMocks();
+  });
+
+  it("should record the controlling hand on the stream's clock", async () => {
+    getUserMedia.mockResolvedValueOnce({
+      getTracks: () => [],
+    } as unknown as MediaStream);
+    vi.spyOn(HTMLMediaElement.prototype, "play").mockResolvedValue();
+    const createObjectURL = vi.fn(() => "blob:recording");
+    const revokeObjectURL = vi.fn();
+    Object.assign(URL, { createObjectURL, revokeObjectURL });
+    const click = vi
+      .spyOn(HTMLAnchorElement.prototype, "click")
+      .mockImplementation(() => {});
+
+    let detect: HandsListener = () => {};
+    const landmarkStream = new LandmarkStream();
+    landmarkStream.connect({
+      addHandsListener: (listener) => {
+        detect = listener;
+        return () => {};
+      },
+      addScoresListener: () => () => {},
+      getStats: () => ({ inferenceCount: 0, inferenceTime: 0 }),
+    });
+    const onRecordingComplete = vi.fn();
+
+    const { rerender } = render(
+      <GestureCamera
+        onGestureDetected={mockOnGestureDetected}
+        isEnabled={true}
+        landmarkStream={landmarkStream}
+        recorderEnabled={true}
+        onRecordingComplete={onRecordingComplete}
+      />
+    );
+    await waitFor(() =>
+      expect(screen.getByText("ランドマーク録画")).toBeInTheDocument()
+    );
+
+    // Another person's hand comes first; the recognizer follows the other
+    const other = { landmarks: [{ x: 0.2, y: 0.5, z: 0 }] };
+    const controlling = {
+      landmarks: [{ x: 0.6, y: 0.5, z: 0 }],
+      handedness: "Left" as const,
+    };
+    // The worker's clock, unrelated to this thread's
+    act(() => detect([other, controlling], 5000, controlling));
+    act(() => screen.getByText("ランドマーク録画").click());
+    act(() => detect([other, controlling], 5033, controlling));
+    act(() => detect([other], 5066, null));
+    act(() => screen.getByText("録画停止").click());
+
+    const [recording] = onRecordingComplete.mock.lastCall!;
+    expect(recording.frames).toEqual([
+      {
+        timestamp: 33,
+        landmarks: controlling.landmarks,
+        handedness: "Left",
+        label: "thumbs_up",
+      },
+      { timestamp: 66, landmarks: null, label: "thumbs_up" },
+    ]);
+
+    // Without a handler the recording is downloaded
+    rerender(
+      <GestureCamera
+        onGestureDetected={mockOnGestureDetected}
+        isEnabled={true}
+        landmarkStream={landmarkStream}
+        recorderEnabled={true}
+      />
+    );
+    vi.useFakeTimers();
+    act(() => screen.getByText("ランドマーク録画").click());
+    act(() => screen.getByText("録画停止").click());
+    expect(click).toHaveBeenCalled();
+    expect(revokeObjectURL).not.toHaveBeenCalled();
+    vi.runAllTimers();
+    expect(revokeObjectURL).toHaveBeenCalledWith("blob:recording");
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
 });
@@ -1,10 +1,15 @@
 /** @format */
 
 import React from "react";
-import { render, screen, fireEvent } from "@testing-library/react";
+import { render, screen, fireEvent, act } from "@testing-library/react";
 import { describe, it, expect } from "vitest";
 import { GestureIndicator } from "../GestureIndicator";
 import { GestureType } from "../../types";
+import {
+  DEFAULT_GESTURE_BINDINGS,
+  getGestureDisplayInfo,
+} from "../../services/gestureBindings";
+import { GestureScoresListener } from "../../services/landmarkStream";
 
 describe("GestureIndicator", () => {
   it("renders without crashing", () => {
@@ -175,7 +180,7 @@ describe("GestureIndicator", () => {
         gesture: "two_fingers",
         name: "2本指立て",
         action: "下のタスクを選択",
-        icon: "✌️",
+        icon: "🤞",
       },
       {
         gesture: "open_palm",
@@ -199,4 +204,95 @@ describe("GestureIndicator", () => {
       );
     });
   });
+
+  it("renders the guide from the provided bindings", () => {
+    render(
+      <GestureIndicator
+        currentGesture="fist"
+        isHandDetected={true}
+        showGuide={true}
+        bindings={{
+          ...DEFAULT_GESTURE_BINDINGS,
+          fist: "navigate_up",
+          point_up: null,
+        }}
+      />
+    );
+
+    expect(screen.queryByText("タスクを削除")).not.toBeInTheDocument();
+    expect(screen.getAllByText("上のタスクを選択")).toHaveLength(2);
+    // point_up is unbound
+    expect(screen.getAllByText("未割り当て")).toHaveLength(1);
+  });
+
+  it("shows the countdown while a destructive action awaits confirmation", () => {
+    const now = Date.now();
+    render(
+      <GestureIndicator
+        currentGesture="fist"
+        isHandDetected={true}
+        confirmation={{
+          action: "delete",
+          gesture: "fist",
+          armedAt: now,
+          expiresAt: now + 3000,
+          heldSince: now,
+          holdDuration: 1500,
+          confirmGesture: "thumbs_up",
+          abortGesture: "open_palm",
+        }}
+      />
+    );
+
+    expect(screen.getByRole("alert")).toHaveTextContent(
+      "「タスクを削除」を実行しますか？"
+    );
+    expect(screen.getByText("残り 3 秒")).toBeInTheDocument();
+    expect(
+      screen.getByTestId("confirmation-hold-progress")
+    ).toBeInTheDocument();
+  });
+
+  it("shows live bars for the likeliest gestures", () => {
+    let publish: GestureScoresListener = () => {};
+    const scoreSource = {
+      addScoresListener: (listener: GestureScoresListener) => {
+        publish = listener;
+        return () => {};
+      },
+    };
+    render(
+      <GestureIndicator
+        currentGesture="none"
+        isHandDetected={true}
+        scoreSource={scoreSource}
+      />
+    );
+    expect(screen.queryByRole("progressbar")).not.toBeInTheDocument();
+
+    act(() =>
+      publish(
+        [
+          { gesture: "peace_sign", score: 0.6 },
+          { gesture: "two_fingers", score: 0.35 },
+          { gesture: "none", score: 0.04 },
+          { gesture: "point_up", score: 0.01 },
+          { gesture: "fist", score: 0 },
+        ],
+        0
+      )
+    );
+
+    const bars = screen.getAllByRole("progressbar");
+    expect(bars).toHaveLength(3);
+    expect(bars[0]).toHaveAccessibleName(
+      getGestureDisplayInfo("peace_sign", []).name
+    );
+    expect(bars[0]).toHaveAttribute("aria-valuenow", "60");
+    expect(bars[1]).toHaveAccessibleName(
+      getGestureDisplayInfo("two_fingers", []).name
+    );
+    expect(bars[1]).toHaveAttribute("aria-valuenow", "35");
+    expect(screen.getByText("60%")).toBeInTheDocument();
+  });
 });
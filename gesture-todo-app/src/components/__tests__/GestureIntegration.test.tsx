@@ -71,7 +71,10 @@ describe("Gesture Integration", () => {
         return Promise.resolve();
       }),
       processFrame: vi.fn().mockResolvedValue(undefined),
+      isHealthy: vi.fn().mockReturnValue(true),
+      addHandsListener: vi.fn(() => () => {}),
       dispose: vi.fn(),
+      updateConfig: vi.fn(),
       getStats: vi.fn().mockReturnValue({
         lastGesture: "none",
         confidence: 0,
@@ -7,13 +7,22 @@ import { GestureManager } from "../GestureManager";
 import { TodoProvider } from "../../contexts/TodoContext";
 import { AppProvider } from "../../contexts/AppContext";
 import { GestureRecognizer } from "../../services/gestureRecognizer";
+import { useTodo } from "../../contexts/TodoContext";
+import { Task } from "../../types";
+import {
+  DictationHandlers,
+  SpeechRecognitionProvider,
+} from "../../services/speechRecognition";
 
 // Mock the GestureRecognizer
 vi.mock("../../services/gestureRecognizer", () => ({
   GestureRecognizer: vi.fn().mockImplementation(() => ({
     initialize: vi.fn().mockResolvedValue(undefined),
     processFrame: vi.fn().mockResolvedValue(undefined),
+    isHealthy: vi.fn().mockReturnValue(true),
+    addHandsListener: vi.fn(() => () => {}),
     dispose: vi.fn(),
+    updateConfig: vi.fn(),
     getStats: vi.fn().mockReturnValue({
       lastGesture: "none",
       confidence: 0,
@@ -48,6 +57,22 @@ Object.defineProperty(window, "indexedDB", {
   writable: true,
 });
 
+// Speech provider driven by the test
+class MockSpeechRecognitionProvider implements SpeechRecognitionProvider {
+  readonly isSupported = true;
+  handlers: DictationHandlers | null = null;
+  start = vi.fn((handlers: DictationHandlers) => {
+    this.handlers = handlers;
+  });
+  stop = vi.fn(() => {
+    this.handlers?.onEnd();
+    this.handlers = null;
+  });
+  abort = vi.fn(() => {
+    this.handlers = null;
+  });
+}
+
 // Test wrapper component
 const TestWrapper: React.FC<{ children: React.ReactNode }> = ({ children }) => (
   <AppProvider>
@@ -67,7 +92,10 @@ describe("GestureManager", () => {
     mockGestureRecognizer = {
       initialize: vi.fn().mockResolvedValue(undefined),
       processFrame: vi.fn().mockResolvedValue(undefined),
+      isHealthy: vi.fn().mockReturnValue(true),
+      addHandsListener: vi.fn(() => () => {}),
       dispose: vi.fn(),
+      updateConfig: vi.fn(),
       getStats: vi.fn().mockReturnValue({
         lastGesture: "none",
         confidence: 0,
@@ -117,7 +145,7 @@ describe("GestureManager", () => {
         expect.any(Function),
         expect.objectContaining({
           confidenceThreshold: expect.any(Number),
-          debounceFrames: expect.any(Number),
+          holdDuration: expect.any(Number),
           sensitivity: expect.any(Number),
         })
       );
@@ -210,7 +238,10 @@ describe("GestureManager", () => {
         return Promise.resolve();
       }),
       processFrame: vi.fn().mockResolvedValue(undefined),
+      isHealthy: vi.fn().mockReturnValue(true),
+      addHandsListener: vi.fn(() => () => {}),
       dispose: vi.fn(),
+      updateConfig: vi.fn(),
     };
 
     (GestureRecognizer as any).mockImplementation(() => mockRecognizer);
@@ -266,4 +297,195 @@ describe("GestureManager", () => {
       );
     });
   });
+
+  it("dictates the new task text and accepts it with a gesture", async () => {
+    let gestureCallback: ((gesture: any) => void) | null = null;
+    mockGestureRecognizer.initialize = vi.fn().mockImplementation(() => {
+      gestureCallback = (GestureRecognizer as any).mock.calls[0][0];
+      return Promise.resolve();
+    });
+    const speech = new MockSpeechRecognitionProvider();
+
+    render(
+      <TestWrapper>
+        <GestureManager
+          videoElement={mockVideoElement}
+          isEnabled={true}
+          speechProvider={speech}
+        />
+      </TestWrapper>
+    );
+
+    await waitFor(() => {
+      expect(mockGestureRecognizer.initialize).toHaveBeenCalled();
+    });
+
+    await act(async () => {
+      gestureCallback!("thumbs_up");
+    });
+    expect(speech.start).toHaveBeenCalled();
+
+    act(() => {
+      speech.handlers!.onTranscript({ final: "", interim: "牛乳を" });
+    });
+    expect(screen.getByText("牛乳を")).toBeInTheDocument();
+
+    act(() => {
+      speech.handlers!.onTranscript({ final: "牛乳を買う", interim: "" });
+    });
+    const input = screen.getByPlaceholderText("タスクの内容を入力...");
+    expect(input).toHaveValue("牛乳を買う");
+
+    // Other gestures are ignored while the dialog is open
+    await act(async () => {
+      gestureCallback!("fist");
+    });
+    expect(input).toBeInTheDocument();
+
+    // Accepting ends the dictation session before adding the task
+    speech.abort.mockClear();
+    await act(async () => {
+      gestureCallback!("thumbs_up");
+    });
+    expect(speech.abort).toHaveBeenCalled();
+  });
+
+  it("stops dictating when the dialog is cancelled by gesture", async () => {
+    let gestureCallback: ((gesture: any) => void) | null = null;
+    mockGestureRecognizer.initialize = vi.fn().mockImplementation(() => {
+      gestureCallback = (GestureRecognizer as any).mock.calls[0][0];
+      return Promise.resolve();
+    });
+    const speech = new MockSpeechRecognitionProvider();
+
+    render(
+      <TestWrapper>
+        <GestureManager
+          videoElement={mockVideoElement}
+          isEnabled={true}
+          speechProvider={speech}
+        />
+      </TestWrapper>
+    );
+
+    await waitFor(() => {
+      expect(mockGestureRecognizer.initialize).toHaveBeenCalled();
+    });
+
+    await act(async () => {
+      gestureCallback!("thumbs_up");
+    });
+    speech.abort.mockClear();
+    await act(async () => {
+      gestureCallback!("open_palm");
+    });
+
+    expect(speech.abort).toHaveBeenCalled();
+    expect(
+      screen.queryByPlaceholderText("タスクの内容を入力...")
+    ).not.toBeInTheDocument();
+  });
+
+  it("switches to pointer mode and back by gesture", async () => {
+    let gestureCallback: ((gesture: any) => void) | null = null;
+    mockGestureRecognizer.initialize = vi.fn().mockImplementation(() => {
+      gestureCallback = (GestureRecognizer as any).mock.calls[0][0];
+      return Promise.resolve();
+    });
+    mockGestureRecognizer.addLandmarkListener = vi.fn(() => () => {});
+
+    render(
+      <TestWrapper>
+        <GestureManager videoElement={mockVideoElement} isEnabled={true} />
+      </TestWrapper>
+    );
+
+    await waitFor(() => {
+      expect(mockGestureRecognizer.initialize).toHaveBeenCalled();
+    });
+    const toggle = screen.getByRole("checkbox", { name: "ポインターモード" });
+
+    await act(async () => {
+      gestureCallback!("circle_cw");
+    });
+    expect(toggle).toBeChecked();
+    expect(mockGestureRecognizer.addLandmarkListener).toHaveBeenCalled();
+
+    // Commands are ignored while the hand is a pointer
+    await act(async () => {
+      gestureCallback!("thumbs_up");
+    });
+    expect(
+      screen.queryByPlaceholderText("タスクの内容を入力...")
+    ).not.toBeInTheDocument();
+
+    await act(async () => {
+      gestureCallback!("open_palm");
+    });
+    expect(toggle).not.toBeChecked();
+  });
+
+  it("grabs the selected task and puts it down by gesture", async () => {
+    let gestureCallback: ((gesture: any) => void) | null = null;
+    mockGestureRecognizer.initialize = vi.fn().mockImplementation(() => {
+      gestureCallback = (GestureRecognizer as any).mock.calls[0][0];
+      return Promise.resolve();
+    });
+
+    const task: Task = {
+      id: "t1",
+      text: "Buy milk",
+      completed: false,
+      priority: "none",
+      tags: [],
+      order: "a0",
+      listId: "default",
+      parentId: null,
+      createdAt: new Date(2025, 0, 1),
+      updatedAt: new Date(2025, 0, 1),
+    };
+    // Seeds the list and shows which task is grabbed
+    const GrabProbe: React.FC = () => {
+      const { state, dispatch } = useTodo();
+      React.useEffect(() => {
+        dispatch({ type: "SET_TASKS", payload: [task] });
+      }, [dispatch]);
+      return <div data-testid="grabbed">{state.grabbedTaskId ?? ""}</div>;
+    };
+
+    render(
+      <TestWrapper>
+        <GrabProbe />
+        <GestureManager videoElement={mockVideoElement} isEnabled={true} />
+      </TestWrapper>
+    );
+
+    await waitFor(() => {
+      expect(mockGestureRecognizer.initialize).toHaveBeenCalled();
+    });
+
+    await act(async () => {
+      gestureCallback!("fist_and_point");
+    });
+    expect(screen.getByTestId("grabbed")).toHaveTextContent("t1");
+    expect(screen.getByText(/「Buy milk」をつかみました/)).toBeInTheDocument();
+
+    // Cancel puts it back where it was and lets go
+    await act(async () => {
+      gestureCallback!("open_palm");
+    });
+    expect(screen.getByTestId("grabbed")).toHaveTextContent("");
+    expect(
+      screen.getByText("タスク「Buy milk」を元の位置に戻しました")
+    ).toBeInTheDocument();
+
+    // Any other action puts the task down first
+    await act(async () => {
+      gestureCallback!("fist_and_point");
+    });
+    await act(async () => {
+      gestureCallback!("thumbs_up");
+    });
+    expect(screen.getByTestId("grabbed")).toHaveTextContent("");
+  });
 });
@@ -9,6 +9,11 @@ const mockTask: Task = {
   id: "1",
   text: "Test task",
   completed: false,
+  priority: "none",
+  tags: [],
+  order: "a0",
+  listId: "default",
+  parentId: null,
   createdAt: new Date("2023-01-01"),
   updatedAt: new Date("2023-01-01"),
 };
@@ -142,4 +147,126 @@ describe("TaskItem", () => {
     expect(screen.getByText(/Created: 1\/1\/2023/)).toBeInTheDocument();
     expect(screen.getByText(/Updated: 1\/2\/2023/)).toBeInTheDocument();
   });
+
+  it("should show priority, due date and tags", () => {
+    const detailedTask: Task = {
+      ...mockTask,
+      priority: "high",
+      dueDate: new Date(2023, 0, 5),
+      hasDueTime: false,
+      tags: ["work", "urgent"],
+    };
+
+    render(<TaskItem {...defaultProps} task={detailedTask} />);
+
+    expect(screen.getByText("High")).toBeInTheDocument();
+    expect(screen.getByText(/Due: 1\/5\/2023/)).toHaveClass("text-red-600");
+    expect(screen.getByText("#work")).toBeInTheDocument();
+    expect(screen.getByText("#urgent")).toBeInTheDocument();
+  });
+
+  it("should edit priority, due date and tags", () => {
+    const onUpdate = vi.fn();
+    render(<TaskItem {...defaultProps} onUpdate={onUpdate} />);
+
+    fireEvent.click(screen.getByTitle("Details"));
+
+    fireEvent.change(screen.getByLabelText("Priority"), {
+      target: { value: "medium" },
+    });
+    expect(onUpdate).toHaveBeenCalledWith("1", { priority: "medium" });
+
+    fireEvent.change(screen.getByLabelText("Due date"), {
+      target: { value: "2023-02-10" },
+    });
+    expect(onUpdate).toHaveBeenCalledWith("1", {
+      dueDate: new Date(2023, 1, 10),
+      hasDueTime: false,
+    });
+
+    const tags = screen.getByLabelText("Tags");
+    fireEvent.change(tags, { target: { value: "#work, home work" } });
+    fireEvent.keyDown(tags, { key: "Enter" });
+    expect(onUpdate).toHaveBeenCalledWith("1", { tags: ["work", "home"] });
+    expect(defaultProps.onSelect).not.toHaveBeenCalled();
+  });
+
+  it("should clear the due date", () => {
+    const onUpdate = vi.fn();
+    const dueTask: Task = {
+      ...mockTask,
+      dueDate: new Date(2023, 1, 10, 9, 30),
+      hasDueTime: true,
+    };
+    render(<TaskItem {...defaultProps} task={dueTask} onUpdate={onUpdate} />);
+
+    fireEvent.click(screen.getByTitle("Details"));
+    expect(screen.getByLabelText("Due time")).toHaveValue("09:30");
+
+    fireEvent.change(screen.getByLabelText("Due date"), {
+      target: { value: "" },
+    });
+    expect(onUpdate).toHaveBeenCalledWith("1", {
+      dueDate: undefined,
+      hasDueTime: undefined,
+    });
+  });
+
+  it("should set a repeat rule", () => {
+    const onUpdate = vi.fn();
+    const dueTask: Task = { ...mockTask, dueDate: new Date(2023, 0, 31) };
+    render(<TaskItem {...defaultProps} task={dueTask} onUpdate={onUpdate} />);
+
+    fireEvent.click(screen.getByTitle("Details"));
+    fireEvent.change(screen.getByLabelText("Repeat"), {
+      target: { value: "monthly" },
+    });
+    expect(onUpdate).toHaveBeenCalledWith("1", {
+      recurrence: { frequency: "monthly", interval: 1, monthDay: 31 },
+    });
+
+    fireEvent.change(screen.getByLabelText("Repeat"), {
+      target: { value: "custom" },
+    });
+    const rule = screen.getByLabelText("Recurrence rule");
+    fireEvent.change(rule, { target: { value: "FREQ=HOURLY" } });
+    fireEvent.blur(rule);
+    expect(screen.getByText(/Recurrence rule needs FREQ=/)).toBeInTheDocument();
+
+    fireEvent.change(rule, { target: { value: "FREQ=DAILY;INTERVAL=3" } });
+    fireEvent.keyDown(rule, { key: "Enter" });
+    expect(onUpdate).toHaveBeenLastCalledWith("1", {
+      recurrence: { frequency: "daily", interval: 3 },
+    });
+  });
+
+  it("should show the repeat rule", () => {
+    render(
+      <TaskItem
+        {...defaultProps}
+        task={{
+          ...mockTask,
+          recurrence: { frequency: "weekly", interval: 1, weekdays: [1, 3] },
+        }}
+      />
+    );
+
+    expect(screen.getByTitle("Repeats")).toHaveTextContent(
+      "Every week on Mon, Wed"
+    );
+  });
+
+  it("should add a subtask", () => {
+    const onAddSubtask = vi.fn();
+    render(<TaskItem {...defaultProps} onAddSubtask={onAddSubtask} />);
+
+    fireEvent.click(screen.getByTitle("Add subtask"));
+    const input = screen.getByLabelText("Subtask");
+    fireEvent.change(input, { target: { value: " Buy milk " } });
+    fireEvent.blur(input);
+
+    expect(onAddSubtask).toHaveBeenCalledWith("Buy milk");
+    expect(screen.queryByLabelText("Subtask")).not.toBeInTheDocument();
+    expect(defaultProps.onSelect).not.toHaveBeenCalled();
+  });
 });
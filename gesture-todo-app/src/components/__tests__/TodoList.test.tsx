@@ -11,6 +11,11 @@ const mockTasks: Task[] = [
     id: "1",
     text: "Test task 1",
     completed: false,
+    priority: "none",
+    tags: [],
+    order: "a0",
+    listId: "default",
+    parentId: null,
     createdAt: new Date("2023-01-01"),
     updatedAt: new Date("2023-01-01"),
   },
@@ -18,6 +23,11 @@ const mockTasks: Task[] = [
     id: "2",
     text: "Test task 2",
     completed: true,
+    priority: "none",
+    tags: [],
+    order: "a1",
+    listId: "default",
+    parentId: null,
     createdAt: new Date("2023-01-02"),
     updatedAt: new Date("2023-01-02"),
   },
@@ -132,4 +142,124 @@ describe("TodoList", () => {
     ).not.toBeInTheDocument();
     expect(screen.getByText("Add New Task")).toBeInTheDocument();
   });
+
+  it("should reorder tasks by dragging the handle", () => {
+    const tasks: Task[] = ["a0", "a1", "a2"].map((order, index) => ({
+      ...mockTasks[0],
+      id: `t${index}`,
+      text: `Task ${index}`,
+      order,
+    }));
+    const onTaskMove = vi.fn();
+    const { container } = render(
+      <TodoList {...defaultProps} tasks={tasks} onTaskMove={onTaskMove} />
+    );
+
+    // Each task is 40px tall, stacked from the top
+    container.querySelectorAll("[data-task-id]").forEach((item, index) => {
+      item.getBoundingClientRect = () =>
+        ({ top: index * 40, height: 40 }) as DOMRect;
+    });
+
+    const handles = screen.getAllByTitle("Drag to reorder");
+    fireEvent.pointerDown(handles[0], { button: 0, pointerId: 1 });
+    // Below the middle of the last task: the end of the group
+    fireEvent.pointerMove(handles[0], { clientY: 110, pointerId: 1 });
+    fireEvent.pointerUp(handles[0], { clientY: 110, pointerId: 1 });
+    expect(onTaskMove).toHaveBeenCalledWith("t0", 2);
+
+    // Dropping in place does not move the task
+    onTaskMove.mockClear();
+    fireEvent.pointerDown(handles[2], { button: 0, pointerId: 1 });
+    fireEvent.pointerMove(handles[2], { clientY: 90, pointerId: 1 });
+    fireEvent.pointerUp(handles[2], { clientY: 90, pointerId: 1 });
+    expect(onTaskMove).not.toHaveBeenCalled();
+
+    fireEvent.pointerDown(handles[2], { button: 0, pointerId: 1 });
+    fireEvent.pointerMove(handles[2], { clientY: 10, pointerId: 1 });
+    fireEvent.pointerUp(handles[2], { clientY: 10, pointerId: 1 });
+    expect(onTaskMove).toHaveBeenCalledWith("t2", 0);
+  });
+
+  it("should highlight the grabbed task", () => {
+    render(<TodoList {...defaultProps} grabbedTaskId="1" />);
+
+    expect(
+      screen.getByText("Test task 1").closest(".ring-2")
+    ).toBeInTheDocument();
+    expect(screen.getByText("Test task 2").closest(".ring-2")).toBeNull();
+  });
+
+  it("should show subtasks under their parent and collapse them", () => {
+    const onTaskCollapsedChange = vi.fn();
+    const subtask: Task = {
+      ...mockTasks[1],
+      id: "3",
+      text: "Subtask",
+      parentId: "1",
+    };
+    const { rerender } = render(
+      <TodoList
+        {...defaultProps}
+        tasks={[mockTasks[0], subtask, mockTasks[1]]}
+        onTaskCollapsedChange={onTaskCollapsedChange}
+      />
+    );
+
+    // The done subtask stays with its open parent
+    expect(screen.getByText("Active Tasks (1)")).toBeInTheDocument();
+    expect(
+      screen.getByText("Test task 1").closest("[data-task-id]")
+    ).toContainElement(screen.getByText("Subtask"));
+    expect(screen.getByText("1/1")).toBeInTheDocument();
+
+    fireEvent.click(screen.getByTitle("Hide subtasks"));
+    expect(onTaskCollapsedChange).toHaveBeenCalledWith("1", true);
+
+    rerender(
+      <TodoList
+        {...defaultProps}
+        tasks={[mockTasks[0], subtask, mockTasks[1]]}
+        collapsedTaskIds={["1"]}
+        onTaskCollapsedChange={onTaskCollapsedChange}
+      />
+    );
+    expect(screen.queryByText("Subtask")).not.toBeInTheDocument();
+    expect(screen.getByTitle("Show subtasks")).toBeInTheDocument();
+  });
+
+  it("should list search results flat and select among them", () => {
+    const subtask: Task = {
+      ...mockTasks[0],
+      id: "3",
+      text: "Test subtask",
+      parentId: "1",
+    };
+    const onTaskSelect = vi.fn();
+    render(
+      <TodoList
+        {...defaultProps}
+        tasks={[mockTasks[0], subtask, mockTasks[1]]}
+        visibleTasks={[subtask, mockTasks[1]]}
+        isFiltered
+        selectedTaskIndex={1}
+        onTaskSelect={onTaskSelect}
+        onTaskMove={vi.fn()}
+      />
+    );
+
+    expect(screen.queryByText("Test task 1")).not.toBeInTheDocument();
+    expect(screen.getByText("Active Tasks (1)")).toBeInTheDocument();
+    // Manual reordering is off while filtered
+    expect(screen.queryByTitle("Drag to reorder")).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByText("Test subtask"));
+    expect(onTaskSelect).toHaveBeenCalledWith(0);
+  });
+
+  it("should say when nothing matches", () => {
+    render(<TodoList {...defaultProps} visibleTasks={[]} isFiltered />);
+
+    expect(screen.getByText("No matching tasks")).toBeInTheDocument();
+  });
 });
@@ -0,0 +1,74 @@
+/** @format */
+
+import React from "react";
+import { render, screen, fireEvent, act } from "@testing-library/react";
+import { describe, it, expect, vi } from "vitest";
+import { NormalizedLandmark } from "@mediapipe/hands";
+import {
+  BACKSPACE_KEY,
+  VirtualKeyboard,
+  applyVirtualKey,
+} from "../VirtualKeyboard";
+import { LandmarkListener } from "../../services/gestureRecognizer";
+
+vi.mock("@mediapipe/hands", () => ({
+  Hands: vi.fn(),
+}));
+
+// Landmark source the test feeds by hand
+const createSource = () => {
+  const listeners = new Set<LandmarkListener>();
+  return {
+    addLandmarkListener: (listener: LandmarkListener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    emit: (landmarks: NormalizedLandmark[] | null, timestamp: number) =>
+      listeners.forEach((listener) => listener(landmarks, timestamp)),
+    get size() {
+      return listeners.size;
+    },
+  };
+};
+
+const openHand = Array.from({ length: 21 }, (_, index) => ({
+  x: 0.5,
+  y: index === 4 ? 0.3 : 0.5,
+  z: 0,
+}));
+
+describe("VirtualKeyboard", () => {
+  it("should type clicked keys", () => {
+    const onKey = vi.fn();
+    render(<VirtualKeyboard source={null} onKey={onKey} />);
+
+    fireEvent.click(screen.getByText("q"));
+    fireEvent.click(screen.getByText("⌫"));
+    expect(onKey.mock.calls).toEqual([["q"], [BACKSPACE_KEY]]);
+  });
+
+  it("should press the key the hand pointer dwells on", () => {
+    const source = createSource();
+    const onKey = vi.fn();
+    const { unmount } = render(
+      <VirtualKeyboard source={source} onKey={onKey} hitTest={() => "key:k"} />
+    );
+
+    act(() => source.emit(openHand, 0));
+    expect(screen.getByText("k")).toHaveClass("bg-blue-500");
+
+    act(() => source.emit(openHand, 1000));
+    expect(onKey).toHaveBeenCalledWith("k");
+
+    unmount();
+    expect(source.size).toBe(0);
+  });
+});
+
+describe("applyVirtualKey", () => {
+  it("should type and delete characters", () => {
+    expect(applyVirtualKey("mil", "k")).toBe("milk");
+    expect(applyVirtualKey("牛乳", BACKSPACE_KEY)).toBe("牛");
+    expect(applyVirtualKey("", BACKSPACE_KEY)).toBe("");
+  });
+});
@@ -5,6 +5,15 @@ export { TaskItem } from "./TaskItem";
 export { GestureCamera } from "./GestureCamera";
 export { GestureIndicator } from "./GestureIndicator";
 export { GestureManager } from "./GestureManager";
+export { GestureBindingSettings } from "./GestureBindingSettings";
+export { GestureSettingsPanel } from "./GestureSettingsPanel";
+export { CustomGestureTrainer } from "./CustomGestureTrainer";
 export { ErrorBoundary } from "./ErrorBoundary";
 export { DatabaseErrorNotification } from "./DatabaseErrorNotification";
 export { GestureFallbackNotification } from "./GestureFallbackNotification";
+export { UndoToast } from "./UndoToast";
+export { ListSwitcher } from "./ListSwitcher";
+export { TaskQueryBar } from "./TaskQueryBar";
+export { VirtualKeyboard } from "./VirtualKeyboard";
+export { HandPointerCursor, useHandPointer } from "./HandPointerCursor";
+export { PointerModeOverlay } from "./PointerModeOverlay";
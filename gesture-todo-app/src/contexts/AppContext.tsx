@@ -8,12 +8,22 @@ import React, {
   ReactNode,
   useState,
 } from "react";
-import { CameraPermission } from "../types";
+import {
+  CameraPermission,
+  CustomGestureTemplate,
+  GestureBindings,
+  GestureSettings,
+} from "../types";
 import {
   DatabaseFactory,
   TodoDatabase,
   DatabaseError,
 } from "../services/database";
+import {
+  normalizeGestureBindings,
+  pruneGestureBindings,
+} from "../services/gestureBindings";
+import { DEFAULT_SETTINGS, SettingsBlock } from "../services/appSettings";
 
 // Camera status type
 export type CameraStatus =
@@ -27,11 +37,9 @@ export type CameraStatus =
 export interface AppState {
   cameraPermission: CameraPermission;
   cameraStatus: CameraStatus;
-  gestureSettings: {
-    sensitivity: number;
-    debounceTime: number;
-    confidenceThreshold: number;
-  };
+  gestureSettings: GestureSettings;
+  gestureBindings: GestureBindings;
+  customGestures: CustomGestureTemplate[];
   theme: "light" | "dark";
   gestureEnabled: boolean;
   isInitialized: boolean;
@@ -45,6 +53,8 @@ export type AppAction =
       type: "SET_GESTURE_SETTINGS";
       payload: Partial<AppState["gestureSettings"]>;
     }
+  | { type: "SET_GESTURE_BINDINGS"; payload: GestureBindings }
+  | { type: "SET_CUSTOM_GESTURES"; payload: CustomGestureTemplate[] }
   | { type: "SET_THEME"; payload: "light" | "dark" }
   | { type: "SET_GESTURE_ENABLED"; payload: boolean }
   | { type: "SET_INITIALIZED"; payload: boolean }
@@ -54,13 +64,8 @@ export type AppAction =
 const initialAppState: AppState = {
   cameraPermission: "prompt",
   cameraStatus: "disabled",
-  gestureSettings: {
-    sensitivity: 0.7,
-    debounceTime: 300,
-    confidenceThreshold: 0.8,
-  },
-  theme: "light",
-  gestureEnabled: true,
+  ...DEFAULT_SETTINGS,
+  customGestures: [],
   isInitialized: false,
 };
 
@@ -88,6 +93,18 @@ function appReducer(state: AppState, action: AppAction): AppState {
         },
       };
 
+    case "SET_GESTURE_BINDINGS":
+      return {
+        ...state,
+        gestureBindings: action.payload,
+      };
+
+    case "SET_CUSTOM_GESTURES":
+      return {
+        ...state,
+        customGestures: action.payload,
+      };
+
     case "SET_THEME":
       return {
         ...state,
@@ -117,6 +134,17 @@ function appReducer(state: AppState, action: AppAction): AppState {
   }
 }
 
+// Gesture settings are stored one key each
+const saveGestureSettings = (db: TodoDatabase, settings: GestureSettings) =>
+  Promise.all([
+    db.setSetting("sensitivity", settings.sensitivity),
+    db.setSetting("confidenceThreshold", settings.confidenceThreshold),
+    db.setSetting("debounceTime", settings.debounceTime),
+    db.setSetting("twoHandMode", settings.twoHandMode),
+    db.setSetting("confirmDestructive", settings.confirmDestructive),
+    db.setSetting("confirmTimeout", settings.confirmTimeout),
+  ]);
+
 // Context type
 interface AppContextType {
   state: AppState;
@@ -127,10 +155,15 @@ interface AppContextType {
   updateGestureSettings: (
     settings: Partial<AppState["gestureSettings"]>
   ) => Promise<void>;
+  updateGestureBindings: (bindings: GestureBindings) => Promise<void>;
+  saveCustomGesture: (template: CustomGestureTemplate) => Promise<void>;
+  deleteCustomGesture: (id: string) => Promise<void>;
+  importCustomGestures: (templates: CustomGestureTemplate[]) => Promise<void>;
   setTheme: (theme: "light" | "dark") => Promise<void>;
   setGestureEnabled: (enabled: boolean) => Promise<void>;
-  loadSettings: () => Promise<void>;
+  loadSettings: (db?: TodoDatabase | null) => Promise<void>;
   resetSettings: () => Promise<void>;
+  importSettings: (settings: SettingsBlock) => Promise<void>;
 }
 
 // Create context
@@ -164,7 +197,8 @@ export function AppProvider({ children }: AppProviderProps) {
     try {
       const db = await DatabaseFactory.createDatabase();
       setDatabase(db);
-      await loadSettings();
+      // `database` state is not updated until the next render
+      await loadSettings(db);
       dispatch({ type: "SET_INITIALIZED", payload: true });
     } catch (error) {
       console.error("Failed to initialize app settings:", error);
@@ -174,8 +208,8 @@ export function AppProvider({ children }: AppProviderProps) {
   };
 
   // Load settings from database
-  const loadSettings = async () => {
-    if (!database) {
+  const loadSettings = async (db: TodoDatabase | null = database) => {
+    if (!db) {
       console.warn("Database not available, using default settings");
       return;
     }
@@ -187,12 +221,20 @@ export function AppProvider({ children }: AppProviderProps) {
         theme,
         confidenceThreshold,
         debounceTime,
+        twoHandMode,
+        confirmDestructive,
+        confirmTimeout,
+        gestureBindings,
       ] = await Promise.all([
-        database.getSetting("gestureEnabled"),
-        database.getSetting("sensitivity"),
-        database.getSetting("theme"),
-        database.getSetting("confidenceThreshold"),
-        database.getSetting("debounceTime"),
+        db.getSetting("gestureEnabled"),
+        db.getSetting("sensitivity"),
+        db.getSetting("theme"),
+        db.getSetting("confidenceThreshold"),
+        db.getSetting("debounceTime"),
+        db.getSetting("twoHandMode"),
+        db.getSetting("confirmDestructive"),
+        db.getSetting("confirmTimeout"),
+        db.getSetting("gestureBindings"),
       ]);
 
       const loadedSettings: Partial<AppState> = {};
@@ -205,16 +247,27 @@ export function AppProvider({ children }: AppProviderProps) {
         loadedSettings.theme = theme;
       }
 
+      if (gestureBindings !== undefined) {
+        loadedSettings.gestureBindings =
+          normalizeGestureBindings(gestureBindings);
+      }
+
       if (
         sensitivity !== undefined ||
         confidenceThreshold !== undefined ||
-        debounceTime !== undefined
+        debounceTime !== undefined ||
+        twoHandMode !== undefined ||
+        confirmDestructive !== undefined ||
+        confirmTimeout !== undefined
       ) {
         loadedSettings.gestureSettings = {
           ...state.gestureSettings,
           ...(sensitivity !== undefined && { sensitivity }),
           ...(confidenceThreshold !== undefined && { confidenceThreshold }),
           ...(debounceTime !== undefined && { debounceTime }),
+          ...(twoHandMode !== undefined && { twoHandMode }),
+          ...(confirmDestructive !== undefined && { confirmDestructive }),
+          ...(confirmTimeout !== undefined && { confirmTimeout }),
         };
       }
 
@@ -225,6 +278,13 @@ export function AppProvider({ children }: AppProviderProps) {
       console.error("Failed to load settings:", error);
       // Continue with default settings
     }
+
+    try {
+      const templates = await db.getAllGestureTemplates();
+      dispatch({ type: "SET_CUSTOM_GESTURES", payload: templates });
+    } catch (error) {
+      console.error("Failed to load custom gestures:", error);
+    }
   };
 
   // Convenience methods
@@ -267,6 +327,19 @@ export function AppProvider({ children }: AppProviderProps) {
           database.setSetting("debounceTime", settings.debounceTime)
         );
       }
+      if (settings.twoHandMode !== undefined) {
+        promises.push(database.setSetting("twoHandMode", settings.twoHandMode));
+      }
+      if (settings.confirmDestructive !== undefined) {
+        promises.push(
+          database.setSetting("confirmDestructive", settings.confirmDestructive)
+        );
+      }
+      if (settings.confirmTimeout !== undefined) {
+        promises.push(
+          database.setSetting("confirmTimeout", settings.confirmTimeout)
+        );
+      }
 
       await Promise.all(promises);
     } catch (error) {
@@ -275,6 +348,95 @@ export function AppProvider({ children }: AppProviderProps) {
     }
   };
 
+  const updateGestureBindings = async (bindings: GestureBindings) => {
+    // Update local state first for immediate feedback
+    dispatch({ type: "SET_GESTURE_BINDINGS", payload: bindings });
+
+    if (!database) {
+      console.warn("Database not available, gesture bindings will not persist");
+      return;
+    }
+
+    try {
+      await database.setSetting("gestureBindings", bindings);
+    } catch (error) {
+      console.error("Failed to save gesture bindings:", error);
+      // Local state is already updated, so don't throw
+    }
+  };
+
+  const saveCustomGesture = async (template: CustomGestureTemplate) => {
+    dispatch({
+      type: "SET_CUSTOM_GESTURES",
+      payload: [
+        ...state.customGestures.filter((t) => t.id !== template.id),
+        template,
+      ],
+    });
+
+    if (!database) {
+      console.warn("Database not available, custom gesture will not persist");
+      return;
+    }
+
+    try {
+      await database.saveGestureTemplate(template);
+    } catch (error) {
+      console.error("Failed to save custom gesture:", error);
+      // Local state is already updated, so don't throw
+    }
+  };
+
+  const deleteCustomGesture = async (id: string) => {
+    const remaining = state.customGestures.filter((t) => t.id !== id);
+    dispatch({ type: "SET_CUSTOM_GESTURES", payload: remaining });
+
+    // A deleted gesture must not keep an action bound
+    const bindings = pruneGestureBindings(state.gestureBindings, remaining);
+    dispatch({ type: "SET_GESTURE_BINDINGS", payload: bindings });
+
+    if (!database) {
+      console.warn("Database not available, deletion will not persist");
+      return;
+    }
+
+    try {
+      await Promise.all([
+        database.deleteGestureTemplate(id),
+        database.setSetting("gestureBindings", bindings),
+      ]);
+    } catch (error) {
+      console.error("Failed to delete custom gesture:", error);
+      // Local state is already updated, so don't throw
+    }
+  };
+
+  // Imported templates replace existing ones with the same id
+  const importCustomGestures = async (templates: CustomGestureTemplate[]) => {
+    const importedIds = new Set(templates.map((t) => t.id));
+    dispatch({
+      type: "SET_CUSTOM_GESTURES",
+      payload: [
+        ...state.customGestures.filter((t) => !importedIds.has(t.id)),
+        ...templates,
+      ],
+    });
+
+    if (!database) {
+      console.warn("Database not available, custom gestures will not persist");
+      return;
+    }
+
+    try {
+      await Promise.all(
+        templates.map((template) => database.saveGestureTemplate(template))
+      );
+    } catch (error) {
+      console.error("Failed to import custom gestures:", error);
+      // Local state is already updated, so don't throw
+    }
+  };
+
   const setTheme = async (theme: "light" | "dark") => {
     // Update local state first for immediate feedback
     dispatch({ type: "SET_THEME", payload: theme });
@@ -312,8 +474,11 @@ export function AppProvider({ children }: AppProviderProps) {
   };
 
   const resetSettings = async () => {
-    // Reset local state first for immediate feedback
-    dispatch({ type: "INITIALIZE_SETTINGS", payload: initialAppState });
+    // Reset local state first for immediate feedback; trained gestures are
+    // user data rather than settings and are kept
+    const { customGestures: _customGestures, ...defaultSettings } =
+      initialAppState;
+    dispatch({ type: "INITIALIZE_SETTINGS", payload: defaultSettings });
 
     if (!database) {
       console.warn("Database not available, settings reset will not persist");
@@ -323,11 +488,13 @@ export function AppProvider({ children }: AppProviderProps) {
     try {
       // Reset to default values
       await Promise.all([
-        database.setSetting("gestureEnabled", true),
-        database.setSetting("sensitivity", 0.7),
-        database.setSetting("theme", "light"),
-        database.setSetting("confidenceThreshold", 0.8),
-        database.setSetting("debounceTime", 300),
+        database.setSetting("gestureEnabled", DEFAULT_SETTINGS.gestureEnabled),
+        database.setSetting("theme", DEFAULT_SETTINGS.theme),
+        saveGestureSettings(database, DEFAULT_SETTINGS.gestureSettings),
+        database.setSetting(
+          "gestureBindings",
+          DEFAULT_SETTINGS.gestureBindings
+        ),
       ]);
     } catch (error) {
       console.error("Failed to reset settings:", error);
@@ -335,16 +502,53 @@ export function AppProvider({ children }: AppProviderProps) {
     }
   };
 
+  // Apply a settings block from an exported file. Bindings to trained
+  // gestures this device does not have are dropped.
+  const importSettings = async (settings: SettingsBlock) => {
+    const gestureBindings = pruneGestureBindings(
+      settings.gestureBindings,
+      state.customGestures
+    );
+    dispatch({
+      type: "INITIALIZE_SETTINGS",
+      payload: { ...settings, gestureBindings },
+    });
+
+    if (!database) {
+      console.warn(
+        "Database not available, imported settings will not persist"
+      );
+      return;
+    }
+
+    try {
+      await Promise.all([
+        database.setSetting("gestureEnabled", settings.gestureEnabled),
+        database.setSetting("theme", settings.theme),
+        saveGestureSettings(database, settings.gestureSettings),
+        database.setSetting("gestureBindings", gestureBindings),
+      ]);
+    } catch (error) {
+      console.error("Failed to import settings:", error);
+      // Local state is already updated, so don't throw
+    }
+  };
+
   const contextValue: AppContextType = {
     state,
     dispatch,
     setCameraPermission,
     setCameraStatus,
     updateGestureSettings,
+    updateGestureBindings,
+    saveCustomGesture,
+    deleteCustomGesture,
+    importCustomGestures,
     setTheme,
     setGestureEnabled,
     loadSettings,
     resetSettings,
+    importSettings,
   };
 
   return (
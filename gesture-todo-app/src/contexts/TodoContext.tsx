@@ -7,8 +7,19 @@ import React, {
   useEffect,
   ReactNode,
   useState,
+  useCallback,
+  useRef,
 } from "react";
-import { Task, TodoState, GestureType, CameraPermission } from "../types";
+import {
+  Task,
+  TaskList,
+  TodoState,
+  RecognizedGesture,
+  CameraPermission,
+  PendingConfirmation,
+  SavedView,
+  TaskQuery,
+} from "../types";
 import {
   DatabaseFactory,
   TodoDatabase,
@@ -16,7 +27,28 @@ import {
   DatabaseConnectionError,
   DatabaseOperationError,
   DatabaseQuotaError,
+  DatabaseExport,
 } from "../services/database";
+import { HistoryEntry, UndoHistory } from "../services/undoHistory";
+import {
+  DEFAULT_LIST_ID,
+  TaskListError,
+  TaskListExport,
+  copyTaskList,
+  createDefaultTaskList,
+  createTaskList,
+  getAdjacentList,
+  serializeTaskList,
+} from "../services/taskLists";
+import { getNextDueDate } from "../services/recurrence";
+import {
+  DEFAULT_TASK_QUERY,
+  createSavedView,
+  getVisibleTasks,
+  reviveSavedViews,
+} from "../services/taskQuery";
+import { generateKeyBetween } from "../utils/fractionalIndex";
+import { getDescendantIds, getSubtasks, sortTaskTree } from "../utils/taskTree";
 
 // Action types for the reducer
 export type TodoAction =
@@ -24,11 +56,26 @@ export type TodoAction =
   | { type: "ADD_TASK"; payload: Omit<Task, "id"> }
   | { type: "UPDATE_TASK"; payload: { id: string; updates: Partial<Task> } }
   | { type: "DELETE_TASK"; payload: string }
+  // Put a task back as it was (undo/redo); `index` places a re-inserted task
+  | { type: "RESTORE_TASK"; payload: { task: Task; index?: number } }
   | { type: "SET_SELECTED_TASK"; payload: number }
-  | { type: "MOVE_SELECTION"; payload: "up" | "down" }
+  // Up and down skip collapsed subtasks; in and out step to the first
+  // subtask and to the parent task
+  | { type: "MOVE_SELECTION"; payload: "up" | "down" | "in" | "out" }
+  | { type: "SET_TASK_COLLAPSED"; payload: { id: string; collapsed: boolean } }
   | { type: "SET_GESTURE_MODE"; payload: boolean }
   | { type: "SET_CAMERA_STATUS"; payload: TodoState["cameraStatus"] }
-  | { type: "SET_CURRENT_GESTURE"; payload: GestureType | null }
+  | { type: "SET_CURRENT_GESTURE"; payload: RecognizedGesture | null }
+  | {
+      type: "SET_PENDING_CONFIRMATION";
+      payload: PendingConfirmation | null;
+    }
+  | { type: "SET_GRABBED_TASK"; payload: string | null }
+  | { type: "SET_LISTS"; payload: TaskList[] }
+  // Show another list along with its tasks
+  | { type: "SET_ACTIVE_LIST"; payload: { listId: string; tasks: Task[] } }
+  | { type: "SET_TASK_QUERY"; payload: TaskQuery }
+  | { type: "SET_SAVED_VIEWS"; payload: SavedView[] }
   | { type: "TOGGLE_TASK_COMPLETION"; payload: string }
   | { type: "CLEAR_SELECTION" }
   | { type: "INITIALIZE_STATE"; payload: Partial<TodoState> };
@@ -40,17 +87,64 @@ const initialState: TodoState = {
   isGestureMode: false,
   cameraStatus: "disabled",
   currentGesture: null,
+  pendingConfirmation: null,
+  grabbedTaskId: null,
+  lists: [createDefaultTaskList()],
+  activeListId: DEFAULT_LIST_ID,
+  collapsedTaskIds: [],
+  taskQuery: DEFAULT_TASK_QUERY,
+  savedViews: [],
+  visibleTasks: [],
 };
 
+// Tasks in tree order, siblings in their manual order
+const sortTasks = (tasks: Task[]): Task[] => sortTaskTree(tasks);
+
+// The selected task, if any
+const selectedTaskOf = (state: TodoState): Task | undefined =>
+  state.visibleTasks[state.selectedTaskIndex];
+
+// Work out the visible tasks again after the tasks, the query or the
+// collapsed tasks changed. The selection goes to `selectedId` if it is
+// visible, and otherwise to the task now at `fallbackIndex`.
+const showTasks = (
+  state: TodoState,
+  selectedId: string | undefined,
+  fallbackIndex = state.selectedTaskIndex
+): TodoState => {
+  const visibleTasks = getVisibleTasks(
+    state.tasks,
+    state.taskQuery,
+    state.collapsedTaskIds
+  );
+  const index = visibleTasks.findIndex((task) => task.id === selectedId);
+  return {
+    ...state,
+    visibleTasks,
+    selectedTaskIndex:
+      index !== -1
+        ? index
+        : Math.max(-1, Math.min(fallbackIndex, visibleTasks.length - 1)),
+  };
+};
+
+// List of the task a history entry changed; entries recorded before lists
+// existed belong to the default list
+const entryListId = (
+  entry: Extract<HistoryEntry, { type: "add" | "update" | "delete" }>
+) =>
+  (entry.type === "update" ? entry.after : entry.task).listId ??
+  DEFAULT_LIST_ID;
+
 // Reducer function
 function todoReducer(state: TodoState, action: TodoAction): TodoState {
   switch (action.type) {
     case "SET_TASKS":
-      return {
-        ...state,
-        tasks: action.payload,
-        selectedTaskIndex: action.payload.length > 0 ? 0 : -1,
-      };
+      return showTasks(
+        { ...state, tasks: sortTasks(action.payload) },
+        undefined,
+        0
+      );
 
     case "ADD_TASK": {
       const newTask: Task = {
@@ -59,43 +153,69 @@ function todoReducer(state: TodoState, action: TodoAction): TodoState {
         createdAt: new Date(),
         updatedAt: new Date(),
       };
-      return {
-        ...state,
-        tasks: [...state.tasks, newTask],
-        selectedTaskIndex: state.tasks.length, // Select the new task
-      };
+      // Select the new task
+      return showTasks(
+        { ...state, tasks: sortTasks([...state.tasks, newTask]) },
+        newTask.id
+      );
     }
 
     case "UPDATE_TASK": {
-      const updatedTasks = state.tasks.map((task) =>
-        task.id === action.payload.id
-          ? { ...task, ...action.payload.updates, updatedAt: new Date() }
-          : task
+      const updatedTasks = sortTasks(
+        state.tasks.map((task) =>
+          task.id === action.payload.id
+            ? { ...task, ...action.payload.updates, updatedAt: new Date() }
+            : task
+        )
+      );
+      // A moved task keeps the selection
+      return showTasks(
+        { ...state, tasks: updatedTasks },
+        selectedTaskOf(state)?.id
       );
-      return {
-        ...state,
-        tasks: updatedTasks,
-      };
     }
 
     case "DELETE_TASK": {
+      // Subtasks go with their parent
+      const deletedIds = [
+        action.payload,
+        ...getDescendantIds(state.tasks, action.payload),
+      ];
       const filteredTasks = state.tasks.filter(
-        (task) => task.id !== action.payload
+        (task) => !deletedIds.includes(task.id)
       );
-      let newSelectedIndex = state.selectedTaskIndex;
 
-      // Adjust selected index after deletion
-      if (filteredTasks.length === 0) {
-        newSelectedIndex = -1;
-      } else if (state.selectedTaskIndex >= filteredTasks.length) {
-        newSelectedIndex = filteredTasks.length - 1;
+      // A deleted selected task passes the selection to the next one
+      return showTasks(
+        {
+          ...state,
+          tasks: filteredTasks,
+          grabbedTaskId: deletedIds.includes(state.grabbedTaskId ?? "")
+            ? null
+            : state.grabbedTaskId,
+        },
+        selectedTaskOf(state)?.id
+      );
+    }
+
+    case "RESTORE_TASK": {
+      const { task, index } = action.payload;
+      const existingIndex = state.tasks.findIndex((t) => t.id === task.id);
+
+      const tasks = [...state.tasks];
+      if (existingIndex !== -1) {
+        tasks[existingIndex] = task;
+      } else {
+        const insertAt = Math.max(
+          0,
+          Math.min(index ?? state.tasks.length, state.tasks.length)
+        );
+        tasks.splice(insertAt, 0, task);
       }
 
-      return {
-        ...state,
-        tasks: filteredTasks,
-        selectedTaskIndex: newSelectedIndex,
-      };
+      // The order key has the final say on where the task goes. A task
+      // the query hides leaves the selection where it was.
+      return showTasks({ ...state, tasks: sortTasks(tasks) }, task.id);
     }
 
     case "SET_SELECTED_TASK":
@@ -103,18 +223,45 @@ function todoReducer(state: TodoState, action: TodoAction): TodoState {
         ...state,
         selectedTaskIndex: Math.max(
           -1,
-          Math.min(action.payload, state.tasks.length - 1)
+          Math.min(action.payload, state.visibleTasks.length - 1)
         ),
       };
 
     case "MOVE_SELECTION": {
-      if (state.tasks.length === 0) return state;
+      const { visibleTasks } = state;
+      if (visibleTasks.length === 0) return state;
+
+      const selected = selectedTaskOf(state);
+      if (action.payload === "in" || action.payload === "out") {
+        if (!selected) return state;
+        // Stepping in goes to the first subtask in manual order
+        const target =
+          action.payload === "in"
+            ? getSubtasks(state.tasks, selected.id)[0]
+            : state.tasks.find((task) => task.id === selected.parentId);
+        if (!target) return state;
+
+        // Stepping into a collapsed task opens it. A target the query
+        // hides cannot be selected.
+        const next = showTasks(
+          {
+            ...state,
+            collapsedTaskIds: state.collapsedTaskIds.filter(
+              (id) => action.payload === "out" || id !== selected.id
+            ),
+          },
+          target.id
+        );
+        return next.visibleTasks[next.selectedTaskIndex] === target
+          ? next
+          : state;
+      }
 
       let newIndex = state.selectedTaskIndex;
       if (action.payload === "up") {
-        newIndex = newIndex <= 0 ? state.tasks.length - 1 : newIndex - 1;
+        newIndex = newIndex <= 0 ? visibleTasks.length - 1 : newIndex - 1;
       } else {
-        newIndex = newIndex >= state.tasks.length - 1 ? 0 : newIndex + 1;
+        newIndex = newIndex >= visibleTasks.length - 1 ? 0 : newIndex + 1;
       }
 
       return {
@@ -123,6 +270,25 @@ function todoReducer(state: TodoState, action: TodoAction): TodoState {
       };
     }
 
+    case "SET_TASK_COLLAPSED": {
+      const { id, collapsed } = action.payload;
+      const collapsedTaskIds = state.collapsedTaskIds.filter(
+        (collapsedId) => collapsedId !== id
+      );
+      const selected = selectedTaskOf(state);
+      if (!collapsed) {
+        return showTasks({ ...state, collapsedTaskIds }, selected?.id);
+      }
+
+      // A selected subtask that gets hidden passes the selection to the task
+      const hidesSelection =
+        selected && getDescendantIds(state.tasks, id).includes(selected.id);
+      return showTasks(
+        { ...state, collapsedTaskIds: [...collapsedTaskIds, id] },
+        hidesSelection ? id : selected?.id
+      );
+    }
+
     case "SET_GESTURE_MODE":
       return {
         ...state,
@@ -141,16 +307,60 @@ function todoReducer(state: TodoState, action: TodoAction): TodoState {
         currentGesture: action.payload,
       };
 
+    case "SET_PENDING_CONFIRMATION":
+      return {
+        ...state,
+        pendingConfirmation: action.payload,
+      };
+
+    case "SET_GRABBED_TASK":
+      return {
+        ...state,
+        grabbedTaskId: action.payload,
+      };
+
+    case "SET_LISTS":
+      return {
+        ...state,
+        lists: action.payload,
+      };
+
+    case "SET_ACTIVE_LIST":
+      return showTasks(
+        {
+          ...state,
+          activeListId: action.payload.listId,
+          tasks: sortTasks(action.payload.tasks),
+          grabbedTaskId: null,
+        },
+        undefined,
+        0
+      );
+
+    case "SET_TASK_QUERY":
+      // The first match is selected when the selected task drops out
+      return showTasks(
+        { ...state, taskQuery: action.payload },
+        selectedTaskOf(state)?.id,
+        0
+      );
+
+    case "SET_SAVED_VIEWS":
+      return {
+        ...state,
+        savedViews: action.payload,
+      };
+
     case "TOGGLE_TASK_COMPLETION": {
       const updatedTasks = state.tasks.map((task) =>
         task.id === action.payload
           ? { ...task, completed: !task.completed, updatedAt: new Date() }
           : task
       );
-      return {
-        ...state,
-        tasks: updatedTasks,
-      };
+      return showTasks(
+        { ...state, tasks: updatedTasks },
+        selectedTaskOf(state)?.id
+      );
     }
 
     case "CLEAR_SELECTION":
@@ -160,10 +370,7 @@ function todoReducer(state: TodoState, action: TodoAction): TodoState {
       };
 
     case "INITIALIZE_STATE":
-      return {
-        ...state,
-        ...action.payload,
-      };
+      return showTasks({ ...state, ...action.payload }, undefined);
 
     default:
       return state;
@@ -178,22 +385,64 @@ interface ErrorState {
   canRetry: boolean;
 }
 
+// Undo/redo availability and the change the undo toast offers to revert
+export interface UndoState {
+  canUndo: boolean;
+  canRedo: boolean;
+  // Latest recorded change; cleared once it has been undone
+  lastChange: HistoryEntry | null;
+}
+
 // Context type
 interface TodoContextType {
   state: TodoState;
   dispatch: React.Dispatch<TodoAction>;
   errorState: ErrorState;
   // Convenience methods
-  addTask: (text: string) => Promise<void>;
+  // Adds a subtask of `parentId` when given
+  addTask: (text: string, parentId?: string | null) => Promise<void>;
   updateTask: (id: string, updates: Partial<Task>) => Promise<void>;
   deleteTask: (id: string) => Promise<void>;
   toggleTaskCompletion: (id: string) => Promise<void>;
-  moveSelection: (direction: "up" | "down") => void;
+  // Move a task to `toIndex` in the manual order, its index among its
+  // sibling tasks afterwards
+  moveTask: (id: string, toIndex: number) => Promise<void>;
+  // Undo/redo of task changes
+  undoState: UndoState;
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+  moveSelection: (direction: "up" | "down" | "in" | "out") => void;
+  // Show or hide a task's subtasks
+  setTaskCollapsed: (id: string, collapsed: boolean) => void;
+  // `index` is into state.visibleTasks
   setSelectedTask: (index: number) => void;
   clearSelection: () => void;
   setGestureMode: (enabled: boolean) => void;
   setCameraStatus: (status: TodoState["cameraStatus"]) => void;
-  setCurrentGesture: (gesture: GestureType | null) => void;
+  setCurrentGesture: (gesture: RecognizedGesture | null) => void;
+  setPendingConfirmation: (pending: PendingConfirmation | null) => void;
+  setGrabbedTask: (id: string | null) => void;
+  // Task lists; `createList` and `importList` switch to the new list
+  createList: (name: string) => Promise<TaskList>;
+  renameList: (id: string, name: string) => Promise<void>;
+  setListArchived: (id: string, archived: boolean) => Promise<void>;
+  // Deletes the list's tasks too; the default list cannot be deleted
+  deleteList: (id: string) => Promise<void>;
+  switchList: (id: string) => Promise<void>;
+  // Switch to the next or previous unarchived list; null when there is none
+  cycleList: (step: 1 | -1) => Promise<TaskList | null>;
+  // A list and its tasks as a list export file
+  exportList: (id: string) => Promise<string>;
+  importList: (
+    data: Pick<TaskListExport, "list" | "tasks">
+  ) => Promise<TaskList>;
+  // Search, filters and sort; changes are merged into the current query
+  setTaskQuery: (changes: Partial<TaskQuery>) => void;
+  resetTaskQuery: () => void;
+  // Saved views; `saveView` saves the current query under a name
+  saveView: (name: string) => Promise<SavedView>;
+  applyView: (id: string) => void;
+  deleteView: (id: string) => Promise<void>;
   // Database operations
   loadTasks: () => Promise<void>;
   initializeDatabase: () => Promise<void>;
@@ -202,11 +451,8 @@ interface TodoContextType {
   retryLastOperation: () => Promise<void>;
   attemptDatabaseRecovery: () => Promise<boolean>;
   // Data backup/recovery
-  exportData: () => Promise<{ tasks: Task[]; settings: Record<string, any> }>;
-  importData: (data: {
-    tasks: Task[];
-    settings: Record<string, any>;
-  }) => Promise<void>;
+  exportData: () => Promise<DatabaseExport>;
+  importData: (data: DatabaseExport) => Promise<void>;
 }
 
 // Create context
@@ -229,6 +475,12 @@ export function TodoProvider({ children }: TodoProviderProps) {
   const [lastFailedOperation, setLastFailedOperation] = useState<
     (() => Promise<void>) | null
   >(null);
+  const historyRef = useRef(new UndoHistory());
+  const [undoState, setUndoState] = useState<UndoState>({
+    canUndo: false,
+    canRedo: false,
+    lastChange: null,
+  });
 
   // Initialize database on mount
   useEffect(() => {
@@ -284,7 +536,7 @@ export function TodoProvider({ children }: TodoProviderProps) {
 
         // Try to reload tasks from fallback
         try {
-          const tasks = await fallbackDB.getAllTasks();
+          const tasks = await fallbackDB.getTasksByList(state.activeListId);
           dispatch({ type: "SET_TASKS", payload: tasks });
         } catch (fallbackError) {
           console.warn("Failed to load tasks from fallback:", fallbackError);
@@ -383,11 +635,80 @@ export function TodoProvider({ children }: TodoProviderProps) {
     syncTasks();
   }, [state.tasks]);
 
+  // Undo history is persisted so a misfired gesture can be undone after a
+  // reload; failing to save it must not fail the change itself
+  const syncHistory = (
+    db: TodoDatabase | null,
+    lastChange: HistoryEntry | null
+  ) => {
+    const history = historyRef.current;
+    setUndoState({
+      canUndo: history.canUndo(),
+      canRedo: history.canRedo(),
+      lastChange,
+    });
+
+    db?.saveUndoHistory(history.getState()).catch((error) => {
+      console.warn("Failed to save undo history:", error);
+    });
+  };
+
+  const recordChange = (entry: HistoryEntry) => {
+    historyRef.current.record(entry);
+    syncHistory(database, entry);
+  };
+
+  const loadHistory = async (db: TodoDatabase) => {
+    try {
+      historyRef.current = new UndoHistory(await db.getUndoHistory());
+      setUndoState({
+        canUndo: historyRef.current.canUndo(),
+        canRedo: historyRef.current.canRedo(),
+        lastChange: null,
+      });
+    } catch (error) {
+      console.warn("Failed to load undo history:", error);
+    }
+  };
+
+  // Show a list's tasks, remembering it as the list to open next time
+  const showList = async (db: TodoDatabase, listId: string) => {
+    const tasks = await db.getTasksByList(listId);
+    dispatch({ type: "SET_ACTIVE_LIST", payload: { listId, tasks } });
+    db.setSetting("activeListId", listId).catch((error) => {
+      console.warn("Failed to save active list:", error);
+    });
+  };
+
+  // Reload the lists and show `listId`, or the default list when it is gone
+  const refreshLists = async (db: TodoDatabase, listId: string) => {
+    const lists = await db.getAllLists();
+    dispatch({ type: "SET_LISTS", payload: lists });
+    await showList(
+      db,
+      lists.some((list) => list.id === listId) ? listId : DEFAULT_LIST_ID
+    );
+  };
+
+  const loadSavedViews = async (db: TodoDatabase) => {
+    const views = await db.getSetting("savedViews");
+    dispatch({
+      type: "SET_SAVED_VIEWS",
+      payload: reviveSavedViews(views ?? []),
+    });
+  };
+
   // Database operations
   const initializeDatabase = async () => {
     try {
       const db = await DatabaseFactory.createDatabase();
       setDatabase(db);
+      await loadHistory(db);
+      await loadSavedViews(db);
+      await refreshLists(
+        db,
+        (await db.getSetting("activeListId")) ?? DEFAULT_LIST_ID
+      );
       await loadTasks();
       clearError(); // Clear any previous errors
     } catch (error) {
@@ -405,7 +726,7 @@ export function TodoProvider({ children }: TodoProviderProps) {
     }
 
     try {
-      const tasks = await database.getAllTasks();
+      const tasks = await database.getTasksByList(state.activeListId);
       dispatch({ type: "SET_TASKS", payload: tasks });
     } catch (error) {
       console.error("Failed to load tasks:", error);
@@ -414,15 +735,25 @@ export function TodoProvider({ children }: TodoProviderProps) {
   };
 
   // Convenience methods
-  const addTask = async (text: string) => {
+  const addTask = async (text: string, parentId: string | null = null) => {
     if (!database) {
       throw new DatabaseConnectionError("Database not available");
     }
 
     const operation = async () => {
-      const taskData = {
+      const siblings = state.tasks.filter((t) => t.parentId === parentId);
+      const taskData: Omit<Task, "id"> = {
         text: text.trim(),
         completed: false,
+        priority: "none",
+        tags: [],
+        listId: state.activeListId,
+        parentId,
+        // New tasks go after their last sibling
+        order: generateKeyBetween(
+          siblings[siblings.length - 1]?.order || null,
+          null
+        ),
         createdAt: new Date(),
         updatedAt: new Date(),
       };
@@ -437,6 +768,13 @@ export function TodoProvider({ children }: TodoProviderProps) {
       };
 
       dispatch({ type: "SET_TASKS", payload: [...state.tasks, newTask] });
+      if (parentId) {
+        dispatch({
+          type: "SET_TASK_COLLAPSED",
+          payload: { id: parentId, collapsed: false },
+        });
+      }
+      recordChange({ type: "add", task: newTask });
     };
 
     try {
@@ -453,11 +791,20 @@ export function TodoProvider({ children }: TodoProviderProps) {
     }
 
     const operation = async () => {
+      const before = state.tasks.find((t) => t.id === id);
+
       // Update database first
       await database.updateTask(id, updates);
 
       // Then update local state
       dispatch({ type: "UPDATE_TASK", payload: { id, updates } });
+      if (before) {
+        recordChange({
+          type: "update",
+          before,
+          after: { ...before, ...updates, updatedAt: new Date() },
+        });
+      }
     };
 
     try {
@@ -474,11 +821,23 @@ export function TodoProvider({ children }: TodoProviderProps) {
     }
 
     const operation = async () => {
+      const index = state.tasks.findIndex((t) => t.id === id);
+      const descendantIds = getDescendantIds(state.tasks, id);
+      const subtasks = state.tasks.filter((t) => descendantIds.includes(t.id));
+
       // Delete from database first
       await database.deleteTask(id);
 
       // Then update local state
       dispatch({ type: "DELETE_TASK", payload: id });
+      if (index !== -1) {
+        recordChange({
+          type: "delete",
+          task: state.tasks[index],
+          index,
+          ...(subtasks.length > 0 && { subtasks }),
+        });
+      }
     };
 
     try {
@@ -491,40 +850,416 @@ export function TodoProvider({ children }: TodoProviderProps) {
 
   const toggleTaskCompletion = async (id: string) => {
     const task = state.tasks.find((t) => t.id === id);
-    if (task) {
+    if (!task) {
+      return;
+    }
+    if (task.completed || !task.recurrence) {
       await updateTask(id, { completed: !task.completed });
+      return;
+    }
+
+    if (!database) {
+      throw new DatabaseConnectionError("Database not available");
+    }
+
+    const operation = async () => {
+      // The rule moves on to the next occurrence, so completing this one
+      // again after reopening it does not add another
+      const updates = { completed: true, recurrence: undefined };
+      await database.updateTask(id, updates);
+      dispatch({ type: "UPDATE_TASK", payload: { id, updates } });
+      const next = await addNextOccurrence(database, task);
+
+      // One change, so a single undo also removes the next occurrence
+      recordChange({
+        type: "update",
+        before: task,
+        after: { ...task, ...updates, updatedAt: new Date() },
+        next,
+      });
+    };
+
+    try {
+      await operation();
+    } catch (error) {
+      handleDatabaseError(error, "complete task", operation);
+      throw error;
     }
   };
 
-  const moveSelection = (direction: "up" | "down") => {
-    dispatch({ type: "MOVE_SELECTION", payload: direction });
+  // Add a recurring task's next occurrence right after it
+  const addNextOccurrence = async (db: TodoDatabase, task: Task) => {
+    const siblings = state.tasks.filter((t) => t.parentId === task.parentId);
+    const nextSibling = siblings[siblings.indexOf(task) + 1];
+    const { id: _id, ...rest } = task;
+    const taskData: Omit<Task, "id"> = {
+      ...rest,
+      completed: false,
+      dueDate: getNextDueDate(task) ?? undefined,
+      hasDueTime: task.hasDueTime ?? false,
+      order: generateKeyBetween(task.order, nextSibling?.order ?? null),
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    const newTask: Task = { ...taskData, id: await db.addTask(taskData) };
+    dispatch({ type: "RESTORE_TASK", payload: { task: newTask } });
+    return newTask;
   };
 
-  const setSelectedTask = (index: number) => {
-    dispatch({ type: "SET_SELECTED_TASK", payload: index });
+  // Only the moved task gets a new order key, between its new neighbours.
+  // Subtasks move along with their parent.
+  const moveTask = async (id: string, toIndex: number) => {
+    const task = state.tasks.find((t) => t.id === id);
+    const siblings = state.tasks.filter((t) => t.parentId === task?.parentId);
+    if (!task || siblings.indexOf(task) === toIndex) {
+      return;
+    }
+
+    const others = siblings.filter((t) => t.id !== id);
+    const index = Math.max(0, Math.min(toIndex, others.length));
+    const order = generateKeyBetween(
+      others[index - 1]?.order ?? null,
+      others[index]?.order ?? null
+    );
+    await updateTask(id, { order });
   };
 
-  const clearSelection = () => {
-    dispatch({ type: "CLEAR_SELECTION" });
+  const createList = async (name: string): Promise<TaskList> => {
+    if (!database) {
+      throw new DatabaseConnectionError("Database not available");
+    }
+
+    const list = createTaskList(name);
+    try {
+      await database.saveList(list);
+      dispatch({ type: "SET_LISTS", payload: [...state.lists, list] });
+      await showList(database, list.id);
+      return list;
+    } catch (error) {
+      handleDatabaseError(error, "create list");
+      throw error;
+    }
   };
 
-  const setGestureMode = (enabled: boolean) => {
-    dispatch({ type: "SET_GESTURE_MODE", payload: enabled });
+  const saveListChanges = async (id: string, updates: Partial<TaskList>) => {
+    if (!database) {
+      throw new DatabaseConnectionError("Database not available");
+    }
+
+    const list = state.lists.find((l) => l.id === id);
+    if (!list) {
+      throw new TaskListError(`List with id ${id} not found`);
+    }
+
+    const updated = { ...list, ...updates, updatedAt: new Date() };
+    try {
+      await database.saveList(updated);
+      dispatch({
+        type: "SET_LISTS",
+        payload: state.lists.map((l) => (l.id === id ? updated : l)),
+      });
+    } catch (error) {
+      handleDatabaseError(error, "save list");
+      throw error;
+    }
   };
 
-  const setCameraStatus = (status: TodoState["cameraStatus"]) => {
-    dispatch({ type: "SET_CAMERA_STATUS", payload: status });
+  const renameList = async (id: string, name: string) => {
+    const trimmedName = name.trim();
+    if (!trimmedName) {
+      throw new TaskListError("List name is required");
+    }
+    await saveListChanges(id, { name: trimmedName });
   };
 
-  const setCurrentGesture = (gesture: GestureType | null) => {
-    dispatch({ type: "SET_CURRENT_GESTURE", payload: gesture });
+  const setListArchived = (id: string, archived: boolean) =>
+    saveListChanges(id, { archived });
+
+  const deleteList = async (id: string) => {
+    if (!database) {
+      throw new DatabaseConnectionError("Database not available");
+    }
+
+    const list = state.lists.find((l) => l.id === id);
+    if (!list) {
+      throw new TaskListError(`List with id ${id} not found`);
+    }
+
+    try {
+      // Kept so that undo can bring the list back with its tasks
+      const tasks = await database.getTasksByList(id);
+      await database.deleteList(id);
+      dispatch({
+        type: "SET_LISTS",
+        payload: state.lists.filter((l) => l.id !== id),
+      });
+      if (state.activeListId === id) {
+        await showList(database, DEFAULT_LIST_ID);
+      }
+      recordChange({ type: "deleteList", list, tasks });
+    } catch (error) {
+      handleDatabaseError(error, "delete list");
+      throw error;
+    }
+  };
+
+  const switchList = async (id: string) => {
+    if (!database) {
+      throw new DatabaseConnectionError("Database not available");
+    }
+
+    try {
+      await showList(database, id);
+    } catch (error) {
+      handleDatabaseError(error, "switch list");
+      throw error;
+    }
+  };
+
+  const cycleList = async (step: 1 | -1): Promise<TaskList | null> => {
+    const next = getAdjacentList(state.lists, state.activeListId, step);
+    if (!next) {
+      return null;
+    }
+    await switchList(next.id);
+    return next;
   };
 
+  const exportList = async (id: string): Promise<string> => {
+    if (!database) {
+      throw new DatabaseConnectionError("Database not available");
+    }
+
+    const list = state.lists.find((l) => l.id === id);
+    if (!list) {
+      throw new TaskListError(`List with id ${id} not found`);
+    }
+
+    try {
+      return serializeTaskList(list, await database.getTasksByList(id));
+    } catch (error) {
+      handleDatabaseError(error, "export list");
+      throw error;
+    }
+  };
+
+  // Imported lists are added as new lists rather than replacing any
+  const importList = async (
+    data: Pick<TaskListExport, "list" | "tasks">
+  ): Promise<TaskList> => {
+    if (!database) {
+      throw new DatabaseConnectionError("Database not available");
+    }
+
+    const { list, tasks } = copyTaskList(data);
+    try {
+      await database.importList(list, tasks);
+      await refreshLists(database, list.id);
+      recordChange({ type: "importList", list, tasks });
+      return list;
+    } catch (error) {
+      handleDatabaseError(error, "import list");
+      throw error;
+    }
+  };
+
+  const setTaskQuery = (changes: Partial<TaskQuery>) => {
+    dispatch({
+      type: "SET_TASK_QUERY",
+      payload: { ...state.taskQuery, ...changes },
+    });
+  };
+
+  const resetTaskQuery = () => {
+    dispatch({ type: "SET_TASK_QUERY", payload: DEFAULT_TASK_QUERY });
+  };
+
+  const saveViews = async (views: SavedView[]) => {
+    if (!database) {
+      throw new DatabaseConnectionError("Database not available");
+    }
+
+    try {
+      await database.setSetting("savedViews", views);
+      dispatch({ type: "SET_SAVED_VIEWS", payload: views });
+    } catch (error) {
+      handleDatabaseError(error, "save views");
+      throw error;
+    }
+  };
+
+  const saveView = async (name: string): Promise<SavedView> => {
+    const view = createSavedView(name, state.taskQuery);
+    await saveViews([...state.savedViews, view]);
+    return view;
+  };
+
+  const applyView = (id: string) => {
+    const view = state.savedViews.find((v) => v.id === id);
+    if (view) {
+      dispatch({ type: "SET_TASK_QUERY", payload: view.query });
+    }
+  };
+
+  const deleteView = (id: string) =>
+    saveViews(state.savedViews.filter((view) => view.id !== id));
+
+  // Undo reverts an entry and redo re-applies it; both write the database
+  // first, like the operations that recorded it
+  const applyHistoryEntry = async (
+    db: TodoDatabase,
+    entry: HistoryEntry,
+    direction: "undo" | "redo"
+  ) => {
+    const undoing = direction === "undo";
+
+    switch (entry.type) {
+      case "add":
+      case "delete": {
+        // Undoing an add and redoing a delete both remove the task
+        const remove = (entry.type === "add") === undoing;
+        if (remove) {
+          await db.deleteTask(entry.task.id);
+          dispatch({ type: "DELETE_TASK", payload: entry.task.id });
+        } else {
+          const subtasks = (entry.type === "delete" && entry.subtasks) || [];
+          await db.restoreTask(entry.task);
+          for (const subtask of subtasks) {
+            await db.restoreTask(subtask);
+            dispatch({ type: "RESTORE_TASK", payload: { task: subtask } });
+          }
+          // Restored last so that it ends up selected
+          dispatch({
+            type: "RESTORE_TASK",
+            payload: {
+              task: entry.task,
+              index: entry.type === "delete" ? entry.index : undefined,
+            },
+          });
+        }
+        break;
+      }
+
+      case "update": {
+        const task = undoing ? entry.before : entry.after;
+        if (entry.next && undoing) {
+          await db.deleteTask(entry.next.id);
+          dispatch({ type: "DELETE_TASK", payload: entry.next.id });
+        }
+        await db.restoreTask(task);
+        dispatch({ type: "RESTORE_TASK", payload: { task } });
+        if (entry.next && !undoing) {
+          await db.restoreTask(entry.next);
+          dispatch({ type: "RESTORE_TASK", payload: { task: entry.next } });
+        }
+        break;
+      }
+
+      case "import":
+        await db.importData(undoing ? entry.before : entry.after);
+        await refreshLists(db, state.activeListId);
+        await loadSavedViews(db);
+        return;
+
+      // Removing a list leaves it, or stays on the list shown; adding one
+      // back shows it
+      case "importList":
+      case "deleteList":
+        if ((entry.type === "importList") === undoing) {
+          await db.deleteList(entry.list.id);
+          await refreshLists(db, state.activeListId);
+        } else {
+          await db.importList(entry.list, entry.tasks);
+          await refreshLists(db, entry.list.id);
+        }
+        return;
+    }
+
+    // Show a change to another list's task in that list
+    const listId = entryListId(entry);
+    if (listId !== state.activeListId) {
+      await showList(db, listId);
+    }
+  };
+
+  const undo = async () => {
+    if (!database) {
+      throw new DatabaseConnectionError("Database not available");
+    }
+
+    try {
+      await historyRef.current.undo((entry) =>
+        applyHistoryEntry(database, entry, "undo")
+      );
+      syncHistory(database, null);
+    } catch (error) {
+      handleDatabaseError(error, "undo");
+      throw error;
+    }
+  };
+
+  const redo = async () => {
+    if (!database) {
+      throw new DatabaseConnectionError("Database not available");
+    }
+
+    try {
+      await historyRef.current.redo((entry) =>
+        applyHistoryEntry(database, entry, "redo")
+      );
+      syncHistory(database, null);
+    } catch (error) {
+      handleDatabaseError(error, "redo");
+      throw error;
+    }
+  };
+
+  // Dispatch-only helpers are memoized so consumers can depend on them
+  const moveSelection = useCallback(
+    (direction: "up" | "down" | "in" | "out") => {
+      dispatch({ type: "MOVE_SELECTION", payload: direction });
+    },
+    []
+  );
+
+  const setTaskCollapsed = useCallback((id: string, collapsed: boolean) => {
+    dispatch({ type: "SET_TASK_COLLAPSED", payload: { id, collapsed } });
+  }, []);
+
+  const setSelectedTask = useCallback((index: number) => {
+    dispatch({ type: "SET_SELECTED_TASK", payload: index });
+  }, []);
+
+  const clearSelection = useCallback(() => {
+    dispatch({ type: "CLEAR_SELECTION" });
+  }, []);
+
+  const setGestureMode = useCallback((enabled: boolean) => {
+    dispatch({ type: "SET_GESTURE_MODE", payload: enabled });
+  }, []);
+
+  const setCameraStatus = useCallback((status: TodoState["cameraStatus"]) => {
+    dispatch({ type: "SET_CAMERA_STATUS", payload: status });
+  }, []);
+
+  const setCurrentGesture = useCallback((gesture: RecognizedGesture | null) => {
+    dispatch({ type: "SET_CURRENT_GESTURE", payload: gesture });
+  }, []);
+
+  const setPendingConfirmation = useCallback(
+    (pending: PendingConfirmation | null) => {
+      dispatch({ type: "SET_PENDING_CONFIRMATION", payload: pending });
+    },
+    []
+  );
+
+  const setGrabbedTask = useCallback((id: string | null) => {
+    dispatch({ type: "SET_GRABBED_TASK", payload: id });
+  }, []);
+
   // Data backup/recovery methods
-  const exportData = async (): Promise<{
-    tasks: Task[];
-    settings: Record<string, any>;
-  }> => {
+  const exportData = async (): Promise<DatabaseExport> => {
     if (!database) {
       throw new DatabaseConnectionError("Database not available");
     }
@@ -537,17 +1272,17 @@ export function TodoProvider({ children }: TodoProviderProps) {
     }
   };
 
-  const importData = async (data: {
-    tasks: Task[];
-    settings: Record<string, any>;
-  }) => {
+  const importData = async (data: DatabaseExport) => {
     if (!database) {
       throw new DatabaseConnectionError("Database not available");
     }
 
     const operation = async () => {
+      const before = await database.exportData();
       await database.importData(data);
-      await loadTasks(); // Reload tasks after import
+      await refreshLists(database, state.activeListId); // Reload after import
+      await loadSavedViews(database);
+      recordChange({ type: "import", before, after: data });
     };
 
     try {
@@ -566,12 +1301,32 @@ export function TodoProvider({ children }: TodoProviderProps) {
     updateTask,
     deleteTask,
     toggleTaskCompletion,
+    moveTask,
+    undoState,
+    undo,
+    redo,
     moveSelection,
+    setTaskCollapsed,
     setSelectedTask,
     clearSelection,
     setGestureMode,
     setCameraStatus,
     setCurrentGesture,
+    setPendingConfirmation,
+    setGrabbedTask,
+    createList,
+    renameList,
+    setListArchived,
+    deleteList,
+    switchList,
+    cycleList,
+    exportList,
+    importList,
+    setTaskQuery,
+    resetTaskQuery,
+    saveView,
+    applyView,
+    deleteView,
     loadTasks,
     initializeDatabase,
     clearError,
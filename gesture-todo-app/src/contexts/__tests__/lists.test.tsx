@@ -0,0 +1,206 @@
+/** @format */
+
+import React from "react";
+import {
+  render,
+  screen,
+  act,
+  waitFor,
+  fireEvent,
+} from "@testing-library/react";
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { TodoProvider, useTodo } from "../TodoContext";
+import { ListSwitcher } from "../../components/ListSwitcher";
+import { DatabaseFactory } from "../../services/database";
+import { DEFAULT_LIST_ID, parseTaskListExport } from "../../services/taskLists";
+
+let todo: ReturnType<typeof useTodo>;
+
+function Capture() {
+  todo = useTodo();
+  return null;
+}
+
+const renderProvider = async () => {
+  const result = render(
+    <TodoProvider>
+      <Capture />
+      <ListSwitcher />
+    </TodoProvider>
+  );
+  // Let the provider open the database and load the lists
+  await act(async () => {
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  });
+  return result;
+};
+
+const taskTexts = () => todo.state.tasks.map((task) => task.text);
+const listNames = () => todo.state.lists.map((list) => list.name);
+
+describe("TodoContext task lists", () => {
+  beforeEach(async () => {
+    const db = await DatabaseFactory.createDatabase();
+    await db.clearDatabase();
+  });
+
+  it("should keep tasks in the list they were added to", async () => {
+    await renderProvider();
+    await act(() => todo.addTask("Milk"));
+
+    const work = await act(() => todo.createList("Work"));
+    expect(todo.state.activeListId).toBe(work.id);
+    expect(taskTexts()).toEqual([]);
+    await act(() => todo.addTask("Report"));
+
+    await act(() => todo.switchList(DEFAULT_LIST_ID));
+    expect(taskTexts()).toEqual(["Milk"]);
+    await act(() => todo.switchList(work.id));
+    expect(taskTexts()).toEqual(["Report"]);
+  });
+
+  it("should cycle past archived lists", async () => {
+    await renderProvider();
+    const work = await act(() => todo.createList("Work"));
+    const old = await act(() => todo.createList("Old"));
+    await act(() => todo.setListArchived(old.id, true));
+
+    expect(await act(() => todo.cycleList(1))).toMatchObject({
+      id: DEFAULT_LIST_ID,
+    });
+    await act(() => todo.cycleList(1));
+    expect(todo.state.activeListId).toBe(work.id);
+    await act(() => todo.cycleList(1));
+    expect(todo.state.activeListId).toBe(DEFAULT_LIST_ID);
+  });
+
+  it("should reopen the last list after a reload", async () => {
+    const { unmount } = await renderProvider();
+    const work = await act(() => todo.createList("Work"));
+    await act(() => todo.addTask("Report"));
+    unmount();
+
+    await renderProvider();
+    await waitFor(() => expect(todo.state.activeListId).toBe(work.id));
+    expect(taskTexts()).toEqual(["Report"]);
+    expect(listNames()).toEqual(["My Tasks", "Work"]);
+  });
+
+  it("should switch to an undone change in another list", async () => {
+    await renderProvider();
+    await act(() => todo.addTask("Milk"));
+    await act(() => todo.createList("Work"));
+
+    await act(() => todo.undo());
+    expect(todo.state.activeListId).toBe(DEFAULT_LIST_ID);
+    expect(taskTexts()).toEqual([]);
+  });
+
+  it("should import an exported list as a new list", async () => {
+    await renderProvider();
+    const work = await act(() => todo.createList("Work"));
+    await act(() => todo.addTask("Report"));
+
+    const exported = await todo.exportList(work.id);
+    const file = new File([exported], "Work.json", {
+      type: "application/json",
+    });
+    // jsdom's File has no text()
+    file.text = () => Promise.resolve(exported);
+    fireEvent.change(screen.getByTestId("list-import"), {
+      target: { files: [file] },
+    });
+
+    await waitFor(() =>
+      expect(screen.getByRole("status")).toHaveTextContent('Imported "Work"')
+    );
+    expect(listNames()).toEqual(["My Tasks", "Work", "Work"]);
+    expect(todo.state.activeListId).not.toBe(work.id);
+    expect(taskTexts()).toEqual(["Report"]);
+  });
+
+  it("should undo and redo importing a list", async () => {
+    await renderProvider();
+    const work = await act(() => todo.createList("Work"));
+    await act(() => todo.addTask("Report"));
+    const exported = parseTaskListExport(await todo.exportList(work.id));
+
+    const imported = await act(() => todo.importList(exported));
+    expect(todo.undoState.lastChange).toEqual({
+      type: "importList",
+      list: imported,
+      tasks: [expect.objectContaining({ text: "Report" })],
+    });
+
+    // The imported list goes, along with its tasks
+    await act(() => todo.undo());
+    expect(listNames()).toEqual(["My Tasks", "Work"]);
+    expect(todo.state.activeListId).toBe(DEFAULT_LIST_ID);
+    const db = await DatabaseFactory.createDatabase();
+    expect(await db.getTasksByList(imported.id)).toEqual([]);
+
+    await act(() => todo.redo());
+    expect(listNames()).toEqual(["My Tasks", "Work", "Work"]);
+    expect(todo.state.activeListId).toBe(imported.id);
+    expect(taskTexts()).toEqual(["Report"]);
+  });
+
+  it("should undo and redo deleting a list", async () => {
+    await renderProvider();
+    await act(() => todo.addTask("Milk"));
+    const work = await act(() => todo.createList("Work"));
+    await act(() => todo.addTask("Report"));
+    await act(() => todo.addTask("Outline", todo.state.tasks[0].id));
+
+    await act(() => todo.deleteList(work.id));
+    expect(listNames()).toEqual(["My Tasks"]);
+    expect(todo.undoState.lastChange).toMatchObject({
+      type: "deleteList",
+      list: work,
+    });
+
+    // The list comes back with its tasks, in their order
+    await act(() => todo.undo());
+    expect(listNames()).toEqual(["My Tasks", "Work"]);
+    expect(todo.state.activeListId).toBe(work.id);
+    expect(taskTexts()).toEqual(["Report", "Outline"]);
+
+    await act(() => todo.redo());
+    expect(listNames()).toEqual(["My Tasks"]);
+    expect(todo.state.activeListId).toBe(DEFAULT_LIST_ID);
+
+    // Changes to other lists can still be undone
+    await act(() => todo.undo());
+    await act(() => todo.undo());
+    await act(() => todo.undo());
+    await act(() => todo.undo());
+    expect(todo.state.activeListId).toBe(DEFAULT_LIST_ID);
+    expect(taskTexts()).toEqual([]);
+  });
+
+  it("should create, rename and delete lists from the switcher", async () => {
+    await renderProvider();
+    expect(screen.getByText("Delete")).toBeDisabled();
+
+    fireEvent.click(screen.getByText("New list"));
+    const input = screen.getByLabelText("New list name");
+    fireEvent.change(input, { target: { value: "Groceries" } });
+    fireEvent.keyDown(input, { key: "Enter" });
+    await waitFor(() =>
+      expect(screen.getByLabelText("List")).toHaveDisplayValue("Groceries")
+    );
+
+    fireEvent.click(screen.getByText("Rename"));
+    const rename = screen.getByLabelText("List name");
+    fireEvent.change(rename, { target: { value: "Shopping" } });
+    fireEvent.keyDown(rename, { key: "Enter" });
+    await waitFor(() => expect(listNames()).toEqual(["My Tasks", "Shopping"]));
+
+    const confirm = vi.spyOn(window, "confirm").mockReturnValue(true);
+    fireEvent.click(screen.getByText("Delete"));
+    await waitFor(() => expect(todo.state.activeListId).toBe(DEFAULT_LIST_ID));
+    expect(confirm).toHaveBeenCalled();
+    expect(listNames()).toEqual(["My Tasks"]);
+    confirm.mockRestore();
+  });
+});
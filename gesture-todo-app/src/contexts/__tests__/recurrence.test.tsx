@@ -0,0 +1,127 @@
+/** @format */
+
+import React from "react";
+import { render, act } from "@testing-library/react";
+import { describe, it, expect, beforeEach } from "vitest";
+import { TodoProvider, useTodo } from "../TodoContext";
+import { DatabaseFactory } from "../../services/database";
+
+let todo: ReturnType<typeof useTodo>;
+
+function Capture() {
+  todo = useTodo();
+  return null;
+}
+
+const renderProvider = async () => {
+  const result = render(
+    <TodoProvider>
+      <Capture />
+    </TodoProvider>
+  );
+  // Let the provider open the database and load the tasks
+  await act(async () => {
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  });
+  return result;
+};
+
+const idOf = (text: string) =>
+  todo.state.tasks.find((task) => task.text === text)!.id;
+
+// A time some days from now, so occurrences are not skipped as overdue
+const daysFromNow = (days: number, hours: number) => {
+  const now = new Date();
+  return new Date(
+    now.getFullYear(),
+    now.getMonth(),
+    now.getDate() + days,
+    hours
+  );
+};
+
+describe("TodoContext recurring tasks", () => {
+  beforeEach(async () => {
+    const db = await DatabaseFactory.createDatabase();
+    await db.clearDatabase();
+  });
+
+  it("should add the next occurrence when a recurring task is completed", async () => {
+    await renderProvider();
+    await act(() => todo.addTask("Water plants"));
+    await act(() => todo.addTask("Laundry"));
+    await act(() =>
+      todo.updateTask(idOf("Water plants"), {
+        dueDate: daysFromNow(1, 9),
+        hasDueTime: true,
+        tags: ["home"],
+        recurrence: { frequency: "daily", interval: 2 },
+      })
+    );
+
+    await act(() => todo.toggleTaskCompletion(idOf("Water plants")));
+
+    const [done, next, laundry] = todo.state.tasks;
+    expect(done).toMatchObject({ text: "Water plants", completed: true });
+    expect(done.recurrence).toBeUndefined();
+    expect(next).toMatchObject({
+      text: "Water plants",
+      completed: false,
+      dueDate: daysFromNow(3, 9),
+      hasDueTime: true,
+      tags: ["home"],
+      recurrence: { frequency: "daily", interval: 2 },
+    });
+    expect(next.id).not.toBe(done.id);
+    expect(laundry.text).toBe("Laundry");
+
+    // Reopening and completing again does not add another occurrence
+    await act(() => todo.toggleTaskCompletion(done.id));
+    await act(() => todo.toggleTaskCompletion(done.id));
+    expect(todo.state.tasks).toHaveLength(3);
+
+    const stored = await (await DatabaseFactory.createDatabase()).getAllTasks();
+    expect(stored.find((task) => task.id === next.id)?.recurrence).toEqual({
+      frequency: "daily",
+      interval: 2,
+    });
+  });
+
+  it("should undo and redo a completion along with its next occurrence", async () => {
+    await renderProvider();
+    await act(() => todo.addTask("Standup"));
+    await act(() =>
+      todo.updateTask(idOf("Standup"), {
+        recurrence: { frequency: "weekly", interval: 1, weekdays: [1] },
+      })
+    );
+
+    await act(() => todo.toggleTaskCompletion(idOf("Standup")));
+    expect(todo.state.tasks).toHaveLength(2);
+    // Without a due date the next occurrence is the next Monday
+    expect(todo.state.tasks[1].dueDate?.getDay()).toBe(1);
+    const next = todo.state.tasks[1];
+
+    // One undo reopens the task and removes the next occurrence
+    await act(() => todo.undo());
+    expect(todo.state.tasks).toHaveLength(1);
+    expect(todo.state.tasks[0].completed).toBe(false);
+    expect(todo.state.tasks[0].recurrence).toEqual({
+      frequency: "weekly",
+      interval: 1,
+      weekdays: [1],
+    });
+
+    await act(() => todo.redo());
+    expect(todo.state.tasks).toHaveLength(2);
+    expect(todo.state.tasks[0].completed).toBe(true);
+    expect(todo.state.tasks[0].recurrence).toBeUndefined();
+    expect(todo.state.tasks[1]).toMatchObject({
+      id: next.id,
+      completed: false,
+    });
+
+    const stored = await (await DatabaseFactory.createDatabase()).getAllTasks();
+    expect(stored).toHaveLength(2);
+  });
+});
@@ -0,0 +1,160 @@
+/** @format */
+
+import React from "react";
+import {
+  render,
+  screen,
+  act,
+  waitFor,
+  fireEvent,
+} from "@testing-library/react";
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { AppProvider, useApp } from "../AppContext";
+import { GestureSettingsPanel } from "../../components/GestureSettingsPanel";
+import { DatabaseFactory } from "../../services/database";
+import {
+  DEFAULT_SETTINGS,
+  serializeSettings,
+} from "../../services/appSettings";
+import { HandLandmarks } from "../../services/landmarkFeatures";
+import { parseLandmarkRecording } from "../../services/landmarkRecording";
+import basicGestures from "../../services/__tests__/fixtures/basic-gestures.recording.json";
+
+// The preview recognizer never starts MediaPipe, but its module imports it
+vi.mock("@mediapipe/hands", () => ({
+  Hands: vi.fn(),
+}));
+
+let app: ReturnType<typeof useApp>;
+
+function Capture() {
+  app = useApp();
+  return null;
+}
+
+const renderPanel = async (
+  getLandmarks: () => HandLandmarks | null = () => null
+) => {
+  const result = render(
+    <AppProvider>
+      <Capture />
+      <GestureSettingsPanel getLandmarks={getLandmarks} />
+    </AppProvider>
+  );
+  await waitFor(() => expect(app.state.isInitialized).toBe(true));
+  return result;
+};
+
+const importFile = (contents: string) => {
+  const file = new File([contents], "gesture-settings.json", {
+    type: "application/json",
+  });
+  // jsdom's File has no text()
+  file.text = () => Promise.resolve(contents);
+  fireEvent.change(screen.getByTestId("settings-import"), {
+    target: { files: [file] },
+  });
+};
+
+describe("AppContext settings panel", () => {
+  beforeEach(async () => {
+    const db = await DatabaseFactory.createDatabase();
+    await db.clearDatabase();
+    document.documentElement.classList.remove("dark");
+  });
+
+  it("should validate and save settings", async () => {
+    await renderPanel();
+    const save = screen.getByText("保存");
+    expect(save).toBeDisabled();
+
+    fireEvent.change(screen.getByLabelText("感度"), {
+      target: { value: "3" },
+    });
+    expect(screen.getByRole("alert")).toHaveTextContent(
+      "感度は0.5〜1.5の範囲で入力してください"
+    );
+    expect(save).toBeDisabled();
+
+    fireEvent.change(screen.getByLabelText("感度"), {
+      target: { value: "1.2" },
+    });
+    fireEvent.change(screen.getByLabelText("テーマ"), {
+      target: { value: "dark" },
+    });
+    expect(screen.queryByRole("alert")).not.toBeInTheDocument();
+    await act(async () => {
+      fireEvent.click(save);
+    });
+
+    expect(app.state.gestureSettings.sensitivity).toBe(1.2);
+    expect(document.documentElement).toHaveClass("dark");
+    const db = await DatabaseFactory.createDatabase();
+    expect(await db.getSetting("sensitivity")).toBe(1.2);
+    expect(await db.getSetting("theme")).toBe("dark");
+
+    // Unsaved edits are dropped along with the saved settings
+    fireEvent.change(screen.getByLabelText("保持時間（ミリ秒）"), {
+      target: { value: "900" },
+    });
+    await act(async () => {
+      fireEvent.click(screen.getByText("初期設定に戻す"));
+    });
+    expect(app.state.gestureSettings).toEqual(DEFAULT_SETTINGS.gestureSettings);
+    expect(screen.getByLabelText("感度")).toHaveValue(0.7);
+    expect(screen.getByLabelText("保持時間（ミリ秒）")).toHaveValue(300);
+    expect(await db.getSetting("sensitivity")).toBe(0.7);
+  });
+
+  it("should import exported settings", async () => {
+    await renderPanel();
+
+    importFile(
+      serializeSettings({
+        ...DEFAULT_SETTINGS,
+        gestureEnabled: false,
+        gestureSettings: {
+          ...DEFAULT_SETTINGS.gestureSettings,
+          confidenceThreshold: 0.9,
+        },
+      })
+    );
+
+    await waitFor(() =>
+      expect(screen.getByText("設定を読み込みました")).toBeInTheDocument()
+    );
+    expect(app.state.gestureEnabled).toBe(false);
+    expect(screen.getByLabelText("信頼度しきい値")).toHaveValue(0.9);
+    const db = await DatabaseFactory.createDatabase();
+    expect(await db.getSetting("confidenceThreshold")).toBe(0.9);
+
+    importFile(JSON.stringify({ version: 1, settings: { theme: "x" } }));
+    await waitFor(() =>
+      expect(
+        screen.getByText("設定ファイルの形式が正しくありません")
+      ).toBeInTheDocument()
+    );
+    expect(app.state.gestureEnabled).toBe(false);
+  });
+
+  it("should preview recognition with unsaved settings", async () => {
+    const { frames } = parseLandmarkRecording(basicGestures);
+    const thumbsUp = frames.find((frame) => frame.label === "thumbs_up")!;
+    await renderPanel(() => ({ landmarks: thumbsUp.landmarks }));
+
+    fireEvent.change(screen.getByLabelText("保持時間（ミリ秒）"), {
+      target: { value: "100" },
+    });
+    fireEvent.click(screen.getByText("開始"));
+
+    await waitFor(() =>
+      expect(screen.getByText("発動: 親指立て")).toBeInTheDocument()
+    );
+    expect(screen.getByText("👍 親指立て")).toBeInTheDocument();
+    // Previewing changes nothing until saved
+    expect(app.state.gestureSettings.debounceTime).toBe(300);
+
+    fireEvent.click(screen.getByText("停止"));
+    expect(screen.queryByText("発動: 親指立て")).not.toBeInTheDocument();
+  });
+});
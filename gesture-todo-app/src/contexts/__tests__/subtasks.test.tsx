@@ -0,0 +1,116 @@
+/** @format */
+
+import React from "react";
+import { render, act } from "@testing-library/react";
+import { describe, it, expect, beforeEach } from "vitest";
+import { TodoProvider, useTodo } from "../TodoContext";
+import { DatabaseFactory } from "../../services/database";
+
+let todo: ReturnType<typeof useTodo>;
+
+function Capture() {
+  todo = useTodo();
+  return null;
+}
+
+const renderProvider = async () => {
+  const result = render(
+    <TodoProvider>
+      <Capture />
+    </TodoProvider>
+  );
+  // Let the provider open the database and load the tasks
+  await act(async () => {
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  });
+  return result;
+};
+
+const taskTexts = () => todo.state.tasks.map((task) => task.text);
+const selectedText = () =>
+  todo.state.visibleTasks[todo.state.selectedTaskIndex]?.text;
+const idOf = (text: string) =>
+  todo.state.tasks.find((task) => task.text === text)!.id;
+
+// Groceries
+//   Milk
+//   Eggs
+// Laundry
+const addGroceries = async () => {
+  await act(() => todo.addTask("Groceries"));
+  await act(() => todo.addTask("Laundry"));
+  await act(() => todo.addTask("Milk", idOf("Groceries")));
+  await act(() => todo.addTask("Eggs", idOf("Groceries")));
+};
+
+describe("TodoContext subtasks", () => {
+  beforeEach(async () => {
+    const db = await DatabaseFactory.createDatabase();
+    await db.clearDatabase();
+  });
+
+  it("should list subtasks under their parent", async () => {
+    await renderProvider();
+    await addGroceries();
+
+    expect(taskTexts()).toEqual(["Groceries", "Milk", "Eggs", "Laundry"]);
+
+    // Moving a subtask keeps it among its siblings
+    await act(() => todo.moveTask(idOf("Eggs"), 0));
+    expect(taskTexts()).toEqual(["Groceries", "Eggs", "Milk", "Laundry"]);
+  });
+
+  it("should step into and out of subtasks", async () => {
+    await renderProvider();
+    await addGroceries();
+    act(() => todo.setSelectedTask(0));
+
+    act(() => todo.moveSelection("in"));
+    expect(selectedText()).toBe("Milk");
+    // Milk has no subtasks to step into
+    act(() => todo.moveSelection("in"));
+    expect(selectedText()).toBe("Milk");
+    act(() => todo.moveSelection("out"));
+    expect(selectedText()).toBe("Groceries");
+
+    // Stepping in goes to the first subtask in manual order
+    await act(() => todo.moveTask(idOf("Eggs"), 0));
+    act(() => todo.setSelectedTask(0));
+    act(() => todo.moveSelection("in"));
+    expect(selectedText()).toBe("Eggs");
+  });
+
+  it("should skip collapsed subtasks when moving the selection", async () => {
+    await renderProvider();
+    await addGroceries();
+    act(() => todo.setSelectedTask(1));
+
+    // The selected subtask is hidden, so its parent takes the selection
+    act(() => todo.setTaskCollapsed(idOf("Groceries"), true));
+    expect(selectedText()).toBe("Groceries");
+    act(() => todo.moveSelection("down"));
+    expect(selectedText()).toBe("Laundry");
+    act(() => todo.moveSelection("down"));
+    expect(selectedText()).toBe("Groceries");
+
+    // Stepping in opens the task again
+    act(() => todo.moveSelection("in"));
+    expect(selectedText()).toBe("Milk");
+    expect(todo.state.collapsedTaskIds).toEqual([]);
+  });
+
+  it("should delete subtasks with their parent and undo both", async () => {
+    await renderProvider();
+    await addGroceries();
+
+    await act(() => todo.deleteTask(idOf("Groceries")));
+    expect(taskTexts()).toEqual(["Laundry"]);
+
+    await act(() => todo.undo());
+    expect(taskTexts()).toEqual(["Groceries", "Milk", "Eggs", "Laundry"]);
+    expect(selectedText()).toBe("Groceries");
+
+    const stored = await (await DatabaseFactory.createDatabase()).getAllTasks();
+    expect(stored).toHaveLength(4);
+  });
+});
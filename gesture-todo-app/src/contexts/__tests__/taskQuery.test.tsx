@@ -0,0 +1,141 @@
+/** @format */
+
+import React from "react";
+import {
+  render,
+  screen,
+  act,
+  waitFor,
+  fireEvent,
+} from "@testing-library/react";
+import { describe, it, expect, beforeEach } from "vitest";
+import { TodoProvider, useTodo } from "../TodoContext";
+import { TaskQueryBar } from "../../components/TaskQueryBar";
+import { DatabaseFactory } from "../../services/database";
+
+let todo: ReturnType<typeof useTodo>;
+
+function Capture() {
+  todo = useTodo();
+  return null;
+}
+
+const renderProvider = async () => {
+  const result = render(
+    <TodoProvider>
+      <Capture />
+      <TaskQueryBar />
+    </TodoProvider>
+  );
+  // Let the provider open the database and load the tasks
+  await act(async () => {
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  });
+  return result;
+};
+
+const visibleTexts = () => todo.state.visibleTasks.map((task) => task.text);
+const selectedText = () =>
+  todo.state.visibleTasks[todo.state.selectedTaskIndex]?.text;
+const idOf = (text: string) =>
+  todo.state.tasks.find((task) => task.text === text)!.id;
+
+const addTasks = async () => {
+  for (const text of ["Buy milk", "Write report", "Buy bread", "Call mom"]) {
+    await act(() => todo.addTask(text));
+  }
+  await act(() =>
+    todo.updateTask(idOf("Buy bread"), { tags: ["shop"], priority: "high" })
+  );
+};
+
+describe("TodoContext task query", () => {
+  beforeEach(async () => {
+    const db = await DatabaseFactory.createDatabase();
+    await db.clearDatabase();
+  });
+
+  it("should select and navigate among matching tasks", async () => {
+    await renderProvider();
+    await addTasks();
+
+    fireEvent.change(screen.getByLabelText("Search tasks"), {
+      target: { value: "buy" },
+    });
+    expect(visibleTexts()).toEqual(["Buy milk", "Buy bread"]);
+    expect(screen.getByText("2 of 4 tasks")).toBeInTheDocument();
+
+    act(() => todo.setSelectedTask(0));
+    act(() => todo.moveSelection("down"));
+    expect(selectedText()).toBe("Buy bread");
+    // Wraps around within the matches
+    act(() => todo.moveSelection("down"));
+    expect(selectedText()).toBe("Buy milk");
+
+    // A selected task that stops matching passes the selection on
+    await act(() => todo.toggleTaskCompletion(idOf("Buy milk")));
+    act(() => todo.setTaskQuery({ status: "active" }));
+    expect(visibleTexts()).toEqual(["Buy bread"]);
+    expect(selectedText()).toBe("Buy bread");
+
+    fireEvent.click(screen.getByText("Clear"));
+    expect(visibleTexts()).toEqual([
+      "Write report",
+      "Buy bread",
+      "Call mom",
+      "Buy milk",
+    ]);
+    expect(selectedText()).toBe("Buy bread");
+  });
+
+  it("should sort the visible tasks without touching the manual order", async () => {
+    await renderProvider();
+    await addTasks();
+
+    fireEvent.change(screen.getByLabelText("Sort"), {
+      target: { value: "text" },
+    });
+    expect(visibleTexts()).toEqual([
+      "Buy bread",
+      "Buy milk",
+      "Call mom",
+      "Write report",
+    ]);
+    expect(todo.state.tasks.map((task) => task.text)).toEqual([
+      "Buy milk",
+      "Write report",
+      "Buy bread",
+      "Call mom",
+    ]);
+  });
+
+  it("should keep saved views across reloads", async () => {
+    const { unmount } = await renderProvider();
+    await addTasks();
+
+    fireEvent.click(screen.getByRole("button", { name: "#shop" }));
+    fireEvent.click(screen.getByText("Save view"));
+    const name = screen.getByLabelText("View name");
+    fireEvent.change(name, { target: { value: "Shopping" } });
+    fireEvent.keyDown(name, { key: "Enter" });
+    await waitFor(() =>
+      expect(screen.getByLabelText("Saved view")).toHaveDisplayValue("Shopping")
+    );
+    unmount();
+
+    await renderProvider();
+    await waitFor(() => expect(todo.state.savedViews).toHaveLength(1));
+    // The tasks load separately from the saved views
+    await waitFor(() => expect(visibleTexts()).toHaveLength(4));
+
+    fireEvent.change(screen.getByLabelText("Saved view"), {
+      target: { value: todo.state.savedViews[0].id },
+    });
+    expect(visibleTexts()).toEqual(["Buy bread"]);
+
+    fireEvent.click(screen.getByText("Delete view"));
+    await waitFor(() => expect(todo.state.savedViews).toEqual([]));
+    const db = await DatabaseFactory.createDatabase();
+    expect(await db.getSetting("savedViews")).toEqual([]);
+  });
+});
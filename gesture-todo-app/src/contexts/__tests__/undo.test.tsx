@@ -0,0 +1,132 @@
+/** @format */
+
+import React from "react";
+import {
+  render,
+  screen,
+  act,
+  waitFor,
+  fireEvent,
+} from "@testing-library/react";
+import { describe, it, expect, beforeEach } from "vitest";
+import { TodoProvider, useTodo } from "../TodoContext";
+import { UndoToast } from "../../components/UndoToast";
+import { DatabaseFactory } from "../../services/database";
+
+let todo: ReturnType<typeof useTodo>;
+
+function Capture() {
+  todo = useTodo();
+  return (
+    <ul>
+      {todo.state.tasks.map((task) => (
+        <li key={task.id}>
+          {task.text}
+          {task.completed ? " (done)" : ""}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+const renderProvider = async () => {
+  const result = render(
+    <TodoProvider>
+      <Capture />
+      <UndoToast />
+    </TodoProvider>
+  );
+  // Let the provider open the database and load the saved history
+  await act(async () => {
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  });
+  return result;
+};
+
+const taskTexts = () => todo.state.tasks.map((task) => task.text);
+
+describe("TodoContext undo/redo", () => {
+  beforeEach(async () => {
+    const db = await DatabaseFactory.createDatabase();
+    await db.clearDatabase();
+  });
+
+  it("should undo and redo add, toggle and delete", async () => {
+    await renderProvider();
+
+    await act(() => todo.addTask("Milk"));
+    await act(() => todo.addTask("Eggs"));
+    const [milk] = todo.state.tasks;
+    await act(() => todo.toggleTaskCompletion(milk.id));
+    await act(() => todo.deleteTask(milk.id));
+    expect(taskTexts()).toEqual(["Eggs"]);
+
+    // The deleted task comes back in its old place and state
+    await act(() => todo.undo());
+    expect(taskTexts()).toEqual(["Milk", "Eggs"]);
+    expect(screen.getByText("Milk (done)")).toBeInTheDocument();
+
+    await act(() => todo.undo());
+    expect(todo.state.tasks[0].completed).toBe(false);
+
+    await act(() => todo.redo());
+    await act(() => todo.redo());
+    expect(taskTexts()).toEqual(["Eggs"]);
+
+    const stored = await (await DatabaseFactory.createDatabase()).getAllTasks();
+    expect(stored.map((task) => task.text)).toEqual(["Eggs"]);
+  });
+
+  it("should undo from the toast and the keyboard", async () => {
+    await renderProvider();
+
+    await act(() => todo.addTask("Milk"));
+    expect(screen.getByRole("status")).toHaveTextContent('Added "Milk"');
+
+    fireEvent.click(screen.getByText("Undo"));
+    await waitFor(() => expect(taskTexts()).toEqual([]));
+    expect(screen.queryByRole("status")).not.toBeInTheDocument();
+
+    fireEvent.keyDown(window, { key: "Z", ctrlKey: true, shiftKey: true });
+    await waitFor(() => expect(taskTexts()).toEqual(["Milk"]));
+
+    fireEvent.keyDown(window, { key: "z", ctrlKey: true });
+    await waitFor(() => expect(taskTexts()).toEqual([]));
+  });
+
+  it("should move a task and undo the move", async () => {
+    await renderProvider();
+
+    await act(() => todo.addTask("Milk"));
+    await act(() => todo.addTask("Eggs"));
+    await act(() => todo.addTask("Bread"));
+    const bread = todo.state.tasks[2];
+    act(() => todo.setSelectedTask(2));
+
+    await act(() => todo.moveTask(bread.id, 0));
+    expect(taskTexts()).toEqual(["Bread", "Milk", "Eggs"]);
+    // The selection follows the moved task
+    expect(todo.state.selectedTaskIndex).toBe(0);
+    expect(screen.getByRole("status")).toHaveTextContent('Moved "Bread"');
+
+    // The order survives a reload
+    const stored = await (await DatabaseFactory.createDatabase()).getAllTasks();
+    expect(stored.map((task) => task.text)).toEqual(["Bread", "Milk", "Eggs"]);
+
+    await act(() => todo.undo());
+    expect(taskTexts()).toEqual(["Milk", "Eggs", "Bread"]);
+  });
+
+  it("should keep the history across reloads", async () => {
+    const { unmount } = await renderProvider();
+    await act(() => todo.addTask("Milk"));
+    unmount();
+
+    await renderProvider();
+    await waitFor(() => expect(todo.undoState.canUndo).toBe(true));
+
+    await act(() => todo.undo());
+    const stored = await (await DatabaseFactory.createDatabase()).getAllTasks();
+    expect(stored).toEqual([]);
+  });
+});
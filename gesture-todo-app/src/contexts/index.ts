@@ -4,5 +4,5 @@
 export { TodoProvider, useTodo, TodoContext } from "./TodoContext";
 export { AppProvider, useApp, AppContext } from "./AppContext";
 export { Providers } from "./Providers";
-export type { TodoAction } from "./TodoContext";
+export type { TodoAction, UndoState } from "./TodoContext";
 export type { AppAction, AppState } from "./AppContext";
@@ -0,0 +1,79 @@
+/** @format */
+
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_GESTURE_SETTINGS,
+  DEFAULT_SETTINGS,
+  SettingsError,
+  findInvalidGestureSettings,
+  parseSettingsExport,
+  serializeSettings,
+  toRecognizerConfig,
+} from "../appSettings";
+
+describe("app settings", () => {
+  it("should report values outside their range", () => {
+    expect(findInvalidGestureSettings(DEFAULT_GESTURE_SETTINGS)).toEqual([]);
+    expect(
+      findInvalidGestureSettings({
+        sensitivity: 3,
+        debounceTime: 50,
+        confidenceThreshold: 1,
+        confirmTimeout: NaN,
+      })
+    ).toEqual(["sensitivity", "debounceTime", "confirmTimeout"]);
+  });
+
+  it("should hold gestures for the debounce time", () => {
+    expect(
+      toRecognizerConfig({ ...DEFAULT_GESTURE_SETTINGS, debounceTime: 450 })
+    ).toMatchObject({ holdDuration: 450, confidenceThreshold: 0.8 });
+  });
+
+  it("should round-trip settings through an export", () => {
+    const settings = {
+      gestureEnabled: false,
+      theme: "dark" as const,
+      gestureSettings: { ...DEFAULT_GESTURE_SETTINGS, sensitivity: 1.2 },
+      gestureBindings: { ...DEFAULT_SETTINGS.gestureBindings, fist: null },
+    };
+
+    expect(parseSettingsExport(serializeSettings(settings))).toEqual(settings);
+  });
+
+  it("should fill in settings missing from older exports", () => {
+    const imported = parseSettingsExport({
+      version: 1,
+      settings: { theme: "dark", gestureSettings: { debounceTime: 500 } },
+    });
+
+    expect(imported).toEqual({
+      ...DEFAULT_SETTINGS,
+      theme: "dark",
+      gestureSettings: { ...DEFAULT_GESTURE_SETTINGS, debounceTime: 500 },
+    });
+  });
+
+  it("should reject invalid exports", () => {
+    const exported = (settings: unknown) => ({ version: 1, settings });
+
+    expect(() => parseSettingsExport("{")).toThrow(SettingsError);
+    expect(() => parseSettingsExport({ version: 2, settings: {} })).toThrow(
+      "Unsupported export version: 2"
+    );
+    expect(() => parseSettingsExport({ version: 1 })).toThrow(
+      "Export has no settings"
+    );
+    expect(() => parseSettingsExport(exported({ theme: "blue" }))).toThrow(
+      "Invalid theme: blue"
+    );
+    expect(() =>
+      parseSettingsExport(
+        exported({ gestureSettings: { confidenceThreshold: 0.1 } })
+      )
+    ).toThrow("Setting out of range: confidenceThreshold");
+    expect(() =>
+      parseSettingsExport(exported({ gestureSettings: { twoHandMode: "on" } }))
+    ).toThrow("Invalid setting: twoHandMode");
+  });
+});
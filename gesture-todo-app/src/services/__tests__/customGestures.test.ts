@@ -0,0 +1,167 @@
+/** @format */
+
+import { describe, it, expect, vi } from "vitest";
+import { NormalizedLandmark } from "@mediapipe/hands";
+import {
+  CustomGestureClassifier,
+  CustomGestureError,
+  createCustomGestureTemplate,
+  parseCustomGestureExport,
+  serializeCustomGestures,
+  toCustomGestureId,
+} from "../customGestures";
+import { extractLandmarkFeatures } from "../landmarkFeatures";
+import { GestureRecognizer } from "../gestureRecognizer";
+import { parseLandmarkRecording } from "../landmarkRecording";
+import basicGestures from "./fixtures/basic-gestures.recording.json";
+
+vi.mock("@mediapipe/hands", () => ({
+  Hands: vi.fn(),
+}));
+
+const recording = parseLandmarkRecording(basicGestures);
+
+const framesLabelled = (label: string) =>
+  recording.frames
+    .filter((frame) => frame.label === label && frame.landmarks)
+    .map((frame) => frame.landmarks as NormalizedLandmark[]);
+
+// Rotate around (0.5, 0.5), scale and shift a hand in image space
+const transform = (
+  landmarks: NormalizedLandmark[],
+  angle: number,
+  scale: number,
+  offset: number
+) =>
+  landmarks.map(({ x, y, z }) => {
+    const dx = x - 0.5;
+    const dy = y - 0.5;
+    return {
+      x: 0.5 + offset + scale * (dx * Math.cos(angle) - dy * Math.sin(angle)),
+      y: 0.5 + offset + scale * (dx * Math.sin(angle) + dy * Math.cos(angle)),
+      z: z * scale,
+    };
+  });
+
+describe("landmark features", () => {
+  it("should not change with hand position, size or in-plane rotation", () => {
+    const [hand] = framesLabelled("peace_sign");
+    const original = extractLandmarkFeatures(hand)!;
+    const moved = extractLandmarkFeatures(transform(hand, 0.6, 0.7, 0.05))!;
+
+    expect(moved).toHaveLength(original.length);
+    moved.forEach((value, i) => expect(value).toBeCloseTo(original[i], 6));
+  });
+
+  it("should not change when the hand turns or is a mirrored left hand", () => {
+    const [hand] = framesLabelled("open_palm");
+    const original = extractLandmarkFeatures(hand)!;
+    // Yaw around the vertical axis through x = 0.5
+    const turned = hand.map(({ x, y, z }) => ({
+      x: 0.5 + (x - 0.5) * Math.cos(0.7) + z * Math.sin(0.7),
+      y,
+      z: z * Math.cos(0.7) - (x - 0.5) * Math.sin(0.7),
+    }));
+    const leftHand = hand.map(({ x, y, z }) => ({ x: 1 - x, y, z }));
+
+    for (const features of [
+      extractLandmarkFeatures(turned)!,
+      extractLandmarkFeatures(leftHand, "Left")!,
+    ]) {
+      features.forEach((value, i) => expect(value).toBeCloseTo(original[i], 6));
+    }
+  });
+
+  it("should reject incomplete hands", () => {
+    expect(extractLandmarkFeatures([{ x: 0, y: 0, z: 0 }])).toBeNull();
+  });
+});
+
+describe("CustomGestureClassifier", () => {
+  const fists = framesLabelled("fist");
+  const template = createCustomGestureTemplate("Rock", fists.slice(0, 6));
+
+  it("should recognize a trained gesture from new frames", () => {
+    const classifier = new CustomGestureClassifier([template]);
+
+    for (const hand of fists.slice(6)) {
+      expect(classifier.classify(transform(hand, -0.4, 1.2, 0))).toMatchObject({
+        templateId: template.id,
+        gesture: toCustomGestureId(template.id),
+      });
+    }
+  });
+
+  it("should not match gestures it was not trained on", () => {
+    const classifier = new CustomGestureClassifier([template]);
+
+    for (const hand of framesLabelled("open_palm")) {
+      expect(classifier.classify(hand)).toBeNull();
+    }
+  });
+
+  it("should pick the closest of several templates", () => {
+    const palm = createCustomGestureTemplate(
+      "Palm",
+      framesLabelled("open_palm").slice(0, 6)
+    );
+    const classifier = new CustomGestureClassifier([template, palm]);
+
+    expect(
+      classifier.classify(framesLabelled("open_palm")[8])?.templateId
+    ).toBe(palm.id);
+    expect(classifier.classify(fists[8])?.templateId).toBe(template.id);
+  });
+
+  it("should be used by GestureRecognizer before the built-in rules", () => {
+    const onGesture = vi.fn();
+    const recognizer = new GestureRecognizer(onGesture, vi.fn(), {
+      customGestures: [template],
+    });
+
+    expect(recognizer.processLandmarks(fists[7], 0)).toBe(
+      toCustomGestureId(template.id)
+    );
+
+    recognizer.setCustomGestures([]);
+    expect(recognizer.processLandmarks(fists[7], 33)).toBe("fist");
+  });
+});
+
+describe("custom gesture templates", () => {
+  it("should require a name and enough samples", () => {
+    const fists = framesLabelled("fist");
+
+    expect(() => createCustomGestureTemplate(" ", fists)).toThrow(
+      CustomGestureError
+    );
+    expect(() =>
+      createCustomGestureTemplate("Rock", fists.slice(0, 2))
+    ).toThrow("At least 5 usable samples");
+  });
+
+  it("should round-trip through an export file", () => {
+    const template = createCustomGestureTemplate(
+      "Rock",
+      framesLabelled("fist"),
+      new Date("2025-01-01T00:00:00.000Z")
+    );
+
+    expect(
+      parseCustomGestureExport(serializeCustomGestures([template]))
+    ).toEqual([template]);
+  });
+
+  it("should reject malformed exports", () => {
+    expect(() => parseCustomGestureExport("{")).toThrow(CustomGestureError);
+    expect(() => parseCustomGestureExport({ version: 2 })).toThrow(
+      "Unsupported export version"
+    );
+    expect(() =>
+      parseCustomGestureExport({
+        version: 1,
+        templates: [{ id: "a", name: "A", samples: [[0, 1], [0]] }],
+      })
+    ).toThrow("Template 0 has invalid samples");
+  });
+});
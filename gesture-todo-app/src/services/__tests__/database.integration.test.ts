@@ -2,7 +2,13 @@
 
 import { describe, it, expect, beforeEach, afterEach } from "vitest";
 import { TodoDatabase } from "../database";
-import { Task, AppSettings } from "../../types";
+import { createDefaultTaskList } from "../taskLists";
+import {
+  Task,
+  AppSettings,
+  CustomGestureTemplate,
+  RecurrenceRule,
+} from "../../types";
 
 describe("TodoDatabase Integration", () => {
   let database: TodoDatabase;
@@ -148,4 +154,352 @@ describe("TodoDatabase Integration", () => {
     const deletedTask = tasks.find((t) => t.id === taskIds[4]);
     expect(deletedTask).toBeUndefined();
   });
+
+  it("should persist and export custom gesture templates", async () => {
+    const now = new Date();
+    const template: CustomGestureTemplate = {
+      id: "rock-on",
+      name: "Rock on",
+      samples: [
+        [0, -1, 0],
+        [0.1, -0.9, 0],
+      ],
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await database.saveGestureTemplate(template);
+    await database.saveGestureTemplate({ ...template, name: "Horns" });
+
+    let templates = await database.getAllGestureTemplates();
+    expect(templates).toHaveLength(1);
+    expect(templates[0].name).toBe("Horns");
+
+    const exported = await database.exportData();
+    expect(exported.gestureTemplates).toEqual(templates);
+
+    await database.deleteGestureTemplate("rock-on");
+    templates = await database.getAllGestureTemplates();
+    expect(templates).toHaveLength(0);
+
+    await database.importData(exported);
+    templates = await database.getAllGestureTemplates();
+    expect(templates.map((t) => t.name)).toEqual(["Horns"]);
+  });
+
+  it("should store priority, due date and tags", async () => {
+    const dueDate = new Date(2025, 5, 1, 18, 0);
+    const taskId = await database.addTask({
+      text: "Ship v3",
+      completed: false,
+      priority: "high",
+      dueDate,
+      hasDueTime: true,
+      tags: ["work", "release"],
+    } as Omit<Task, "id">);
+    const plainId = await database.addTask({
+      text: "No details",
+      completed: false,
+    } as Omit<Task, "id">);
+
+    let tasks = await database.getAllTasks();
+    expect(tasks.find((t) => t.id === taskId)).toMatchObject({
+      priority: "high",
+      dueDate,
+      hasDueTime: true,
+      tags: ["work", "release"],
+    });
+    expect(tasks.find((t) => t.id === plainId)).toMatchObject({
+      priority: "none",
+      tags: [],
+    });
+
+    await database.updateTask(taskId, {
+      dueDate: undefined,
+      hasDueTime: undefined,
+    });
+    tasks = await database.getAllTasks();
+    expect(tasks.find((t) => t.id === taskId)?.dueDate).toBeUndefined();
+  });
+
+  it("should store and clear a recurrence rule", async () => {
+    const recurrence: RecurrenceRule = {
+      frequency: "weekly",
+      interval: 2,
+      weekdays: [1, 5],
+    };
+    const taskId = await database.addTask({
+      text: "Team sync",
+      completed: false,
+      recurrence,
+    } as Omit<Task, "id">);
+
+    expect((await database.getAllTasks())[0].recurrence).toEqual(recurrence);
+
+    await database.updateTask(taskId, { recurrence: undefined });
+    expect((await database.getAllTasks())[0]).not.toHaveProperty("recurrence");
+  });
+
+  it("should round-trip task details through export and import", async () => {
+    await database.addTask({
+      text: "Tagged",
+      completed: false,
+      priority: "low",
+      dueDate: new Date(2025, 0, 31),
+      hasDueTime: false,
+      tags: ["home"],
+    } as Omit<Task, "id">);
+    const exported = await database.exportData();
+
+    await database.clearDatabase();
+    // Backups are written as JSON, which turns dates into strings
+    await database.importData(JSON.parse(JSON.stringify(exported)));
+
+    expect(await database.getAllTasks()).toEqual(exported.tasks);
+  });
+
+  it("should migrate tasks from a version 2 database", async () => {
+    (database as any).db.close();
+    await new Promise<void>((resolve) => {
+      const request = indexedDB.deleteDatabase(testDbName);
+      request.onsuccess = () => resolve();
+    });
+
+    // Create the v2 schema with a task in the old format
+    await new Promise<void>((resolve, reject) => {
+      const request = indexedDB.open(testDbName, 2);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore("tasks", {
+          keyPath: "id",
+        });
+        store.createIndex("completed", "completed", { unique: false });
+        store.createIndex("createdAt", "createdAt", { unique: false });
+        request.result.createObjectStore("settings", { keyPath: "key" });
+        request.result.createObjectStore("gestureTemplates", {
+          keyPath: "id",
+        });
+        store.add({
+          id: "old",
+          text: "Old task",
+          completed: false,
+          createdAt: new Date(2024, 0, 1),
+          updatedAt: new Date(2024, 0, 1),
+        });
+      };
+      request.onsuccess = () => {
+        request.result.close();
+        resolve();
+      };
+      request.onerror = () => reject(request.error);
+    });
+
+    class TestTodoDatabase extends TodoDatabase {
+      protected readonly dbName = testDbName;
+    }
+    database = new (TestTodoDatabase as any)();
+    await database.initialize();
+
+    const [task] = await database.getAllTasks();
+    expect(task).toMatchObject({ id: "old", priority: "none", tags: [] });
+
+    // The migrated record is covered by the new indexes
+    const db: IDBDatabase = (database as any).db;
+    const count = await new Promise<number>((resolve) => {
+      const request = db
+        .transaction(["tasks"], "readonly")
+        .objectStore("tasks")
+        .index("priority")
+        .count("none");
+      request.onsuccess = () => resolve(request.result);
+    });
+    expect(count).toBe(1);
+    expect(
+      Array.from(db.transaction(["tasks"]).objectStore("tasks").indexNames)
+    ).toEqual(expect.arrayContaining(["dueDate", "priority", "tags"]));
+  });
+
+  it("should list tasks in their manual order", async () => {
+    const ids: string[] = [];
+    for (const order of ["a1", "a0", "a2"]) {
+      ids.push(
+        await database.addTask({
+          text: `Task ${order}`,
+          completed: false,
+          order,
+        } as Omit<Task, "id">)
+      );
+    }
+    expect((await database.getAllTasks()).map((t) => t.id)).toEqual([
+      ids[1],
+      ids[0],
+      ids[2],
+    ]);
+
+    await database.updateTask(ids[2], { order: "Zz" });
+    expect((await database.getAllTasks()).map((t) => t.id)).toEqual([
+      ids[2],
+      ids[1],
+      ids[0],
+    ]);
+  });
+
+  it("should order tasks from a version 4 database by creation", async () => {
+    (database as any).db.close();
+    await new Promise<void>((resolve) => {
+      const request = indexedDB.deleteDatabase(testDbName);
+      request.onsuccess = () => resolve();
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      const request = indexedDB.open(testDbName, 4);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore("tasks", {
+          keyPath: "id",
+        });
+        request.result.createObjectStore("settings", { keyPath: "key" });
+        request.result.createObjectStore("gestureTemplates", {
+          keyPath: "id",
+        });
+        request.result.createObjectStore("history", { keyPath: "key" });
+        for (const [id, day] of [
+          ["b", 2],
+          ["c", 3],
+          ["a", 1],
+        ] as const) {
+          store.add({
+            id,
+            text: id,
+            completed: false,
+            priority: "none",
+            tags: [],
+            createdAt: new Date(2024, 0, day),
+            updatedAt: new Date(2024, 0, day),
+          });
+        }
+      };
+      request.onsuccess = () => {
+        request.result.close();
+        resolve();
+      };
+      request.onerror = () => reject(request.error);
+    });
+
+    class TestTodoDatabase extends TodoDatabase {
+      protected readonly dbName = testDbName;
+    }
+    database = new (TestTodoDatabase as any)();
+    await database.initialize();
+
+    const tasks = await database.getAllTasks();
+    expect(tasks.map((t) => t.id)).toEqual(["a", "b", "c"]);
+    expect(tasks[0].order < tasks[1].order).toBe(true);
+
+    // The keys are stored, not only computed on read
+    const db: IDBDatabase = (database as any).db;
+    const record = await new Promise<any>((resolve) => {
+      const request = db
+        .transaction(["tasks"], "readonly")
+        .objectStore("tasks")
+        .get("c");
+      request.onsuccess = () => resolve(request.result);
+    });
+    expect(record.order).toBe(tasks[2].order);
+    expect(record.listId).toBe("default");
+    expect(record.parentId).toBe(null);
+
+    // Existing tasks end up in the default list
+    expect(await database.getAllLists()).toEqual([createDefaultTaskList()]);
+    expect(await database.getTasksByList("default")).toHaveLength(3);
+  });
+
+  it("should keep tasks in their lists and delete them with the list", async () => {
+    const work = { ...createDefaultTaskList(), id: "work", name: "Work" };
+    await database.saveList(work);
+    await database.addTask({
+      text: "Report",
+      completed: false,
+      listId: "work",
+    } as Omit<Task, "id">);
+    await database.addTask({ text: "Milk", completed: false } as Omit<
+      Task,
+      "id"
+    >);
+
+    expect((await database.getAllLists()).map((l) => l.id)).toEqual([
+      "default",
+      "work",
+    ]);
+    expect((await database.getTasksByList("work")).map((t) => t.text)).toEqual([
+      "Report",
+    ]);
+    expect(
+      (await database.getTasksByList("default")).map((t) => t.text)
+    ).toEqual(["Milk"]);
+
+    await database.saveList({ ...work, name: "Office", archived: true });
+    expect((await database.getAllLists())[1]).toMatchObject({
+      name: "Office",
+      archived: true,
+    });
+
+    await database.deleteList("work");
+    expect((await database.getAllLists()).map((l) => l.id)).toEqual([
+      "default",
+    ]);
+    expect((await database.getAllTasks()).map((t) => t.text)).toEqual(["Milk"]);
+    await expect(database.deleteList("default")).rejects.toThrow(
+      "The default list cannot be deleted"
+    );
+  });
+
+  it("should delete subtasks at any depth with their parent", async () => {
+    const add = (text: string, parentId: string | null) =>
+      database.addTask({ text, completed: false, parentId } as Omit<
+        Task,
+        "id"
+      >);
+    const groceries = await add("Groceries", null);
+    const dairy = await add("Dairy", groceries);
+    await add("Milk", dairy);
+    await add("Laundry", null);
+
+    expect(
+      (await database.getAllTasks()).find((t) => t.text === "Milk")
+    ).toMatchObject({ parentId: dairy });
+
+    await database.deleteTask(groceries);
+    expect((await database.getAllTasks()).map((t) => t.text)).toEqual([
+      "Laundry",
+    ]);
+  });
+
+  it("should import a list with its tasks", async () => {
+    const trip = { ...createDefaultTaskList(), id: "trip", name: "Trip" };
+    await database.importList(trip, [
+      { id: "passport", text: "Passport", completed: false } as Task,
+    ]);
+
+    const [task] = await database.getTasksByList("trip");
+    expect(task).toMatchObject({ id: "passport", listId: "trip" });
+    expect(task.order).not.toBe("");
+    expect((await database.exportData()).lists).toHaveLength(2);
+  });
+
+  it("should give imported tasks without an order key one", async () => {
+    const task = (id: string, day: number) => ({
+      id,
+      text: id,
+      completed: false,
+      createdAt: new Date(2024, 0, day),
+      updatedAt: new Date(2024, 0, day),
+    });
+    await database.importData({
+      tasks: [task("later", 2), task("earlier", 1)] as Task[],
+      settings: {},
+    });
+
+    const tasks = await database.getAllTasks();
+    expect(tasks.map((t) => t.id)).toEqual(["earlier", "later"]);
+    expect(tasks.every((t) => t.order !== "")).toBe(true);
+  });
 });
@@ -0,0 +1,172 @@
+/** @format */
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { FrameScheduler, FrameTimer } from "../frameScheduler";
+
+// A display that refreshes only when told to
+const createManualTimer = () => {
+  let pending: ((time: number) => void) | null = null;
+  const timer: FrameTimer = {
+    requestFrame: vi.fn((callback) => {
+      pending = callback;
+      return 1;
+    }),
+    cancelFrame: vi.fn(() => {
+      pending = null;
+    }),
+  };
+  const tick = async (time: number) => {
+    const callback = pending;
+    pending = null;
+    callback?.(time);
+    // Let a finished frame settle
+    await Promise.resolve();
+    await Promise.resolve();
+  };
+  return { timer, tick, isScheduled: () => pending !== null };
+};
+
+const setHidden = (hidden: boolean) => {
+  Object.defineProperty(document, "hidden", {
+    value: hidden,
+    configurable: true,
+  });
+  document.dispatchEvent(new Event("visibilitychange"));
+};
+
+describe("FrameScheduler", () => {
+  afterEach(() => {
+    setHidden(false);
+  });
+
+  it("should process frames at the target rate and drop those due while busy", async () => {
+    const { timer, tick } = createManualTimer();
+    let finishFrame = () => {};
+    const processFrame = vi.fn(
+      () => new Promise<void>((resolve) => (finishFrame = resolve))
+    );
+    const scheduler = new FrameScheduler(
+      processFrame,
+      { targetFps: 10 },
+      timer
+    );
+
+    scheduler.start(0);
+    await tick(0);
+    expect(processFrame).toHaveBeenCalledTimes(1);
+
+    // Not due yet at 10 fps
+    await tick(50);
+    // Due, but the first frame is still running
+    await tick(100);
+    expect(processFrame).toHaveBeenCalledTimes(1);
+    expect(scheduler.getMetrics()).toMatchObject({
+      processedFrames: 0,
+      droppedFrames: 1,
+    });
+
+    finishFrame();
+    await tick(150);
+    expect(scheduler.getMetrics().processedFrames).toBe(1);
+    await tick(200);
+    expect(processFrame).toHaveBeenCalledTimes(2);
+    expect(processFrame).toHaveBeenLastCalledWith(200);
+
+    finishFrame();
+    await tick(250);
+    expect(scheduler.getMetrics()).toMatchObject({
+      processedFrames: 2,
+      droppedFrames: 1,
+      currentFps: 10,
+      state: "running",
+    });
+    scheduler.stop();
+  });
+
+  it("should slow down while no hand is seen", async () => {
+    const { timer, tick } = createManualTimer();
+    const processFrame = vi.fn(async () => {});
+    const scheduler = new FrameScheduler(
+      processFrame,
+      { targetFps: 10, idleFps: 2, idleDelay: 1000 },
+      timer
+    );
+
+    scheduler.start(0);
+    scheduler.reportHands(true, 0);
+    for (let time = 0; time < 1000; time += 100) {
+      await tick(time);
+    }
+    expect(processFrame).toHaveBeenCalledTimes(10);
+
+    // Without a hand for a second: 2 fps
+    for (let time = 1000; time < 2000; time += 100) {
+      await tick(time);
+    }
+    expect(processFrame).toHaveBeenCalledTimes(12);
+    expect(scheduler.getMetrics()).toMatchObject({
+      currentFps: 2,
+      state: "idle",
+      droppedFrames: 0,
+    });
+
+    scheduler.reportHands(false, 2000);
+    expect(scheduler.getMetrics().state).toBe("idle");
+    scheduler.reportHands(true, 2000);
+    expect(scheduler.getMetrics().currentFps).toBe(10);
+    await tick(2000);
+    await tick(2100);
+    expect(processFrame).toHaveBeenCalledTimes(14);
+    scheduler.stop();
+  });
+
+  it("should pause while the page is hidden and stop for good", async () => {
+    const { timer, tick, isScheduled } = createManualTimer();
+    const processFrame = vi.fn(async () => {});
+    const scheduler = new FrameScheduler(processFrame, {}, timer);
+
+    scheduler.start(0);
+    await tick(0);
+    setHidden(true);
+    expect(scheduler.getMetrics().state).toBe("paused");
+    expect(isScheduled()).toBe(false);
+
+    setHidden(false);
+    expect(scheduler.getMetrics().state).toBe("running");
+    await tick(1000);
+    expect(processFrame).toHaveBeenCalledTimes(2);
+
+    scheduler.stop();
+    expect(isScheduled()).toBe(false);
+    expect(timer.cancelFrame).toHaveBeenCalled();
+    setHidden(true);
+    setHidden(false);
+    expect(isScheduled()).toBe(false);
+    expect(scheduler.getMetrics().state).toBe("stopped");
+  });
+
+  it("should keep going after a failed frame", async () => {
+    const { timer, tick } = createManualTimer();
+    const consoleError = vi
+      .spyOn(console, "error")
+      .mockImplementation(() => {});
+    const processFrame = vi
+      .fn<(time: number) => Promise<void>>()
+      .mockRejectedValueOnce(new Error("Video element is not ready"))
+      .mockResolvedValue(undefined);
+    const scheduler = new FrameScheduler(processFrame, {}, timer);
+
+    scheduler.start(0);
+    await tick(0);
+    await tick(100);
+
+    expect(processFrame).toHaveBeenCalledTimes(2);
+    expect(scheduler.getMetrics()).toMatchObject({
+      processedFrames: 2,
+      failedFrames: 1,
+    });
+    expect(consoleError).toHaveBeenCalled();
+    scheduler.stop();
+    consoleError.mockRestore();
+  });
+});
@@ -0,0 +1,74 @@
+/** @format */
+
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_GESTURE_BINDINGS,
+  findBindingConflicts,
+  findGestureForAction,
+  getBoundAction,
+  normalizeGestureBindings,
+} from "../gestureBindings";
+
+describe("gesture bindings", () => {
+  it("should have no conflicts in the defaults", () => {
+    expect(findBindingConflicts(DEFAULT_GESTURE_BINDINGS)).toEqual([]);
+  });
+
+  it("should undo by gesture by default", () => {
+    expect(findGestureForAction(DEFAULT_GESTURE_BINDINGS, "undo")).toBe(
+      "circle_ccw"
+    );
+  });
+
+  it("should switch lists both ways by default", () => {
+    expect(findGestureForAction(DEFAULT_GESTURE_BINDINGS, "next_list")).toBe(
+      "swipe_left"
+    );
+    expect(
+      findGestureForAction(DEFAULT_GESTURE_BINDINGS, "previous_list")
+    ).toBe("swipe_right");
+    expect(
+      findGestureForAction(DEFAULT_GESTURE_BINDINGS, "toggle_pointer_mode")
+    ).toBe("circle_cw");
+  });
+
+  it("should report actions bound to several gestures", () => {
+    const conflicts = findBindingConflicts({
+      ...DEFAULT_GESTURE_BINDINGS,
+      open_palm: "delete",
+      point_up: null,
+      two_fingers: null,
+    });
+
+    expect(conflicts).toEqual([
+      { action: "delete", gestures: ["fist", "open_palm"] },
+    ]);
+  });
+
+  it("should resolve gestures to bound actions", () => {
+    const bindings = { ...DEFAULT_GESTURE_BINDINGS, fist: null };
+
+    expect(getBoundAction(bindings, "thumbs_up")).toBe("add");
+    expect(getBoundAction(bindings, "fist")).toBeNull();
+    expect(getBoundAction(bindings, "none")).toBeNull();
+    expect(findGestureForAction(bindings, "cancel")).toBe("open_palm");
+    expect(findGestureForAction(bindings, "delete")).toBeNull();
+  });
+
+  it("should merge persisted bindings onto the defaults", () => {
+    expect(
+      normalizeGestureBindings({
+        fist: "cancel",
+        open_palm: null,
+        thumbs_up: "launch_rockets",
+      })
+    ).toEqual({
+      ...DEFAULT_GESTURE_BINDINGS,
+      fist: "cancel",
+      open_palm: null,
+    });
+    expect(normalizeGestureBindings(undefined)).toEqual(
+      DEFAULT_GESTURE_BINDINGS
+    );
+  });
+});
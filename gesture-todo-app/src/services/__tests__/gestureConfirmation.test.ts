@@ -0,0 +1,57 @@
+/** @format */
+
+import { describe, it, expect } from "vitest";
+import { GestureConfirmation } from "../gestureConfirmation";
+
+describe("GestureConfirmation", () => {
+  it("should only require confirmation for configured actions", () => {
+    const confirmation = new GestureConfirmation();
+    expect(confirmation.requiresConfirmation("delete")).toBe(true);
+    expect(confirmation.requiresConfirmation("complete")).toBe(false);
+
+    confirmation.updateConfig({ enabled: false });
+    expect(confirmation.requiresConfirmation("delete")).toBe(false);
+  });
+
+  it("should confirm with the confirm gesture and ignore others", () => {
+    const confirmation = new GestureConfirmation();
+    confirmation.arm("delete", "fist", 0, "task-1");
+
+    expect(confirmation.handleGesture("point_up", 100)).toBeNull();
+    expect(confirmation.getPending()?.taskId).toBe("task-1");
+    expect(confirmation.handleGesture("thumbs_up", 200)).toBe("confirmed");
+    expect(confirmation.getPending()).toBeNull();
+  });
+
+  it("should abort with the abort gesture or after the timeout", () => {
+    const confirmation = new GestureConfirmation({ timeout: 1000 });
+    confirmation.arm("delete", "fist", 0);
+    expect(confirmation.handleGesture("open_palm", 100)).toBe("aborted");
+
+    confirmation.arm("delete", "fist", 0);
+    expect(confirmation.update("none", 999)).toBeNull();
+    expect(confirmation.update("none", 1000)).toBe("aborted");
+    expect(confirmation.getPending()).toBeNull();
+  });
+
+  it("should confirm once the arming pose is held long enough", () => {
+    const confirmation = new GestureConfirmation({ holdDuration: 500 });
+    confirmation.arm("delete", "fist", 0);
+
+    expect(confirmation.update("fist", 400)).toBeNull();
+    expect(confirmation.update("fist", 500)).toBe("confirmed");
+  });
+
+  it("should restart the hold when the pose is released", () => {
+    const confirmation = new GestureConfirmation({ holdDuration: 500 });
+    confirmation.arm("delete", "fist", 0);
+
+    confirmation.update("fist", 300);
+    expect(confirmation.update("none", 400)).toBeNull();
+    expect(confirmation.getPending()?.heldSince).toBeNull();
+
+    expect(confirmation.update("fist", 600)).toBeNull();
+    expect(confirmation.getPending()?.heldSince).toBe(600);
+    expect(confirmation.update("fist", 1100)).toBe("confirmed");
+  });
+});
@@ -0,0 +1,338 @@
+/** @format */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  Hands,
+  HandsConfig,
+  NormalizedLandmark,
+  Results,
+} from "@mediapipe/hands";
+import {
+  GestureWorkerPort,
+  MAX_MISSED_WORKER_FRAMES,
+  WORKER_FRAME_TIMEOUT,
+  WorkerGestureRecognizer,
+  canUseGestureWorker,
+  createGestureWorker,
+  startGestureRecognition,
+} from "../gestureInference";
+import {
+  createGestureWorkerHost,
+  importScriptsGlobally,
+} from "../gestureWorkerHost";
+import {
+  GestureRecognizer,
+  MediaPipeInitializationError,
+} from "../gestureRecognizer";
+import { parseLandmarkRecording } from "../landmarkRecording";
+import basicGestures from "./fixtures/basic-gestures.recording.json";
+
+// Hands that sees `handLandmarks` in every frame. Like MediaPipe, it fetches
+// its model through locateFile() when initialized.
+let handLandmarks: NormalizedLandmark[];
+
+vi.mock("@mediapipe/hands", () => ({
+  Hands: vi.fn().mockImplementation(({ locateFile }: HandsConfig) => {
+    let onResults: (results: Results) => void = () => {};
+    return {
+      initialize: vi.fn(async () => {
+        const response = await fetch(locateFile!("hands.binarypb"));
+        if (!response.ok) {
+          throw new Error(`Failed to fetch hands.binarypb: ${response.status}`);
+        }
+      }),
+      setOptions: vi.fn(),
+      onResults: (callback: typeof onResults) => {
+        onResults = callback;
+      },
+      send: vi.fn(async () =>
+        onResults({ multiHandLandmarks: [handLandmarks] } as Results)
+      ),
+      close: vi.fn(),
+    };
+  }),
+}));
+
+// Recognizes on the first frame, without verifying model files
+const config = { holdDuration: 0, assetIntegrity: "off" as const };
+const video = { readyState: 4 } as HTMLVideoElement;
+
+// A port to a host running in this thread, as the worker would run it
+const connectHost = (): GestureWorkerPort => {
+  const port: GestureWorkerPort = {
+    onmessage: null,
+    onerror: null,
+    postMessage: vi.fn((request) => {
+      handleRequest(request);
+    }),
+    terminate: vi.fn(),
+  };
+  const handleRequest = createGestureWorkerHost((event) =>
+    port.onmessage?.({ data: event } as MessageEvent)
+  );
+  return port;
+};
+
+describe("gesture inference", () => {
+  const frames = parseLandmarkRecording(basicGestures).frames;
+  const image = { close: vi.fn() };
+
+  beforeEach(() => {
+    handLandmarks = frames.find((f) => f.label === "thumbs_up")!.landmarks;
+    vi.stubGlobal(
+      "createImageBitmap",
+      vi.fn(async () => image)
+    );
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => new Response(null))
+    );
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.clearAllMocks();
+  });
+
+  it("should recognize frames in the worker and post the results back", async () => {
+    const onGesture = vi.fn();
+    const onError = vi.fn();
+    const port = connectHost();
+
+    const recognizer = await startGestureRecognition(
+      video,
+      onGesture,
+      onError,
+      config,
+      () => port
+    );
+    const onLandmarks = vi.fn();
+    const onHands = vi.fn();
+    const onScores = vi.fn();
+    recognizer.addLandmarkListener(onLandmarks);
+    recognizer.addHandsListener(onHands);
+    recognizer.addScoresListener(onScores);
+    await recognizer.processFrame(video);
+
+    expect(recognizer).toBeInstanceOf(WorkerGestureRecognizer);
+    expect(onGesture).toHaveBeenCalledWith("thumbs_up");
+    expect(onLandmarks).toHaveBeenCalledWith(handLandmarks, expect.any(Number));
+    const hand = expect.objectContaining({ landmarks: handLandmarks });
+    expect(onHands).toHaveBeenCalledWith([hand], expect.any(Number), hand);
+    expect(onScores.mock.lastCall![0][0].gesture).toBe("thumbs_up");
+    expect(recognizer.getStats().frameCount).toBe(1);
+    expect(recognizer.getStats().scores).toEqual(onScores.mock.lastCall![0]);
+    expect(recognizer.isHealthy()).toBe(true);
+    // The frame was transferred and released once processed
+    expect(port.postMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ type: "frame", image }),
+      [image]
+    );
+    expect(image.close).toHaveBeenCalled();
+    expect(onError).not.toHaveBeenCalled();
+
+    recognizer.dispose();
+    expect(port.terminate).toHaveBeenCalled();
+  });
+
+  it("should fall back to the main thread", async () => {
+    const onError = vi.fn();
+    // A worker whose MediaPipe cannot start, e.g. without WebGL there
+    const port: GestureWorkerPort = {
+      onmessage: null,
+      onerror: null,
+      postMessage: vi.fn(() =>
+        port.onmessage?.({
+          data: {
+            type: "error",
+            name: "MediaPipeInitializationError",
+            message: "WebGL is not available",
+          },
+        } as MessageEvent)
+      ),
+      terminate: vi.fn(),
+    };
+
+    const recognizer = await startGestureRecognition(
+      video,
+      vi.fn(),
+      onError,
+      config,
+      () => port
+    );
+
+    expect(recognizer).toBeInstanceOf(GestureRecognizer);
+    expect(port.terminate).toHaveBeenCalled();
+    expect(onError).not.toHaveBeenCalled();
+    recognizer.dispose();
+
+    // jsdom has no workers
+    expect(canUseGestureWorker()).toBe(false);
+    const fallback = await startGestureRecognition(
+      video,
+      vi.fn(),
+      onError,
+      config
+    );
+    expect(fallback).toBeInstanceOf(GestureRecognizer);
+    fallback.dispose();
+  });
+
+  it("should fall back to the main thread when the worker cannot load the model", async () => {
+    const onError = vi.fn();
+    vi.mocked(fetch).mockResolvedValueOnce(new Response(null, { status: 404 }));
+
+    const recognizer = await startGestureRecognition(
+      video,
+      vi.fn(),
+      onError,
+      config,
+      connectHost
+    );
+
+    // The worker's MediaPipe failed to load, the main thread's did not
+    expect(Hands).toHaveBeenCalledTimes(2);
+    expect(recognizer).toBeInstanceOf(GestureRecognizer);
+    expect(recognizer.isHealthy()).toBe(true);
+    expect(onError).not.toHaveBeenCalled();
+    recognizer.dispose();
+
+    // Nowhere to load it from
+    vi.mocked(fetch).mockResolvedValue(new Response(null, { status: 404 }));
+    await expect(
+      startGestureRecognition(video, vi.fn(), onError, config, connectHost)
+    ).rejects.toThrow(MediaPipeInitializationError);
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({
+        message: expect.stringContaining("hands.binarypb"),
+      })
+    );
+  });
+
+  it("should move to the main thread when the worker fails while running", async () => {
+    const onGesture = vi.fn();
+    const onError = vi.fn();
+    const port = connectHost();
+    const recognizer = await startGestureRecognition(
+      video,
+      onGesture,
+      onError,
+      config,
+      () => port
+    );
+    const onHands = vi.fn();
+    recognizer.addHandsListener(onHands);
+    await recognizer.processFrame(video);
+    expect(onGesture).toHaveBeenCalledTimes(1);
+
+    // E.g. the worker ran out of memory
+    port.onerror!({ message: "out of memory" } as ErrorEvent);
+    expect(port.terminate).toHaveBeenCalled();
+    expect(recognizer.isHealthy()).toBe(true);
+    // Until the main thread's recognizer takes over with fresh stats
+    await vi.waitFor(() => expect(recognizer.getStats().frameCount).toBe(0));
+
+    await recognizer.processFrame(video);
+    expect(recognizer).toBeInstanceOf(WorkerGestureRecognizer);
+    expect(Hands).toHaveBeenCalledTimes(2);
+    expect(onGesture).toHaveBeenCalledTimes(2);
+    expect(onHands).toHaveBeenCalledTimes(2);
+    expect(recognizer.getStats().frameCount).toBe(1);
+    expect(onError).not.toHaveBeenCalled();
+
+    recognizer.dispose();
+    expect(recognizer.isHealthy()).toBe(false);
+  });
+
+  it("should move to the main thread when the worker stops answering frames", async () => {
+    vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout"] });
+    const onGesture = vi.fn();
+    const onError = vi.fn();
+    // A worker that starts, then hangs on every frame
+    const port: GestureWorkerPort = {
+      onmessage: null,
+      onerror: null,
+      postMessage: vi.fn((request) => {
+        if (request.type === "init") {
+          port.onmessage?.({ data: { type: "ready" } } as MessageEvent);
+        }
+      }),
+      terminate: vi.fn(),
+    };
+    const recognizer = await startGestureRecognition(
+      video,
+      onGesture,
+      onError,
+      config,
+      () => port
+    );
+
+    for (let i = 0; i < MAX_MISSED_WORKER_FRAMES; i++) {
+      const frame = recognizer.processFrame(video);
+      await vi.advanceTimersByTimeAsync(WORKER_FRAME_TIMEOUT);
+      await frame;
+    }
+
+    // A missed frame does not hold up the next one
+    const frames = vi
+      .mocked(port.postMessage)
+      .mock.calls.filter(([request]) => request.type === "frame");
+    expect(frames).toHaveLength(MAX_MISSED_WORKER_FRAMES);
+    expect(port.terminate).toHaveBeenCalled();
+
+    await vi.waitFor(async () => {
+      await recognizer.processFrame(video);
+      expect(onGesture).toHaveBeenCalledWith("thumbs_up");
+    });
+    expect(Hands).toHaveBeenCalledTimes(1);
+    expect(recognizer.isHealthy()).toBe(true);
+    expect(onError).not.toHaveBeenCalled();
+
+    recognizer.dispose();
+  });
+
+  it("should start the gesture worker where the browser supports it", () => {
+    const Worker = vi.fn();
+    vi.stubGlobal("Worker", Worker);
+    vi.stubGlobal("OffscreenCanvas", class {});
+    expect(canUseGestureWorker()).toBe(true);
+
+    createGestureWorker();
+    // The dev server, which tests run on, starts it as a module worker
+    const [url, options] = Worker.mock.calls[0];
+    expect(String(url)).toContain("gestureRecognizer.worker.ts");
+    expect(options).toEqual({ type: "module" });
+  });
+
+  it("should load scripts globally for importScripts() in module workers", () => {
+    const open = vi.fn();
+    let status = 200;
+    vi.stubGlobal(
+      "XMLHttpRequest",
+      class {
+        responseText = "var loadedByImportScripts = 42;";
+        open = open;
+        send() {}
+        get status() {
+          return status;
+        }
+      }
+    );
+
+    importScriptsGlobally("/mediapipe/hands/hands_solution_wasm_bin.js");
+    expect(open).toHaveBeenCalledWith(
+      "GET",
+      "/mediapipe/hands/hands_solution_wasm_bin.js",
+      false
+    );
+    expect(
+      (globalThis as { loadedByImportScripts?: number }).loadedByImportScripts
+    ).toBe(42);
+
+    status = 404;
+    expect(() => importScriptsGlobally("/missing.js")).toThrow(
+      "Failed to load /missing.js: 404"
+    );
+  });
+});
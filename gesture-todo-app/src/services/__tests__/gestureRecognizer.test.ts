@@ -4,10 +4,13 @@ import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import { GestureRecognizer } from "../gestureRecognizer";
 import { GestureType } from "../../types";
 import { NormalizedLandmark } from "@mediapipe/hands";
+import { parseLandmarkRecording } from "../landmarkRecording";
+import basicGestures from "./fixtures/basic-gestures.recording.json";
 
 // Mock MediaPipe Hands
 vi.mock("@mediapipe/hands", () => ({
   Hands: vi.fn().mockImplementation(() => ({
+    initialize: vi.fn().mockResolvedValue(undefined),
     setOptions: vi.fn(),
     onResults: vi.fn(),
     send: vi.fn().mockResolvedValue(undefined),
@@ -202,56 +205,159 @@ describe("GestureRecognizer", () => {
   });
 
   describe("confidence and debouncing", () => {
+    // Feed one gesture per frame at the given frame interval (ms)
+    const feed = (
+      recognizer: GestureRecognizer,
+      gestures: GestureType[],
+      frameInterval = 33,
+      start = 0
+    ) => {
+      gestures.forEach((gesture, i) =>
+        (recognizer as any).handleGestureDetection(
+          gesture,
+          start + i * frameInterval
+        )
+      );
+    };
+
     it("should require consistent gestures before triggering callback", () => {
-      const gestureRecognizer = new GestureRecognizer(mockOnGestureDetected, {
-        confidenceThreshold: 0.8,
-        debounceFrames: 5,
-      });
+      const gestureRecognizer = new GestureRecognizer(
+        mockOnGestureDetected,
+        vi.fn(),
+        { confidenceThreshold: 0.8, holdDuration: 150 }
+      );
 
       // Simulate inconsistent gesture detection
-      for (let i = 0; i < 10; i++) {
-        (gestureRecognizer as any).handleGestureDetection(
+      feed(
+        gestureRecognizer,
+        Array.from({ length: 10 }, (_, i) =>
           i % 2 === 0 ? "thumbs_up" : "none"
-        );
-      }
+        )
+      );
 
       expect(mockOnGestureDetected).not.toHaveBeenCalled();
     });
 
     it("should trigger callback for consistent gestures", () => {
-      const gestureRecognizer = new GestureRecognizer(mockOnGestureDetected, {
-        confidenceThreshold: 0.6,
-        debounceFrames: 5,
-      });
+      const gestureRecognizer = new GestureRecognizer(
+        mockOnGestureDetected,
+        vi.fn(),
+        { confidenceThreshold: 0.6, holdDuration: 150 }
+      );
 
       // Simulate consistent gesture detection
-      for (let i = 0; i < 10; i++) {
-        (gestureRecognizer as any).handleGestureDetection("thumbs_up");
-      }
+      feed(gestureRecognizer, Array(10).fill("thumbs_up"));
 
       expect(mockOnGestureDetected).toHaveBeenCalledWith("thumbs_up");
     });
 
     it("should not trigger callback for none gesture", () => {
-      const gestureRecognizer = new GestureRecognizer(mockOnGestureDetected, {
-        confidenceThreshold: 0.5,
-        debounceFrames: 3,
-      });
+      const gestureRecognizer = new GestureRecognizer(
+        mockOnGestureDetected,
+        vi.fn(),
+        { confidenceThreshold: 0.5, holdDuration: 100 }
+      );
 
       // Simulate consistent "none" gesture
-      for (let i = 0; i < 10; i++) {
-        (gestureRecognizer as any).handleGestureDetection("none");
-      }
+      feed(gestureRecognizer, Array(10).fill("none"));
 
       expect(mockOnGestureDetected).not.toHaveBeenCalled();
     });
+
+    it("should wait for the hold duration regardless of frame rate", () => {
+      const fast = vi.fn();
+      const slow = vi.fn();
+      const config = { confidenceThreshold: 0.8, holdDuration: 300 };
+
+      // 60fps for 250ms and 10fps for 200ms: neither has been held long enough
+      feed(
+        new GestureRecognizer(fast, vi.fn(), config),
+        Array(16).fill("fist"),
+        16
+      );
+      feed(
+        new GestureRecognizer(slow, vi.fn(), config),
+        Array(3).fill("fist"),
+        100
+      );
+      expect(fast).not.toHaveBeenCalled();
+      expect(slow).not.toHaveBeenCalled();
+
+      // Once 300ms have elapsed both fire exactly once
+      feed(
+        new GestureRecognizer(fast, vi.fn(), config),
+        Array(20).fill("fist"),
+        16
+      );
+      feed(
+        new GestureRecognizer(slow, vi.fn(), config),
+        Array(4).fill("fist"),
+        100
+      );
+      expect(fast).toHaveBeenCalledTimes(1);
+      expect(slow).toHaveBeenCalledTimes(1);
+    });
+
+    it("should not repeat a held gesture until it is released", () => {
+      const gestureRecognizer = new GestureRecognizer(
+        mockOnGestureDetected,
+        vi.fn(),
+        {
+          confidenceThreshold: 0.8,
+          holdDuration: 100,
+          cooldown: 0,
+          releaseDuration: 100,
+        }
+      );
+
+      // Held for 2 seconds: fires once
+      feed(gestureRecognizer, Array(60).fill("point_up"));
+      expect(mockOnGestureDetected).toHaveBeenCalledTimes(1);
+
+      // Release, then hold again: fires a second time
+      feed(gestureRecognizer, Array(6).fill("none"), 33, 2000);
+      feed(gestureRecognizer, Array(6).fill("point_up"), 33, 2200);
+      expect(mockOnGestureDetected).toHaveBeenCalledTimes(2);
+    });
+
+    it("should repeat a held gesture after the cooldown when release is not required", () => {
+      const gestureRecognizer = new GestureRecognizer(
+        mockOnGestureDetected,
+        vi.fn(),
+        {
+          confidenceThreshold: 0.8,
+          holdDuration: 100,
+          cooldown: 400,
+          requireRelease: false,
+        }
+      );
+
+      // 1 second hold: fires at ~100ms, ~500ms and ~900ms
+      feed(gestureRecognizer, Array(31).fill("point_up"));
+      expect(mockOnGestureDetected).toHaveBeenCalledTimes(3);
+    });
+
+    it("should block other gestures during the cooldown", () => {
+      const gestureRecognizer = new GestureRecognizer(
+        mockOnGestureDetected,
+        vi.fn(),
+        { confidenceThreshold: 0.8, holdDuration: 100, cooldown: 1000 }
+      );
+
+      feed(gestureRecognizer, Array(5).fill("thumbs_up"));
+      feed(gestureRecognizer, Array(10).fill("fist"), 33, 200);
+      expect(mockOnGestureDetected).toHaveBeenCalledTimes(1);
+
+      feed(gestureRecognizer, Array(5).fill("fist"), 33, 1200);
+      expect(mockOnGestureDetected).toHaveBeenLastCalledWith("fist");
+    });
   });
 
   describe("configuration", () => {
     it("should accept custom configuration", () => {
       const customConfig = {
         confidenceThreshold: 0.9,
-        debounceFrames: 10,
+        holdDuration: 400,
         historySize: 15,
         sensitivity: 1.5,
       };
@@ -265,6 +371,72 @@ describe("GestureRecognizer", () => {
       expect(gestureRecognizer).toBeDefined();
     });
 
+    it("should apply configuration updates live", () => {
+      const gestureRecognizer = new GestureRecognizer(
+        mockOnGestureDetected,
+        vi.fn(),
+        { confidenceThreshold: 0.8, holdDuration: 300, historySize: 10 }
+      );
+
+      gestureRecognizer.updateConfig({
+        confidenceThreshold: 0.5,
+        holdDuration: 150,
+        historySize: 6,
+        sensitivity: 1.2,
+      });
+
+      expect(gestureRecognizer.getConfig()).toMatchObject({
+        confidenceThreshold: 0.5,
+        holdDuration: 150,
+        historySize: 6,
+        sensitivity: 1.2,
+      });
+    });
+
+    it("should only reset history affected by the update", () => {
+      const gestureRecognizer = new GestureRecognizer(
+        mockOnGestureDetected,
+        vi.fn(),
+        { historySize: 10 }
+      );
+
+      for (let i = 0; i < 10; i++) {
+        (gestureRecognizer as any).handleGestureDetection("fist", i * 10);
+      }
+
+      gestureRecognizer.updateConfig({ confidenceThreshold: 0.6 });
+      expect(gestureRecognizer.getStats().historyLength).toBe(10);
+
+      gestureRecognizer.updateConfig({ historySize: 4 });
+      expect(gestureRecognizer.getStats().historyLength).toBe(4);
+
+      gestureRecognizer.updateConfig({ cooldown: 100 });
+      expect(gestureRecognizer.getStats().historyLength).toBe(4);
+
+      gestureRecognizer.updateConfig({ holdDuration: 150 });
+      expect(gestureRecognizer.getStats().historyLength).toBe(0);
+
+      (gestureRecognizer as any).handleGestureDetection("fist", 100);
+
+      gestureRecognizer.updateConfig({ sensitivity: 0.5 });
+      expect(gestureRecognizer.getStats().historyLength).toBe(0);
+    });
+
+    it("should fire with the new hold duration after an update", () => {
+      const gestureRecognizer = new GestureRecognizer(
+        mockOnGestureDetected,
+        vi.fn(),
+        { confidenceThreshold: 0.6, holdDuration: 5000 }
+      );
+
+      gestureRecognizer.updateConfig({ holdDuration: 100 });
+      for (let i = 0; i < 6; i++) {
+        (gestureRecognizer as any).handleGestureDetection("thumbs_up", i * 33);
+      }
+
+      expect(mockOnGestureDetected).toHaveBeenCalledWith("thumbs_up");
+    });
+
     it("should provide gesture statistics", () => {
       const stats = gestureRecognizer.getStats();
 
@@ -275,6 +447,48 @@ describe("GestureRecognizer", () => {
     });
   });
 
+  describe("gesture scores", () => {
+    const { frames } = parseLandmarkRecording(basicGestures);
+
+    it("should score every gesture in each frame, the recognized one highest", () => {
+      const onScores = vi.fn();
+      gestureRecognizer.addScoresListener(onScores);
+
+      frames.forEach((frame, i) => {
+        const gesture = gestureRecognizer.processLandmarks(
+          frame.landmarks,
+          i * 33,
+          frame.handedness
+        );
+        const [scores] = onScores.mock.lastCall!;
+
+        expect(scores[0].gesture).toBe(gesture);
+        expect(
+          scores.reduce((sum: number, { score }: any) => sum + score, 0)
+        ).toBeCloseTo(1);
+        expect(gestureRecognizer.getStats().scores).toBe(scores);
+      });
+    });
+
+    it("should rank the near miss of a pose second", () => {
+      const peace = frames.find((frame) => frame.label === "peace_sign")!;
+      gestureRecognizer.processLandmarks(peace.landmarks, 0, peace.handedness);
+
+      const [first, second] = gestureRecognizer.getStats().scores;
+      expect(first.gesture).toBe("peace_sign");
+      expect(second.gesture).toBe("two_fingers");
+      expect(second.score).toBeGreaterThan(0);
+    });
+
+    it("should score no hand as none", () => {
+      gestureRecognizer.processLandmarks(null, 0);
+
+      expect(gestureRecognizer.getStats().scores).toEqual([
+        { gesture: "none", score: 1 },
+      ]);
+    });
+  });
+
   describe("disposal", () => {
     it("should clean up resources on disposal", () => {
       gestureRecognizer.dispose();
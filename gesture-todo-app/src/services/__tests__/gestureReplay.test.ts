@@ -0,0 +1,179 @@
+/** @format */
+
+import { describe, it, expect, vi } from "vitest";
+import {
+  replayRecording,
+  computeClassMetrics,
+  formatReplayReport,
+} from "../gestureReplay";
+import {
+  LandmarkRecorder,
+  LandmarkRecording,
+  LandmarkRecordingError,
+  parseLandmarkRecording,
+} from "../landmarkRecording";
+import { HandednessLabel } from "../landmarkFeatures";
+import basicGestures from "./fixtures/basic-gestures.recording.json";
+
+// Replays never touch MediaPipe, but the recognizer module imports it
+vi.mock("@mediapipe/hands", () => ({
+  Hands: vi.fn(),
+}));
+
+describe("gesture replay", () => {
+  const recording = parseLandmarkRecording(basicGestures);
+
+  it("should classify every labelled frame of the basic recording", () => {
+    const report = replayRecording(recording);
+
+    expect(report.frameCount).toBe(recording.frames.length);
+    expect(report.scoredFrames).toBe(recording.frames.length);
+    expect(report.accuracy, formatReplayReport(report)).toBe(1);
+  });
+
+  it("should report per-gesture precision and recall", () => {
+    const report = replayRecording(recording);
+
+    for (const gesture of [
+      "thumbs_up",
+      "peace_sign",
+      "point_up",
+      "fist",
+      "open_palm",
+      "two_fingers",
+    ] as const) {
+      expect(report.perGesture[gesture].support).toBeGreaterThan(0);
+      expect(report.perGesture[gesture].precision).toBe(1);
+      expect(report.perGesture[gesture].recall).toBe(1);
+    }
+  });
+
+  it("should record debounced detections with frame timestamps", () => {
+    const report = replayRecording(recording, {
+      confidenceThreshold: 0.6,
+      holdDuration: 150,
+    });
+
+    const detected = new Set(report.detections.map((d) => d.gesture));
+    expect(detected.has("thumbs_up")).toBe(true);
+    expect(detected.has("none")).toBe(false);
+    expect(report.errors).toHaveLength(0);
+  });
+
+  // Roll the hand in the image plane and yaw it towards or away from the
+  // camera around (0.5, 0.5); a left hand is the mirror image of a right one
+  const transformRecording = (
+    roll: number,
+    yaw: number,
+    handedness?: HandednessLabel
+  ): LandmarkRecording => ({
+    ...recording,
+    frames: recording.frames.map((frame) => ({
+      ...frame,
+      handedness,
+      landmarks:
+        frame.landmarks?.map(({ x, y, z }) => {
+          const dx = handedness === "Left" ? 0.5 - x : x - 0.5;
+          const dy = y - 0.5;
+          const rx = dx * Math.cos(roll) - dy * Math.sin(roll);
+          const ry = dx * Math.sin(roll) + dy * Math.cos(roll);
+          return {
+            x: 0.5 + rx * Math.cos(yaw) + z * Math.sin(yaw),
+            y: 0.5 + ry,
+            z: z * Math.cos(yaw) - rx * Math.sin(yaw),
+          };
+        }) ?? null,
+    })),
+  });
+
+  it.each([
+    ["tilted", 0.5, 0],
+    ["sideways", Math.PI / 2, 0],
+    ["upside down", Math.PI, 0],
+    ["turned away from the camera", -0.8, 0.9],
+  ])("should classify a %s hand", (_, roll, yaw) => {
+    const report = replayRecording(transformRecording(roll, yaw));
+
+    expect(report.accuracy, formatReplayReport(report)).toBe(1);
+  });
+
+  it("should classify left hands using their handedness", () => {
+    const report = replayRecording(transformRecording(2, 0.4, "Left"));
+
+    expect(report.accuracy, formatReplayReport(report)).toBe(1);
+  });
+
+  it("should compute metrics from confusions", () => {
+    const metrics = computeClassMetrics([
+      { expected: "peace_sign", predicted: "peace_sign" },
+      { expected: "peace_sign", predicted: "two_fingers" },
+      { expected: "two_fingers", predicted: "two_fingers" },
+    ]);
+
+    expect(metrics.peace_sign.precision).toBe(1);
+    expect(metrics.peace_sign.recall).toBe(0.5);
+    expect(metrics.two_fingers.precision).toBe(0.5);
+    expect(metrics.two_fingers.recall).toBe(1);
+    expect(metrics.fist.precision).toBe(0);
+  });
+});
+
+describe("LandmarkRecorder", () => {
+  const hand = Array.from({ length: 21 }, () => ({ x: 0.5, y: 0.5, z: 0 }));
+
+  it("should ignore frames while not recording", () => {
+    const recorder = new LandmarkRecorder();
+    recorder.addFrame(hand, 0);
+    expect(recorder.frameCount).toBe(0);
+  });
+
+  it("should capture timestamped, labelled frames", () => {
+    const recorder = new LandmarkRecorder();
+    recorder.start("fist", 1000);
+    recorder.addFrame(hand, 1000);
+    recorder.setLabel("open_palm");
+    recorder.addResults({ multiHandLandmarks: [] } as any, 1033);
+    recorder.addResults(
+      {
+        multiHandLandmarks: [hand],
+        multiHandedness: [{ index: 0, score: 0.9, label: "Left" }],
+      } as any,
+      1066
+    );
+
+    const recording = recorder.stop("sample");
+
+    expect(recorder.isRecording).toBe(false);
+    expect(recording.name).toBe("sample");
+    expect(recording.frames).toEqual([
+      { timestamp: 0, landmarks: hand, label: "fist" },
+      { timestamp: 33, landmarks: null, label: "open_palm" },
+      {
+        timestamp: 66,
+        landmarks: hand,
+        handedness: "Left",
+        label: "open_palm",
+      },
+    ]);
+  });
+
+  it("should round-trip through JSON", () => {
+    const recorder = new LandmarkRecorder();
+    recorder.start(undefined, 0);
+    recorder.addFrame(hand, 16);
+    const recording = recorder.stop();
+
+    expect(parseLandmarkRecording(JSON.stringify(recording))).toEqual(
+      recording
+    );
+  });
+
+  it("should reject malformed recordings", () => {
+    expect(() => parseLandmarkRecording({ version: 2, frames: [] })).toThrow(
+      LandmarkRecordingError
+    );
+    expect(() =>
+      parseLandmarkRecording({ version: 1, frames: [{ landmarks: null }] })
+    ).toThrow("Frame 0 has no timestamp");
+  });
+});
@@ -0,0 +1,106 @@
+/** @format */
+
+import { describe, it, expect, vi } from "vitest";
+import { NormalizedLandmark } from "@mediapipe/hands";
+import { HandPointer } from "../handPointer";
+
+vi.mock("@mediapipe/hands", () => ({
+  Hands: vi.fn(),
+}));
+
+// A hand with a palm of size 0.2, its index fingertip at (x, y) in the image
+// and the thumb tip either touching it or well away
+const hand = (x: number, y: number, pinching = false): NormalizedLandmark[] => {
+  const landmarks = Array.from({ length: 21 }, () => ({
+    x: 0.5,
+    y: 0.9,
+    z: 0,
+  }));
+  landmarks[9] = { x: 0.5, y: 0.7, z: 0 };
+  landmarks[8] = { x, y, z: 0 };
+  landmarks[4] = pinching ? { x: x + 0.02, y, z: 0 } : { x: x + 0.2, y, z: 0 };
+  return landmarks;
+};
+
+const noTarget = () => null;
+const onKey = () => "key:a";
+
+describe("HandPointer", () => {
+  it("should map the fingertip to mirrored viewport coordinates", () => {
+    const pointer = new HandPointer({ margin: 0.1 });
+
+    const state = pointer.update(hand(0.1, 0.5), 0, noTarget)!;
+    expect(state.x).toBeCloseTo(1);
+    expect(state.y).toBeCloseTo(0.5);
+
+    // Beyond the margin the pointer stays at the edge
+    pointer.update(null, 16, noTarget);
+    expect(pointer.update(hand(0.95, 0.01), 32, noTarget)).toMatchObject({
+      x: 0,
+      y: 0,
+    });
+  });
+
+  it("should smooth the pointer and reset without a hand", () => {
+    const pointer = new HandPointer({ mirror: false, margin: 0 });
+    pointer.update(hand(0.2, 0.5), 0, noTarget);
+
+    const x = pointer.update(hand(0.6, 0.5), 16, noTarget)!.x;
+    expect(x).toBeGreaterThan(0.2);
+    expect(x).toBeLessThan(0.6);
+    expect(pointer.update(null, 32, noTarget)).toBeNull();
+    expect(pointer.update(hand(0.6, 0.5), 48, noTarget)!.x).toBeCloseTo(0.6);
+  });
+
+  it("should press a target once after dwelling on it", () => {
+    const pointer = new HandPointer({ dwellTime: 500 });
+    const presses = [0, 250, 500, 750, 1000].map((time) =>
+      pointer.update(hand(0.5, 0.5), time, onKey)!
+    );
+
+    expect(presses[1].dwellProgress).toBeCloseTo(0.5);
+    expect(presses.map((state) => state.pressedId)).toEqual([
+      null,
+      null,
+      "key:a",
+      null,
+      null,
+    ]);
+  });
+
+  it("should press on closing a pinch, with hysteresis", () => {
+    const pointer = new HandPointer({ dwellTime: 0 });
+    const pressed = (pinching: boolean, time: number) =>
+      pointer.update(hand(0.5, 0.5, pinching), time, onKey)!.pressedId;
+
+    expect(pressed(false, 0)).toBeNull();
+    expect(pressed(true, 16)).toBe("key:a");
+    expect(pressed(true, 32)).toBeNull();
+
+    // Opening slightly is not a release
+    const slightlyOpen = hand(0.5, 0.5);
+    slightlyOpen[4] = { x: 0.58, y: 0.5, z: 0 };
+    expect(pointer.update(slightlyOpen, 48, onKey)!.isPinching).toBe(true);
+
+    expect(pressed(false, 64)).toBeNull();
+    expect(pressed(true, 80)).toBe("key:a");
+  });
+
+  it("should turn a held pinch into a drag", () => {
+    const pointer = new HandPointer({ dragDelay: 300 });
+    const frame = (pinching: boolean, time: number) =>
+      pointer.update(hand(0.5, 0.5, pinching), time, noTarget)!;
+
+    frame(false, 0);
+    expect(frame(true, 100)).toMatchObject({
+      pinchStarted: true,
+      isDragging: false,
+    });
+    expect(frame(true, 300).isDragging).toBe(false);
+    expect(frame(true, 400).isDragging).toBe(true);
+    expect(frame(false, 500)).toMatchObject({
+      pinchEnded: true,
+      isDragging: false,
+    });
+  });
+});
@@ -0,0 +1,175 @@
+/** @format */
+
+import { describe, it, expect, vi } from "vitest";
+import { NormalizedLandmark } from "@mediapipe/hands";
+import { HandTracker } from "../handTracker";
+import { GestureRecognizer } from "../gestureRecognizer";
+import { HandLandmarks, HandednessLabel } from "../landmarkFeatures";
+import { parseLandmarkRecording } from "../landmarkRecording";
+import basicGestures from "./fixtures/basic-gestures.recording.json";
+
+vi.mock("@mediapipe/hands", () => ({
+  Hands: vi.fn(),
+}));
+
+const recording = parseLandmarkRecording(basicGestures);
+
+const frameLabelled = (label: string) =>
+  recording.frames.find((frame) => frame.label === label && frame.landmarks)!
+    .landmarks as NormalizedLandmark[];
+
+// Place a recorded hand at (x, y) in the image with the given size factor
+const handAt = (
+  landmarks: NormalizedLandmark[],
+  x: number,
+  y = 0.5,
+  handedness?: HandednessLabel,
+  scale = 1
+): HandLandmarks => {
+  const wrist = landmarks[0];
+  return {
+    landmarks: landmarks.map((p) => ({
+      x: x + (p.x - wrist.x) * scale,
+      y: y + (p.y - wrist.y) * scale,
+      z: p.z * scale,
+    })),
+    handedness,
+  };
+};
+
+describe("HandTracker", () => {
+  const palm = frameLabelled("open_palm");
+
+  it("should keep a hand's identity while it moves", () => {
+    const tracker = new HandTracker();
+
+    const [first] = tracker.update([handAt(palm, 0.3)], 0);
+    const [moved] = tracker.update([handAt(palm, 0.35)], 33);
+
+    expect(moved.id).toBe(first.id);
+  });
+
+  it("should not let another hand take over control", () => {
+    const tracker = new HandTracker();
+    tracker.update([handAt(palm, 0.3, 0.5, "Right")], 0);
+
+    // A second person's hand enters first in MediaPipe's order
+    const controlling = tracker.update(
+      [handAt(palm, 0.8, 0.5, "Right"), handAt(palm, 0.31, 0.5, "Right")],
+      33
+    );
+
+    expect(controlling).toHaveLength(1);
+    expect(controlling[0].landmarks[0].x).toBeCloseTo(0.31);
+  });
+
+  it("should hand over control once the controlling hand is gone", () => {
+    const tracker = new HandTracker({ lostTimeout: 500 });
+    tracker.update([handAt(palm, 0.3)], 0);
+
+    expect(tracker.update([handAt(palm, 0.8)], 300)).toEqual([]);
+    expect(tracker.update([handAt(palm, 0.8)], 600)).toHaveLength(1);
+  });
+
+  it("should accept a second hand of the same person in two-hand mode", () => {
+    const tracker = new HandTracker({ maxHands: 2 });
+    tracker.update([handAt(palm, 0.3, 0.5, "Right")], 0);
+
+    // Another right hand, and a left hand at a very different distance
+    expect(
+      tracker.update(
+        [
+          handAt(palm, 0.3, 0.5, "Right"),
+          handAt(palm, 0.7, 0.5, "Right"),
+          handAt(palm, 0.6, 0.5, "Left", 0.4),
+        ],
+        33
+      )
+    ).toHaveLength(1);
+
+    const pair = tracker.update(
+      [handAt(palm, 0.3, 0.5, "Right"), handAt(palm, 0.7, 0.5, "Left")],
+      66
+    );
+    expect(pair.map((hand) => hand.handedness)).toEqual(["Right", "Left"]);
+  });
+});
+
+describe("GestureRecognizer two-hand mode", () => {
+  const palm = frameLabelled("open_palm");
+  const fist = frameLabelled("fist");
+  const point = frameLabelled("point_up");
+
+  const holdHands = (
+    recognizer: GestureRecognizer,
+    hands: HandLandmarks[],
+    frames = 10
+  ) => {
+    let gesture = recognizer.processHands(hands, 0);
+    for (let i = 1; i < frames; i++) {
+      gesture = recognizer.processHands(hands, i * 33);
+    }
+    return gesture;
+  };
+
+  it("should recognize combined poses of both hands", () => {
+    const onGesture = vi.fn();
+    const recognizer = new GestureRecognizer(onGesture, vi.fn(), {
+      twoHandMode: true,
+      holdDuration: 100,
+    });
+
+    expect(
+      holdHands(recognizer, [
+        handAt(palm, 0.3, 0.7, "Left"),
+        handAt(palm, 0.7, 0.7, "Right"),
+      ])
+    ).toBe("both_palms_open");
+    expect(onGesture).toHaveBeenCalledWith("both_palms_open");
+  });
+
+  it("should tell the left and right hand apart", () => {
+    const recognizer = new GestureRecognizer(vi.fn(), vi.fn(), {
+      twoHandMode: true,
+    });
+
+    expect(
+      holdHands(recognizer, [
+        handAt(point, 0.7, 0.7, "Right"),
+        handAt(fist, 0.3, 0.7, "Left"),
+      ])
+    ).toBe("fist_and_point");
+  });
+
+  it("should only use the controlling hand outside two-hand mode", () => {
+    const recognizer = new GestureRecognizer(vi.fn(), vi.fn());
+
+    recognizer.processHands([handAt(fist, 0.3, 0.7, "Right")], 0);
+    expect(
+      recognizer.processHands(
+        [handAt(palm, 0.7, 0.7, "Left"), handAt(fist, 0.3, 0.7, "Right")],
+        33
+      )
+    ).toBe("fist");
+  });
+
+  it("should report the controlling hand to landmark listeners", () => {
+    const recognizer = new GestureRecognizer(vi.fn(), vi.fn());
+    const listener = vi.fn();
+    const removeListener = recognizer.addLandmarkListener(listener);
+    const controlling = handAt(fist, 0.3, 0.7, "Right");
+
+    recognizer.processHands([controlling], 0);
+    recognizer.processHands([handAt(palm, 0.7, 0.7, "Left"), controlling], 33);
+    recognizer.processHands([], 66);
+    expect(listener.mock.calls).toEqual([
+      [controlling.landmarks, 0],
+      [controlling.landmarks, 33],
+      [null, 66],
+    ]);
+
+    removeListener();
+    recognizer.processHands([controlling], 99);
+    expect(listener).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,143 @@
+/** @format */
+
+import { describe, it, expect, vi } from "vitest";
+import { Hands, NormalizedLandmark, Results } from "@mediapipe/hands";
+import { LandmarkStream } from "../landmarkStream";
+import { GestureRecognizer } from "../gestureRecognizer";
+import { parseLandmarkRecording } from "../landmarkRecording";
+import basicGestures from "./fixtures/basic-gestures.recording.json";
+
+// Hands that sees `handLandmarks` in every frame
+let handLandmarks: NormalizedLandmark[];
+
+vi.mock("@mediapipe/hands", () => ({
+  Hands: vi.fn().mockImplementation(() => {
+    let onResults: (results: Results) => void = () => {};
+    return {
+      initialize: vi.fn().mockResolvedValue(undefined),
+      setOptions: vi.fn(),
+      onResults: (callback: typeof onResults) => {
+        onResults = callback;
+      },
+      send: vi.fn(async () =>
+        onResults({ multiHandLandmarks: [handLandmarks] } as Results)
+      ),
+      close: vi.fn(),
+    };
+  }),
+}));
+
+const video = { readyState: 4 } as HTMLVideoElement;
+
+const startRecognizer = async (onGesture = vi.fn()) => {
+  const recognizer = new GestureRecognizer(onGesture, vi.fn(), {
+    holdDuration: 0,
+    assetIntegrity: "off",
+  });
+  await recognizer.initialize(video);
+  return recognizer;
+};
+
+describe("LandmarkStream", () => {
+  const { frames } = parseLandmarkRecording(basicGestures);
+  handLandmarks = frames.find((f) => f.label === "thumbs_up")!.landmarks!;
+
+  it("should share each detected frame with the recognizer and all subscribers", async () => {
+    const onGesture = vi.fn();
+    const recognizer = await startRecognizer(onGesture);
+    const stream = new LandmarkStream();
+    stream.connect(recognizer);
+    const preview = vi.fn();
+    const trainer = vi.fn();
+    stream.addHandsListener(preview);
+    stream.addHandsListener(trainer);
+
+    for (let i = 0; i < 3; i++) {
+      await recognizer.processFrame(video);
+    }
+
+    // One MediaPipe session and one inference per frame for everyone
+    expect(Hands).toHaveBeenCalledTimes(1);
+    const hands = vi.mocked(Hands).mock.results[0].value;
+    expect(hands.send).toHaveBeenCalledTimes(3);
+    expect(preview).toHaveBeenCalledTimes(3);
+    expect(trainer).toHaveBeenCalledTimes(3);
+    const hand = expect.objectContaining({ landmarks: handLandmarks });
+    expect(preview).toHaveBeenLastCalledWith([hand], expect.any(Number), hand);
+    expect(onGesture).toHaveBeenCalledWith("thumbs_up");
+    expect(recognizer.getStats().frameCount).toBe(3);
+    expect(stream.getStats()).toEqual({
+      frameCount: 3,
+      inferenceCount: 3,
+      averageInferenceTime: expect.any(Number),
+      subscriberCount: 2,
+    });
+    expect(stream.getHands()[0].landmarks).toBe(handLandmarks);
+
+    recognizer.dispose();
+  });
+
+  it("should run one inference per frame for the preview and the classifier", async () => {
+    const onGesture = vi.fn();
+    const recognizer = await startRecognizer(onGesture);
+    const stream = new LandmarkStream();
+    // Frames the recognizer ran on before connecting are not the stream's
+    await recognizer.processFrame(video);
+    stream.connect(recognizer);
+    const preview = vi.fn();
+    stream.addHandsListener(preview);
+
+    for (let i = 0; i < 5; i++) {
+      await recognizer.processFrame(video);
+    }
+
+    const hands = vi.mocked(Hands).mock.results.at(-1)!.value;
+    expect(hands.send).toHaveBeenCalledTimes(6);
+    expect(preview).toHaveBeenCalledTimes(5);
+    expect(recognizer.getStats().frameCount).toBe(6);
+    expect(onGesture).toHaveBeenCalledWith("thumbs_up");
+    const stats = stream.getStats();
+    expect(stats.inferenceCount).toBe(5);
+    expect(stats.inferenceCount).toBe(stats.frameCount);
+    expect(stats.averageInferenceTime).toBeGreaterThanOrEqual(0);
+
+    // Disconnecting keeps the count, and a new recognizer adds to it
+    recognizer.dispose();
+    const next = await startRecognizer();
+    stream.connect(next);
+    await next.processFrame(video);
+    expect(stream.getStats().inferenceCount).toBe(6);
+
+    next.dispose();
+  });
+
+  it("should keep subscribers across recognizers", async () => {
+    const stream = new LandmarkStream();
+    const listener = vi.fn();
+    stream.addHandsListener(listener);
+
+    const first = await startRecognizer();
+    const disconnectFirst = stream.connect(first);
+    await first.processFrame(video);
+
+    // A retry replaces the recognizer
+    const second = await startRecognizer();
+    const disconnect = stream.connect(second);
+    await first.processFrame(video);
+    expect(listener).toHaveBeenCalledTimes(1);
+    await second.processFrame(video);
+    expect(listener).toHaveBeenCalledTimes(2);
+
+    // Disconnecting a replaced recognizer changes nothing
+    disconnectFirst();
+    expect(stream.getHands()).toHaveLength(1);
+
+    disconnect();
+    expect(listener).toHaveBeenLastCalledWith([], expect.any(Number), null);
+    expect(stream.getHands()).toEqual([]);
+    expect(stream.getStats().frameCount).toBe(2);
+
+    first.dispose();
+    second.dispose();
+  });
+});
@@ -0,0 +1,172 @@
+/** @format */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  BundledModelAssetResolver,
+  CdnModelAssetResolver,
+  TauriModelAssetResolver,
+  MEDIAPIPE_HANDS_ASSETS,
+  MEDIAPIPE_HANDS_VERSION,
+  createDefaultModelAssetResolver,
+  createLocateFile,
+  verifyModelAssets,
+} from "../modelAssets";
+import { MediaPipeInitializationError } from "../gestureErrors";
+
+const tauriMocks = vi.hoisted(() => ({
+  isTauri: vi.fn(() => false),
+  convertFileSrc: vi.fn((path: string) => `asset://localhost/${path}`),
+  resolveResource: vi.fn(async (path: string) => `/opt/app/${path}`),
+}));
+
+vi.mock("@tauri-apps/api/core", () => ({
+  isTauri: tauriMocks.isTauri,
+  convertFileSrc: tauriMocks.convertFileSrc,
+}));
+
+vi.mock("@tauri-apps/api/path", () => ({
+  resolveResource: tauriMocks.resolveResource,
+}));
+
+const requiredCount = MEDIAPIPE_HANDS_ASSETS.filter((a) => a.required).length;
+
+describe("modelAssets", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    tauriMocks.isTauri.mockReturnValue(false);
+  });
+
+  describe("resolvers", () => {
+    it("should resolve bundled assets relative to the base path", async () => {
+      const resolver = new BundledModelAssetResolver("/app");
+      await expect(resolver.getBaseUrl()).resolves.toBe("/app/mediapipe/hands/");
+    });
+
+    it("should pin the CDN resolver to the manifest version", async () => {
+      const resolver = new CdnModelAssetResolver();
+      await expect(resolver.getBaseUrl()).resolves.toContain(
+        `@mediapipe/hands@${MEDIAPIPE_HANDS_VERSION}/`
+      );
+    });
+
+    it("should resolve Tauri resources through the asset protocol", async () => {
+      const resolver = new TauriModelAssetResolver();
+      await expect(resolver.getBaseUrl()).resolves.toBe(
+        "asset://localhost//opt/app/mediapipe/hands/"
+      );
+    });
+
+    it("should wrap Tauri resolution failures", async () => {
+      tauriMocks.resolveResource.mockRejectedValueOnce(new Error("no app"));
+      const resolver = new TauriModelAssetResolver();
+      await expect(resolver.getBaseUrl()).rejects.toBeInstanceOf(
+        MediaPipeInitializationError
+      );
+    });
+
+    it("should pick the Tauri resolver inside the desktop app", () => {
+      expect(createDefaultModelAssetResolver().source).toBe("bundled");
+      tauriMocks.isTauri.mockReturnValue(true);
+      expect(createDefaultModelAssetResolver().source).toBe("tauri");
+    });
+
+    it("should build a synchronous locateFile callback", async () => {
+      const locateFile = await createLocateFile(
+        new BundledModelAssetResolver("/")
+      );
+      expect(locateFile("hands.binarypb")).toBe(
+        "/mediapipe/hands/hands.binarypb"
+      );
+    });
+  });
+
+  describe("verifyModelAssets", () => {
+    const resolver = new BundledModelAssetResolver("/");
+
+    it("should skip verification when disabled", async () => {
+      const fetchFn = vi.fn();
+      await verifyModelAssets(resolver, "off", fetchFn);
+      expect(fetchFn).not.toHaveBeenCalled();
+    });
+
+    it("should check every required asset with HEAD in presence mode", async () => {
+      const fetchFn = vi.fn().mockResolvedValue(new Response(null));
+      await verifyModelAssets(resolver, "presence", fetchFn);
+
+      expect(fetchFn).toHaveBeenCalledTimes(requiredCount);
+      expect(fetchFn).toHaveBeenCalledWith(
+        "/mediapipe/hands/hands.binarypb",
+        { method: "HEAD" }
+      );
+    });
+
+    it("should report missing assets", async () => {
+      const fetchFn = vi
+        .fn()
+        .mockResolvedValue(new Response(null, { status: 404 }));
+
+      await expect(
+        verifyModelAssets(resolver, "presence", fetchFn)
+      ).rejects.toThrow(/is missing from bundled/);
+    });
+
+    it("should report unreachable assets", async () => {
+      const fetchFn = vi.fn().mockRejectedValue(new TypeError("offline"));
+
+      await expect(
+        verifyModelAssets(resolver, "presence", fetchFn)
+      ).rejects.toBeInstanceOf(MediaPipeInitializationError);
+    });
+
+    it("should reject assets whose hash does not match", async () => {
+      const fetchFn = vi
+        .fn()
+        .mockImplementation(async () => new Response("tampered"));
+
+      await expect(
+        verifyModelAssets(resolver, "sha256", fetchFn)
+      ).rejects.toThrow(/failed integrity check/);
+    });
+
+    it("should check hashes by default", async () => {
+      const fetchFn = vi
+        .fn()
+        .mockImplementation(async () => new Response("tampered"));
+
+      await expect(
+        verifyModelAssets(resolver, undefined, fetchFn)
+      ).rejects.toThrow(/failed integrity check/);
+      expect(fetchFn).toHaveBeenCalledWith(expect.any(String), {
+        method: "GET",
+      });
+    });
+
+    it("should hash each asset once per session", async () => {
+      const cdn = new CdnModelAssetResolver("https://cdn.example/hands/");
+      // Each asset's body is its URL, which hashes to the manifest digest
+      const fetchFn = vi.fn(async (url: string) => new Response(url));
+      const digest = vi
+        .spyOn(crypto.subtle, "digest")
+        .mockImplementation(async (_algorithm, data) => {
+          const url = new TextDecoder().decode(data as Uint8Array);
+          const asset = MEDIAPIPE_HANDS_ASSETS.find((a) =>
+            url.endsWith(a.file)
+          )!;
+          return new Uint8Array(
+            asset.sha256.match(/../g)!.map((byte) => parseInt(byte, 16))
+          ).buffer;
+        });
+
+      await verifyModelAssets(cdn, "sha256", fetchFn);
+      expect(fetchFn).toHaveBeenCalledTimes(requiredCount);
+      expect(fetchFn).toHaveBeenCalledWith(
+        "https://cdn.example/hands/hands.binarypb",
+        { method: "GET" }
+      );
+
+      await verifyModelAssets(cdn, "sha256", fetchFn);
+      expect(fetchFn).toHaveBeenCalledTimes(requiredCount);
+      digest.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,146 @@
+/** @format */
+
+import { describe, it, expect, vi } from "vitest";
+import { MotionTracker, MotionPoint } from "../motionTracker";
+import { GestureRecognizer } from "../gestureRecognizer";
+import { parseLandmarkRecording } from "../landmarkRecording";
+import basicGestures from "./fixtures/basic-gestures.recording.json";
+
+vi.mock("@mediapipe/hands", () => ({
+  Hands: vi.fn(),
+}));
+
+const FRAME = 33;
+
+// Feed a path (one point per frame) as both wrist and fingertip
+const feed = (tracker: MotionTracker, path: MotionPoint[], start = 0) =>
+  path
+    .map((point, i) =>
+      tracker.push({ wrist: point, indexTip: point }, start + i * FRAME)
+    )
+    .filter(Boolean);
+
+const line = (from: MotionPoint, to: MotionPoint, frames: number) =>
+  Array.from({ length: frames + 1 }, (_, i) => ({
+    x: from.x + ((to.x - from.x) * i) / frames,
+    y: from.y + ((to.y - from.y) * i) / frames,
+  }));
+
+// Circle around (0.5, 0.5); positive turns are clockwise on screen
+const circle = (radius: number, turns: number, frames: number) =>
+  Array.from({ length: frames + 1 }, (_, i) => {
+    const angle = (2 * Math.PI * turns * i) / frames;
+    return {
+      x: 0.5 + radius * Math.cos(angle),
+      y: 0.5 + radius * Math.sin(angle),
+    };
+  });
+
+describe("MotionTracker", () => {
+  it.each([
+    ["swipe_left", { x: 0.8, y: 0.5 }, { x: 0.3, y: 0.55 }],
+    ["swipe_right", { x: 0.2, y: 0.5 }, { x: 0.7, y: 0.45 }],
+    ["swipe_up", { x: 0.5, y: 0.8 }, { x: 0.52, y: 0.3 }],
+    ["swipe_down", { x: 0.5, y: 0.2 }, { x: 0.5, y: 0.7 }],
+  ])("should recognize %s", (gesture, from, to) => {
+    expect(feed(new MotionTracker(), line(from, to, 8))).toEqual([gesture]);
+  });
+
+  it("should ignore slow, short or diagonal movements", () => {
+    // 0.5 over 2 seconds
+    expect(
+      feed(
+        new MotionTracker(),
+        line({ x: 0.2, y: 0.5 }, { x: 0.7, y: 0.5 }, 60)
+      )
+    ).toEqual([]);
+    // Fast but only 0.1
+    expect(
+      feed(new MotionTracker(), line({ x: 0.4, y: 0.5 }, { x: 0.5, y: 0.5 }, 3))
+    ).toEqual([]);
+    expect(
+      feed(new MotionTracker(), line({ x: 0.2, y: 0.2 }, { x: 0.6, y: 0.6 }, 8))
+    ).toEqual([]);
+  });
+
+  it("should recognize circles and their direction", () => {
+    expect(feed(new MotionTracker(), circle(0.08, 1, 30))).toEqual([
+      "circle_cw",
+    ]);
+    expect(feed(new MotionTracker(), circle(0.08, -1, 30))).toEqual([
+      "circle_ccw",
+    ]);
+  });
+
+  it("should ignore circles that are too small or incomplete", () => {
+    expect(feed(new MotionTracker(), circle(0.01, 1, 30))).toEqual([]);
+    expect(feed(new MotionTracker(), circle(0.08, 0.6, 30))).toEqual([]);
+  });
+
+  it("should apply its own velocity and distance thresholds", () => {
+    const tracker = new MotionTracker({
+      swipeMinDistance: 0.05,
+      swipeMinVelocity: 0.3,
+    });
+
+    expect(
+      feed(tracker, line({ x: 0.4, y: 0.5 }, { x: 0.5, y: 0.5 }, 3))
+    ).toEqual(["swipe_right"]);
+    expect(tracker.getConfig().swipeMinDistance).toBe(0.05);
+  });
+
+  it("should wait for the cooldown between motions", () => {
+    const tracker = new MotionTracker({ cooldown: 1000 });
+    const swipe = line({ x: 0.8, y: 0.5 }, { x: 0.3, y: 0.5 }, 8);
+    const back = line({ x: 0.3, y: 0.5 }, { x: 0.8, y: 0.5 }, 8);
+
+    expect(feed(tracker, swipe)).toEqual(["swipe_left"]);
+    expect(feed(tracker, back, 300)).toEqual([]);
+    expect(feed(tracker, swipe, 1400)).toEqual(["swipe_left"]);
+  });
+
+  it("should drop the trajectory when the hand is lost", () => {
+    const tracker = new MotionTracker();
+    // Neither half travels far enough on its own
+    const swipe = line({ x: 0.7, y: 0.5 }, { x: 0.3, y: 0.5 }, 8);
+
+    feed(tracker, swipe.slice(0, 4));
+    tracker.push(null, 4 * FRAME);
+    expect(feed(tracker, swipe.slice(4), 5 * FRAME)).toEqual([]);
+  });
+
+  it("should not recognize anything when disabled", () => {
+    const tracker = new MotionTracker({ enabled: false });
+
+    expect(
+      feed(tracker, line({ x: 0.8, y: 0.5 }, { x: 0.3, y: 0.5 }, 8))
+    ).toEqual([]);
+  });
+});
+
+describe("GestureRecognizer motion gestures", () => {
+  const recording = parseLandmarkRecording(basicGestures);
+  const palm = recording.frames.find(
+    (f) => f.label === "open_palm"
+  )!.landmarks!;
+
+  it("should report swipes and not the pose held while swiping", () => {
+    const onGesture = vi.fn();
+    const recognizer = new GestureRecognizer(onGesture, vi.fn(), {
+      holdDuration: 100,
+    });
+
+    // Move an open palm 0.4 to the left over 300ms
+    for (let i = 0; i <= 9; i++) {
+      const shift = -0.04 * i;
+      recognizer.processLandmarks(
+        palm.map(({ x, y, z }) => ({ x: x + shift, y, z })),
+        i * FRAME
+      );
+    }
+
+    expect(onGesture.mock.calls.map(([gesture]) => gesture)).toEqual([
+      "swipe_left",
+    ]);
+  });
+});
@@ -0,0 +1,45 @@
+/** @format */
+
+import { describe, it, expect } from "vitest";
+import { OneEuroFilter } from "../oneEuroFilter";
+
+// Sample a signal at 60 fps
+const run = (filter: OneEuroFilter, signal: (time: number) => number) =>
+  Array.from({ length: 60 }, (_, frame) => {
+    const time = (frame * 1000) / 60;
+    return filter.filter(signal(time), time);
+  });
+
+describe("OneEuroFilter", () => {
+  it("should pass the first sample through and settle on a constant", () => {
+    const filter = new OneEuroFilter();
+    expect(filter.filter(0.3, 0)).toBe(0.3);
+    expect(run(filter, () => 0.3).every((value) => value === 0.3)).toBe(true);
+  });
+
+  it("should damp jitter around a still position", () => {
+    const jitter = (time: number) =>
+      0.5 + (Math.round(time / 16) % 2 ? 0.01 : -0.01);
+    const output = run(new OneEuroFilter(), jitter).slice(30);
+
+    const spread = Math.max(...output) - Math.min(...output);
+    expect(spread).toBeLessThan(0.005);
+  });
+
+  it("should lag less on fast movement with a higher beta", () => {
+    const ramp = (time: number) => time / 1000;
+    const lag = (beta: number) => {
+      const output = run(new OneEuroFilter({ beta }), ramp);
+      return ramp((59 * 1000) / 60) - output[59];
+    };
+
+    expect(lag(10)).toBeLessThan(lag(0) / 2);
+  });
+
+  it("should start over after a reset", () => {
+    const filter = new OneEuroFilter();
+    filter.filter(0, 0);
+    filter.reset();
+    expect(filter.filter(1, 16)).toBe(1);
+  });
+});
@@ -0,0 +1,93 @@
+/** @format */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { PointerState } from "../handPointer";
+import { POINTER_DRAGGABLE_ATTRIBUTE, PointerDriver } from "../pointerDriver";
+
+const state = (overrides: Partial<PointerState> = {}): PointerState => ({
+  x: 0.5,
+  y: 0.5,
+  isPinching: false,
+  pinchStarted: false,
+  pinchEnded: false,
+  isDragging: false,
+  targetId: null,
+  dwellProgress: 0,
+  pressedId: null,
+  ...overrides,
+});
+
+describe("PointerDriver", () => {
+  let element: HTMLElement;
+
+  beforeEach(() => {
+    element = document.createElement("button");
+    document.body.appendChild(element);
+    document.elementFromPoint = vi.fn(() => element);
+    window.scrollBy = vi.fn();
+  });
+
+  afterEach(() => {
+    element.remove();
+  });
+
+  it("should click and focus what is under the cursor on a short pinch", () => {
+    const onClick = vi.fn();
+    element.addEventListener("click", onClick);
+    const driver = new PointerDriver();
+
+    driver.update(state({ isPinching: true, pinchStarted: true }));
+    expect(onClick).not.toHaveBeenCalled();
+
+    driver.update(state({ pinchEnded: true }));
+    expect(onClick).toHaveBeenCalledTimes(1);
+    expect(document.activeElement).toBe(element);
+    expect(document.elementFromPoint).toHaveBeenCalledWith(
+      window.innerWidth / 2,
+      window.innerHeight / 2
+    );
+  });
+
+  it("should send a held pinch as pointer events to where it started", () => {
+    element.setAttribute(POINTER_DRAGGABLE_ATTRIBUTE, "");
+    const events: string[] = [];
+    ["pointerdown", "pointermove", "pointerup", "click"].forEach((type) =>
+      element.addEventListener(type, (event) => {
+        events.push(type);
+        expect((event as MouseEvent).clientY).toBeGreaterThan(0);
+      })
+    );
+    const driver = new PointerDriver();
+
+    driver.update(state({ isPinching: true, isDragging: true }));
+    driver.update(state({ isPinching: true, isDragging: true, y: 0.6 }));
+    driver.update(state({ pinchEnded: true, y: 0.6 }));
+
+    expect(events).toEqual(["pointerdown", "pointermove", "pointerup"]);
+    expect(window.scrollBy).not.toHaveBeenCalled();
+  });
+
+  it("should scroll the page when dragging elsewhere", () => {
+    const driver = new PointerDriver();
+
+    driver.update(state({ isDragging: true, y: 0.5 }));
+    driver.update(state({ isDragging: true, y: 0.4 }));
+    const [[, dy]] = vi.mocked(window.scrollBy).mock.calls as number[][];
+    expect(dy).toBeCloseTo(window.innerHeight * 0.1);
+  });
+
+  it("should cancel a drag when the hand is lost", () => {
+    const onCancel = vi.fn();
+    const onUp = vi.fn();
+    element.addEventListener("pointercancel", onCancel);
+    element.addEventListener("pointerup", onUp);
+    const driver = new PointerDriver();
+
+    driver.update(state({ isDragging: true }));
+    driver.update(null);
+    driver.update(state({ pinchEnded: true }));
+
+    expect(onCancel).toHaveBeenCalledTimes(1);
+    expect(onUp).not.toHaveBeenCalled();
+  });
+});
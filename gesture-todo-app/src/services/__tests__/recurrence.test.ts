@@ -0,0 +1,190 @@
+/** @format */
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import {
+  RecurrenceError,
+  createRecurrence,
+  describeRecurrence,
+  formatRecurrenceRule,
+  getNextDueDate,
+  getNextOccurrence,
+  getRecurrencePreset,
+  parseRecurrenceRule,
+} from "../recurrence";
+import { RecurrenceRule } from "../../types";
+
+// Successive occurrences after `from`
+const occurrences = (rule: RecurrenceRule, from: Date, count: number) => {
+  const dates: Date[] = [];
+  let date = from;
+  for (let i = 0; i < count; i++) {
+    date = getNextOccurrence(rule, date);
+    dates.push(date);
+  }
+  return dates;
+};
+
+describe("recurrence", () => {
+  it("should repeat daily and on weekdays", () => {
+    const friday = new Date(2024, 4, 10, 9, 30);
+
+    expect(getNextOccurrence(createRecurrence("daily"), friday)).toEqual(
+      new Date(2024, 4, 11, 9, 30)
+    );
+    expect(
+      occurrences(createRecurrence("weekdays"), friday, 2).map((d) =>
+        d.getDate()
+      )
+    ).toEqual([13, 14]);
+  });
+
+  it("should repeat on given days every few weeks", () => {
+    // Monday and Friday every other week, from Wednesday 2024-05-08
+    const rule = parseRecurrenceRule("FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,FR");
+    const dates = occurrences(rule, new Date(2024, 4, 8), 4);
+
+    expect(dates).toEqual([
+      new Date(2024, 4, 10),
+      new Date(2024, 4, 20),
+      new Date(2024, 4, 24),
+      new Date(2024, 5, 3),
+    ]);
+  });
+
+  it("should fall back to the last day of short months", () => {
+    const rule = createRecurrence("monthly", new Date(2024, 0, 31));
+    const dates = occurrences(rule, new Date(2024, 0, 31), 4);
+
+    // Short months do not pull later occurrences off the 31st
+    expect(dates).toEqual([
+      new Date(2024, 1, 29),
+      new Date(2024, 2, 31),
+      new Date(2024, 3, 30),
+      new Date(2024, 4, 31),
+    ]);
+    expect(getNextOccurrence(rule, new Date(2023, 0, 31)).getDate()).toBe(28);
+    expect(
+      getNextOccurrence(
+        parseRecurrenceRule("FREQ=MONTHLY;BYMONTHDAY=-1"),
+        new Date(2024, 1, 29)
+      )
+    ).toEqual(new Date(2024, 2, 31));
+    // Feb 29 falls on Feb 28 in common years
+    expect(
+      getNextOccurrence(
+        { frequency: "yearly", interval: 1 },
+        new Date(2024, 1, 29)
+      )
+    ).toEqual(new Date(2025, 1, 28));
+  });
+
+  it("should find a day still ahead in the current month", () => {
+    const rule = parseRecurrenceRule("FREQ=MONTHLY;BYMONTHDAY=15");
+    expect(getNextOccurrence(rule, new Date(2024, 4, 10))).toEqual(
+      new Date(2024, 4, 15)
+    );
+  });
+
+  describe("across daylight saving changes", () => {
+    const timeZone = process.env.TZ;
+
+    beforeAll(() => {
+      process.env.TZ = "America/New_York";
+    });
+
+    afterAll(() => {
+      process.env.TZ = timeZone;
+    });
+
+    it("should keep the time of day", () => {
+      // Clocks go forward on 2024-03-10 and back on 2024-11-03
+      const spring = getNextOccurrence(
+        createRecurrence("daily"),
+        new Date(2024, 2, 9, 9, 30)
+      );
+      const fall = getNextOccurrence(
+        createRecurrence("weekly", new Date(2024, 9, 28)),
+        new Date(2024, 9, 28, 23, 0)
+      );
+
+      expect(spring.getTime() - new Date(2024, 2, 9, 9, 30).getTime()).toBe(
+        23 * 60 * 60 * 1000
+      );
+      expect([
+        spring.getDate(),
+        spring.getHours(),
+        spring.getMinutes(),
+      ]).toEqual([10, 9, 30]);
+      expect([fall.getMonth(), fall.getDate(), fall.getHours()]).toEqual([
+        10, 4, 23,
+      ]);
+    });
+
+    it("should count whole days for every-other-week rules", () => {
+      const rule = parseRecurrenceRule("FREQ=WEEKLY;INTERVAL=2;BYDAY=SU");
+      // Two weeks on from Sunday 2024-03-03, across the spring change
+      expect(getNextOccurrence(rule, new Date(2024, 2, 3))).toEqual(
+        new Date(2024, 2, 17)
+      );
+      // Sunday the 10th starts an odd week, so it is skipped
+      expect(getNextOccurrence(rule, new Date(2024, 2, 9))).toEqual(
+        new Date(2024, 2, 17)
+      );
+    });
+  });
+
+  it("should skip occurrences missed while overdue", () => {
+    const now = new Date(2024, 4, 20, 12, 0);
+    const rule = createRecurrence("daily");
+
+    expect(
+      getNextDueDate(
+        { dueDate: new Date(2024, 4, 1, 8, 0), recurrence: rule },
+        now
+      )
+    ).toEqual(new Date(2024, 4, 20, 8, 0));
+    // Without a due date the task recurs from today
+    expect(getNextDueDate({ recurrence: rule }, now)).toEqual(
+      new Date(2024, 4, 21)
+    );
+    expect(getNextDueDate({ dueDate: now }, now)).toBe(null);
+  });
+
+  it("should round-trip rules through RRULE text", () => {
+    const rule = parseRecurrenceRule(
+      "RRULE:freq=weekly;byday=fr,mo;interval=2"
+    );
+
+    expect(rule).toEqual({
+      frequency: "weekly",
+      interval: 2,
+      weekdays: [5, 1],
+    });
+    expect(formatRecurrenceRule(rule)).toBe(
+      "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,FR"
+    );
+    expect(describeRecurrence(rule)).toBe("Every 2 weeks on Mon, Fri");
+    expect(getRecurrencePreset(rule)).toBe("custom");
+    expect(getRecurrencePreset(createRecurrence("weekdays"))).toBe("weekdays");
+    expect(describeRecurrence(createRecurrence("weekdays"))).toBe(
+      "Every weekday"
+    );
+  });
+
+  it("should reject rules it cannot follow", () => {
+    expect(() => parseRecurrenceRule("")).toThrow(RecurrenceError);
+    expect(() => parseRecurrenceRule("FREQ=HOURLY")).toThrow(RecurrenceError);
+    expect(() => parseRecurrenceRule("FREQ=DAILY;INTERVAL=0")).toThrow(
+      "Invalid interval: 0"
+    );
+    expect(() => parseRecurrenceRule("FREQ=DAILY;BYDAY=MO")).toThrow(
+      "BYDAY needs FREQ=WEEKLY"
+    );
+    expect(() => parseRecurrenceRule("FREQ=WEEKLY;BYDAY=XX")).toThrow(
+      "Invalid day: XX"
+    );
+    expect(() => parseRecurrenceRule("FREQ=DAILY;COUNT=3")).toThrow(
+      "Unsupported recurrence rule part: COUNT"
+    );
+  });
+});
@@ -0,0 +1,135 @@
+/** @format */
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  DictationHandlers,
+  WebSpeechRecognitionProvider,
+  appendTranscript,
+} from "../speechRecognition";
+
+// Stand-in for the browser SpeechRecognition object
+class FakeRecognition {
+  static last: FakeRecognition | null = null;
+  lang = "";
+  continuous = false;
+  interimResults = false;
+  onresult: ((event: unknown) => void) | null = null;
+  onerror: ((event: unknown) => void) | null = null;
+  onend: (() => void) | null = null;
+  start = vi.fn();
+  stop = vi.fn(() => this.onend?.());
+  abort = vi.fn();
+
+  constructor() {
+    FakeRecognition.last = this;
+  }
+
+  emit(results: Array<[string, boolean]>, resultIndex = 0) {
+    this.onresult?.({
+      resultIndex,
+      results: results.map(([transcript, isFinal]) =>
+        Object.assign([{ transcript, confidence: 1 }], { isFinal })
+      ),
+    });
+  }
+}
+
+const createHandlers = (): DictationHandlers => ({
+  onTranscript: vi.fn(),
+  onError: vi.fn(),
+  onEnd: vi.fn(),
+});
+
+describe("WebSpeechRecognitionProvider", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    FakeRecognition.last = null;
+  });
+
+  it("should report unsupported browsers", () => {
+    const provider = new WebSpeechRecognitionProvider();
+    const handlers = createHandlers();
+
+    expect(provider.isSupported).toBe(false);
+    provider.start(handlers);
+    expect(handlers.onError).toHaveBeenCalledWith(
+      expect.objectContaining({ code: "unsupported" })
+    );
+    expect(handlers.onEnd).toHaveBeenCalled();
+  });
+
+  it("should split final and interim transcripts", () => {
+    vi.stubGlobal("webkitSpeechRecognition", FakeRecognition);
+    const provider = new WebSpeechRecognitionProvider();
+    const handlers = createHandlers();
+
+    expect(provider.isSupported).toBe(true);
+    provider.start(handlers, { lang: "ja-JP" });
+    const recognition = FakeRecognition.last!;
+    expect(recognition.lang).toBe("ja-JP");
+    expect(recognition.interimResults).toBe(true);
+
+    recognition.emit([
+      ["牛乳を", true],
+      ["買", false],
+    ]);
+    expect(handlers.onTranscript).toHaveBeenCalledWith({
+      final: "牛乳を",
+      interim: "買",
+    });
+
+    // Results before resultIndex were already reported
+    recognition.emit(
+      [
+        ["牛乳を", true],
+        ["買う", true],
+      ],
+      1
+    );
+    expect(handlers.onTranscript).toHaveBeenLastCalledWith({
+      final: "買う",
+      interim: "",
+    });
+
+    provider.stop();
+    expect(handlers.onEnd).toHaveBeenCalledTimes(1);
+  });
+
+  it("should surface errors but not aborts", () => {
+    vi.stubGlobal("SpeechRecognition", FakeRecognition);
+    const provider = new WebSpeechRecognitionProvider();
+    const handlers = createHandlers();
+    provider.start(handlers);
+
+    FakeRecognition.last!.onerror?.({ error: "aborted" });
+    expect(handlers.onError).not.toHaveBeenCalled();
+
+    FakeRecognition.last!.onerror?.({ error: "not-allowed" });
+    expect(handlers.onError).toHaveBeenCalledWith(
+      expect.objectContaining({ name: "DictationError", code: "not-allowed" })
+    );
+  });
+
+  it("should end an aborted session silently", () => {
+    vi.stubGlobal("SpeechRecognition", FakeRecognition);
+    const provider = new WebSpeechRecognitionProvider();
+    const handlers = createHandlers();
+    provider.start(handlers);
+    const recognition = FakeRecognition.last!;
+
+    provider.abort();
+    expect(recognition.abort).toHaveBeenCalled();
+    recognition.emit([["late", true]]);
+    expect(handlers.onTranscript).not.toHaveBeenCalled();
+    expect(handlers.onEnd).not.toHaveBeenCalled();
+  });
+});
+
+describe("appendTranscript", () => {
+  it("should join words with spaces only where needed", () => {
+    expect(appendTranscript("", " buy milk ")).toBe("buy milk");
+    expect(appendTranscript("buy", "milk")).toBe("buy milk");
+    expect(appendTranscript("牛乳を", "買う")).toBe("牛乳を買う");
+    expect(appendTranscript("buy", "  ")).toBe("buy");
+  });
+});
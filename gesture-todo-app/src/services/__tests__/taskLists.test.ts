@@ -0,0 +1,107 @@
+/** @format */
+
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_LIST_ID,
+  TaskListError,
+  copyTaskList,
+  createDefaultTaskList,
+  createTaskList,
+  getAdjacentList,
+  parseTaskListExport,
+  serializeTaskList,
+} from "../taskLists";
+import { Task, TaskList } from "../../types";
+
+const list = (id: string, archived = false): TaskList => ({
+  id,
+  name: id,
+  archived,
+  createdAt: new Date(2024, 0, 1),
+  updatedAt: new Date(2024, 0, 1),
+});
+
+const task = (text: string, listId: string): Task => ({
+  id: text,
+  text,
+  completed: false,
+  priority: "none",
+  tags: [],
+  order: "a0",
+  listId,
+  parentId: null,
+  createdAt: new Date(2024, 0, 1),
+  updatedAt: new Date(2024, 0, 1),
+});
+
+describe("task lists", () => {
+  it("should require a list name", () => {
+    expect(createTaskList("  Groceries ").name).toBe("Groceries");
+    expect(() => createTaskList("   ")).toThrow(TaskListError);
+  });
+
+  it("should cycle through unarchived lists and wrap around", () => {
+    const lists = [
+      createDefaultTaskList(),
+      list("work"),
+      list("old", true),
+      list("home"),
+    ];
+
+    expect(getAdjacentList(lists, DEFAULT_LIST_ID, 1)?.id).toBe("work");
+    expect(getAdjacentList(lists, "work", 1)?.id).toBe("home");
+    expect(getAdjacentList(lists, "home", 1)?.id).toBe(DEFAULT_LIST_ID);
+    expect(getAdjacentList(lists, DEFAULT_LIST_ID, -1)?.id).toBe("home");
+    // An archived list that is open can still be cycled away from
+    expect(getAdjacentList(lists, "old", 1)?.id).toBe("home");
+    expect(getAdjacentList([createDefaultTaskList()], DEFAULT_LIST_ID, 1)).toBe(
+      null
+    );
+  });
+
+  it("should round-trip a list export", () => {
+    const tasks = [
+      { ...task("Milk", "work"), dueDate: new Date(2024, 5, 1) },
+      task("Eggs", "work"),
+    ];
+    const parsed = parseTaskListExport(serializeTaskList(list("work"), tasks));
+
+    expect(parsed.list).toEqual(list("work"));
+    expect(parsed.tasks).toEqual(tasks);
+  });
+
+  it("should reject files that are not list exports", () => {
+    expect(() => parseTaskListExport("not json")).toThrow(TaskListError);
+    expect(() => parseTaskListExport({ version: 99 })).toThrow(
+      "Unsupported export version: 99"
+    );
+    expect(() =>
+      parseTaskListExport({ version: 1, list: { name: "" }, tasks: [] })
+    ).toThrow("Export has no list name");
+    expect(() =>
+      parseTaskListExport({ version: 1, list: { name: "x" }, tasks: [{}] })
+    ).toThrow("Task 0 has no id or text");
+  });
+
+  it("should copy an imported list under new ids", () => {
+    const now = new Date(2024, 6, 1);
+    const copy = copyTaskList(
+      {
+        list: list("work", true),
+        tasks: [
+          task("Milk", "work"),
+          { ...task("Skimmed", "work"), parentId: "Milk" },
+        ],
+      },
+      now
+    );
+
+    expect(copy.list.id).not.toBe("work");
+    expect(copy.list).toMatchObject({ name: "work", archived: false });
+    expect(copy.list.createdAt).toEqual(now);
+    expect(copy.tasks[0].id).not.toBe("Milk");
+    expect(copy.tasks[0]).toMatchObject({ text: "Milk", listId: copy.list.id });
+    // Subtasks point at the copied parent
+    expect(copy.tasks[1].parentId).toBe(copy.tasks[0].id);
+  });
+});
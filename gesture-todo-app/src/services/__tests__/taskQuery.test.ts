@@ -0,0 +1,150 @@
+/** @format */
+
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_TASK_QUERY,
+  TaskQueryError,
+  createSavedView,
+  getVisibleTasks,
+  isSameTaskQuery,
+  matchesTaskQuery,
+  reviveSavedViews,
+} from "../taskQuery";
+import { Task, TaskQuery } from "../../types";
+
+const task = (text: string, fields: Partial<Task> = {}): Task => ({
+  id: text,
+  text,
+  completed: false,
+  priority: "none",
+  tags: [],
+  order: "a0",
+  listId: "default",
+  parentId: null,
+  createdAt: new Date(2024, 0, 1),
+  updatedAt: new Date(2024, 0, 1),
+  ...fields,
+});
+
+const query = (fields: Partial<TaskQuery>): TaskQuery => ({
+  ...DEFAULT_TASK_QUERY,
+  ...fields,
+});
+
+const texts = (tasks: Task[]) => tasks.map((t) => t.text);
+
+describe("task query", () => {
+  it("should match all search words in any case", () => {
+    const report = task("Write Quarterly report");
+
+    expect(matchesTaskQuery(report, query({ text: "report quarterly" }))).toBe(
+      true
+    );
+    expect(matchesTaskQuery(report, query({ text: "report weekly" }))).toBe(
+      false
+    );
+  });
+
+  it("should filter by status, tags, priority and due range", () => {
+    const milk = task("Milk", {
+      tags: ["Home", "shop"],
+      priority: "high",
+      dueDate: new Date(2024, 4, 10, 18, 0),
+    });
+
+    expect(matchesTaskQuery(milk, query({ status: "completed" }))).toBe(false);
+    expect(matchesTaskQuery(milk, query({ tags: ["home", "shop"] }))).toBe(
+      true
+    );
+    expect(matchesTaskQuery(milk, query({ tags: ["home", "work"] }))).toBe(
+      false
+    );
+    expect(
+      matchesTaskQuery(milk, query({ priorities: ["medium", "high"] }))
+    ).toBe(true);
+    expect(matchesTaskQuery(milk, query({ priorities: ["low"] }))).toBe(false);
+    // Both ends of the range are included
+    expect(
+      matchesTaskQuery(
+        milk,
+        query({ dueFrom: "2024-05-01", dueTo: "2024-05-10" })
+      )
+    ).toBe(true);
+    expect(matchesTaskQuery(milk, query({ dueFrom: "2024-05-11" }))).toBe(
+      false
+    );
+    expect(
+      matchesTaskQuery(task("Undated"), query({ dueTo: "2024-05-11" }))
+    ).toBe(false);
+  });
+
+  it("should list open tasks first, subtasks with their parent", () => {
+    // In tree order
+    const tasks = [
+      task("Groceries", { completed: true }),
+      task("Milk", { parentId: "Groceries" }),
+      task("Laundry"),
+      task("Socks", { parentId: "Laundry", completed: true }),
+    ];
+
+    expect(texts(getVisibleTasks(tasks, DEFAULT_TASK_QUERY, []))).toEqual([
+      "Laundry",
+      "Socks",
+      "Groceries",
+      "Milk",
+    ]);
+    expect(
+      texts(getVisibleTasks(tasks, DEFAULT_TASK_QUERY, ["Laundry"]))
+    ).toEqual(["Laundry", "Groceries", "Milk"]);
+    // Search results are flat and split by their own completion
+    expect(
+      texts(getVisibleTasks(tasks, query({ text: "s" }), ["Laundry"]))
+    ).toEqual(["Groceries", "Socks"]);
+  });
+
+  it("should sort matches, keeping the manual order for ties", () => {
+    const tasks = [
+      task("Undated", { priority: "high" }),
+      task("Later", { dueDate: new Date(2024, 5, 1), priority: "low" }),
+      task("Sooner", { dueDate: new Date(2024, 4, 1), priority: "high" }),
+      task("Done", { dueDate: new Date(2024, 0, 1), completed: true }),
+    ];
+
+    expect(
+      texts(getVisibleTasks(tasks, query({ sort: "dueDate" }), []))
+    ).toEqual(["Sooner", "Later", "Undated", "Done"]);
+    expect(
+      texts(getVisibleTasks(tasks, query({ sort: "priority" }), []))
+    ).toEqual(["Undated", "Sooner", "Later", "Done"]);
+    expect(texts(getVisibleTasks(tasks, query({ sort: "text" }), []))).toEqual([
+      "Later",
+      "Sooner",
+      "Undated",
+      "Done",
+    ]);
+  });
+
+  it("should save views and read them back", () => {
+    const saved = query({ tags: ["work"], priorities: ["high", "medium"] });
+    const view = createSavedView("  Urgent work ", saved);
+
+    expect(view.name).toBe("Urgent work");
+    expect(() => createSavedView(" ", saved)).toThrow(TaskQueryError);
+
+    // Views from before a query field existed get its default
+    const [revived] = reviveSavedViews(
+      JSON.parse(
+        JSON.stringify([{ ...view, query: { text: "", tags: ["work"] } }])
+      )
+    );
+    expect(revived.createdAt).toEqual(view.createdAt);
+    expect(revived.query).toEqual(query({ tags: ["work"] }));
+    expect(
+      isSameTaskQuery(
+        saved,
+        query({ priorities: ["medium", "high"], tags: ["work"] })
+      )
+    ).toBe(true);
+    expect(isSameTaskQuery(saved, revived.query)).toBe(false);
+  });
+});
@@ -0,0 +1,146 @@
+/** @format */
+
+import { describe, it, expect, vi } from "vitest";
+import {
+  HistoryEntry,
+  UndoHistory,
+  describeHistoryEntry,
+} from "../undoHistory";
+import { Task } from "../../types";
+
+const task = (text: string, completed = false): Task => ({
+  id: text,
+  text,
+  completed,
+  priority: "none",
+  tags: [],
+  order: "a0",
+  listId: "default",
+  parentId: null,
+  createdAt: new Date(2025, 0, 1),
+  updatedAt: new Date(2025, 0, 1),
+});
+
+const added = (text: string): HistoryEntry => ({
+  type: "add",
+  task: task(text),
+});
+
+describe("UndoHistory", () => {
+  it("should undo and redo changes in order", async () => {
+    const history = new UndoHistory();
+    history.record(added("a"));
+    history.record(added("b"));
+
+    const reverted: string[] = [];
+    const revert = async (entry: HistoryEntry) => {
+      reverted.push(entry.type === "add" ? entry.task.text : "");
+    };
+
+    expect((await history.undo(revert))?.type).toBe("add");
+    await history.undo(revert);
+    expect(reverted).toEqual(["b", "a"]);
+    expect(history.canUndo()).toBe(false);
+    expect(await history.undo(revert)).toBeNull();
+
+    const redone = await history.redo(async () => {});
+    expect(redone).toEqual(added("a"));
+    expect(history.canUndo()).toBe(true);
+    expect(history.canRedo()).toBe(true);
+  });
+
+  it("should drop the redo stack when a new change is recorded", async () => {
+    const history = new UndoHistory();
+    history.record(added("a"));
+    await history.undo(async () => {});
+
+    history.record(added("b"));
+    expect(history.canRedo()).toBe(false);
+  });
+
+  it("should keep the entry when reverting fails", async () => {
+    const history = new UndoHistory();
+    history.record(added("a"));
+
+    await expect(
+      history.undo(() => Promise.reject(new Error("offline")))
+    ).rejects.toThrow("offline");
+    expect(history.canUndo()).toBe(true);
+    expect(history.canRedo()).toBe(false);
+  });
+
+  it("should keep only the most recent entries", () => {
+    const history = new UndoHistory(undefined, 2);
+    ["a", "b", "c"].forEach((text) => history.record(added(text)));
+
+    expect(history.getState().past).toEqual([added("b"), added("c")]);
+  });
+
+  it("should restore from a saved state", async () => {
+    const history = new UndoHistory({
+      past: [added("a")],
+      future: [added("b")],
+    });
+    const apply = vi.fn().mockResolvedValue(undefined);
+
+    await history.redo(apply);
+    expect(apply).toHaveBeenCalledWith(added("b"));
+    expect(history.getState().past).toHaveLength(2);
+  });
+});
+
+describe("describeHistoryEntry", () => {
+  it("should describe each kind of change", () => {
+    expect(describeHistoryEntry(added("Milk"))).toBe('Added "Milk"');
+    expect(
+      describeHistoryEntry({ type: "delete", task: task("Milk"), index: 0 })
+    ).toBe('Deleted "Milk"');
+    expect(
+      describeHistoryEntry({
+        type: "update",
+        before: task("Milk"),
+        after: task("Milk", true),
+      })
+    ).toBe('Completed "Milk"');
+    expect(
+      describeHistoryEntry({
+        type: "update",
+        before: task("Milk"),
+        after: { ...task("Milk"), order: "a1" },
+      })
+    ).toBe('Moved "Milk"');
+    expect(
+      describeHistoryEntry({
+        type: "import",
+        before: { tasks: [], settings: {} },
+        after: { tasks: [task("a"), task("b")], settings: {} },
+      })
+    ).toBe("Imported 2 tasks");
+    expect(
+      describeHistoryEntry({
+        type: "importList",
+        list: {
+          id: "work",
+          name: "Work",
+          archived: false,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        },
+        tasks: [task("a")],
+      })
+    ).toBe('Imported list "Work"');
+    expect(
+      describeHistoryEntry({
+        type: "deleteList",
+        list: {
+          id: "work",
+          name: "Work",
+          archived: false,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        },
+        tasks: [],
+      })
+    ).toBe('Deleted list "Work"');
+  });
+});
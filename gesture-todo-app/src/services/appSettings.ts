@@ -0,0 +1,193 @@
+/** @format */
+
+import { GestureBindings, GestureSettings } from "../types";
+import {
+  DEFAULT_GESTURE_BINDINGS,
+  normalizeGestureBindings,
+} from "./gestureBindings";
+import type { GestureRecognizerConfig } from "./gestureRecognizer";
+
+export const SETTINGS_EXPORT_VERSION = 1;
+
+export class SettingsError extends Error {
+  constructor(message: string, public readonly cause?: Error) {
+    super(message);
+    this.name = "SettingsError";
+  }
+}
+
+export const DEFAULT_GESTURE_SETTINGS: GestureSettings = {
+  sensitivity: 0.7,
+  debounceTime: 300,
+  confidenceThreshold: 0.8,
+  twoHandMode: false,
+  confirmDestructive: true,
+  confirmTimeout: 3000,
+};
+
+export type NumericGestureSetting =
+  | "sensitivity"
+  | "debounceTime"
+  | "confidenceThreshold"
+  | "confirmTimeout";
+
+export interface SettingRange {
+  min: number;
+  max: number;
+  step: number;
+}
+
+// Values outside these ranges make recognition unusable, e.g. a threshold
+// no hold can reach or a hold too short to tell gestures apart
+export const GESTURE_SETTING_RANGES: Record<
+  NumericGestureSetting,
+  SettingRange
+> = {
+  sensitivity: { min: 0.5, max: 1.5, step: 0.05 },
+  debounceTime: { min: 100, max: 2000, step: 50 },
+  confidenceThreshold: { min: 0.5, max: 1, step: 0.05 },
+  confirmTimeout: { min: 1000, max: 10000, step: 500 },
+};
+
+export const NUMERIC_GESTURE_SETTINGS = Object.keys(
+  GESTURE_SETTING_RANGES
+) as NumericGestureSetting[];
+
+const BOOLEAN_GESTURE_SETTINGS = ["twoHandMode", "confirmDestructive"] as const;
+
+// The user preferences a settings file carries. Trained gestures are user
+// data and have their own export.
+export interface SettingsBlock {
+  gestureEnabled: boolean;
+  theme: "light" | "dark";
+  gestureSettings: GestureSettings;
+  gestureBindings: GestureBindings;
+}
+
+export const DEFAULT_SETTINGS: SettingsBlock = {
+  gestureEnabled: true,
+  theme: "light",
+  gestureSettings: DEFAULT_GESTURE_SETTINGS,
+  gestureBindings: DEFAULT_GESTURE_BINDINGS,
+};
+
+interface SettingsExport {
+  version: typeof SETTINGS_EXPORT_VERSION;
+  exportedAt: string;
+  settings: SettingsBlock;
+}
+
+export const isSettingInRange = (
+  key: NumericGestureSetting,
+  value: number
+): boolean => {
+  const { min, max } = GESTURE_SETTING_RANGES[key];
+  return Number.isFinite(value) && value >= min && value <= max;
+};
+
+// Numeric settings that are missing a valid value, in display order
+export const findInvalidGestureSettings = (
+  settings: Partial<GestureSettings>
+): NumericGestureSetting[] =>
+  NUMERIC_GESTURE_SETTINGS.filter(
+    (key) =>
+      settings[key] !== undefined && !isSettingInRange(key, settings[key]!)
+  );
+
+// Map persisted gesture settings onto recognizer configuration
+export const toRecognizerConfig = (
+  settings: GestureSettings
+): GestureRecognizerConfig => ({
+  confidenceThreshold: settings.confidenceThreshold,
+  // Held for debounceTime ms, measured from frame timestamps
+  holdDuration: settings.debounceTime,
+  sensitivity: settings.sensitivity,
+  twoHandMode: settings.twoHandMode,
+});
+
+export function serializeSettings(settings: SettingsBlock): string {
+  const data: SettingsExport = {
+    version: SETTINGS_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    settings: {
+      gestureEnabled: settings.gestureEnabled,
+      theme: settings.theme,
+      gestureSettings: settings.gestureSettings,
+      gestureBindings: settings.gestureBindings,
+    },
+  };
+  return JSON.stringify(data);
+}
+
+// Validate untrusted JSON (e.g. an exported file) as a settings block.
+// Settings the file does not have, e.g. ones added after it was exported,
+// get their defaults.
+export function parseSettingsExport(data: unknown): SettingsBlock {
+  let json: unknown;
+  try {
+    json = typeof data === "string" ? JSON.parse(data) : data;
+  } catch (error) {
+    throw new SettingsError(
+      "Export file is not valid JSON",
+      error instanceof Error ? error : undefined
+    );
+  }
+
+  if (!json || typeof json !== "object") {
+    throw new SettingsError("Export must be an object");
+  }
+
+  const exported = json as Partial<SettingsExport>;
+
+  if (exported.version !== SETTINGS_EXPORT_VERSION) {
+    throw new SettingsError(
+      `Unsupported export version: ${String(exported.version)}`
+    );
+  }
+
+  const settings = exported.settings as Partial<SettingsBlock> | undefined;
+  if (!settings || typeof settings !== "object") {
+    throw new SettingsError("Export has no settings");
+  }
+
+  const {
+    gestureEnabled = DEFAULT_SETTINGS.gestureEnabled,
+    theme = DEFAULT_SETTINGS.theme,
+  } = settings;
+  if (typeof gestureEnabled !== "boolean") {
+    throw new SettingsError("Invalid setting: gestureEnabled");
+  }
+  if (theme !== "light" && theme !== "dark") {
+    throw new SettingsError(`Invalid theme: ${String(theme)}`);
+  }
+
+  const stored = (settings.gestureSettings ?? {}) as Record<string, unknown>;
+  if (typeof stored !== "object") {
+    throw new SettingsError("Invalid setting: gestureSettings");
+  }
+
+  const gestureSettings = { ...DEFAULT_GESTURE_SETTINGS };
+  for (const key of NUMERIC_GESTURE_SETTINGS) {
+    const value = stored[key];
+    if (value === undefined) continue;
+    if (typeof value !== "number" || !isSettingInRange(key, value)) {
+      throw new SettingsError(`Setting out of range: ${key}`);
+    }
+    gestureSettings[key] = value;
+  }
+  for (const key of BOOLEAN_GESTURE_SETTINGS) {
+    const value = stored[key];
+    if (value === undefined) continue;
+    if (typeof value !== "boolean") {
+      throw new SettingsError(`Invalid setting: ${key}`);
+    }
+    gestureSettings[key] = value;
+  }
+
+  return {
+    gestureEnabled,
+    theme,
+    gestureSettings,
+    gestureBindings: normalizeGestureBindings(settings.gestureBindings),
+  };
+}
@@ -0,0 +1,246 @@
+/** @format */
+
+import { NormalizedLandmark } from "@mediapipe/hands";
+import {
+  CustomGestureId,
+  CustomGestureTemplate,
+  RecognizedGesture,
+} from "../types";
+import { generateId } from "../utils";
+import {
+  HandednessLabel,
+  extractLandmarkFeatures,
+  featureDistance,
+} from "./landmarkFeatures";
+
+export const CUSTOM_GESTURE_PREFIX = "custom:";
+export const CUSTOM_GESTURE_EXPORT_VERSION = 1;
+// Fewer samples than this make k-NN too sensitive to a single bad frame
+export const MIN_TEMPLATE_SAMPLES = 5;
+
+export class CustomGestureError extends Error {
+  constructor(message: string, public readonly cause?: Error) {
+    super(message);
+    this.name = "CustomGestureError";
+  }
+}
+
+export interface CustomGestureClassifierConfig {
+  // Number of nearest samples that vote
+  k?: number;
+  // Mean RMS distance (in palm lengths) above which nothing is matched
+  maxDistance?: number;
+}
+
+export interface CustomGestureMatch {
+  templateId: string;
+  gesture: CustomGestureId;
+  distance: number;
+  // 1 on a recorded sample, falling to 0 at maxDistance
+  score: number;
+}
+
+export interface CustomGestureExport {
+  version: typeof CUSTOM_GESTURE_EXPORT_VERSION;
+  exportedAt: string;
+  templates: CustomGestureTemplate[];
+}
+
+export const toCustomGestureId = (templateId: string): CustomGestureId =>
+  `${CUSTOM_GESTURE_PREFIX}${templateId}`;
+
+export const isCustomGesture = (
+  gesture: RecognizedGesture | string
+): gesture is CustomGestureId => gesture.startsWith(CUSTOM_GESTURE_PREFIX);
+
+export const getCustomTemplateId = (gesture: CustomGestureId): string =>
+  gesture.slice(CUSTOM_GESTURE_PREFIX.length);
+
+// k-nearest-neighbour classifier over normalized landmark features
+export class CustomGestureClassifier {
+  private samples: { templateId: string; features: number[] }[] = [];
+  private k: number;
+  private maxDistance: number;
+
+  constructor(
+    templates: CustomGestureTemplate[] = [],
+    config: CustomGestureClassifierConfig = {}
+  ) {
+    this.k = config.k ?? 3;
+    this.maxDistance = config.maxDistance ?? 0.15;
+    this.setTemplates(templates);
+  }
+
+  get templateCount(): number {
+    return new Set(this.samples.map((s) => s.templateId)).size;
+  }
+
+  setTemplates(templates: CustomGestureTemplate[]): void {
+    this.samples = templates.flatMap((template) =>
+      template.samples.map((features) => ({
+        templateId: template.id,
+        features,
+      }))
+    );
+  }
+
+  classify(
+    landmarks: NormalizedLandmark[],
+    handedness?: HandednessLabel
+  ): CustomGestureMatch | null {
+    if (this.samples.length === 0) {
+      return null;
+    }
+
+    const features = extractLandmarkFeatures(landmarks, handedness);
+    if (!features) {
+      return null;
+    }
+
+    const neighbours = this.samples
+      .map((sample) => ({
+        templateId: sample.templateId,
+        distance: featureDistance(features, sample.features),
+      }))
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, this.k);
+
+    // Majority vote; ties go to the template with the nearest sample
+    const votes = new Map<string, { count: number; total: number }>();
+    for (const { templateId, distance } of neighbours) {
+      const vote = votes.get(templateId) ?? { count: 0, total: 0 };
+      votes.set(templateId, {
+        count: vote.count + 1,
+        total: vote.total + distance,
+      });
+    }
+
+    let best: { templateId: string; count: number; total: number } | null =
+      null;
+    for (const [templateId, vote] of votes) {
+      if (!best || vote.count > best.count) {
+        best = { templateId, ...vote };
+      }
+    }
+
+    if (!best) {
+      return null;
+    }
+
+    const distance = best.total / best.count;
+    if (distance > this.maxDistance) {
+      return null;
+    }
+
+    return {
+      templateId: best.templateId,
+      gesture: toCustomGestureId(best.templateId),
+      distance,
+      score: 1 - distance / this.maxDistance,
+    };
+  }
+}
+
+// Build a template from raw landmark samples; unusable frames are dropped.
+// Left hands should be mirrored with toRightHand() first.
+export function createCustomGestureTemplate(
+  name: string,
+  landmarkSamples: NormalizedLandmark[][],
+  now: Date = new Date()
+): CustomGestureTemplate {
+  const trimmedName = name.trim();
+  if (!trimmedName) {
+    throw new CustomGestureError("Gesture name is required");
+  }
+
+  const samples = landmarkSamples
+    .map((landmarks) => extractLandmarkFeatures(landmarks))
+    .filter((features): features is number[] => features !== null);
+
+  if (samples.length < MIN_TEMPLATE_SAMPLES) {
+    throw new CustomGestureError(
+      `At least ${MIN_TEMPLATE_SAMPLES} usable samples are required (got ${samples.length})`
+    );
+  }
+
+  return {
+    id: generateId(),
+    name: trimmedName,
+    samples,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+export function serializeCustomGestures(
+  templates: CustomGestureTemplate[]
+): string {
+  const data: CustomGestureExport = {
+    version: CUSTOM_GESTURE_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    templates,
+  };
+  return JSON.stringify(data);
+}
+
+// Validate untrusted JSON (e.g. an exported file) as gesture templates
+export function parseCustomGestureExport(
+  data: unknown
+): CustomGestureTemplate[] {
+  let json: unknown;
+  try {
+    json = typeof data === "string" ? JSON.parse(data) : data;
+  } catch (error) {
+    throw new CustomGestureError(
+      "Export file is not valid JSON",
+      error instanceof Error ? error : undefined
+    );
+  }
+
+  if (!json || typeof json !== "object") {
+    throw new CustomGestureError("Export must be an object");
+  }
+
+  const exported = json as Partial<CustomGestureExport>;
+
+  if (exported.version !== CUSTOM_GESTURE_EXPORT_VERSION) {
+    throw new CustomGestureError(
+      `Unsupported export version: ${String(exported.version)}`
+    );
+  }
+
+  if (!Array.isArray(exported.templates)) {
+    throw new CustomGestureError("Export has no templates array");
+  }
+
+  return exported.templates.map((template, index) => {
+    if (typeof template.id !== "string" || typeof template.name !== "string") {
+      throw new CustomGestureError(`Template ${index} has no id or name`);
+    }
+
+    const samples = template.samples;
+    if (
+      !Array.isArray(samples) ||
+      samples.length === 0 ||
+      !samples.every(
+        (sample) =>
+          Array.isArray(sample) &&
+          sample.length === samples[0].length &&
+          sample.every((value) => typeof value === "number")
+      )
+    ) {
+      throw new CustomGestureError(`Template ${index} has invalid samples`);
+    }
+
+    const createdAt = template.createdAt
+      ? new Date(template.createdAt)
+      : new Date();
+    return {
+      id: template.id,
+      name: template.name,
+      samples,
+      createdAt,
+      updatedAt: template.updatedAt ? new Date(template.updatedAt) : createdAt,
+    };
+  });
+}
@@ -1,7 +1,17 @@
 /** @format */
 
-import { Task, AppSettings } from "../types";
-import { generateId } from "../utils";
+import {
+  Task,
+  TaskList,
+  AppSettings,
+  CustomGestureTemplate,
+  RecurrenceRule,
+} from "../types";
+import { compareTaskOrder, generateId } from "../utils";
+import { generateKeysBetween } from "../utils/fractionalIndex";
+import { getDescendantIds } from "../utils/taskTree";
+import { DEFAULT_LIST_ID, createDefaultTaskList } from "./taskLists";
+import type { UndoHistoryState } from "./undoHistory";
 
 // Database error types
 export class DatabaseError extends Error {
@@ -32,13 +42,34 @@ export class DatabaseQuotaError extends DatabaseError {
   }
 }
 
+// Snapshot used for export/import and fallback recovery
+export interface DatabaseExport {
+  tasks: Task[];
+  settings: Record<string, any>;
+  // Missing in exports made before custom gestures existed
+  gestureTemplates?: CustomGestureTemplate[];
+  // Missing in exports made before lists existed
+  lists?: TaskList[];
+}
+
 // IndexedDB database interface
 export interface TodoDatabase {
   initialize(): Promise<void>;
   addTask(task: Omit<Task, "id">): Promise<string>;
   updateTask(id: string, updates: Partial<Task>): Promise<void>;
+  // Write a task back exactly as given, keeping its id and timestamps
+  restoreTask(task: Task): Promise<void>;
+  // Delete a task together with its subtasks
   deleteTask(id: string): Promise<void>;
   getAllTasks(): Promise<Task[]>;
+  getTasksByList(listId: string): Promise<Task[]>;
+  // Lists, oldest first; the default list is always there
+  getAllLists(): Promise<TaskList[]>;
+  saveList(list: TaskList): Promise<void>;
+  // Delete a list together with its tasks
+  deleteList(id: string): Promise<void>;
+  // Add a list and its tasks at once, e.g. from a list export
+  importList(list: TaskList, tasks: Task[]): Promise<void>;
   getSetting<K extends keyof AppSettings>(
     key: K
   ): Promise<AppSettings[K] | undefined>;
@@ -46,15 +77,17 @@ export interface TodoDatabase {
     key: K,
     value: AppSettings[K]
   ): Promise<void>;
+  getAllGestureTemplates(): Promise<CustomGestureTemplate[]>;
+  saveGestureTemplate(template: CustomGestureTemplate): Promise<void>;
+  deleteGestureTemplate(id: string): Promise<void>;
+  getUndoHistory(): Promise<UndoHistoryState | undefined>;
+  saveUndoHistory(history: UndoHistoryState): Promise<void>;
   // Error recovery methods
   isAvailable(): boolean;
   getStorageInfo(): Promise<{ usage: number; quota: number } | null>;
   clearDatabase(): Promise<void>;
-  exportData(): Promise<{ tasks: Task[]; settings: Record<string, any> }>;
-  importData(data: {
-    tasks: Task[];
-    settings: Record<string, any>;
-  }): Promise<void>;
+  exportData(): Promise<DatabaseExport>;
+  importData(data: DatabaseExport): Promise<void>;
 }
 
 // IndexedDB record types
@@ -62,6 +95,18 @@ interface TaskRecord {
   id: string;
   text: string;
   completed: boolean;
+  // Missing in records and exports from before v3
+  priority?: Task["priority"];
+  dueDate?: Date;
+  hasDueTime?: boolean;
+  tags?: string[];
+  // Missing in records and exports from before v5
+  order?: string;
+  // Missing in records and exports from before v6
+  listId?: string;
+  // Missing in records and exports from before v7
+  parentId?: string | null;
+  recurrence?: RecurrenceRule;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -71,10 +116,85 @@ interface SettingsRecord {
   value: any;
 }
 
+// Key of the single record in the history store
+const UNDO_HISTORY_KEY = "tasks";
+
+// Fill in fields added after a record was written. Dates are revived so
+// that exports which went through JSON can be imported again.
+const toTask = (record: TaskRecord): Task => ({
+  id: record.id,
+  text: record.text,
+  completed: record.completed,
+  priority: record.priority ?? "none",
+  ...(record.dueDate && {
+    dueDate: new Date(record.dueDate),
+    hasDueTime: record.hasDueTime ?? false,
+  }),
+  tags: record.tags ?? [],
+  // Records without one get a key from withOrderKeys first
+  order: record.order ?? "",
+  listId: record.listId ?? DEFAULT_LIST_ID,
+  parentId: record.parentId ?? null,
+  ...(record.recurrence && { recurrence: record.recurrence }),
+  createdAt: new Date(record.createdAt),
+  updatedAt: new Date(record.updatedAt),
+});
+
+// Give records without an order key one after all keyed records, oldest
+// first, as tasks were listed before the manual order existed
+const withOrderKeys = <T extends TaskRecord>(records: T[]): T[] => {
+  const unordered = records
+    .filter((record) => !record.order)
+    .sort(
+      (a, b) =>
+        new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+    );
+  if (unordered.length === 0) {
+    return records;
+  }
+
+  const last = records.reduce<string | null>(
+    (max, record) =>
+      record.order && (max === null || record.order > max) ? record.order : max,
+    null
+  );
+  const keys = generateKeysBetween(last, null, unordered.length);
+  const assigned = new Map(
+    unordered.map((record, index) => [record, keys[index]])
+  );
+  return records.map((record) =>
+    assigned.has(record) ? { ...record, order: assigned.get(record) } : record
+  );
+};
+
+// Lists oldest first, with the default list put in when missing (e.g. after
+// importing an export from before lists existed). Dates are revived as for
+// tasks.
+const withDefaultList = (lists: TaskList[]): TaskList[] => {
+  const revived = lists.map((list) => ({
+    ...list,
+    createdAt: new Date(list.createdAt),
+    updatedAt: new Date(list.updatedAt),
+  }));
+  if (!revived.some((list) => list.id === DEFAULT_LIST_ID)) {
+    revived.push(createDefaultTaskList());
+  }
+  return revived.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+};
+
+const cannotDeleteDefaultList = () =>
+  new DatabaseOperationError("The default list cannot be deleted");
+
 // IndexedDB implementation
 export class IndexedDBTodoDatabase implements TodoDatabase {
   protected readonly dbName = "GestureTodoApp";
-  private readonly version = 1;
+  // v2: gestureTemplates store
+  // v3: task priority, due date and tags
+  // v4: undo history store
+  // v5: manual task order
+  // v6: lists store and task list ids
+  // v7: subtask parent index
+  private readonly version = 7;
   private db: IDBDatabase | null = null;
   private isInitialized = false;
   private initializationPromise: Promise<void> | null = null;
@@ -149,6 +269,7 @@ export class IndexedDBTodoDatabase implements TodoDatabase {
 
         request.onupgradeneeded = (event) => {
           const db = (event.target as IDBOpenDBRequest).result;
+          const upgrade = (event.target as IDBOpenDBRequest).transaction!;
 
           try {
             // Create tasks object store
@@ -168,6 +289,62 @@ export class IndexedDBTodoDatabase implements TodoDatabase {
             if (!db.objectStoreNames.contains("settings")) {
               db.createObjectStore("settings", { keyPath: "key" });
             }
+
+            // Create custom gesture templates object store
+            if (!db.objectStoreNames.contains("gestureTemplates")) {
+              db.createObjectStore("gestureTemplates", { keyPath: "id" });
+            }
+
+            // Create undo history object store (a single record)
+            if (!db.objectStoreNames.contains("history")) {
+              db.createObjectStore("history", { keyPath: "key" });
+            }
+
+            // Create lists object store, starting with the default list
+            if (!db.objectStoreNames.contains("lists")) {
+              db.createObjectStore("lists", { keyPath: "id" }).add(
+                createDefaultTaskList()
+              );
+            }
+
+            // Index the v3 task fields; tags are indexed one entry per tag
+            const tasksStore = upgrade.objectStore("tasks");
+            if (!tasksStore.indexNames.contains("dueDate")) {
+              tasksStore.createIndex("dueDate", "dueDate", { unique: false });
+            }
+            if (!tasksStore.indexNames.contains("priority")) {
+              tasksStore.createIndex("priority", "priority", {
+                unique: false,
+              });
+            }
+            if (!tasksStore.indexNames.contains("tags")) {
+              tasksStore.createIndex("tags", "tags", {
+                unique: false,
+                multiEntry: true,
+              });
+            }
+            if (!tasksStore.indexNames.contains("listId")) {
+              tasksStore.createIndex("listId", "listId", { unique: false });
+            }
+            // Top-level tasks (parentId null) are left out of this one
+            if (!tasksStore.indexNames.contains("parentId")) {
+              tasksStore.createIndex("parentId", "parentId", {
+                unique: false,
+              });
+            }
+
+            // Give existing tasks the new fields so the indexes cover them,
+            // an order key and the default list
+            if (event.oldVersion > 0 && event.oldVersion < 7) {
+              const request = tasksStore.getAll();
+              request.onsuccess = () => {
+                for (const record of withOrderKeys<TaskRecord>(
+                  request.result
+                )) {
+                  tasksStore.put(toTask(record));
+                }
+              };
+            }
           } catch (error) {
             console.error("Error during database upgrade:", error);
             reject(
@@ -255,13 +432,12 @@ export class IndexedDBTodoDatabase implements TodoDatabase {
       const id = generateId();
       const now = new Date();
 
-      const taskRecord: TaskRecord = {
+      const taskRecord = toTask({
+        ...task,
         id,
-        text: task.text,
-        completed: task.completed,
         createdAt: task.createdAt || now,
         updatedAt: now,
-      };
+      });
 
       return new Promise((resolve, reject) => {
         const transaction = db.transaction(["tasks"], "readwrite");
@@ -327,11 +503,11 @@ export class IndexedDBTodoDatabase implements TodoDatabase {
             return;
           }
 
-          const updatedTask: TaskRecord = {
+          const updatedTask = toTask({
             ...existingTask,
             ...updates,
             updatedAt: new Date(),
-          };
+          });
 
           const putRequest = store.put(updatedTask);
 
@@ -351,6 +527,42 @@ export class IndexedDBTodoDatabase implements TodoDatabase {
     }
   }
 
+  async restoreTask(task: Task): Promise<void> {
+    try {
+      const db = await this.ensureDatabase();
+
+      return new Promise((resolve, reject) => {
+        const transaction = db.transaction(["tasks"], "readwrite");
+        const store = transaction.objectStore("tasks");
+        const request = store.put(toTask(task));
+
+        transaction.onerror = () => {
+          reject(this.handleDatabaseError(transaction.error, "restore task"));
+        };
+
+        transaction.onabort = () => {
+          reject(
+            new DatabaseOperationError(
+              "Transaction aborted while restoring task"
+            )
+          );
+        };
+
+        request.onerror = () => {
+          reject(this.handleDatabaseError(request.error, "restore task"));
+        };
+
+        request.onsuccess = () => {
+          resolve();
+        };
+      });
+    } catch (error) {
+      throw error instanceof DatabaseError
+        ? error
+        : this.handleDatabaseError(error, "restore task");
+    }
+  }
+
   async deleteTask(id: string): Promise<void> {
     try {
       const db = await this.ensureDatabase();
@@ -360,6 +572,18 @@ export class IndexedDBTodoDatabase implements TodoDatabase {
         const store = transaction.objectStore("tasks");
         const request = store.delete(id);
 
+        // Subtasks go with their parent, level by level
+        const deleteSubtasks = (parentId: string) => {
+          const keysRequest = store.index("parentId").getAllKeys(parentId);
+          keysRequest.onsuccess = () => {
+            for (const key of keysRequest.result) {
+              store.delete(key);
+              deleteSubtasks(String(key));
+            }
+          };
+        };
+        deleteSubtasks(id);
+
         transaction.onerror = () => {
           reject(this.handleDatabaseError(transaction.error, "delete task"));
         };
@@ -376,7 +600,7 @@ export class IndexedDBTodoDatabase implements TodoDatabase {
           reject(this.handleDatabaseError(request.error, "delete task"));
         };
 
-        request.onsuccess = () => {
+        transaction.oncomplete = () => {
           resolve();
         };
       });
@@ -414,13 +638,9 @@ export class IndexedDBTodoDatabase implements TodoDatabase {
 
         request.onsuccess = () => {
           try {
-            const tasks: Task[] = request.result.map((record: TaskRecord) => ({
-              id: record.id,
-              text: record.text,
-              completed: record.completed,
-              createdAt: record.createdAt,
-              updatedAt: record.updatedAt,
-            }));
+            const tasks: Task[] = withOrderKeys<TaskRecord>(request.result)
+              .map(toTask)
+              .sort(compareTaskOrder);
             resolve(tasks);
           } catch (error) {
             reject(
@@ -439,6 +659,200 @@ export class IndexedDBTodoDatabase implements TodoDatabase {
     }
   }
 
+  async getTasksByList(listId: string): Promise<Task[]> {
+    try {
+      const db = await this.ensureDatabase();
+
+      return new Promise((resolve, reject) => {
+        const transaction = db.transaction(["tasks"], "readonly");
+        const store = transaction.objectStore("tasks");
+        const request = store.index("listId").getAll(listId);
+
+        transaction.onerror = () => {
+          reject(this.handleDatabaseError(transaction.error, "get list tasks"));
+        };
+
+        transaction.onabort = () => {
+          reject(
+            new DatabaseOperationError(
+              "Transaction aborted while getting list tasks"
+            )
+          );
+        };
+
+        request.onerror = () => {
+          reject(this.handleDatabaseError(request.error, "get list tasks"));
+        };
+
+        request.onsuccess = () => {
+          resolve(
+            withOrderKeys<TaskRecord>(request.result)
+              .map(toTask)
+              .sort(compareTaskOrder)
+          );
+        };
+      });
+    } catch (error) {
+      throw error instanceof DatabaseError
+        ? error
+        : this.handleDatabaseError(error, "get list tasks");
+    }
+  }
+
+  async getAllLists(): Promise<TaskList[]> {
+    try {
+      const db = await this.ensureDatabase();
+
+      return new Promise((resolve, reject) => {
+        const transaction = db.transaction(["lists"], "readonly");
+        const store = transaction.objectStore("lists");
+        const request = store.getAll();
+
+        transaction.onerror = () => {
+          reject(this.handleDatabaseError(transaction.error, "get lists"));
+        };
+
+        transaction.onabort = () => {
+          reject(
+            new DatabaseOperationError(
+              "Transaction aborted while getting lists"
+            )
+          );
+        };
+
+        request.onerror = () => {
+          reject(this.handleDatabaseError(request.error, "get lists"));
+        };
+
+        request.onsuccess = () => {
+          resolve(withDefaultList(request.result));
+        };
+      });
+    } catch (error) {
+      throw error instanceof DatabaseError
+        ? error
+        : this.handleDatabaseError(error, "get lists");
+    }
+  }
+
+  async saveList(list: TaskList): Promise<void> {
+    try {
+      const db = await this.ensureDatabase();
+
+      return new Promise((resolve, reject) => {
+        const transaction = db.transaction(["lists"], "readwrite");
+        const store = transaction.objectStore("lists");
+        const request = store.put(list);
+
+        transaction.onerror = () => {
+          reject(this.handleDatabaseError(transaction.error, "save list"));
+        };
+
+        transaction.onabort = () => {
+          reject(
+            new DatabaseOperationError("Transaction aborted while saving list")
+          );
+        };
+
+        request.onerror = () => {
+          reject(this.handleDatabaseError(request.error, "save list"));
+        };
+
+        request.onsuccess = () => {
+          resolve();
+        };
+      });
+    } catch (error) {
+      throw error instanceof DatabaseError
+        ? error
+        : this.handleDatabaseError(error, "save list");
+    }
+  }
+
+  async deleteList(id: string): Promise<void> {
+    if (id === DEFAULT_LIST_ID) {
+      throw cannotDeleteDefaultList();
+    }
+
+    try {
+      const db = await this.ensureDatabase();
+
+      return new Promise((resolve, reject) => {
+        const transaction = db.transaction(["lists", "tasks"], "readwrite");
+        transaction.objectStore("lists").delete(id);
+
+        // The list's tasks go with it
+        const cursorRequest = transaction
+          .objectStore("tasks")
+          .index("listId")
+          .openCursor(IDBKeyRange.only(id));
+        cursorRequest.onsuccess = () => {
+          const cursor = cursorRequest.result;
+          if (cursor) {
+            cursor.delete();
+            cursor.continue();
+          }
+        };
+
+        transaction.onerror = () => {
+          reject(this.handleDatabaseError(transaction.error, "delete list"));
+        };
+
+        transaction.onabort = () => {
+          reject(
+            new DatabaseOperationError(
+              "Transaction aborted while deleting list"
+            )
+          );
+        };
+
+        transaction.oncomplete = () => {
+          resolve();
+        };
+      });
+    } catch (error) {
+      throw error instanceof DatabaseError
+        ? error
+        : this.handleDatabaseError(error, "delete list");
+    }
+  }
+
+  async importList(list: TaskList, tasks: Task[]): Promise<void> {
+    try {
+      const db = await this.ensureDatabase();
+
+      return new Promise((resolve, reject) => {
+        const transaction = db.transaction(["lists", "tasks"], "readwrite");
+        transaction.objectStore("lists").add(list);
+
+        const tasksStore = transaction.objectStore("tasks");
+        for (const task of withOrderKeys<TaskRecord>(tasks)) {
+          tasksStore.add(toTask({ ...task, listId: list.id }));
+        }
+
+        transaction.onerror = () => {
+          reject(this.handleDatabaseError(transaction.error, "import list"));
+        };
+
+        transaction.onabort = () => {
+          reject(
+            new DatabaseOperationError(
+              "Transaction aborted while importing list"
+            )
+          );
+        };
+
+        transaction.oncomplete = () => {
+          resolve();
+        };
+      });
+    } catch (error) {
+      throw error instanceof DatabaseError
+        ? error
+        : this.handleDatabaseError(error, "import list");
+    }
+  }
+
   async getSetting<K extends keyof AppSettings>(
     key: K
   ): Promise<AppSettings[K] | undefined> {
@@ -522,15 +936,223 @@ export class IndexedDBTodoDatabase implements TodoDatabase {
     }
   }
 
+  async getAllGestureTemplates(): Promise<CustomGestureTemplate[]> {
+    try {
+      const db = await this.ensureDatabase();
+
+      return new Promise((resolve, reject) => {
+        const transaction = db.transaction(["gestureTemplates"], "readonly");
+        const store = transaction.objectStore("gestureTemplates");
+        const request = store.getAll();
+
+        transaction.onerror = () => {
+          reject(
+            this.handleDatabaseError(transaction.error, "get gesture templates")
+          );
+        };
+
+        transaction.onabort = () => {
+          reject(
+            new DatabaseOperationError(
+              "Transaction aborted while getting gesture templates"
+            )
+          );
+        };
+
+        request.onerror = () => {
+          reject(
+            this.handleDatabaseError(request.error, "get gesture templates")
+          );
+        };
+
+        request.onsuccess = () => {
+          resolve(request.result as CustomGestureTemplate[]);
+        };
+      });
+    } catch (error) {
+      throw error instanceof DatabaseError
+        ? error
+        : this.handleDatabaseError(error, "get gesture templates");
+    }
+  }
+
+  async saveGestureTemplate(template: CustomGestureTemplate): Promise<void> {
+    try {
+      const db = await this.ensureDatabase();
+
+      return new Promise((resolve, reject) => {
+        const transaction = db.transaction(["gestureTemplates"], "readwrite");
+        const store = transaction.objectStore("gestureTemplates");
+        const request = store.put(template);
+
+        transaction.onerror = () => {
+          reject(
+            this.handleDatabaseError(transaction.error, "save gesture template")
+          );
+        };
+
+        transaction.onabort = () => {
+          reject(
+            new DatabaseOperationError(
+              "Transaction aborted while saving gesture template"
+            )
+          );
+        };
+
+        request.onerror = () => {
+          reject(
+            this.handleDatabaseError(request.error, "save gesture template")
+          );
+        };
+
+        request.onsuccess = () => {
+          resolve();
+        };
+      });
+    } catch (error) {
+      throw error instanceof DatabaseError
+        ? error
+        : this.handleDatabaseError(error, "save gesture template");
+    }
+  }
+
+  async deleteGestureTemplate(id: string): Promise<void> {
+    try {
+      const db = await this.ensureDatabase();
+
+      return new Promise((resolve, reject) => {
+        const transaction = db.transaction(["gestureTemplates"], "readwrite");
+        const store = transaction.objectStore("gestureTemplates");
+        const request = store.delete(id);
+
+        transaction.onerror = () => {
+          reject(
+            this.handleDatabaseError(
+              transaction.error,
+              "delete gesture template"
+            )
+          );
+        };
+
+        transaction.onabort = () => {
+          reject(
+            new DatabaseOperationError(
+              "Transaction aborted while deleting gesture template"
+            )
+          );
+        };
+
+        request.onerror = () => {
+          reject(
+            this.handleDatabaseError(request.error, "delete gesture template")
+          );
+        };
+
+        request.onsuccess = () => {
+          resolve();
+        };
+      });
+    } catch (error) {
+      throw error instanceof DatabaseError
+        ? error
+        : this.handleDatabaseError(error, "delete gesture template");
+    }
+  }
+
+  async getUndoHistory(): Promise<UndoHistoryState | undefined> {
+    try {
+      const db = await this.ensureDatabase();
+
+      return new Promise((resolve, reject) => {
+        const transaction = db.transaction(["history"], "readonly");
+        const store = transaction.objectStore("history");
+        const request = store.get(UNDO_HISTORY_KEY);
+
+        transaction.onerror = () => {
+          reject(
+            this.handleDatabaseError(transaction.error, "get undo history")
+          );
+        };
+
+        transaction.onabort = () => {
+          reject(
+            new DatabaseOperationError(
+              "Transaction aborted while getting undo history"
+            )
+          );
+        };
+
+        request.onerror = () => {
+          reject(this.handleDatabaseError(request.error, "get undo history"));
+        };
+
+        request.onsuccess = () => {
+          const result = request.result;
+          resolve(
+            result ? { past: result.past, future: result.future } : undefined
+          );
+        };
+      });
+    } catch (error) {
+      throw error instanceof DatabaseError
+        ? error
+        : this.handleDatabaseError(error, "get undo history");
+    }
+  }
+
+  async saveUndoHistory(history: UndoHistoryState): Promise<void> {
+    try {
+      const db = await this.ensureDatabase();
+
+      return new Promise((resolve, reject) => {
+        const transaction = db.transaction(["history"], "readwrite");
+        const store = transaction.objectStore("history");
+        const request = store.put({ key: UNDO_HISTORY_KEY, ...history });
+
+        transaction.onerror = () => {
+          reject(
+            this.handleDatabaseError(transaction.error, "save undo history")
+          );
+        };
+
+        transaction.onabort = () => {
+          reject(
+            new DatabaseOperationError(
+              "Transaction aborted while saving undo history"
+            )
+          );
+        };
+
+        request.onerror = () => {
+          reject(this.handleDatabaseError(request.error, "save undo history"));
+        };
+
+        request.onsuccess = () => {
+          resolve();
+        };
+      });
+    } catch (error) {
+      throw error instanceof DatabaseError
+        ? error
+        : this.handleDatabaseError(error, "save undo history");
+    }
+  }
+
   async clearDatabase(): Promise<void> {
     try {
       const db = await this.ensureDatabase();
 
       return new Promise((resolve, reject) => {
-        const transaction = db.transaction(["tasks", "settings"], "readwrite");
+        const transaction = db.transaction(
+          ["tasks", "settings", "gestureTemplates", "history", "lists"],
+          "readwrite"
+        );
 
         const clearTasks = transaction.objectStore("tasks").clear();
         const clearSettings = transaction.objectStore("settings").clear();
+        transaction.objectStore("gestureTemplates").clear();
+        transaction.objectStore("history").clear();
+        transaction.objectStore("lists").clear();
 
         transaction.onerror = () => {
           reject(this.handleDatabaseError(transaction.error, "clear database"));
@@ -555,12 +1177,11 @@ export class IndexedDBTodoDatabase implements TodoDatabase {
     }
   }
 
-  async exportData(): Promise<{
-    tasks: Task[];
-    settings: Record<string, any>;
-  }> {
+  async exportData(): Promise<DatabaseExport> {
     try {
       const tasks = await this.getAllTasks();
+      const gestureTemplates = await this.getAllGestureTemplates();
+      const lists = await this.getAllLists();
       const settings: Record<string, any> = {};
 
       // Get all settings
@@ -570,6 +1191,12 @@ export class IndexedDBTodoDatabase implements TodoDatabase {
         "theme",
         "confidenceThreshold",
         "debounceTime",
+        "twoHandMode",
+        "confirmDestructive",
+        "confirmTimeout",
+        "gestureBindings",
+        "activeListId",
+        "savedViews",
       ];
 
       for (const key of settingsKeys) {
@@ -583,7 +1210,7 @@ export class IndexedDBTodoDatabase implements TodoDatabase {
         }
       }
 
-      return { tasks, settings };
+      return { tasks, settings, gestureTemplates, lists };
     } catch (error) {
       throw error instanceof DatabaseError
         ? error
@@ -591,31 +1218,27 @@ export class IndexedDBTodoDatabase implements TodoDatabase {
     }
   }
 
-  async importData(data: {
-    tasks: Task[];
-    settings: Record<string, any>;
-  }): Promise<void> {
+  async importData(data: DatabaseExport): Promise<void> {
     try {
       const db = await this.ensureDatabase();
 
       return new Promise((resolve, reject) => {
-        const transaction = db.transaction(["tasks", "settings"], "readwrite");
+        const transaction = db.transaction(
+          ["tasks", "settings", "gestureTemplates", "lists"],
+          "readwrite"
+        );
         const tasksStore = transaction.objectStore("tasks");
         const settingsStore = transaction.objectStore("settings");
+        const templatesStore = transaction.objectStore("gestureTemplates");
+        const listsStore = transaction.objectStore("lists");
 
         // Clear existing data
         tasksStore.clear();
         settingsStore.clear();
 
         // Import tasks
-        for (const task of data.tasks) {
-          tasksStore.add({
-            id: task.id,
-            text: task.text,
-            completed: task.completed,
-            createdAt: task.createdAt,
-            updatedAt: task.updatedAt,
-          });
+        for (const task of withOrderKeys<TaskRecord>(data.tasks)) {
+          tasksStore.add(toTask(task));
         }
 
         // Import settings
@@ -623,6 +1246,22 @@ export class IndexedDBTodoDatabase implements TodoDatabase {
           settingsStore.add({ key, value });
         }
 
+        // Older exports have no templates; keep the existing ones then
+        if (data.gestureTemplates) {
+          templatesStore.clear();
+          for (const template of data.gestureTemplates) {
+            templatesStore.add(template);
+          }
+        }
+
+        // Likewise for lists
+        if (data.lists) {
+          listsStore.clear();
+          for (const list of withDefaultList(data.lists)) {
+            listsStore.add(list);
+          }
+        }
+
         transaction.onerror = () => {
           reject(this.handleDatabaseError(transaction.error, "import data"));
         };
@@ -651,6 +1290,9 @@ export class IndexedDBTodoDatabase implements TodoDatabase {
 export class InMemoryTodoDatabase implements TodoDatabase {
   private tasks: Task[] = [];
   private settings: Record<string, any> = {};
+  private gestureTemplates: CustomGestureTemplate[] = [];
+  private undoHistory: UndoHistoryState | undefined;
+  private lists: TaskList[] = [createDefaultTaskList()];
   private isInitialized = false;
 
   async initialize(): Promise<void> {
@@ -683,12 +1325,12 @@ export class InMemoryTodoDatabase implements TodoDatabase {
 
     const id = generateId();
     const now = new Date();
-    const newTask: Task = {
+    const newTask = toTask({
       ...task,
       id,
       createdAt: task.createdAt || now,
       updatedAt: now,
-    };
+    });
 
     this.tasks.push(newTask);
     return id;
@@ -704,11 +1346,25 @@ export class InMemoryTodoDatabase implements TodoDatabase {
       throw new DatabaseOperationError(`Task with id ${id} not found`);
     }
 
-    this.tasks[taskIndex] = {
+    this.tasks[taskIndex] = toTask({
       ...this.tasks[taskIndex],
       ...updates,
       updatedAt: new Date(),
-    };
+    });
+  }
+
+  async restoreTask(task: Task): Promise<void> {
+    if (!this.isInitialized) {
+      throw new DatabaseConnectionError("Database not initialized");
+    }
+
+    const restored = toTask(task);
+    const taskIndex = this.tasks.findIndex((t) => t.id === task.id);
+    if (taskIndex === -1) {
+      this.tasks.push(restored);
+    } else {
+      this.tasks[taskIndex] = restored;
+    }
   }
 
   async deleteTask(id: string): Promise<void> {
@@ -721,7 +1377,8 @@ export class InMemoryTodoDatabase implements TodoDatabase {
       throw new DatabaseOperationError(`Task with id ${id} not found`);
     }
 
-    this.tasks.splice(taskIndex, 1);
+    const deleted = [id, ...getDescendantIds(this.tasks, id)];
+    this.tasks = this.tasks.filter((task) => !deleted.includes(task.id));
   }
 
   async getAllTasks(): Promise<Task[]> {
@@ -729,7 +1386,66 @@ export class InMemoryTodoDatabase implements TodoDatabase {
       throw new DatabaseConnectionError("Database not initialized");
     }
 
-    return [...this.tasks]; // Return a copy
+    return [...this.tasks].sort(compareTaskOrder); // Return a copy
+  }
+
+  async getTasksByList(listId: string): Promise<Task[]> {
+    if (!this.isInitialized) {
+      throw new DatabaseConnectionError("Database not initialized");
+    }
+
+    return this.tasks
+      .filter((task) => task.listId === listId)
+      .sort(compareTaskOrder);
+  }
+
+  async getAllLists(): Promise<TaskList[]> {
+    if (!this.isInitialized) {
+      throw new DatabaseConnectionError("Database not initialized");
+    }
+
+    return [...this.lists];
+  }
+
+  async saveList(list: TaskList): Promise<void> {
+    if (!this.isInitialized) {
+      throw new DatabaseConnectionError("Database not initialized");
+    }
+
+    this.lists = withDefaultList([
+      ...this.lists.filter((l) => l.id !== list.id),
+      list,
+    ]);
+  }
+
+  async deleteList(id: string): Promise<void> {
+    if (!this.isInitialized) {
+      throw new DatabaseConnectionError("Database not initialized");
+    }
+    if (id === DEFAULT_LIST_ID) {
+      throw cannotDeleteDefaultList();
+    }
+
+    this.lists = this.lists.filter((list) => list.id !== id);
+    this.tasks = this.tasks.filter((task) => task.listId !== id);
+  }
+
+  async importList(list: TaskList, tasks: Task[]): Promise<void> {
+    if (!this.isInitialized) {
+      throw new DatabaseConnectionError("Database not initialized");
+    }
+    if (this.lists.some((l) => l.id === list.id)) {
+      throw new DatabaseOperationError(
+        `List with id ${list.id} already exists`
+      );
+    }
+
+    this.lists = withDefaultList([...this.lists, list]);
+    this.tasks.push(
+      ...withOrderKeys<TaskRecord>(tasks).map((task) =>
+        toTask({ ...task, listId: list.id })
+      )
+    );
   }
 
   async getSetting<K extends keyof AppSettings>(
@@ -753,6 +1469,49 @@ export class InMemoryTodoDatabase implements TodoDatabase {
     this.settings[key as string] = value;
   }
 
+  async getAllGestureTemplates(): Promise<CustomGestureTemplate[]> {
+    if (!this.isInitialized) {
+      throw new DatabaseConnectionError("Database not initialized");
+    }
+
+    return [...this.gestureTemplates];
+  }
+
+  async saveGestureTemplate(template: CustomGestureTemplate): Promise<void> {
+    if (!this.isInitialized) {
+      throw new DatabaseConnectionError("Database not initialized");
+    }
+
+    this.gestureTemplates = [
+      ...this.gestureTemplates.filter((t) => t.id !== template.id),
+      template,
+    ];
+  }
+
+  async deleteGestureTemplate(id: string): Promise<void> {
+    if (!this.isInitialized) {
+      throw new DatabaseConnectionError("Database not initialized");
+    }
+
+    this.gestureTemplates = this.gestureTemplates.filter((t) => t.id !== id);
+  }
+
+  async getUndoHistory(): Promise<UndoHistoryState | undefined> {
+    if (!this.isInitialized) {
+      throw new DatabaseConnectionError("Database not initialized");
+    }
+
+    return this.undoHistory;
+  }
+
+  async saveUndoHistory(history: UndoHistoryState): Promise<void> {
+    if (!this.isInitialized) {
+      throw new DatabaseConnectionError("Database not initialized");
+    }
+
+    this.undoHistory = history;
+  }
+
   async clearDatabase(): Promise<void> {
     if (!this.isInitialized) {
       throw new DatabaseConnectionError("Database not initialized");
@@ -760,12 +1519,12 @@ export class InMemoryTodoDatabase implements TodoDatabase {
 
     this.tasks = [];
     this.settings = {};
+    this.gestureTemplates = [];
+    this.undoHistory = undefined;
+    this.lists = [createDefaultTaskList()];
   }
 
-  async exportData(): Promise<{
-    tasks: Task[];
-    settings: Record<string, any>;
-  }> {
+  async exportData(): Promise<DatabaseExport> {
     if (!this.isInitialized) {
       throw new DatabaseConnectionError("Database not initialized");
     }
@@ -773,29 +1532,31 @@ export class InMemoryTodoDatabase implements TodoDatabase {
     return {
       tasks: [...this.tasks],
       settings: { ...this.settings },
+      gestureTemplates: [...this.gestureTemplates],
+      lists: [...this.lists],
     };
   }
 
-  async importData(data: {
-    tasks: Task[];
-    settings: Record<string, any>;
-  }): Promise<void> {
+  async importData(data: DatabaseExport): Promise<void> {
     if (!this.isInitialized) {
       throw new DatabaseConnectionError("Database not initialized");
     }
 
-    this.tasks = [...data.tasks];
+    this.tasks = withOrderKeys<TaskRecord>(data.tasks).map(toTask);
     this.settings = { ...data.settings };
+    if (data.gestureTemplates) {
+      this.gestureTemplates = [...data.gestureTemplates];
+    }
+    if (data.lists) {
+      this.lists = withDefaultList(data.lists);
+    }
   }
 }
 
 // Database factory with enhanced fallback logic and recovery
 export class DatabaseFactory {
   private static instance: TodoDatabase | null = null;
-  private static fallbackData: {
-    tasks: Task[];
-    settings: Record<string, any>;
-  } | null = null;
+  private static fallbackData: DatabaseExport | null = null;
   private static isUsingFallback = false;
 
   static async createDatabase(): Promise<TodoDatabase> {
@@ -873,10 +1634,7 @@ export class DatabaseFactory {
   }
 
   // Get fallback data for manual recovery
-  static getFallbackData(): {
-    tasks: Task[];
-    settings: Record<string, any>;
-  } | null {
+  static getFallbackData(): DatabaseExport | null {
     return this.fallbackData;
   }
 
@@ -0,0 +1,196 @@
+/** @format */
+
+// Paces the camera frames sent to the gesture recognizer. Rates are in
+// frames per second and durations in milliseconds.
+export interface FrameSchedulerConfig {
+  // Rate while a hand is in view
+  targetFps?: number;
+  // Rate once no hand has been seen for idleDelay; just enough to notice a
+  // hand coming back
+  idleFps?: number;
+  idleDelay?: number;
+}
+
+export const DEFAULT_FRAME_SCHEDULER_CONFIG: Required<FrameSchedulerConfig> = {
+  targetFps: 30,
+  idleFps: 5,
+  idleDelay: 2000,
+};
+
+export type FrameSchedulerState = "stopped" | "running" | "idle" | "paused";
+
+export interface FrameSchedulerMetrics {
+  // Frames processed, including those that failed
+  processedFrames: number;
+  failedFrames: number;
+  // Frames that fell due while the previous one was still processing. They
+  // are skipped rather than queued, as they would be stale by the time they
+  // ran.
+  droppedFrames: number;
+  // Mean time to process a frame
+  averageFrameTime: number;
+  // Rate currently aimed for
+  currentFps: number;
+  state: FrameSchedulerState;
+}
+
+// Source of display frame callbacks; tests drive it by hand
+export interface FrameTimer {
+  requestFrame(callback: (time: number) => void): number;
+  cancelFrame(handle: number): void;
+}
+
+export function createDefaultFrameTimer(): FrameTimer {
+  return {
+    requestFrame: (callback) => requestAnimationFrame(callback),
+    cancelFrame: (handle) => cancelAnimationFrame(handle),
+  };
+}
+
+// Runs `processFrame` at the target rate, one frame at a time, between
+// start() and stop(). Slows down while reportHands() sees no hand and pauses
+// while the page is hidden. Errors thrown by `processFrame` are logged and
+// do not stop the loop.
+export class FrameScheduler {
+  private config: Required<FrameSchedulerConfig>;
+  private state: FrameSchedulerState = "stopped";
+  private frameHandle: number | null = null;
+  private isProcessing = false;
+  private lastFrameTime = -Infinity;
+  private lastHandTime = -Infinity;
+  private processedFrames = 0;
+  private failedFrames = 0;
+  private droppedFrames = 0;
+  private totalFrameTime = 0;
+
+  constructor(
+    private readonly processFrame: (time: number) => Promise<void>,
+    config: FrameSchedulerConfig = {},
+    private readonly timer: FrameTimer = createDefaultFrameTimer()
+  ) {
+    this.config = { ...DEFAULT_FRAME_SCHEDULER_CONFIG, ...config };
+  }
+
+  start(now: number = performance.now()): void {
+    if (this.state !== "stopped") return;
+
+    // Full rate until idleDelay passes without a hand
+    this.lastHandTime = now;
+    this.lastFrameTime = -Infinity;
+    document.addEventListener("visibilitychange", this.handleVisibilityChange);
+    this.state = "running";
+    if (document.hidden) {
+      this.pause();
+    } else {
+      this.requestFrame();
+    }
+  }
+
+  // Cancels the next frame; a frame being processed still completes
+  stop(): void {
+    if (this.state === "stopped") return;
+
+    document.removeEventListener(
+      "visibilitychange",
+      this.handleVisibilityChange
+    );
+    this.cancelFrame();
+    this.state = "stopped";
+  }
+
+  // Whether the last processed frame showed a hand
+  reportHands(isPresent: boolean, now: number = performance.now()): void {
+    if (!isPresent) return;
+
+    this.lastHandTime = now;
+    if (this.state === "idle") {
+      this.state = "running";
+    }
+  }
+
+  updateConfig(config: FrameSchedulerConfig): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  getMetrics(): FrameSchedulerMetrics {
+    return {
+      processedFrames: this.processedFrames,
+      failedFrames: this.failedFrames,
+      droppedFrames: this.droppedFrames,
+      averageFrameTime:
+        this.processedFrames > 0
+          ? this.totalFrameTime / this.processedFrames
+          : 0,
+      currentFps: this.getCurrentFps(),
+      state: this.state,
+    };
+  }
+
+  private getCurrentFps(): number {
+    return this.state === "idle" ? this.config.idleFps : this.config.targetFps;
+  }
+
+  private readonly handleFrame = (time: number): void => {
+    this.frameHandle = null;
+    if (this.state === "stopped" || this.state === "paused") return;
+    this.requestFrame();
+
+    if (time - this.lastHandTime >= this.config.idleDelay) {
+      this.state = "idle";
+    }
+
+    // Frames are due once per interval; the display may refresh faster
+    if (time - this.lastFrameTime < 1000 / this.getCurrentFps()) return;
+    this.lastFrameTime = time;
+
+    if (this.isProcessing) {
+      this.droppedFrames++;
+      return;
+    }
+    this.runFrame(time);
+  };
+
+  private async runFrame(time: number): Promise<void> {
+    this.isProcessing = true;
+    const startedAt = performance.now();
+
+    try {
+      await this.processFrame(time);
+    } catch (error) {
+      this.failedFrames++;
+      console.error("Frame processing error:", error);
+    } finally {
+      this.processedFrames++;
+      this.totalFrameTime += performance.now() - startedAt;
+      this.isProcessing = false;
+    }
+  }
+
+  private readonly handleVisibilityChange = (): void => {
+    if (document.hidden) {
+      this.pause();
+    } else if (this.state === "paused") {
+      // Back at full rate, as a hand may have come into view meanwhile
+      this.lastHandTime = performance.now();
+      this.lastFrameTime = -Infinity;
+      this.state = "running";
+      this.requestFrame();
+    }
+  };
+
+  private pause(): void {
+    this.cancelFrame();
+    this.state = "paused";
+  }
+
+  private requestFrame(): void {
+    this.frameHandle = this.timer.requestFrame(this.handleFrame);
+  }
+
+  private cancelFrame(): void {
+    if (this.frameHandle !== null) {
+      this.timer.cancelFrame(this.frameHandle);
+      this.frameHandle = null;
+    }
+  }
+}
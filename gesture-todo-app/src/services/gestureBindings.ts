@@ -0,0 +1,334 @@
+/** @format */
+
+import {
+  CustomGestureTemplate,
+  GestureActionType,
+  GestureBindings,
+  GestureType,
+  RecognizedGesture,
+} from "../types";
+import {
+  getCustomTemplateId,
+  isCustomGesture,
+  toCustomGestureId,
+} from "./customGestures";
+
+// Built-in poses and motions; custom gestures can be bound as well
+export type BindableGesture = Exclude<GestureType, "none">;
+export type BindingKey = keyof GestureBindings;
+
+export interface GestureDisplayInfo {
+  name: string;
+  description: string;
+  icon: string;
+  color: string;
+}
+
+export const BINDABLE_GESTURES: BindableGesture[] = [
+  "thumbs_up",
+  "peace_sign",
+  "fist",
+  "point_up",
+  "two_fingers",
+  "open_palm",
+  "swipe_left",
+  "swipe_right",
+  "swipe_up",
+  "swipe_down",
+  "circle_cw",
+  "circle_ccw",
+  "both_palms_open",
+  "fist_and_point",
+];
+
+export const GESTURE_ACTION_TYPES: GestureActionType[] = [
+  "add",
+  "complete",
+  "delete",
+  "navigate_up",
+  "navigate_down",
+  "page_up",
+  "page_down",
+  "clear_selection",
+  "undo",
+  "redo",
+  "cancel",
+  "toggle_pointer_mode",
+  "grab",
+  "next_list",
+  "previous_list",
+  "step_in",
+  "step_out",
+];
+
+// How many tasks page_up / page_down move the selection by
+export const SELECTION_PAGE_SIZE = 5;
+
+export const DEFAULT_GESTURE_BINDINGS: GestureBindings = {
+  thumbs_up: "add",
+  peace_sign: "complete",
+  fist: "delete",
+  point_up: "navigate_up",
+  two_fingers: "navigate_down",
+  open_palm: "cancel",
+  // Swiping flips through the lists either way
+  swipe_left: "next_list",
+  swipe_right: "previous_list",
+  swipe_up: "page_up",
+  swipe_down: "page_down",
+  // Winding back undoes. Redo stays on Ctrl+Shift+Z; it, step_in and
+  // step_out have no default gesture and are bound in the gesture settings.
+  circle_cw: "toggle_pointer_mode",
+  circle_ccw: "undo",
+  // Two-hand mode only
+  both_palms_open: "clear_selection",
+  fist_and_point: "grab",
+};
+
+// How each gesture is shown in guides and indicators
+export const GESTURE_DISPLAY_INFO: Record<GestureType, GestureDisplayInfo> = {
+  thumbs_up: {
+    name: "親指立て",
+    description: "Thumbs Up",
+    icon: "👍",
+    color: "text-green-500",
+  },
+  peace_sign: {
+    name: "ピースサイン",
+    description: "Peace Sign",
+    icon: "✌️",
+    color: "text-blue-500",
+  },
+  fist: {
+    name: "握りこぶし",
+    description: "Fist",
+    icon: "✊",
+    color: "text-red-500",
+  },
+  point_up: {
+    name: "人差し指立て",
+    description: "Point Up",
+    icon: "☝️",
+    color: "text-purple-500",
+  },
+  two_fingers: {
+    name: "2本指立て",
+    description: "Two Fingers",
+    icon: "🤞",
+    color: "text-purple-500",
+  },
+  open_palm: {
+    name: "開いた手のひら",
+    description: "Open Palm",
+    icon: "🖐️",
+    color: "text-gray-500",
+  },
+  swipe_left: {
+    name: "左スワイプ",
+    description: "Swipe Left",
+    icon: "⬅️",
+    color: "text-cyan-500",
+  },
+  swipe_right: {
+    name: "右スワイプ",
+    description: "Swipe Right",
+    icon: "➡️",
+    color: "text-cyan-500",
+  },
+  swipe_up: {
+    name: "上スワイプ",
+    description: "Swipe Up",
+    icon: "⬆️",
+    color: "text-cyan-500",
+  },
+  swipe_down: {
+    name: "下スワイプ",
+    description: "Swipe Down",
+    icon: "⬇️",
+    color: "text-cyan-500",
+  },
+  circle_cw: {
+    name: "右回りの円",
+    description: "Circle (Clockwise)",
+    icon: "🔃",
+    color: "text-cyan-500",
+  },
+  circle_ccw: {
+    name: "左回りの円",
+    description: "Circle (Counterclockwise)",
+    icon: "🔄",
+    color: "text-cyan-500",
+  },
+  both_palms_open: {
+    name: "両手を開く",
+    description: "Both Palms Open",
+    icon: "🙌",
+    color: "text-pink-500",
+  },
+  fist_and_point: {
+    name: "左手グー＋右手人差し指",
+    description: "Left Fist + Right Point",
+    icon: "✊☝️",
+    color: "text-pink-500",
+  },
+  none: {
+    name: "なし",
+    description: "None",
+    icon: "🤚",
+    color: "text-gray-400",
+  },
+};
+
+const CUSTOM_GESTURE_DISPLAY: Omit<GestureDisplayInfo, "name"> = {
+  description: "Custom",
+  icon: "✨",
+  color: "text-amber-500",
+};
+
+export function getGestureDisplayInfo(
+  gesture: RecognizedGesture,
+  customGestures: CustomGestureTemplate[] = []
+): GestureDisplayInfo {
+  if (!isCustomGesture(gesture)) {
+    return GESTURE_DISPLAY_INFO[gesture];
+  }
+
+  const templateId = getCustomTemplateId(gesture);
+  const template = customGestures.find((t) => t.id === templateId);
+  return { ...CUSTOM_GESTURE_DISPLAY, name: template?.name ?? "カスタム" };
+}
+
+// Built-in gestures followed by every trained custom gesture
+export function getBindingKeys(
+  customGestures: CustomGestureTemplate[] = []
+): BindingKey[] {
+  return [
+    ...BINDABLE_GESTURES,
+    ...customGestures.map((template) => toCustomGestureId(template.id)),
+  ];
+}
+
+// Keys present in a bindings table, in display order
+const bindingKeysOf = (bindings: GestureBindings): BindingKey[] => [
+  ...BINDABLE_GESTURES,
+  ...(Object.keys(bindings) as BindingKey[]).filter(isCustomGesture),
+];
+
+// `label` is used in the full guide, `shortLabel` in the compact overlay
+export const GESTURE_ACTION_INFO: Record<
+  GestureActionType,
+  { label: string; shortLabel: string }
+> = {
+  add: { label: "新しいタスクを追加", shortLabel: "新しいタスクを追加" },
+  complete: { label: "タスクを完了にする", shortLabel: "タスクを完了" },
+  delete: { label: "タスクを削除", shortLabel: "タスクを削除" },
+  navigate_up: { label: "上のタスクを選択", shortLabel: "上に移動" },
+  navigate_down: { label: "下のタスクを選択", shortLabel: "下に移動" },
+  page_up: {
+    label: `${SELECTION_PAGE_SIZE}件上のタスクを選択`,
+    shortLabel: `${SELECTION_PAGE_SIZE}件上に移動`,
+  },
+  page_down: {
+    label: `${SELECTION_PAGE_SIZE}件下のタスクを選択`,
+    shortLabel: `${SELECTION_PAGE_SIZE}件下に移動`,
+  },
+  clear_selection: { label: "選択を解除", shortLabel: "選択を解除" },
+  undo: { label: "直前の操作を元に戻す", shortLabel: "元に戻す" },
+  redo: { label: "元に戻した操作をやり直す", shortLabel: "やり直す" },
+  cancel: { label: "操作をキャンセル", shortLabel: "操作をキャンセル" },
+  toggle_pointer_mode: {
+    label: "ポインターモードとコマンドモードを切り替え",
+    shortLabel: "ポインターモード切替",
+  },
+  grab: {
+    label: "選択中のタスクをつかんで並べ替え・置く",
+    shortLabel: "タスクをつかむ",
+  },
+  next_list: { label: "次のリストに切り替え", shortLabel: "次のリスト" },
+  previous_list: { label: "前のリストに切り替え", shortLabel: "前のリスト" },
+  step_in: {
+    label: "選択中のタスクのサブタスクへ移動",
+    shortLabel: "サブタスクへ",
+  },
+  step_out: { label: "親タスクへ移動", shortLabel: "親タスクへ" },
+};
+
+export interface GestureBindingConflict {
+  action: GestureActionType;
+  gestures: BindingKey[];
+}
+
+export function getBoundAction(
+  bindings: GestureBindings,
+  gesture: RecognizedGesture
+): GestureActionType | null {
+  if (gesture === "none") {
+    return null;
+  }
+  return bindings[gesture] ?? null;
+}
+
+// First gesture bound to an action, e.g. for hint text
+export function findGestureForAction(
+  bindings: GestureBindings,
+  action: GestureActionType
+): BindingKey | null {
+  return bindingKeysOf(bindings).find((g) => bindings[g] === action) ?? null;
+}
+
+// An action bound to several gestures is ambiguous to users and is rejected
+export function findBindingConflicts(
+  bindings: GestureBindings
+): GestureBindingConflict[] {
+  const byAction = new Map<GestureActionType, BindingKey[]>();
+
+  for (const gesture of bindingKeysOf(bindings)) {
+    const action = bindings[gesture];
+    if (!action) continue;
+    byAction.set(action, [...(byAction.get(action) ?? []), gesture]);
+  }
+
+  return Array.from(byAction, ([action, gestures]) => ({
+    action,
+    gestures,
+  })).filter((conflict) => conflict.gestures.length > 1);
+}
+
+// Drop bindings of custom gestures that no longer exist
+export function pruneGestureBindings(
+  bindings: GestureBindings,
+  customGestures: CustomGestureTemplate[]
+): GestureBindings {
+  const known = new Set<string>(getBindingKeys(customGestures));
+  return Object.fromEntries(
+    Object.entries(bindings).filter(([key]) => known.has(key))
+  ) as GestureBindings;
+}
+
+// Merge a persisted (possibly stale or partial) table onto the defaults
+export function normalizeGestureBindings(value: unknown): GestureBindings {
+  const bindings = { ...DEFAULT_GESTURE_BINDINGS };
+
+  if (!value || typeof value !== "object") {
+    return bindings;
+  }
+
+  const stored = value as Record<string, unknown>;
+  const keys = [
+    ...BINDABLE_GESTURES,
+    ...Object.keys(stored).filter(isCustomGesture),
+  ];
+  for (const gesture of keys) {
+    const action = stored[gesture];
+    if (action === null) {
+      bindings[gesture] = null;
+    } else if (
+      typeof action === "string" &&
+      (GESTURE_ACTION_TYPES as string[]).includes(action)
+    ) {
+      bindings[gesture] = action as GestureActionType;
+    }
+  }
+
+  return bindings;
+}
@@ -0,0 +1,150 @@
+/** @format */
+
+import {
+  GestureActionType,
+  PendingConfirmation,
+  RecognizedGesture,
+} from "../types";
+import { stripUndefined } from "../utils";
+
+// Two-phase confirmation for destructive gesture actions. The first
+// detection arms the action; the confirm gesture, or keeping the arming pose
+// held, commits it; the abort gesture or the timeout drops it. Durations are
+// in milliseconds.
+export interface GestureConfirmationConfig {
+  enabled?: boolean;
+  // Actions that need confirming
+  actions?: GestureActionType[];
+  // An armed action is dropped after this long
+  timeout?: number;
+  // Keeping the arming pose held this long commits the action
+  holdDuration?: number;
+  confirmGesture?: RecognizedGesture;
+  abortGesture?: RecognizedGesture;
+}
+
+export const DEFAULT_CONFIRMATION_CONFIG: Required<GestureConfirmationConfig> =
+  {
+    enabled: true,
+    actions: ["delete"],
+    timeout: 3000,
+    holdDuration: 1500,
+    confirmGesture: "thumbs_up",
+    abortGesture: "open_palm",
+  };
+
+export type ConfirmationOutcome = "confirmed" | "aborted";
+
+export class GestureConfirmation {
+  private config: Required<GestureConfirmationConfig>;
+  private pending: PendingConfirmation | null = null;
+
+  constructor(config: GestureConfirmationConfig = {}) {
+    this.config = {
+      ...DEFAULT_CONFIRMATION_CONFIG,
+      ...stripUndefined(config),
+    };
+  }
+
+  requiresConfirmation(action: GestureActionType): boolean {
+    return this.config.enabled && this.config.actions.includes(action);
+  }
+
+  arm(
+    action: GestureActionType,
+    gesture: RecognizedGesture,
+    now: number,
+    taskId?: string
+  ): PendingConfirmation {
+    this.pending = {
+      action,
+      gesture,
+      taskId,
+      armedAt: now,
+      expiresAt: now + this.config.timeout,
+      // The pose is still held when the action is armed
+      heldSince: now,
+      holdDuration: this.config.holdDuration,
+      confirmGesture: this.config.confirmGesture,
+      abortGesture: this.config.abortGesture,
+    };
+    return this.pending;
+  }
+
+  // Route a fired gesture to the armed action. Returns null when nothing is
+  // armed or the gesture neither confirms nor aborts; while armed, callers
+  // should ignore such gestures rather than run their bound actions.
+  handleGesture(
+    gesture: RecognizedGesture,
+    now: number
+  ): ConfirmationOutcome | null {
+    const expired = this.expire(now);
+    if (expired || !this.pending) {
+      return expired;
+    }
+
+    if (gesture === this.config.confirmGesture) {
+      this.pending = null;
+      return "confirmed";
+    }
+    if (gesture === this.config.abortGesture) {
+      this.pending = null;
+      return "aborted";
+    }
+    return null;
+  }
+
+  // Feed the pose currently seen (every frame or on a timer) to track the
+  // hold and the timeout
+  update(
+    currentGesture: RecognizedGesture,
+    now: number
+  ): ConfirmationOutcome | null {
+    const expired = this.expire(now);
+    if (expired || !this.pending) {
+      return expired;
+    }
+
+    if (currentGesture !== this.pending.gesture) {
+      this.pending = { ...this.pending, heldSince: null };
+      return null;
+    }
+
+    const heldSince = this.pending.heldSince ?? now;
+    if (now - heldSince >= this.config.holdDuration) {
+      this.pending = null;
+      return "confirmed";
+    }
+    if (heldSince !== this.pending.heldSince) {
+      this.pending = { ...this.pending, heldSince };
+    }
+    return null;
+  }
+
+  private expire(now: number): ConfirmationOutcome | null {
+    if (this.pending && now >= this.pending.expiresAt) {
+      this.pending = null;
+      return "aborted";
+    }
+    return null;
+  }
+
+  getPending(): PendingConfirmation | null {
+    return this.pending;
+  }
+
+  cancel(): void {
+    this.pending = null;
+  }
+
+  updateConfig(config: GestureConfirmationConfig): void {
+    this.config = { ...this.config, ...stripUndefined(config) };
+    if (!this.config.enabled) {
+      this.pending = null;
+    }
+  }
+
+  getConfig(): Required<GestureConfirmationConfig> {
+    return { ...this.config };
+  }
+}
@@ -0,0 +1,23 @@
+/** @format */
+
+// Gesture recognition error types
+export class GestureRecognitionError extends Error {
+  constructor(message: string, public readonly cause?: Error) {
+    super(message);
+    this.name = "GestureRecognitionError";
+  }
+}
+
+export class MediaPipeInitializationError extends GestureRecognitionError {
+  constructor(message: string, cause?: Error) {
+    super(message, cause);
+    this.name = "MediaPipeInitializationError";
+  }
+}
+
+export class FrameProcessingError extends GestureRecognitionError {
+  constructor(message: string, cause?: Error) {
+    super(message, cause);
+    this.name = "FrameProcessingError";
+  }
+}
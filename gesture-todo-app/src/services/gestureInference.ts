@@ -0,0 +1,437 @@
+/** @format */
+
+import { CustomGestureTemplate, RecognizedGesture } from "../types";
+import {
+  FrameProcessingError,
+  GestureRecognitionError,
+  MediaPipeInitializationError,
+} from "./gestureErrors";
+import {
+  GestureRecognizer,
+  GestureRecognizerConfig,
+  LandmarkListener,
+} from "./gestureRecognizer";
+import type {
+  GestureRecognizerStats,
+  GestureWorkerEvent,
+  GestureWorkerRequest,
+} from "./gestureWorkerHost";
+import { LandmarkSource } from "./handPointer";
+import {
+  GestureScoresListener,
+  GestureScoresSource,
+  HandsListener,
+  HandsSource,
+} from "./landmarkStream";
+import { createDefaultModelAssetResolver } from "./modelAssets";
+
+// Recognition of camera frames, wherever it runs. Implemented by
+// GestureRecognizer on the main thread and WorkerGestureRecognizer.
+export interface GestureInference
+  extends LandmarkSource,
+    HandsSource,
+    GestureScoresSource {
+  processFrame(videoElement: HTMLVideoElement): Promise<void>;
+  updateConfig(config: Partial<GestureRecognizerConfig>): void;
+  setCustomGestures(templates: CustomGestureTemplate[]): void;
+  getStats(): GestureRecognizerStats;
+  isHealthy(): boolean;
+  dispose(): void;
+}
+
+// The part of a Worker used here, so tests can connect a host directly
+export interface GestureWorkerPort {
+  postMessage(message: GestureWorkerRequest, transfer?: Transferable[]): void;
+  onmessage: ((event: MessageEvent<GestureWorkerEvent>) => void) | null;
+  onerror: ((event: ErrorEvent) => void) | null;
+  terminate(): void;
+}
+
+// A classic worker, as MediaPipe Hands loads its wasm loader there with
+// importScripts(), which module workers lack. Vite bundles the worker script
+// into one file for it. The dev server does not bundle, so there the worker
+// runs as a module worker with importScripts() shimmed (see
+// importScriptsGlobally).
+export const createGestureWorker = (): GestureWorkerPort =>
+  import.meta.env.DEV
+    ? new Worker(new URL("./gestureRecognizer.worker.ts", import.meta.url), {
+        type: "module",
+      })
+    : new Worker(new URL("./gestureRecognizer.worker.ts", import.meta.url), {
+        type: "classic",
+      });
+
+// How long the worker gets to answer a frame, in milliseconds, and how many
+// frames in a row it may leave unanswered before recognition moves to the
+// main thread
+export const WORKER_FRAME_TIMEOUT = 2000;
+export const MAX_MISSED_WORKER_FRAMES = 3;
+
+// MediaPipe needs OffscreenCanvas for WebGL in a worker, and frames are
+// handed over as ImageBitmaps
+export const canUseGestureWorker = (): boolean =>
+  typeof Worker !== "undefined" &&
+  typeof OffscreenCanvas !== "undefined" &&
+  typeof createImageBitmap !== "undefined";
+
+const ERROR_TYPES: Record<string, typeof GestureRecognitionError> = {
+  MediaPipeInitializationError,
+  FrameProcessingError,
+};
+
+const toGestureError = (name: string, message: string) =>
+  new (ERROR_TYPES[name] ?? GestureRecognitionError)(message);
+
+// Sends frames to the gesture worker, which runs landmark detection and
+// classification there and posts the results back, keeping MediaPipe off
+// the UI thread. One frame is in flight at a time. Should the worker fail
+// once running, or stop answering frames, recognition moves to a
+// GestureRecognizer on the main thread, keeping the listeners, configuration
+// and custom gestures.
+export class WorkerGestureRecognizer implements GestureInference {
+  private readonly landmarkListeners = new Set<LandmarkListener>();
+  private readonly handsListeners = new Set<HandsListener>();
+  private readonly scoresListeners = new Set<GestureScoresListener>();
+  private stats: GestureRecognizerStats = {
+    lastGesture: "none",
+    confidence: 0,
+    frameCount: 0,
+    historyLength: 0,
+    scores: [],
+    inferenceCount: 0,
+    inferenceTime: 0,
+  };
+  private healthy = false;
+  private isDisposed = false;
+  private pendingInit: {
+    resolve: () => void;
+    reject: (error: GestureRecognitionError) => void;
+  } | null = null;
+  private pendingFrame: {
+    timestamp: number;
+    resolve: () => void;
+    timeout: ReturnType<typeof setTimeout>;
+  } | null = null;
+  private missedFrames = 0;
+  private customGestures: CustomGestureTemplate[] | null = null;
+  private hasWorkerFailed = false;
+  private fallback: GestureRecognizer | null = null;
+
+  constructor(
+    private readonly onGestureDetected: (gesture: RecognizedGesture) => void,
+    private readonly onError: (error: GestureRecognitionError) => void,
+    private config: GestureRecognizerConfig = {},
+    private readonly worker: GestureWorkerPort = createGestureWorker()
+  ) {
+    worker.onmessage = (event) => this.handleEvent(event.data);
+    // The worker script failed to load or threw outside a request
+    worker.onerror = (event) => {
+      const error = new MediaPipeInitializationError(
+        `Gesture worker failed: ${event.message}`
+      );
+      if (this.pendingInit) {
+        this.pendingInit.reject(error);
+        this.pendingInit = null;
+        this.finishFrame();
+      } else if (!this.isDisposed && !this.hasWorkerFailed) {
+        this.startFallback(error);
+      }
+    };
+  }
+
+  // Resolves once MediaPipe is running in the worker; errors before then
+  // reject rather than reaching the error callback
+  async initialize(): Promise<void> {
+    const { assetResolver = createDefaultModelAssetResolver(), ...config } =
+      this.config;
+    const assetBaseUrl = await assetResolver.getBaseUrl();
+
+    await new Promise<void>((resolve, reject) => {
+      this.pendingInit = { resolve, reject };
+      this.worker.postMessage({
+        type: "init",
+        config: { ...config, assetBaseUrl, assetSource: assetResolver.source },
+      });
+    });
+    this.healthy = true;
+  }
+
+  async processFrame(videoElement: HTMLVideoElement): Promise<void> {
+    if (this.fallback && !this.isDisposed) {
+      return this.fallback.processFrame(videoElement);
+    }
+    if (this.isDisposed || this.hasWorkerFailed || this.pendingFrame) {
+      return; // Skip frame while the worker is busy
+    }
+
+    if (!videoElement || videoElement.readyState === 0) {
+      throw new FrameProcessingError("Video element is not ready");
+    }
+
+    const image = await createImageBitmap(videoElement);
+    if (this.isDisposed) {
+      image.close();
+      return;
+    }
+
+    const timestamp = performance.now();
+    await new Promise<void>((resolve) => {
+      this.pendingFrame = {
+        timestamp,
+        resolve,
+        timeout: setTimeout(
+          () => this.handleFrameTimeout(),
+          WORKER_FRAME_TIMEOUT
+        ),
+      };
+      this.worker.postMessage({ type: "frame", image, timestamp }, [image]);
+    });
+  }
+
+  updateConfig(config: Partial<GestureRecognizerConfig>): void {
+    this.config = { ...this.config, ...config };
+    if (this.fallback) {
+      this.fallback.updateConfig(config);
+      return;
+    }
+    const { assetResolver: _assetResolver, ...rest } = config;
+    this.postToWorker({ type: "updateConfig", config: rest });
+  }
+
+  setCustomGestures(templates: CustomGestureTemplate[]): void {
+    this.customGestures = templates;
+    if (this.fallback) {
+      this.fallback.setCustomGestures(templates);
+      return;
+    }
+    this.postToWorker({ type: "setCustomGestures", templates });
+  }
+
+  // Returns a function that removes the listener
+  addLandmarkListener(listener: LandmarkListener): () => void {
+    this.landmarkListeners.add(listener);
+    return () => {
+      this.landmarkListeners.delete(listener);
+    };
+  }
+
+  // Returns a function that removes the listener
+  addHandsListener(listener: HandsListener): () => void {
+    this.handsListeners.add(listener);
+    return () => {
+      this.handsListeners.delete(listener);
+    };
+  }
+
+  // Returns a function that removes the listener
+  addScoresListener(listener: GestureScoresListener): () => void {
+    this.scoresListeners.add(listener);
+    return () => {
+      this.scoresListeners.delete(listener);
+    };
+  }
+
+  // Statistics as of the last processed frame
+  getStats(): GestureRecognizerStats {
+    if (!this.fallback) {
+      return this.stats;
+    }
+    // Frames the worker ran MediaPipe on before it failed still count
+    const stats = this.fallback.getStats();
+    return {
+      ...stats,
+      inferenceCount: this.stats.inferenceCount + stats.inferenceCount,
+      inferenceTime: this.stats.inferenceTime + stats.inferenceTime,
+    };
+  }
+
+  isHealthy(): boolean {
+    if (this.isDisposed) return false;
+    // Still healthy while the fallback starts, which skips frames meanwhile
+    return this.fallback?.isHealthy() ?? this.healthy;
+  }
+
+  dispose(): void {
+    if (this.isDisposed) return;
+    this.isDisposed = true;
+    this.postToWorker({ type: "dispose" });
+    this.worker.terminate();
+    this.pendingInit?.reject(
+      new MediaPipeInitializationError("Gesture worker was disposed")
+    );
+    this.pendingInit = null;
+    this.finishFrame();
+    this.fallback?.dispose();
+  }
+
+  // Carry on recognizing on the main thread after the worker failed. Errors
+  // starting MediaPipe here reach the error callback.
+  private async startFallback(cause: GestureRecognitionError): Promise<void> {
+    console.warn(
+      "Gesture worker failed, recognizing on the main thread:",
+      cause
+    );
+    this.hasWorkerFailed = true;
+    this.worker.terminate();
+    this.finishFrame();
+
+    const recognizer = new GestureRecognizer(
+      this.onGestureDetected,
+      this.onError,
+      this.customGestures
+        ? { ...this.config, customGestures: this.customGestures }
+        : this.config
+    );
+    recognizer.addLandmarkListener((landmarks, timestamp) =>
+      this.landmarkListeners.forEach((listener) =>
+        listener(landmarks, timestamp)
+      )
+    );
+    recognizer.addHandsListener((hands, timestamp, controlling) =>
+      this.handsListeners.forEach((listener) =>
+        listener(hands, timestamp, controlling)
+      )
+    );
+    recognizer.addScoresListener((scores, timestamp) =>
+      this.scoresListeners.forEach((listener) => listener(scores, timestamp))
+    );
+
+    try {
+      await recognizer.initialize();
+    } catch {
+      // Already reported through the error callback
+      this.healthy = false;
+      recognizer.dispose();
+      return;
+    }
+    if (this.isDisposed) {
+      recognizer.dispose();
+      return;
+    }
+    this.fallback = recognizer;
+  }
+
+  // Requests to a failed worker go nowhere
+  private postToWorker(request: GestureWorkerRequest): void {
+    if (!this.hasWorkerFailed) {
+      this.worker.postMessage(request);
+    }
+  }
+
+  private handleEvent(event: GestureWorkerEvent): void {
+    if (this.isDisposed || this.hasWorkerFailed) return;
+
+    switch (event.type) {
+      case "ready":
+        this.pendingInit?.resolve();
+        this.pendingInit = null;
+        break;
+
+      case "gesture":
+        this.onGestureDetected(event.gesture);
+        break;
+
+      case "hands":
+        this.handsListeners.forEach((listener) =>
+          listener(event.hands, event.timestamp, event.controlling)
+        );
+        break;
+
+      case "scores":
+        this.scoresListeners.forEach((listener) =>
+          listener(event.scores, event.timestamp)
+        );
+        break;
+
+      case "landmarks":
+        this.landmarkListeners.forEach((listener) =>
+          listener(event.landmarks, event.timestamp)
+        );
+        break;
+
+      case "frame":
+        this.stats = event.stats;
+        this.healthy = event.healthy;
+        // An answer after the frame timed out must not finish a newer frame
+        if (event.timestamp === this.pendingFrame?.timestamp) {
+          this.missedFrames = 0;
+          this.finishFrame();
+        }
+        break;
+
+      case "error": {
+        const error = toGestureError(event.name, event.message);
+        if (this.pendingInit) {
+          this.pendingInit.reject(error);
+          this.pendingInit = null;
+        } else {
+          this.onError(error);
+        }
+        break;
+      }
+    }
+  }
+
+  // The worker hung or dropped the frame. Skip it so that the next frame can
+  // be sent, and give up on the worker once it keeps missing frames.
+  private handleFrameTimeout(): void {
+    this.finishFrame();
+    this.missedFrames++;
+    if (
+      this.missedFrames >= MAX_MISSED_WORKER_FRAMES &&
+      !this.isDisposed &&
+      !this.hasWorkerFailed
+    ) {
+      this.startFallback(
+        new FrameProcessingError(
+          `Gesture worker did not answer ${this.missedFrames} frames in a row`
+        )
+      );
+    }
+  }
+
+  private finishFrame(): void {
+    const pending = this.pendingFrame;
+    this.pendingFrame = null;
+    if (pending) {
+      clearTimeout(pending.timeout);
+      pending.resolve();
+    }
+  }
+}
+
+// Start recognizing gestures in `videoElement`, in the gesture worker where
+// the browser supports it. Falls back to the main thread when it does not,
+// when the worker cannot start MediaPipe or when it fails later on.
+export async function startGestureRecognition(
+  videoElement: HTMLVideoElement,
+  onGestureDetected: (gesture: RecognizedGesture) => void,
+  onError: (error: GestureRecognitionError) => void,
+  config: GestureRecognizerConfig = {},
+  createWorker: (() => GestureWorkerPort) | null = canUseGestureWorker()
+    ? createGestureWorker
+    : null
+): Promise<GestureInference> {
+  if (createWorker) {
+    const recognizer = new WorkerGestureRecognizer(
+      onGestureDetected,
+      onError,
+      config,
+      createWorker()
+    );
+    try {
+      await recognizer.initialize();
+      return recognizer;
+    } catch (error) {
+      console.warn(
+        "Gesture worker could not start, recognizing on the main thread:",
+        error
+      );
+      recognizer.dispose();
+    }
+  }
+
+  const recognizer = new GestureRecognizer(onGestureDetected, onError, config);
+  await recognizer.initialize(videoElement);
+  return recognizer;
+}
@@ -1,101 +1,193 @@
 /** @format */
 
 import { Hands, Results, NormalizedLandmark } from "@mediapipe/hands";
-import { GestureType } from "../types";
+import {
+  CustomGestureTemplate,
+  GestureScore,
+  HandPoseType,
+  RecognizedGesture,
+  TwoHandGestureType,
+} from "../types";
+import {
+  GestureRecognitionError,
+  MediaPipeInitializationError,
+  FrameProcessingError,
+} from "./gestureErrors";
+import {
+  AssetIntegrityMode,
+  ModelAssetResolver,
+  createDefaultModelAssetResolver,
+  createLocateFile,
+  verifyModelAssets,
+} from "./modelAssets";
+import {
+  GestureStabilizer,
+  GestureStabilizerConfig,
+} from "./gestureStabilizer";
+import { CustomGestureClassifier, CustomGestureMatch } from "./customGestures";
+import { MotionTracker, MotionTrackerConfig } from "./motionTracker";
+import { HandTracker, TrackedHand } from "./handTracker";
+import type { GestureScoresListener, HandsListener } from "./landmarkStream";
+import {
+  HAND_LANDMARK_COUNT,
+  HandLandmarks,
+  HandednessLabel,
+  INDEX_TIP,
+  Point3D,
+  WRIST,
+  angleBetween,
+  bendAngle,
+  distance,
+  getHandedness,
+  normalizeLandmarks,
+  vector,
+} from "./landmarkFeatures";
+
+export {
+  GestureRecognitionError,
+  MediaPipeInitializationError,
+  FrameProcessingError,
+};
+
+// A finger bent further than this (degrees) at its knuckle counts as folded
+const MAX_EXTENDED_FLEXION = 50;
+// Index and middle fingers further apart than this (degrees) are spread
+const MIN_SPREAD_ANGLE = 15;
+// MediaPipe detects more hands than can be in control, so that an extra hand
+// in the frame cannot displace a controlling one
+const detectedHands = (twoHandMode: boolean) => (twoHandMode ? 4 : 2);
+// Gesture scores are soft versions of the classification rules: a
+// measurement this far past its threshold scores 73% (50% right at it)
+const FLEXION_SCORE_SCALE = 8; // degrees
+const SPREAD_SCORE_SCALE = 4; // degrees
+const THUMB_REACH_SCORE_SCALE = 0.1; // tip/MCP distance ratio
+const PALM_OPEN_SCORE_SCALE = 0.1; // palm lengths
+
+const logistic = (x: number) => 1 / (1 + Math.exp(-x));
+
+// Distribution of the number of true events among independent ones
+const countDistribution = (probabilities: number[]): number[] =>
+  probabilities.reduce(
+    (counts, p) =>
+      [...counts, 0].map(
+        (q, n) => q * (1 - p) + (n > 0 ? counts[n - 1] * p : 0)
+      ),
+    [1]
+  );
 
-// Gesture recognition error types
-export class GestureRecognitionError extends Error {
-  constructor(message: string, public readonly cause?: Error) {
-    super(message);
-    this.name = "GestureRecognitionError";
-  }
-}
+const byScore = (a: GestureScore, b: GestureScore) => b.score - a.score;
 
-export class MediaPipeInitializationError extends GestureRecognitionError {
-  constructor(message: string, cause?: Error) {
-    super(message, cause);
-    this.name = "MediaPipeInitializationError";
-  }
-}
-
-export class FrameProcessingError extends GestureRecognitionError {
-  constructor(message: string, cause?: Error) {
-    super(message, cause);
-    this.name = "FrameProcessingError";
-  }
-}
+// Receives the landmarks of the controlling hand (null without one) every
+// frame, e.g. to drive the hand pointer
+export type LandmarkListener = (
+  landmarks: NormalizedLandmark[] | null,
+  timestamp: number
+) => void;
 
 // Gesture recognition service with MediaPipe Hands integration
-interface GestureRecognizerConfig {
-  confidenceThreshold?: number;
-  debounceFrames?: number;
-  historySize?: number;
+export interface GestureRecognizerConfig extends GestureStabilizerConfig {
   sensitivity?: number;
   maxRetries?: number;
   retryDelay?: number;
+  assetResolver?: ModelAssetResolver;
+  assetIntegrity?: AssetIntegrityMode;
+  // User-trained gestures, matched before the built-in rules
+  customGestures?: CustomGestureTemplate[];
+  // Swipe and circle recognition
+  motion?: MotionTrackerConfig;
+  // Let a left/right pair of hands control recognition and recognize
+  // two-handed poses
+  twoHandMode?: boolean;
 }
 
 export class GestureRecognizer {
-  private readonly onGestureDetected: (gesture: GestureType) => void;
+  private readonly onGestureDetected: (gesture: RecognizedGesture) => void;
   private readonly onError: (error: GestureRecognitionError) => void;
   private hands: Hands | null = null;
   private isInitialized = false;
-  private lastGesture: GestureType = "none";
-  private gestureConfidence = 0;
-  private readonly confidenceThreshold: number;
-  private readonly debounceFrames: number;
+  private readonly stabilizer: GestureStabilizer;
+  private readonly customClassifier: CustomGestureClassifier;
+  private readonly motionTracker: MotionTracker;
+  private readonly handTracker: HandTracker;
+  private twoHandMode: boolean;
   private frameCount = 0;
-  private gestureHistory: GestureType[] = [];
-  private readonly historySize: number;
-  private readonly sensitivity: number;
-  private readonly maxRetries: number;
-  private readonly retryDelay: number;
+  // MediaPipe runs over the recognizer's lifetime, kept across dispose()
+  private inferenceCount = 0;
+  private inferenceTime = 0;
+  private sensitivity: number;
+  private maxRetries: number;
+  private retryDelay: number;
+  private readonly assetResolver: ModelAssetResolver;
+  private readonly assetIntegrity: AssetIntegrityMode;
   private retryCount = 0;
   private isProcessing = false;
   private consecutiveErrors = 0;
   private readonly maxConsecutiveErrors = 10;
+  private readonly landmarkListeners = new Set<LandmarkListener>();
+  private readonly handsListeners = new Set<HandsListener>();
+  private readonly scoresListeners = new Set<GestureScoresListener>();
+  private lastScores: GestureScore[] = [];
 
   constructor(
-    onGestureDetected: (gesture: GestureType) => void,
+    onGestureDetected: (gesture: RecognizedGesture) => void,
     onError: (error: GestureRecognitionError) => void,
     config: GestureRecognizerConfig = {}
   ) {
     this.onGestureDetected = onGestureDetected;
     this.onError = onError;
-    this.confidenceThreshold = config.confidenceThreshold ?? 0.8;
-    this.debounceFrames = config.debounceFrames ?? 8;
-    this.historySize = config.historySize ?? 10;
+    this.stabilizer = new GestureStabilizer({
+      confidenceThreshold: config.confidenceThreshold,
+      holdDuration: config.holdDuration,
+      cooldown: config.cooldown,
+      requireRelease: config.requireRelease,
+      releaseDuration: config.releaseDuration,
+      historySize: config.historySize,
+    });
+    this.customClassifier = new CustomGestureClassifier(config.customGestures);
+    this.motionTracker = new MotionTracker(config.motion);
+    this.twoHandMode = config.twoHandMode ?? false;
+    this.handTracker = new HandTracker({
+      maxHands: this.twoHandMode ? 2 : 1,
+    });
     this.sensitivity = config.sensitivity ?? 1.0;
     this.maxRetries = config.maxRetries ?? 3;
     this.retryDelay = config.retryDelay ?? 1000;
+    this.assetResolver =
+      config.assetResolver ?? createDefaultModelAssetResolver();
+    this.assetIntegrity = config.assetIntegrity ?? "sha256";
   }
 
-  async initialize(videoElement: HTMLVideoElement): Promise<void> {
+  // Without a video element (e.g. in the gesture worker) frames are passed
+  // to processFrame() as images
+  async initialize(videoElement?: HTMLVideoElement): Promise<void> {
     try {
       // Check if MediaPipe is available
       if (typeof Hands === "undefined") {
         throw new MediaPipeInitializationError(
-          "MediaPipe Hands library is not available. Please check your internet connection."
+          "MediaPipe Hands library is not available."
         );
       }
 
       // Check if video element is valid
-      if (!videoElement || videoElement.readyState === 0) {
+      if (
+        videoElement !== undefined &&
+        (!videoElement || videoElement.readyState === 0)
+      ) {
         throw new MediaPipeInitializationError(
           "Video element is not ready or invalid"
         );
       }
 
+      // Make sure the model files are present before MediaPipe fetches them
+      await verifyModelAssets(this.assetResolver, this.assetIntegrity);
+      const locateFile = await createLocateFile(this.assetResolver);
+
       // Initialize MediaPipe Hands with error handling
-      this.hands = new Hands({
-        locateFile: (file) => {
-          return `https://cdn.jsdelivr.net/npm/@mediapipe/hands/${file}`;
-        },
-      });
+      this.hands = new Hands({ locateFile });
 
       // Configure MediaPipe Hands options
       this.hands.setOptions({
-        maxNumHands: 1,
+        maxNumHands: detectedHands(this.twoHandMode),
         modelComplexity: 1,
         minDetectionConfidence: 0.5,
         minTrackingConfidence: 0.5,
@@ -104,11 +196,18 @@ export class GestureRecognizer {
       // Set up results callback with error handling
       this.hands.onResults(this.onResultsWithErrorHandling.bind(this));
 
+      // Load the model now rather than on the first frame, so that a model
+      // that cannot load fails initialization
+      await this.hands.initialize();
+
       this.isInitialized = true;
       this.retryCount = 0;
       this.consecutiveErrors = 0;
       console.log("GestureRecognizer initialized successfully");
     } catch (error) {
+      this.hands?.close();
+      this.hands = null;
+
       const gestureError =
         error instanceof GestureRecognitionError
           ? error
@@ -155,61 +254,130 @@ export class GestureRecognizer {
   }
 
   private onResults(results: Results): void {
-    if (
-      !results.multiHandLandmarks ||
-      results.multiHandLandmarks.length === 0
-    ) {
-      // No hands detected
-      this.handleGestureDetection("none");
-      return;
-    }
+    const hands = (results.multiHandLandmarks ?? []).map(
+      (landmarks, index) => ({
+        landmarks,
+        handedness: getHandedness(results, index),
+      })
+    );
+    this.processHands(hands);
+  }
 
-    // Get the first hand's landmarks
-    const landmarks = results.multiHandLandmarks[0];
+  // Classify all hands seen in one frame. Only the controlling hands are
+  // used: one hand, or in two-hand mode a left/right pair, which keeps
+  // control when another person's hand enters the frame.
+  processHands(
+    hands: HandLandmarks[],
+    timestamp: number = performance.now()
+  ): RecognizedGesture {
+    const tracked = this.handTracker.update(hands, timestamp);
+    // In two-hand mode, the hand that took control first
+    const controlling = tracked[0] ?? null;
+    this.handsListeners.forEach((listener) =>
+      listener(hands, timestamp, controlling)
+    );
+    this.landmarkListeners.forEach((listener) =>
+      listener(controlling?.landmarks ?? null, timestamp)
+    );
 
-    // Classify the gesture (basic implementation for task 5)
-    // Full gesture classification will be implemented in task 6
-    const gesture = this.classifyGesture(landmarks);
-    this.handleGestureDetection(gesture);
+    if (this.twoHandMode && tracked.length === 2) {
+      return this.processHandPair(tracked, timestamp);
+    }
+
+    const [hand] = tracked;
+    return this.processLandmarks(
+      hand?.landmarks ?? null,
+      timestamp,
+      hand?.handedness
+    );
   }
 
-  private handleGestureDetection(gesture: GestureType): void {
-    this.frameCount++;
+  private processHandPair(
+    [first, second]: TrackedHand[],
+    timestamp: number
+  ): RecognizedGesture {
+    const [left, right] =
+      first.handedness === "Right" || second.handedness === "Left"
+        ? [second, first]
+        : [first, second];
+    const gesture =
+      this.classifyTwoHandGesture(
+        this.classifyGesture(left.landmarks, left.handedness),
+        this.classifyGesture(right.landmarks, right.handedness)
+      ) ?? "none";
+    this.publishScores(
+      this.scoreTwoHandGestures(
+        this.scoreGestures(left.landmarks, left.handedness),
+        this.scoreGestures(right.landmarks, right.handedness)
+      ),
+      timestamp
+    );
 
-    // Add to gesture history
-    this.gestureHistory.push(gesture);
-    if (this.gestureHistory.length > this.historySize) {
-      this.gestureHistory.shift();
-    }
+    // Motions are made with one hand
+    this.motionTracker.push(null, timestamp);
+    this.handleGestureDetection(gesture, timestamp);
+    return gesture;
+  }
 
-    // Calculate confidence based on consistency in recent history
-    const recentGestures = this.gestureHistory.slice(-this.debounceFrames);
-    const gestureCount = recentGestures.filter((g) => g === gesture).length;
-    const currentConfidence = gestureCount / recentGestures.length;
+  // Classify one frame of landmarks and run it through stabilization.
+  // Used by the MediaPipe results callback and by headless replays, which
+  // pass the recorded frame timestamp and handedness.
+  // Returns the hand pose seen in this frame; motion gestures are only
+  // reported through the callback.
+  processLandmarks(
+    landmarks: NormalizedLandmark[] | null,
+    timestamp: number = performance.now(),
+    handedness?: HandednessLabel
+  ): RecognizedGesture {
+    // No hands detected
+    const customMatch =
+      landmarks && this.customClassifier.classify(landmarks, handedness);
+    const gesture = landmarks
+      ? customMatch?.gesture ?? this.classifyGesture(landmarks, handedness)
+      : "none";
+    this.publishScores(
+      this.scoreGestures(landmarks, handedness, customMatch),
+      timestamp
+    );
 
-    if (gesture === this.lastGesture) {
-      this.gestureConfidence = Math.min(
-        this.gestureConfidence + 0.1,
-        currentConfidence
-      );
+    const motion = this.motionTracker.push(
+      landmarks && landmarks.length >= HAND_LANDMARK_COUNT
+        ? { wrist: landmarks[WRIST], indexTip: landmarks[INDEX_TIP] }
+        : null,
+      timestamp
+    );
+
+    if (motion) {
+      this.frameCount++;
+      // Whatever pose was held during the movement must not fire as well
+      this.stabilizer.reset();
+      this.onGestureDetected(motion);
     } else {
-      this.gestureConfidence = currentConfidence;
-      this.lastGesture = gesture;
+      // Poses only count while the hand is held still
+      this.handleGestureDetection(
+        this.motionTracker.isMoving() ? "none" : gesture,
+        timestamp
+      );
     }
+    return gesture;
+  }
 
-    // Only trigger callback if gesture is stable and confident
-    if (
-      this.gestureConfidence >= this.confidenceThreshold &&
-      this.frameCount % this.debounceFrames === 0 &&
-      gesture !== "none"
-    ) {
-      this.onGestureDetected(gesture);
-      // Reset confidence after successful detection to prevent rapid firing
-      this.gestureConfidence = 0;
+  private handleGestureDetection(
+    gesture: RecognizedGesture,
+    timestamp: number = performance.now()
+  ): void {
+    this.frameCount++;
+
+    // Only trigger callback once the gesture is held, confident and not
+    // blocked by the cooldown / release rules
+    const fired = this.stabilizer.push(gesture, timestamp);
+    if (fired) {
+      this.onGestureDetected(fired);
     }
   }
 
-  async processFrame(videoElement: HTMLVideoElement): Promise<void> {
+  // `image` is the camera video, or a frame of it transferred to the worker
+  async processFrame(image: HTMLVideoElement | ImageBitmap): Promise<void> {
     if (!this.hands || !this.isInitialized) {
       throw new GestureRecognitionError("GestureRecognizer not initialized");
     }
@@ -222,11 +390,16 @@ export class GestureRecognizer {
 
     try {
       // Check if video element is still valid
-      if (!videoElement || videoElement.readyState === 0) {
+      if (!image || ("readyState" in image && image.readyState === 0)) {
         throw new FrameProcessingError("Video element is not ready");
       }
 
-      await this.hands.send({ image: videoElement });
+      // MediaPipe uploads any texture source, although only DOM elements
+      // are in its typings
+      const startedAt = performance.now();
+      await this.hands.send({ image: image as unknown as HTMLCanvasElement });
+      this.inferenceCount++;
+      this.inferenceTime += performance.now() - startedAt;
     } catch (error) {
       const frameError = new FrameProcessingError(
         `Error processing frame: ${
@@ -260,33 +433,43 @@ export class GestureRecognizer {
     }
   }
 
-  private classifyGesture(landmarks: NormalizedLandmark[]): GestureType {
-    if (!landmarks || landmarks.length < 21) {
+  private classifyGesture(
+    landmarks: NormalizedLandmark[],
+    handedness?: HandednessLabel
+  ): HandPoseType {
+    // Work in the palm-aligned frame so that the position, size, rotation
+    // and handedness of the hand do not affect the result
+    const hand = landmarks ? normalizeLandmarks(landmarks, handedness) : null;
+    if (!hand) {
       return "none";
     }
 
     // Get finger positions
-    const fingerTips = this.getFingerTipPositions(landmarks);
-    const fingerMcps = this.getFingerMcpPositions(landmarks);
-    const wrist = landmarks[0];
+    const fingerTips = this.getFingerTipPositions(hand);
+    const fingerMcps = this.getFingerMcpPositions(hand);
+    const wrist = hand[WRIST];
 
     // Check which fingers are extended
-    const isThumbExtended = this.isThumbExtended(landmarks);
+    const isThumbExtended = this.isThumbExtended(hand);
     const isIndexExtended = this.isFingerExtended(
       fingerTips.index,
-      fingerMcps.index
+      fingerMcps.index,
+      wrist
     );
     const isMiddleExtended = this.isFingerExtended(
       fingerTips.middle,
-      fingerMcps.middle
+      fingerMcps.middle,
+      wrist
     );
     const isRingExtended = this.isFingerExtended(
       fingerTips.ring,
-      fingerMcps.ring
+      fingerMcps.ring,
+      wrist
     );
     const isPinkyExtended = this.isFingerExtended(
       fingerTips.pinky,
-      fingerMcps.pinky
+      fingerMcps.pinky,
+      wrist
     );
 
     // Count extended fingers
@@ -298,9 +481,10 @@ export class GestureRecognizer {
       isPinkyExtended,
     ].filter(Boolean).length;
 
-    // Gesture classification logic
+    // Gesture classification logic. Gestures are defined by hand shape
+    // alone, so they are recognized at any wrist rotation.
 
-    // Thumbs up: Only thumb extended, pointing up
+    // Thumbs up: Only thumb extended
     if (
       isThumbExtended &&
       !isIndexExtended &&
@@ -308,12 +492,11 @@ export class GestureRecognizer {
       !isRingExtended &&
       !isPinkyExtended
     ) {
-      if (this.isThumbPointingUp(landmarks)) {
-        return "thumbs_up";
-      }
+      return "thumbs_up";
     }
 
-    // Peace sign: Index and middle fingers extended, others folded
+    // Index and middle fingers extended, others folded: a peace sign when
+    // spread apart, two fingers when held together
     if (
       !isThumbExtended &&
       isIndexExtended &&
@@ -321,12 +504,17 @@ export class GestureRecognizer {
       !isRingExtended &&
       !isPinkyExtended
     ) {
-      if (this.areFingersSpread(fingerTips.index, fingerTips.middle)) {
-        return "peace_sign";
-      }
+      return this.areFingersSpread(
+        fingerMcps.index,
+        fingerTips.index,
+        fingerMcps.middle,
+        fingerTips.middle
+      )
+        ? "peace_sign"
+        : "two_fingers";
     }
 
-    // Point up: Only index finger extended, pointing up
+    // Point up: Only index finger extended
     if (
       !isThumbExtended &&
       isIndexExtended &&
@@ -334,22 +522,7 @@ export class GestureRecognizer {
       !isRingExtended &&
       !isPinkyExtended
     ) {
-      if (this.isFingerPointingUp(fingerTips.index, wrist)) {
-        return "point_up";
-      }
-    }
-
-    // Two fingers (index + middle): Index and middle extended, close together
-    if (
-      !isThumbExtended &&
-      isIndexExtended &&
-      isMiddleExtended &&
-      !isRingExtended &&
-      !isPinkyExtended
-    ) {
-      if (!this.areFingersSpread(fingerTips.index, fingerTips.middle)) {
-        return "two_fingers";
-      }
+      return "point_up";
     }
 
     // Fist: No fingers extended (or very few)
@@ -359,7 +532,7 @@ export class GestureRecognizer {
 
     // Open palm: All or most fingers extended
     if (extendedFingers >= 4) {
-      if (this.isPalmOpen(landmarks)) {
+      if (this.isPalmOpen(hand)) {
         return "open_palm";
       }
     }
@@ -367,6 +540,103 @@ export class GestureRecognizer {
     return "none";
   }
 
+  // How likely each hand pose is, from the same measurements as
+  // classifyGesture(). A matched custom gesture takes its own score; the
+  // hand poses share the rest.
+  private scoreGestures(
+    landmarks: NormalizedLandmark[] | null,
+    handedness?: HandednessLabel,
+    customMatch?: CustomGestureMatch | null
+  ): GestureScore[] {
+    const hand = landmarks ? normalizeLandmarks(landmarks, handedness) : null;
+    if (!hand) {
+      return [{ gesture: "none", score: 1 }];
+    }
+
+    const fingerTips = this.getFingerTipPositions(hand);
+    const fingerMcps = this.getFingerMcpPositions(hand);
+    const wrist = hand[WRIST];
+    const [thumb, index, middle, ring, pinky] = [
+      this.scoreThumbExtended(hand),
+      this.scoreFingerExtended(fingerTips.index, fingerMcps.index, wrist),
+      this.scoreFingerExtended(fingerTips.middle, fingerMcps.middle, wrist),
+      this.scoreFingerExtended(fingerTips.ring, fingerMcps.ring, wrist),
+      this.scoreFingerExtended(fingerTips.pinky, fingerMcps.pinky, wrist),
+    ];
+    const counts = countDistribution([thumb, index, middle, ring, pinky]);
+    const spread = this.scoreFingersSpread(
+      fingerMcps.index,
+      fingerTips.index,
+      fingerMcps.middle,
+      fingerTips.middle
+    );
+
+    const thumbsUp =
+      thumb * (1 - index) * (1 - middle) * (1 - ring) * (1 - pinky);
+    const pointUp =
+      (1 - thumb) * index * (1 - middle) * (1 - ring) * (1 - pinky);
+    const twoExtended = (1 - thumb) * index * middle * (1 - ring) * (1 - pinky);
+    const poses: Record<Exclude<HandPoseType, "none">, number> = {
+      thumbs_up: thumbsUp,
+      peace_sign: twoExtended * spread,
+      two_fingers: twoExtended * (1 - spread),
+      point_up: pointUp,
+      // At most one finger, unless it makes a thumbs up or points up
+      fist: Math.max(0, counts[0] + counts[1] - thumbsUp - pointUp),
+      open_palm: (counts[4] + counts[5]) * this.scorePalmOpen(hand),
+    };
+
+    const customScore = customMatch?.score ?? 0;
+    const scores: GestureScore[] = Object.entries(poses).map(
+      ([gesture, score]) => ({
+        gesture: gesture as HandPoseType,
+        score: score * (1 - customScore),
+      })
+    );
+    if (customMatch) {
+      scores.push({ gesture: customMatch.gesture, score: customScore });
+    }
+    const total = scores.reduce((sum, { score }) => sum + score, 0);
+    scores.push({ gesture: "none", score: Math.max(0, 1 - total) });
+    return scores.sort(byScore);
+  }
+
+  // Two-hand gestures from the pose scores of each hand
+  private scoreTwoHandGestures(
+    left: GestureScore[],
+    right: GestureScore[]
+  ): GestureScore[] {
+    const scoreOf = (scores: GestureScore[], gesture: HandPoseType) =>
+      scores.find((s) => s.gesture === gesture)?.score ?? 0;
+    const bothPalmsOpen =
+      scoreOf(left, "open_palm") * scoreOf(right, "open_palm");
+    const fistAndPoint = scoreOf(left, "fist") * scoreOf(right, "point_up");
+
+    return [
+      { gesture: "both_palms_open" as const, score: bothPalmsOpen },
+      { gesture: "fist_and_point" as const, score: fistAndPoint },
+      { gesture: "none" as const, score: 1 - bothPalmsOpen - fistAndPoint },
+    ].sort(byScore);
+  }
+
+  private publishScores(scores: GestureScore[], timestamp: number): void {
+    this.lastScores = scores;
+    this.scoresListeners.forEach((listener) => listener(scores, timestamp));
+  }
+
+  private classifyTwoHandGesture(
+    left: HandPoseType,
+    right: HandPoseType
+  ): TwoHandGestureType | null {
+    if (left === "open_palm" && right === "open_palm") {
+      return "both_palms_open";
+    }
+    if (left === "fist" && right === "point_up") {
+      return "fist_and_point";
+    }
+    return null;
+  }
+
   dispose(): void {
     try {
       if (this.hands) {
@@ -378,16 +648,42 @@ export class GestureRecognizer {
     }
 
     this.isInitialized = false;
-    this.lastGesture = "none";
-    this.gestureConfidence = 0;
+    this.stabilizer.reset();
+    this.motionTracker.reset();
+    this.handTracker.reset();
     this.frameCount = 0;
-    this.gestureHistory = [];
+    this.lastScores = [];
     this.retryCount = 0;
     this.consecutiveErrors = 0;
     this.isProcessing = false;
     console.log("GestureRecognizer disposed");
   }
 
+  // Returns a function that removes the listener
+  addLandmarkListener(listener: LandmarkListener): () => void {
+    this.landmarkListeners.add(listener);
+    return () => {
+      this.landmarkListeners.delete(listener);
+    };
+  }
+
+  // Returns a function that removes the listener
+  addHandsListener(listener: HandsListener): () => void {
+    this.handsListeners.add(listener);
+    return () => {
+      this.handsListeners.delete(listener);
+    };
+  }
+
+  // Receives the score of every gesture for each classified frame, highest
+  // first. Returns a function that removes the listener.
+  addScoresListener(listener: GestureScoresListener): () => void {
+    this.scoresListeners.add(listener);
+    return () => {
+      this.scoresListeners.delete(listener);
+    };
+  }
+
   // Health check method
   isHealthy(): boolean {
     return (
@@ -412,132 +708,239 @@ export class GestureRecognizer {
     };
   }
 
-  // Utility methods for gesture classification (to be used in task 6)
-  protected getFingerTipPositions(landmarks: NormalizedLandmark[]) {
+  // Utility methods for gesture classification. They take landmarks in
+  // the palm-aligned frame produced by normalizeLandmarks().
+  protected getFingerTipPositions(hand: Point3D[]) {
     return {
-      thumb: landmarks[4],
-      index: landmarks[8],
-      middle: landmarks[12],
-      ring: landmarks[16],
-      pinky: landmarks[20],
+      thumb: hand[4],
+      index: hand[8],
+      middle: hand[12],
+      ring: hand[16],
+      pinky: hand[20],
     };
   }
 
-  protected getFingerMcpPositions(landmarks: NormalizedLandmark[]) {
+  protected getFingerMcpPositions(hand: Point3D[]) {
     return {
-      thumb: landmarks[2],
-      index: landmarks[5],
-      middle: landmarks[9],
-      ring: landmarks[13],
-      pinky: landmarks[17],
+      thumb: hand[2],
+      index: hand[5],
+      middle: hand[9],
+      ring: hand[13],
+      pinky: hand[17],
     };
   }
 
   protected isFingerExtended(
-    tipLandmark: NormalizedLandmark,
-    mcpLandmark: NormalizedLandmark
+    tip: Point3D,
+    mcp: Point3D,
+    wrist: Point3D
   ): boolean {
-    // Simple check: finger is extended if tip is higher than MCP joint
-    return tipLandmark.y < mcpLandmark.y;
+    // Flexion of the finger relative to its metacarpal bone: close to 0°
+    // when straight, well over 90° when curled into the palm
+    return bendAngle(wrist, mcp, tip) < MAX_EXTENDED_FLEXION;
   }
 
-  protected isThumbExtended(landmarks: NormalizedLandmark[]): boolean {
-    // Thumb extension is different - check horizontal distance from wrist
-    const thumbTip = landmarks[4];
-    const thumbMcp = landmarks[2];
-    const wrist = landmarks[0];
+  protected isThumbExtended(hand: Point3D[]): boolean {
+    const thumbTip = hand[4];
+    const thumbMcp = hand[2];
+    const wrist = hand[WRIST];
 
-    // Thumb is extended if tip is further from wrist than MCP joint
-    const tipDistance = Math.sqrt(
-      Math.pow(thumbTip.x - wrist.x, 2) + Math.pow(thumbTip.y - wrist.y, 2)
-    );
-    const mcpDistance = Math.sqrt(
-      Math.pow(thumbMcp.x - wrist.x, 2) + Math.pow(thumbMcp.y - wrist.y, 2)
+    // The thumb is extended when it is roughly straight and its tip is
+    // clearly further from the wrist than its MCP joint
+    return (
+      bendAngle(wrist, thumbMcp, thumbTip) < MAX_EXTENDED_FLEXION &&
+      distance(thumbTip, wrist) > distance(thumbMcp, wrist) * 1.2
     );
+  }
 
-    return tipDistance > mcpDistance * 1.2;
+  // Soft versions of the checks above, from 0 to 1
+  protected scoreFingerExtended(
+    tip: Point3D,
+    mcp: Point3D,
+    wrist: Point3D
+  ): number {
+    return logistic(
+      (MAX_EXTENDED_FLEXION - bendAngle(wrist, mcp, tip)) / FLEXION_SCORE_SCALE
+    );
   }
 
-  protected isThumbPointingUp(landmarks: NormalizedLandmark[]): boolean {
-    const thumbTip = landmarks[4];
-    const thumbMcp = landmarks[2];
+  protected scoreThumbExtended(hand: Point3D[]): number {
+    const thumbTip = hand[4];
+    const thumbMcp = hand[2];
+    const wrist = hand[WRIST];
+    const reach = distance(thumbTip, wrist) / distance(thumbMcp, wrist);
+
+    return (
+      logistic(
+        (MAX_EXTENDED_FLEXION - bendAngle(wrist, thumbMcp, thumbTip)) /
+          FLEXION_SCORE_SCALE
+      ) * logistic((reach - 1.2) / THUMB_REACH_SCORE_SCALE)
+    );
+  }
 
-    // Thumb is pointing up if tip is significantly higher than MCP
-    return thumbTip.y < thumbMcp.y - 0.05;
+  protected scoreFingersSpread(
+    mcp1: Point3D,
+    tip1: Point3D,
+    mcp2: Point3D,
+    tip2: Point3D
+  ): number {
+    return logistic(
+      (angleBetween(vector(mcp1, tip1), vector(mcp2, tip2)) -
+        MIN_SPREAD_ANGLE) /
+        SPREAD_SCORE_SCALE
+    );
   }
 
-  protected isFingerPointingUp(
-    tipLandmark: NormalizedLandmark,
-    wrist: NormalizedLandmark
-  ): boolean {
-    // Finger is pointing up if tip is significantly higher than wrist
-    return tipLandmark.y < wrist.y - 0.1;
+  protected scorePalmOpen(hand: Point3D[]): number {
+    const fingerTips = this.getFingerTipPositions(hand);
+    const wrist = hand[WRIST];
+    const avgDistance =
+      [fingerTips.index, fingerTips.middle, fingerTips.ring, fingerTips.pinky]
+        .map((tip) => distance(tip, wrist))
+        .reduce((sum, d) => sum + d, 0) / 4;
+
+    return logistic(
+      (avgDistance - 1.5 * this.sensitivity) / PALM_OPEN_SCORE_SCALE
+    );
   }
 
   protected areFingersSpread(
-    finger1: NormalizedLandmark,
-    finger2: NormalizedLandmark
+    mcp1: Point3D,
+    tip1: Point3D,
+    mcp2: Point3D,
+    tip2: Point3D
   ): boolean {
-    // Calculate distance between finger tips
-    const distance = Math.sqrt(
-      Math.pow(finger1.x - finger2.x, 2) + Math.pow(finger1.y - finger2.y, 2)
+    // Angle between the two finger directions
+    return (
+      angleBetween(vector(mcp1, tip1), vector(mcp2, tip2)) > MIN_SPREAD_ANGLE
     );
-
-    // Fingers are spread if distance is greater than threshold
-    return distance > 0.05;
   }
 
-  protected isPalmOpen(landmarks: NormalizedLandmark[]): boolean {
-    // Check if palm is open by analyzing finger spread and positions
-    const fingerTips = this.getFingerTipPositions(landmarks);
-    const wrist = landmarks[0];
+  protected isPalmOpen(hand: Point3D[]): boolean {
+    const fingerTips = this.getFingerTipPositions(hand);
+    const wrist = hand[WRIST];
 
-    // Calculate average distance of fingertips from wrist
+    // Average distance of fingertips from the wrist, in palm lengths
     const distances = [
-      Math.sqrt(
-        Math.pow(fingerTips.index.x - wrist.x, 2) +
-          Math.pow(fingerTips.index.y - wrist.y, 2)
-      ),
-      Math.sqrt(
-        Math.pow(fingerTips.middle.x - wrist.x, 2) +
-          Math.pow(fingerTips.middle.y - wrist.y, 2)
-      ),
-      Math.sqrt(
-        Math.pow(fingerTips.ring.x - wrist.x, 2) +
-          Math.pow(fingerTips.ring.y - wrist.y, 2)
-      ),
-      Math.sqrt(
-        Math.pow(fingerTips.pinky.x - wrist.x, 2) +
-          Math.pow(fingerTips.pinky.y - wrist.y, 2)
-      ),
-    ];
+      fingerTips.index,
+      fingerTips.middle,
+      fingerTips.ring,
+      fingerTips.pinky,
+    ].map((tip) => distance(tip, wrist));
 
     const avgDistance =
       distances.reduce((sum, d) => sum + d, 0) / distances.length;
 
     // Palm is open if average distance is above threshold
-    return avgDistance > 0.15 * this.sensitivity;
+    return avgDistance > 1.5 * this.sensitivity;
   }
 
-  // Public method to update configuration
+  // Apply configuration changes without tearing down the MediaPipe session.
+  // Only the state that depends on the changed values is reset.
   updateConfig(config: Partial<GestureRecognizerConfig>): void {
-    // Note: Some properties are readonly and set in constructor
-    // This method can be extended to update mutable configuration
-    console.log("Configuration update requested:", config);
+    // Timing/threshold changes only reset the stabilizer window if needed
+    this.stabilizer.updateConfig({
+      confidenceThreshold: config.confidenceThreshold,
+      holdDuration: config.holdDuration,
+      cooldown: config.cooldown,
+      requireRelease: config.requireRelease,
+      releaseDuration: config.releaseDuration,
+      historySize: config.historySize,
+    });
+
+    if (
+      config.sensitivity !== undefined &&
+      config.sensitivity !== this.sensitivity
+    ) {
+      this.sensitivity = config.sensitivity;
+      // Past classifications were made with the old sensitivity
+      this.stabilizer.reset();
+    }
+
+    if (config.maxRetries !== undefined) {
+      this.maxRetries = config.maxRetries;
+    }
+
+    if (config.retryDelay !== undefined) {
+      this.retryDelay = config.retryDelay;
+    }
+
+    if (config.customGestures !== undefined) {
+      this.setCustomGestures(config.customGestures);
+    }
+
+    if (config.motion !== undefined) {
+      this.motionTracker.updateConfig(config.motion);
+    }
+
+    if (
+      config.twoHandMode !== undefined &&
+      config.twoHandMode !== this.twoHandMode
+    ) {
+      this.twoHandMode = config.twoHandMode;
+      this.handTracker.updateConfig({ maxHands: this.twoHandMode ? 2 : 1 });
+      this.hands?.setOptions({
+        maxNumHands: detectedHands(this.twoHandMode),
+      });
+      this.stabilizer.reset();
+    }
+
+    if (
+      config.assetResolver !== undefined ||
+      config.assetIntegrity !== undefined
+    ) {
+      console.warn(
+        "Model asset settings only take effect on the next initialize()"
+      );
+    }
+  }
+
+  // Replace the user-trained gesture templates
+  setCustomGestures(templates: CustomGestureTemplate[]): void {
+    this.customClassifier.setTemplates(templates);
+    // Frames in the window may now classify differently
+    this.stabilizer.reset();
+  }
+
+  // Current effective configuration
+  getConfig(): Required<GestureStabilizerConfig> & {
+    sensitivity: number;
+    maxRetries: number;
+    retryDelay: number;
+    motion: Required<MotionTrackerConfig>;
+    twoHandMode: boolean;
+  } {
+    return {
+      ...this.stabilizer.getConfig(),
+      sensitivity: this.sensitivity,
+      maxRetries: this.maxRetries,
+      retryDelay: this.retryDelay,
+      motion: this.motionTracker.getConfig(),
+      twoHandMode: this.twoHandMode,
+    };
   }
 
   // Get current gesture recognition statistics
   getStats(): {
-    lastGesture: GestureType;
+    lastGesture: RecognizedGesture;
     confidence: number;
     frameCount: number;
     historyLength: number;
+    // Score of every gesture in the last frame, highest first
+    scores: GestureScore[];
+    // Frames MediaPipe ran on, and the total time it took in milliseconds
+    inferenceCount: number;
+    inferenceTime: number;
   } {
+    const state = this.stabilizer.getState();
     return {
-      lastGesture: this.lastGesture,
-      confidence: this.gestureConfidence,
+      lastGesture: state.currentGesture,
+      confidence: state.confidence,
       frameCount: this.frameCount,
-      historyLength: this.gestureHistory.length,
+      historyLength: state.historyLength,
+      scores: this.lastScores,
+      inferenceCount: this.inferenceCount,
+      inferenceTime: this.inferenceTime,
     };
   }
 }
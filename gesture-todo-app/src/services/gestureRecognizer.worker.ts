@@ -0,0 +1,30 @@
+/** @format */
+
+// Entry point of the gesture worker, started by WorkerGestureRecognizer
+import {
+  GestureWorkerEvent,
+  GestureWorkerRequest,
+  createGestureWorkerHost,
+  importScriptsGlobally,
+} from "./gestureWorkerHost";
+
+// The worker global scope; the app is typed against the DOM library only
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<GestureWorkerRequest>) => void) | null;
+  postMessage(message: GestureWorkerEvent): void;
+  importScripts(...urls: string[]): void;
+};
+
+// The dev server starts this as a module worker, where importScripts()
+// throws (see createGestureWorker)
+if (import.meta.env.DEV) {
+  scope.importScripts = importScriptsGlobally;
+}
+
+const handleRequest = createGestureWorkerHost((event) =>
+  scope.postMessage(event)
+);
+
+scope.onmessage = (event) => {
+  handleRequest(event.data);
+};
@@ -0,0 +1,143 @@
+/** @format */
+
+import { GestureType, HandPoseType, RecognizedGesture } from "../types";
+import {
+  GestureRecognizer,
+  GestureRecognizerConfig,
+  GestureRecognitionError,
+} from "./gestureRecognizer";
+import { LandmarkRecording } from "./landmarkRecording";
+
+export const REPLAY_GESTURES: HandPoseType[] = [
+  "thumbs_up",
+  "peace_sign",
+  "fist",
+  "point_up",
+  "two_fingers",
+  "open_palm",
+  "none",
+];
+
+export interface GestureClassMetrics {
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  // Number of frames labelled with this gesture
+  support: number;
+  // 0 when the gesture was never predicted / never labelled
+  precision: number;
+  recall: number;
+}
+
+export interface ReplayFrameResult {
+  timestamp: number;
+  expected?: GestureType;
+  predicted: RecognizedGesture;
+}
+
+export interface ReplayReport {
+  name: string;
+  frameCount: number;
+  scoredFrames: number;
+  accuracy: number;
+  perGesture: Record<HandPoseType, GestureClassMetrics>;
+  frames: ReplayFrameResult[];
+  // Gestures that made it through debouncing, i.e. would have fired actions
+  detections: { timestamp: number; gesture: RecognizedGesture }[];
+  errors: GestureRecognitionError[];
+}
+
+// Feed a recording through a fresh GestureRecognizer without MediaPipe/camera
+export function replayRecording(
+  recording: LandmarkRecording,
+  config: GestureRecognizerConfig = {}
+): ReplayReport {
+  const detections: ReplayReport["detections"] = [];
+  const errors: GestureRecognitionError[] = [];
+  let currentTimestamp = 0;
+
+  const recognizer = new GestureRecognizer(
+    (gesture) => detections.push({ timestamp: currentTimestamp, gesture }),
+    (error) => errors.push(error),
+    config
+  );
+
+  const frames: ReplayFrameResult[] = recording.frames.map((frame) => {
+    currentTimestamp = frame.timestamp;
+    const predicted = recognizer.processLandmarks(
+      frame.landmarks,
+      frame.timestamp,
+      frame.handedness
+    );
+    return { timestamp: frame.timestamp, expected: frame.label, predicted };
+  });
+
+  recognizer.dispose();
+
+  const scored = frames.filter(
+    (frame): frame is Required<ReplayFrameResult> =>
+      frame.expected !== undefined
+  );
+  const correct = scored.filter((f) => f.expected === f.predicted).length;
+
+  return {
+    name: recording.name,
+    frameCount: frames.length,
+    scoredFrames: scored.length,
+    accuracy: scored.length > 0 ? correct / scored.length : 0,
+    perGesture: computeClassMetrics(scored),
+    frames,
+    detections,
+    errors,
+  };
+}
+
+export function computeClassMetrics(
+  frames: { expected: GestureType; predicted: RecognizedGesture }[]
+): Record<HandPoseType, GestureClassMetrics> {
+  const metrics = {} as Record<HandPoseType, GestureClassMetrics>;
+
+  for (const gesture of REPLAY_GESTURES) {
+    let tp = 0;
+    let fp = 0;
+    let fn = 0;
+
+    for (const { expected, predicted } of frames) {
+      if (predicted === gesture && expected === gesture) tp++;
+      else if (predicted === gesture) fp++;
+      else if (expected === gesture) fn++;
+    }
+
+    metrics[gesture] = {
+      truePositives: tp,
+      falsePositives: fp,
+      falseNegatives: fn,
+      support: tp + fn,
+      precision: tp + fp > 0 ? tp / (tp + fp) : 0,
+      recall: tp + fn > 0 ? tp / (tp + fn) : 0,
+    };
+  }
+
+  return metrics;
+}
+
+// Human readable table, handy in test failure output
+export function formatReplayReport(report: ReplayReport): string {
+  const lines = [
+    `${report.name}: ${report.scoredFrames}/${report.frameCount} frames scored, accuracy ${(
+      report.accuracy * 100
+    ).toFixed(1)}%`,
+  ];
+
+  for (const gesture of REPLAY_GESTURES) {
+    const m = report.perGesture[gesture];
+    if (m.support === 0 && m.falsePositives === 0) continue;
+    lines.push(
+      `  ${gesture.padEnd(12)} precision ${m.precision.toFixed(
+        2
+      )} recall ${m.recall.toFixed(2)} (n=${m.support})`
+    );
+  }
+
+  return lines.join("\n");
+}
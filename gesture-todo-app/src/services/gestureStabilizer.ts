@@ -0,0 +1,187 @@
+/** @format */
+
+import { RecognizedGesture } from "../types";
+import { stripUndefined } from "../utils";
+
+// Time-based gesture stabilization. All durations are in milliseconds and are
+// measured from frame timestamps, so behaviour is the same at 15fps or 60fps.
+export interface GestureStabilizerConfig {
+  // Fraction of frames in the hold window that must match the gesture
+  confidenceThreshold?: number;
+  // How long a gesture must be held before it fires
+  holdDuration?: number;
+  // Minimum time between two fired gestures
+  cooldown?: number;
+  // Require the hand to leave a gesture before the same gesture fires again
+  requireRelease?: boolean;
+  // How long a different gesture must be seen to count as a release
+  releaseDuration?: number;
+  // Hard cap on frames kept in the window
+  historySize?: number;
+}
+
+export const DEFAULT_STABILIZER_CONFIG: Required<GestureStabilizerConfig> = {
+  confidenceThreshold: 0.8,
+  holdDuration: 300,
+  cooldown: 500,
+  requireRelease: true,
+  releaseDuration: 150,
+  historySize: 120,
+};
+
+interface GestureSample {
+  gesture: RecognizedGesture;
+  timestamp: number;
+}
+
+export interface GestureStabilizerState {
+  currentGesture: RecognizedGesture;
+  confidence: number;
+  historyLength: number;
+  // Time the gesture has been observed in the current hold window
+  heldFor: number;
+  lastFired: RecognizedGesture | null;
+  cooldownUntil: number;
+  released: boolean;
+}
+
+export class GestureStabilizer {
+  private config: Required<GestureStabilizerConfig>;
+  private history: GestureSample[] = [];
+  private windowStart: number | null = null;
+  private currentGesture: RecognizedGesture = "none";
+  private confidence = 0;
+  private lastFired: RecognizedGesture | null = null;
+  private cooldownUntil = -Infinity;
+  private released = true;
+  private releaseSince: number | null = null;
+  private lastTimestamp = 0;
+
+  constructor(config: GestureStabilizerConfig = {}) {
+    this.config = { ...DEFAULT_STABILIZER_CONFIG, ...stripUndefined(config) };
+  }
+
+  // Feed one classified frame; returns the gesture to fire, if any
+  push(
+    gesture: RecognizedGesture,
+    timestamp: number
+  ): RecognizedGesture | null {
+    const { holdDuration, historySize, confidenceThreshold } = this.config;
+
+    // Out-of-order timestamps (e.g. a restarted clock) start a fresh window
+    if (timestamp < this.lastTimestamp) {
+      this.resetWindow();
+    }
+    this.lastTimestamp = timestamp;
+
+    if (this.windowStart === null) {
+      this.windowStart = timestamp;
+    }
+
+    this.history.push({ gesture, timestamp });
+    const cutoff = timestamp - holdDuration;
+    while (
+      this.history.length > historySize ||
+      (this.history.length > 1 && this.history[0].timestamp < cutoff)
+    ) {
+      this.history.shift();
+    }
+
+    const matching = this.history.filter((s) => s.gesture === gesture).length;
+    this.currentGesture = gesture;
+    this.confidence = matching / this.history.length;
+
+    this.trackRelease(gesture, timestamp);
+
+    const held = timestamp - this.windowStart >= holdDuration;
+    const blockedByRelease =
+      this.config.requireRelease &&
+      gesture === this.lastFired &&
+      !this.released;
+
+    if (
+      gesture !== "none" &&
+      held &&
+      this.confidence >= confidenceThreshold &&
+      timestamp >= this.cooldownUntil &&
+      !blockedByRelease
+    ) {
+      this.lastFired = gesture;
+      this.cooldownUntil = timestamp + this.config.cooldown;
+      this.released = false;
+      this.releaseSince = null;
+      // The next fire needs a complete new hold
+      this.resetWindow();
+      this.confidence = 0;
+      return gesture;
+    }
+
+    return null;
+  }
+
+  private trackRelease(gesture: RecognizedGesture, timestamp: number): void {
+    if (this.released || this.lastFired === null) {
+      return;
+    }
+
+    if (gesture === this.lastFired) {
+      this.releaseSince = null;
+      return;
+    }
+
+    if (this.releaseSince === null) {
+      this.releaseSince = timestamp;
+    }
+
+    if (timestamp - this.releaseSince >= this.config.releaseDuration) {
+      this.released = true;
+    }
+  }
+
+  private resetWindow(): void {
+    this.history = [];
+    this.windowStart = null;
+  }
+
+  updateConfig(config: GestureStabilizerConfig): void {
+    const next = { ...this.config, ...stripUndefined(config) };
+
+    if (next.holdDuration !== this.config.holdDuration) {
+      // Frames collected for the old hold window no longer apply
+      this.resetWindow();
+      this.confidence = 0;
+    } else if (next.historySize < this.history.length) {
+      this.history = this.history.slice(-next.historySize);
+    }
+
+    this.config = next;
+  }
+
+  getConfig(): Required<GestureStabilizerConfig> {
+    return { ...this.config };
+  }
+
+  reset(): void {
+    this.resetWindow();
+    this.currentGesture = "none";
+    this.confidence = 0;
+    this.lastFired = null;
+    this.cooldownUntil = -Infinity;
+    this.released = true;
+    this.releaseSince = null;
+    this.lastTimestamp = 0;
+  }
+
+  getState(): GestureStabilizerState {
+    return {
+      currentGesture: this.currentGesture,
+      confidence: this.confidence,
+      historyLength: this.history.length,
+      heldFor:
+        this.windowStart === null ? 0 : this.lastTimestamp - this.windowStart,
+      lastFired: this.lastFired,
+      cooldownUntil: this.cooldownUntil,
+      released: this.released,
+    };
+  }
+}
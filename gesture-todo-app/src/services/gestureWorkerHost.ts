@@ -0,0 +1,166 @@
+/** @format */
+
+import { NormalizedLandmark } from "@mediapipe/hands";
+import {
+  CustomGestureTemplate,
+  GestureScore,
+  RecognizedGesture,
+} from "../types";
+import {
+  GestureRecognizer,
+  GestureRecognizerConfig,
+} from "./gestureRecognizer";
+import { HandLandmarks } from "./landmarkFeatures";
+import { ModelAssetResolver } from "./modelAssets";
+
+// Recognizer configuration as posted to the worker. Model assets are
+// resolved on the main thread, which can reach the Tauri APIs.
+export interface WorkerRecognizerConfig extends Omit<
+  GestureRecognizerConfig,
+  "assetResolver"
+> {
+  assetBaseUrl: string;
+  assetSource: ModelAssetResolver["source"];
+}
+
+export type GestureRecognizerStats = ReturnType<GestureRecognizer["getStats"]>;
+
+// Messages from the main thread to the gesture worker
+export type GestureWorkerRequest =
+  | { type: "init"; config: WorkerRecognizerConfig }
+  // The frame is transferred, and closed once processed
+  | { type: "frame"; image: ImageBitmap; timestamp: number }
+  | {
+      type: "updateConfig";
+      config: Omit<Partial<GestureRecognizerConfig>, "assetResolver">;
+    }
+  | { type: "setCustomGestures"; templates: CustomGestureTemplate[] }
+  | { type: "dispose" };
+
+// Messages from the gesture worker. Every frame request is answered with a
+// "frame" event, after the gestures, hands, scores and landmarks it produced.
+export type GestureWorkerEvent =
+  | { type: "ready" }
+  | { type: "gesture"; gesture: RecognizedGesture }
+  | {
+      type: "hands";
+      hands: HandLandmarks[];
+      timestamp: number;
+      controlling: HandLandmarks | null;
+    }
+  | { type: "scores"; scores: GestureScore[]; timestamp: number }
+  | {
+      type: "landmarks";
+      landmarks: NormalizedLandmark[] | null;
+      timestamp: number;
+    }
+  | {
+      type: "frame";
+      timestamp: number;
+      stats: GestureRecognizerStats;
+      healthy: boolean;
+    }
+  // Errors are posted by name, as class instances do not survive cloning
+  | { type: "error"; name: string; message: string };
+
+const IDLE_STATS: GestureRecognizerStats = {
+  lastGesture: "none",
+  confidence: 0,
+  frameCount: 0,
+  historyLength: 0,
+  scores: [],
+  inferenceCount: 0,
+  inferenceTime: 0,
+};
+
+// importScripts() for module workers, which lack it: loads each script
+// synchronously and evaluates it in the global scope, in order. MediaPipe
+// Hands loads its wasm loader with importScripts() in a worker.
+export function importScriptsGlobally(...urls: string[]): void {
+  for (const url of urls) {
+    const request = new XMLHttpRequest();
+    request.open("GET", url, false);
+    request.send();
+    if (request.status < 200 || request.status >= 300) {
+      throw new Error(`Failed to load ${url}: ${request.status}`);
+    }
+    // Indirect eval, so that top-level declarations become globals
+    (0, eval)(request.responseText);
+  }
+}
+
+// Runs a GestureRecognizer, MediaPipe included, for requests posted by
+// WorkerGestureRecognizer. Kept apart from the worker entry point so it can
+// run without a worker.
+export function createGestureWorkerHost(
+  post: (event: GestureWorkerEvent) => void
+): (request: GestureWorkerRequest) => Promise<void> {
+  let recognizer: GestureRecognizer | null = null;
+
+  return async (request) => {
+    switch (request.type) {
+      case "init": {
+        const { assetBaseUrl, assetSource, ...config } = request.config;
+        const created = new GestureRecognizer(
+          (gesture) => post({ type: "gesture", gesture }),
+          (error) =>
+            post({ type: "error", name: error.name, message: error.message }),
+          {
+            ...config,
+            assetResolver: {
+              source: assetSource,
+              getBaseUrl: async () => assetBaseUrl,
+            },
+          }
+        );
+        created.addHandsListener((hands, timestamp, controlling) =>
+          post({ type: "hands", hands, timestamp, controlling })
+        );
+        created.addScoresListener((scores, timestamp) =>
+          post({ type: "scores", scores, timestamp })
+        );
+        created.addLandmarkListener((landmarks, timestamp) =>
+          post({ type: "landmarks", landmarks, timestamp })
+        );
+
+        try {
+          await created.initialize();
+          recognizer = created;
+          post({ type: "ready" });
+        } catch {
+          // Already posted through the error callback
+        }
+        break;
+      }
+
+      case "frame":
+        try {
+          await recognizer?.processFrame(request.image);
+        } catch {
+          // Already posted through the error callback
+        } finally {
+          request.image.close();
+        }
+        post({
+          type: "frame",
+          timestamp: request.timestamp,
+          stats: recognizer?.getStats() ?? IDLE_STATS,
+          healthy: recognizer?.isHealthy() ?? false,
+        });
+        break;
+
+      case "updateConfig":
+        recognizer?.updateConfig(request.config);
+        break;
+
+      case "setCustomGestures":
+        recognizer?.setCustomGestures(request.templates);
+        break;
+
+      case "dispose":
+        recognizer?.dispose();
+        recognizer = null;
+        break;
+    }
+  };
+}
@@ -0,0 +1,218 @@
+/** @format */
+
+import { NormalizedLandmark } from "@mediapipe/hands";
+import { stripUndefined } from "../utils";
+import type { LandmarkListener } from "./gestureRecognizer";
+import { OneEuroFilter } from "./oneEuroFilter";
+import {
+  HAND_LANDMARK_COUNT,
+  INDEX_TIP,
+  MIDDLE_MCP,
+  THUMB_TIP,
+  WRIST,
+  distance,
+} from "./landmarkFeatures";
+
+// Turns the index fingertip into an on-screen pointer for overlays such as
+// the virtual keyboard. Positions are normalized to the viewport (0..1, y
+// down); durations are in milliseconds and measured from frame timestamps.
+export interface HandPointerConfig {
+  // Show the camera image as a mirror, so the pointer follows the hand
+  mirror?: boolean;
+  // Part of the camera image cut from each edge; the rest spans the
+  // viewport, so the edges can be reached without leaving the frame
+  margin?: number;
+  // One-Euro smoothing of the position (see OneEuroFilterConfig); beta is
+  // per viewport size per second
+  minCutoff?: number;
+  beta?: number;
+  // Thumb–index tip distance, relative to the palm size, below which the
+  // hand pinches...
+  pinchThreshold?: number;
+  // ...and above which the pinch is released
+  releaseThreshold?: number;
+  // Hovering a target this long presses it; 0 turns dwell-to-click off
+  dwellTime?: number;
+  // A pinch held this long becomes a drag
+  dragDelay?: number;
+}
+
+export const DEFAULT_HAND_POINTER_CONFIG: Required<HandPointerConfig> = {
+  mirror: true,
+  margin: 0.15,
+  minCutoff: 1,
+  beta: 5,
+  pinchThreshold: 0.35,
+  releaseThreshold: 0.5,
+  dwellTime: 800,
+  dragDelay: 400,
+};
+
+export interface PointerState {
+  x: number;
+  y: number;
+  isPinching: boolean;
+  // The pinch closed / opened in this frame
+  pinchStarted: boolean;
+  pinchEnded: boolean;
+  // The pinch has been held for dragDelay
+  isDragging: boolean;
+  // Target under the pointer
+  targetId: string | null;
+  // How far the dwell on the target has progressed (0..1)
+  dwellProgress: number;
+  // Target pressed in this frame, by a pinch or a completed dwell
+  pressedId: string | null;
+}
+
+// Anything that reports the controlling hand every frame, such as the
+// running GestureRecognizer
+export interface LandmarkSource {
+  addLandmarkListener(listener: LandmarkListener): () => void;
+}
+
+// Finds the target at a viewport position
+export type PointerHitTest = (x: number, y: number) => string | null;
+
+// Attribute marking elements that can be pressed with the hand pointer
+export const POINTER_TARGET_ATTRIBUTE = "data-pointer-target";
+
+// Hit test against elements carrying POINTER_TARGET_ATTRIBUTE
+export const domHitTest: PointerHitTest = (x, y) => {
+  if (typeof document.elementFromPoint !== "function") {
+    return null;
+  }
+  const element = document
+    .elementFromPoint(x * window.innerWidth, y * window.innerHeight)
+    ?.closest(`[${POINTER_TARGET_ATTRIBUTE}]`);
+  return element?.getAttribute(POINTER_TARGET_ATTRIBUTE) ?? null;
+};
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+export class HandPointer {
+  private config: Required<HandPointerConfig>;
+  private xFilter: OneEuroFilter;
+  private yFilter: OneEuroFilter;
+  private isPinching = false;
+  private pinchSince = 0;
+  private targetId: string | null = null;
+  private hoverSince = 0;
+  // A dwell presses once; the pointer must leave the target to dwell again
+  private dwellDone = false;
+
+  constructor(config: HandPointerConfig = {}) {
+    this.config = {
+      ...DEFAULT_HAND_POINTER_CONFIG,
+      ...stripUndefined(config),
+    };
+    [this.xFilter, this.yFilter] = this.createFilters();
+  }
+
+  private createFilters(): [OneEuroFilter, OneEuroFilter] {
+    const { minCutoff, beta } = this.config;
+    return [
+      new OneEuroFilter({ minCutoff, beta }),
+      new OneEuroFilter({ minCutoff, beta }),
+    ];
+  }
+
+  // Feed one frame of the controlling hand. Returns null while no hand is
+  // seen; losing the hand ends a pinch without reporting pinchEnded.
+  update(
+    landmarks: NormalizedLandmark[] | null,
+    timestamp: number,
+    hitTest: PointerHitTest
+  ): PointerState | null {
+    if (!landmarks || landmarks.length < HAND_LANDMARK_COUNT) {
+      this.reset();
+      return null;
+    }
+
+    const { margin } = this.config;
+    const tip = landmarks[INDEX_TIP];
+    const span = 1 - 2 * margin;
+    const x = this.xFilter.filter(
+      clamp01(((this.config.mirror ? 1 - tip.x : tip.x) - margin) / span),
+      timestamp
+    );
+    const y = this.yFilter.filter(clamp01((tip.y - margin) / span), timestamp);
+
+    const targetId = hitTest(x, y);
+    if (targetId !== this.targetId) {
+      this.targetId = targetId;
+      this.hoverSince = timestamp;
+      this.dwellDone = false;
+    }
+
+    let pressedId: string | null = null;
+
+    // Pinches press on closing
+    const wasPinching = this.isPinching;
+    this.isPinching = this.detectPinch(landmarks);
+    const pinchStarted = this.isPinching && !wasPinching;
+    if (pinchStarted) {
+      this.pinchSince = timestamp;
+    }
+    if (pinchStarted && targetId) {
+      pressedId = targetId;
+      // Pressed already; do not let the dwell press it again
+      this.dwellDone = true;
+    }
+
+    let dwellProgress = 0;
+    if (targetId && this.config.dwellTime > 0 && !this.dwellDone) {
+      dwellProgress = clamp01(
+        (timestamp - this.hoverSince) / this.config.dwellTime
+      );
+      if (dwellProgress >= 1) {
+        pressedId = targetId;
+        this.dwellDone = true;
+      }
+    }
+
+    return {
+      x,
+      y,
+      isPinching: this.isPinching,
+      pinchStarted,
+      pinchEnded: wasPinching && !this.isPinching,
+      isDragging:
+        this.isPinching && timestamp - this.pinchSince >= this.config.dragDelay,
+      targetId,
+      dwellProgress,
+      pressedId,
+    };
+  }
+
+  // Hysteresis keeps a borderline pinch from pressing repeatedly
+  private detectPinch(landmarks: NormalizedLandmark[]): boolean {
+    const palmSize = distance(landmarks[WRIST], landmarks[MIDDLE_MCP]);
+    if (palmSize === 0) {
+      return false;
+    }
+    const gap = distance(landmarks[THUMB_TIP], landmarks[INDEX_TIP]) / palmSize;
+    return this.isPinching
+      ? gap < this.config.releaseThreshold
+      : gap < this.config.pinchThreshold;
+  }
+
+  reset(): void {
+    this.xFilter.reset();
+    this.yFilter.reset();
+    this.isPinching = false;
+    this.pinchSince = 0;
+    this.targetId = null;
+    this.hoverSince = 0;
+    this.dwellDone = false;
+  }
+
+  updateConfig(config: HandPointerConfig): void {
+    this.config = { ...this.config, ...stripUndefined(config) };
+    [this.xFilter, this.yFilter] = this.createFilters();
+  }
+
+  getConfig(): Required<HandPointerConfig> {
+    return { ...this.config };
+  }
+}
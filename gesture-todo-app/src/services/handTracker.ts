@@ -0,0 +1,147 @@
+/** @format */
+
+import { stripUndefined } from "../utils";
+import { HandLandmarks, MIDDLE_MCP, WRIST, distance } from "./landmarkFeatures";
+
+// Keeps a stable identity for each hand across frames and decides which
+// hands are in control. The first hands seen take control; other hands (e.g.
+// a second person stepping into the frame) are ignored until a controlling
+// hand has been gone for `lostTimeout`. Distances are in normalized image
+// coordinates and durations in milliseconds.
+export interface HandTrackerConfig {
+  // Number of hands that can be in control at the same time
+  maxHands?: number;
+  // Largest wrist movement between two frames that keeps a hand's identity
+  maxJump?: number;
+  // How long a controlling hand may be missing before it loses control
+  lostTimeout?: number;
+  // A second controlling hand must be about the same size as the first
+  // (i.e. at the same distance from the camera): larger / smaller ratio
+  maxSizeRatio?: number;
+}
+
+export const DEFAULT_HAND_TRACKER_CONFIG: Required<HandTrackerConfig> = {
+  maxHands: 1,
+  maxJump: 0.2,
+  lostTimeout: 500,
+  maxSizeRatio: 1.6,
+};
+
+export interface TrackedHand extends HandLandmarks {
+  // Stable for as long as the hand stays in control
+  id: number;
+}
+
+interface Track {
+  id: number;
+  hand: HandLandmarks;
+  lastSeen: number;
+}
+
+const wristOf = (hand: HandLandmarks) => hand.landmarks[WRIST];
+
+const palmSizeOf = (hand: HandLandmarks) =>
+  distance(hand.landmarks[WRIST], hand.landmarks[MIDDLE_MCP]);
+
+export class HandTracker {
+  private config: Required<HandTrackerConfig>;
+  private tracks: Track[] = [];
+  private nextId = 1;
+
+  constructor(config: HandTrackerConfig = {}) {
+    this.config = { ...DEFAULT_HAND_TRACKER_CONFIG, ...stripUndefined(config) };
+  }
+
+  // Feed all hands detected in one frame; returns the controlling hands seen
+  // in this frame, oldest first
+  update(hands: HandLandmarks[], timestamp: number): TrackedHand[] {
+    const unmatched = hands.filter(
+      (hand) => hand.landmarks.length > MIDDLE_MCP
+    );
+    const seen: TrackedHand[] = [];
+
+    // Follow each controlling hand to the nearest detection
+    for (const track of this.tracks) {
+      let best: HandLandmarks | null = null;
+      let bestDistance = this.config.maxJump;
+
+      for (const hand of unmatched) {
+        if (
+          track.hand.handedness &&
+          hand.handedness &&
+          track.hand.handedness !== hand.handedness
+        ) {
+          continue;
+        }
+        const jump = distance(wristOf(track.hand), wristOf(hand));
+        if (jump <= bestDistance) {
+          best = hand;
+          bestDistance = jump;
+        }
+      }
+
+      if (best) {
+        unmatched.splice(unmatched.indexOf(best), 1);
+        track.hand = best;
+        track.lastSeen = timestamp;
+        seen.push({ ...best, id: track.id });
+      }
+    }
+
+    // Hands that have been gone for too long give up control
+    this.tracks = this.tracks.filter(
+      (track) =>
+        timestamp - track.lastSeen <= this.config.lostTimeout &&
+        timestamp >= track.lastSeen
+    );
+
+    // Free slots go to new hands that plausibly belong to the same person
+    for (const hand of unmatched) {
+      if (this.tracks.length >= this.config.maxHands) {
+        break;
+      }
+      if (!this.isCompanion(hand)) {
+        continue;
+      }
+
+      const track = { id: this.nextId++, hand, lastSeen: timestamp };
+      this.tracks.push(track);
+      seen.push({ ...hand, id: track.id });
+    }
+
+    return seen.sort((a, b) => a.id - b.id);
+  }
+
+  private isCompanion(hand: HandLandmarks): boolean {
+    return this.tracks.every((track) => {
+      // One person has one hand of each side
+      if (
+        track.hand.handedness &&
+        hand.handedness &&
+        track.hand.handedness === hand.handedness
+      ) {
+        return false;
+      }
+
+      const ratio = palmSizeOf(hand) / palmSizeOf(track.hand);
+      return (
+        ratio <= this.config.maxSizeRatio &&
+        ratio >= 1 / this.config.maxSizeRatio
+      );
+    });
+  }
+
+  updateConfig(config: HandTrackerConfig): void {
+    this.config = { ...this.config, ...stripUndefined(config) };
+    // Fewer slots: the most recent hands give up control
+    this.tracks = this.tracks.slice(0, this.config.maxHands);
+  }
+
+  getConfig(): Required<HandTrackerConfig> {
+    return { ...this.config };
+  }
+
+  reset(): void {
+    this.tracks = [];
+  }
+}
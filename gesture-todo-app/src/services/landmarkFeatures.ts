@@ -0,0 +1,166 @@
+/** @format */
+
+import { NormalizedLandmark, Results } from "@mediapipe/hands";
+
+export const HAND_LANDMARK_COUNT = 21;
+
+export const WRIST = 0;
+export const THUMB_TIP = 4;
+export const INDEX_MCP = 5;
+export const INDEX_TIP = 8;
+export const MIDDLE_MCP = 9;
+export const PINKY_MCP = 17;
+
+// MediaPipe's handedness label for a detected hand
+export type HandednessLabel = "Left" | "Right";
+
+// Landmarks of one detected hand together with its handedness
+export interface HandLandmarks {
+  landmarks: NormalizedLandmark[];
+  handedness?: HandednessLabel;
+}
+
+export interface Point3D {
+  x: number;
+  y: number;
+  z: number;
+}
+
+const sub = (a: Point3D, b: Point3D): Point3D => ({
+  x: a.x - b.x,
+  y: a.y - b.y,
+  z: a.z - b.z,
+});
+
+const scale = (a: Point3D, factor: number): Point3D => ({
+  x: a.x * factor,
+  y: a.y * factor,
+  z: a.z * factor,
+});
+
+const dot = (a: Point3D, b: Point3D): number =>
+  a.x * b.x + a.y * b.y + a.z * b.z;
+
+const cross = (a: Point3D, b: Point3D): Point3D => ({
+  x: a.y * b.z - a.z * b.y,
+  y: a.z * b.x - a.x * b.z,
+  z: a.x * b.y - a.y * b.x,
+});
+
+const norm = (a: Point3D): number => Math.sqrt(dot(a, a));
+
+export const vector = (from: Point3D, to: Point3D): Point3D => sub(to, from);
+
+export const distance = (a: Point3D, b: Point3D): number => norm(sub(a, b));
+
+// Angle between two vectors in degrees (0 when parallel)
+export function angleBetween(a: Point3D, b: Point3D): number {
+  const lengths = norm(a) * norm(b);
+  if (lengths === 0) {
+    return 0;
+  }
+  const cos = Math.min(1, Math.max(-1, dot(a, b) / lengths));
+  return (Math.acos(cos) * 180) / Math.PI;
+}
+
+// How far the chain a→joint→b bends at `joint`, in degrees (0 when straight)
+export const bendAngle = (a: Point3D, joint: Point3D, b: Point3D): number =>
+  angleBetween(sub(joint, a), sub(b, joint));
+
+// Handedness of a hand (the first by default) in a MediaPipe result
+export function getHandedness(
+  results: Results,
+  index = 0
+): HandednessLabel | undefined {
+  const label = results.multiHandedness?.[index]?.label;
+  return label === "Left" || label === "Right" ? label : undefined;
+}
+
+// Mirror a left hand so that it has the same geometry as a right hand.
+// Hands of unknown handedness are treated as right hands.
+export function toRightHand(
+  landmarks: NormalizedLandmark[],
+  handedness?: HandednessLabel
+): NormalizedLandmark[] {
+  if (handedness !== "Left") {
+    return landmarks;
+  }
+  return landmarks.map(({ x, y, z }) => ({ x: -x, y, z }));
+}
+
+// Express landmarks in a palm-aligned frame:
+// - the wrist is the origin and the wrist→middle MCP distance is 1
+// - fingers point towards -y (wrist→middle MCP)
+// - +x points from the index towards the pinky knuckle
+// - z is the palm normal, so it also separates palm-facing from
+//   back-facing hands once left hands have been mirrored
+// This removes position, scale, rotation and handedness of the hand.
+export function normalizeLandmarks(
+  landmarks: NormalizedLandmark[],
+  handedness?: HandednessLabel
+): Point3D[] | null {
+  if (landmarks.length < HAND_LANDMARK_COUNT) {
+    return null;
+  }
+
+  const points = toRightHand(
+    landmarks.slice(0, HAND_LANDMARK_COUNT),
+    handedness
+  );
+  const wrist = points[WRIST];
+  const palm = sub(wrist, points[MIDDLE_MCP]);
+  const palmSize = norm(palm);
+
+  if (palmSize === 0) {
+    return null;
+  }
+
+  const yAxis = scale(palm, 1 / palmSize);
+
+  // Knuckle line with its component along the palm removed
+  const knuckles = sub(points[PINKY_MCP], points[INDEX_MCP]);
+  let xAxis = sub(knuckles, scale(yAxis, dot(knuckles, yAxis)));
+  if (norm(xAxis) < 1e-6) {
+    // Degenerate knuckles: fall back to the in-image perpendicular
+    xAxis = { x: yAxis.y, y: -yAxis.x, z: 0 };
+  }
+  xAxis = scale(xAxis, 1 / norm(xAxis));
+  const zAxis = cross(xAxis, yAxis);
+
+  return points.map((point) => {
+    const local = sub(point, wrist);
+    return {
+      x: dot(local, xAxis) / palmSize,
+      y: dot(local, yAxis) / palmSize,
+      z: dot(local, zAxis) / palmSize,
+    };
+  });
+}
+
+// Flat feature vector for distance-based classifiers. The wrist is always
+// at the origin, so it is left out.
+export function extractLandmarkFeatures(
+  landmarks: NormalizedLandmark[],
+  handedness?: HandednessLabel
+): number[] | null {
+  const normalized = normalizeLandmarks(landmarks, handedness);
+  if (!normalized) {
+    return null;
+  }
+
+  return normalized.slice(1).flatMap(({ x, y, z }) => [x, y, z]);
+}
+
+// Root-mean-square difference between two feature vectors
+export function featureDistance(a: number[], b: number[]): number {
+  const length = Math.min(a.length, b.length);
+  if (length === 0) {
+    return Infinity;
+  }
+
+  let sum = 0;
+  for (let i = 0; i < length; i++) {
+    sum += (a[i] - b[i]) ** 2;
+  }
+  return Math.sqrt(sum / length);
+}
@@ -0,0 +1,130 @@
+/** @format */
+
+import { NormalizedLandmark, Results } from "@mediapipe/hands";
+import { GestureType } from "../types";
+import { HandednessLabel, getHandedness } from "./landmarkFeatures";
+
+export const LANDMARK_RECORDING_VERSION = 1;
+
+// One camera frame worth of landmarks; `landmarks` is null when no hand was seen
+export interface LandmarkFrame {
+  timestamp: number;
+  landmarks: NormalizedLandmark[] | null;
+  // MediaPipe's handedness label; recordings without it replay as right hands
+  handedness?: HandednessLabel;
+  // Expected gesture for this frame (frames without a label are not scored)
+  label?: GestureType;
+}
+
+export interface LandmarkRecording {
+  version: typeof LANDMARK_RECORDING_VERSION;
+  name: string;
+  createdAt: string;
+  frames: LandmarkFrame[];
+}
+
+export class LandmarkRecordingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LandmarkRecordingError";
+  }
+}
+
+// Collects frames from MediaPipe results into a LandmarkRecording
+export class LandmarkRecorder {
+  private frames: LandmarkFrame[] = [];
+  private startTime: number | null = null;
+  private currentLabel: GestureType | undefined;
+
+  get isRecording(): boolean {
+    return this.startTime !== null;
+  }
+
+  get frameCount(): number {
+    return this.frames.length;
+  }
+
+  start(label?: GestureType, now: number = performance.now()): void {
+    this.frames = [];
+    this.startTime = now;
+    this.currentLabel = label;
+  }
+
+  setLabel(label: GestureType | undefined): void {
+    this.currentLabel = label;
+  }
+
+  addResults(results: Results, now: number = performance.now()): void {
+    const landmarks = results.multiHandLandmarks?.[0];
+    this.addFrame(landmarks ?? null, now, getHandedness(results));
+  }
+
+  addFrame(
+    landmarks: NormalizedLandmark[] | null,
+    now: number = performance.now(),
+    handedness?: HandednessLabel
+  ): void {
+    if (this.startTime === null) {
+      return;
+    }
+
+    this.frames.push({
+      timestamp: Math.round(now - this.startTime),
+      landmarks: landmarks
+        ? landmarks.map(({ x, y, z }) => ({ x, y, z }))
+        : null,
+      ...(landmarks && handedness && { handedness }),
+      ...(this.currentLabel !== undefined && { label: this.currentLabel }),
+    });
+  }
+
+  stop(name: string = "recording"): LandmarkRecording {
+    const recording: LandmarkRecording = {
+      version: LANDMARK_RECORDING_VERSION,
+      name,
+      createdAt: new Date().toISOString(),
+      frames: this.frames,
+    };
+
+    this.frames = [];
+    this.startTime = null;
+    return recording;
+  }
+}
+
+// Validate untrusted JSON (e.g. a recording file) as a LandmarkRecording
+export function parseLandmarkRecording(data: unknown): LandmarkRecording {
+  const json = typeof data === "string" ? JSON.parse(data) : data;
+
+  if (!json || typeof json !== "object") {
+    throw new LandmarkRecordingError("Recording must be an object");
+  }
+
+  const recording = json as Partial<LandmarkRecording>;
+
+  if (recording.version !== LANDMARK_RECORDING_VERSION) {
+    throw new LandmarkRecordingError(
+      `Unsupported recording version: ${String(recording.version)}`
+    );
+  }
+
+  if (!Array.isArray(recording.frames)) {
+    throw new LandmarkRecordingError("Recording has no frames array");
+  }
+
+  recording.frames.forEach((frame, index) => {
+    if (typeof frame.timestamp !== "number") {
+      throw new LandmarkRecordingError(`Frame ${index} has no timestamp`);
+    }
+    if (frame.landmarks !== null && !Array.isArray(frame.landmarks)) {
+      throw new LandmarkRecordingError(`Frame ${index} has invalid landmarks`);
+    }
+  });
+
+  return {
+    version: LANDMARK_RECORDING_VERSION,
+    name: recording.name ?? "recording",
+    createdAt: recording.createdAt ?? new Date(0).toISOString(),
+    frames: recording.frames,
+  };
+}
@@ -0,0 +1,179 @@
+/** @format */
+
+import type { GestureScore } from "../types";
+import type { HandLandmarks } from "./landmarkFeatures";
+
+// Receives every hand MediaPipe found in a frame, controlling or not (empty
+// without one), e.g. to draw the camera preview. `controlling` is the hand
+// the recognizer classified, null without one.
+export type HandsListener = (
+  hands: HandLandmarks[],
+  timestamp: number,
+  controlling: HandLandmarks | null
+) => void;
+
+export interface HandsSource {
+  addHandsListener(listener: HandsListener): () => void;
+}
+
+// Receives the score of every gesture for a classified frame, highest first
+export type GestureScoresListener = (
+  scores: GestureScore[],
+  timestamp: number
+) => void;
+
+export interface GestureScoresSource {
+  addScoresListener(listener: GestureScoresListener): () => void;
+}
+
+// Counts MediaPipe runs, e.g. GestureRecognizer
+export interface InferenceStatsSource {
+  getStats(): { inferenceCount: number; inferenceTime: number };
+}
+
+export interface LandmarkStreamStats {
+  // Frames received since the stream was created
+  frameCount: number;
+  // Times the connected sources ran MediaPipe meanwhile: once per frame,
+  // however many subscribers there are
+  inferenceCount: number;
+  // Mean time MediaPipe took per frame, in milliseconds
+  averageInferenceTime: number;
+  // Consumers each of those frames was shared with
+  subscriberCount: number;
+}
+
+type InferenceStats = ReturnType<InferenceStatsSource["getStats"]>;
+
+const NO_INFERENCES: InferenceStats = { inferenceCount: 0, inferenceTime: 0 };
+
+// The hand landmarks of the camera, detected once per frame and shared,
+// along with the gesture scores they were given. MediaPipe runs in the
+// gesture recognizer, which classifies the same landmarks; the camera
+// preview, the gesture indicator, the custom gesture trainer and the
+// settings preview subscribe here rather than running it again. The
+// recognizer sends a frame only once the previous one has been detected, so
+// subscribers see every frame at most once and never queue up. The connected
+// source can be replaced (e.g. on retry) without subscribers noticing.
+export class LandmarkStream implements HandsSource, GestureScoresSource {
+  private readonly listeners = new Set<HandsListener>();
+  private readonly scoresListeners = new Set<GestureScoresListener>();
+  private hands: HandLandmarks[] = [];
+  private scores: GestureScore[] = [];
+  private frameCount = 0;
+  // Inferences of sources no longer connected
+  private pastInferences = NO_INFERENCES;
+  // Inferences of the connected source since it was connected
+  private getInferences: () => InferenceStats = () => NO_INFERENCES;
+  private disconnectSource: (() => void) | null = null;
+
+  // Feed the stream from `source`, in place of any previous one. Returns a
+  // function that disconnects it.
+  connect(
+    source: HandsSource & GestureScoresSource & InferenceStatsSource
+  ): () => void {
+    // Replaced rather than disconnected, so no empty frame is sent
+    const previous = this.disconnectSource;
+    this.disconnectSource = null;
+    previous?.();
+
+    const initial = source.getStats();
+    const getInferences = () => {
+      const { inferenceCount, inferenceTime } = source.getStats();
+      return {
+        inferenceCount: inferenceCount - initial.inferenceCount,
+        inferenceTime: inferenceTime - initial.inferenceTime,
+      };
+    };
+    this.getInferences = getInferences;
+
+    const removeHandsListener = source.addHandsListener(
+      (hands, timestamp, controlling) => {
+        this.frameCount++;
+        this.emit(hands, timestamp, controlling);
+      }
+    );
+    const removeScoresListener = source.addScoresListener((scores, timestamp) =>
+      this.emitScores(scores, timestamp)
+    );
+    const disconnect = () => {
+      removeHandsListener();
+      removeScoresListener();
+      if (this.getInferences === getInferences) {
+        this.pastInferences = this.getTotalInferences();
+        this.getInferences = () => NO_INFERENCES;
+      }
+      if (this.disconnectSource === disconnect) {
+        this.disconnectSource = null;
+        // Without a source no hand is seen
+        const now = performance.now();
+        this.emit([], now, null);
+        this.emitScores([], now);
+      }
+    };
+    this.disconnectSource = disconnect;
+    return disconnect;
+  }
+
+  // Returns a function that removes the listener
+  addHandsListener(listener: HandsListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Returns a function that removes the listener
+  addScoresListener(listener: GestureScoresListener): () => void {
+    this.scoresListeners.add(listener);
+    return () => {
+      this.scoresListeners.delete(listener);
+    };
+  }
+
+  // Hands of the latest frame
+  getHands(): HandLandmarks[] {
+    return this.hands;
+  }
+
+  // Gesture scores of the latest frame, highest first
+  getScores(): GestureScore[] {
+    return this.scores;
+  }
+
+  getStats(): LandmarkStreamStats {
+    const { inferenceCount, inferenceTime } = this.getTotalInferences();
+    return {
+      frameCount: this.frameCount,
+      inferenceCount,
+      averageInferenceTime:
+        inferenceCount > 0 ? inferenceTime / inferenceCount : 0,
+      subscriberCount: this.listeners.size,
+    };
+  }
+
+  private getTotalInferences(): InferenceStats {
+    const current = this.getInferences();
+    return {
+      inferenceCount:
+        this.pastInferences.inferenceCount + current.inferenceCount,
+      inferenceTime: this.pastInferences.inferenceTime + current.inferenceTime,
+    };
+  }
+
+  private emit(
+    hands: HandLandmarks[],
+    timestamp: number,
+    controlling: HandLandmarks | null
+  ): void {
+    this.hands = hands;
+    this.listeners.forEach((listener) =>
+      listener(hands, timestamp, controlling)
+    );
+  }
+
+  private emitScores(scores: GestureScore[], timestamp: number): void {
+    this.scores = scores;
+    this.scoresListeners.forEach((listener) => listener(scores, timestamp));
+  }
+}
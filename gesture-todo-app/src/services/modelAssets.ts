@@ -0,0 +1,209 @@
+/** @format */
+
+import { convertFileSrc, isTauri } from "@tauri-apps/api/core";
+import { resolveResource } from "@tauri-apps/api/path";
+import { MediaPipeInitializationError } from "./gestureErrors";
+
+// Version of @mediapipe/hands the manifest below was generated from
+export const MEDIAPIPE_HANDS_VERSION = "0.4.1675469240";
+
+// Path (relative to the app root) the bundled model assets are served from
+export const BUNDLED_ASSET_PATH = "mediapipe/hands/";
+
+export interface ModelAssetEntry {
+  file: string;
+  sha256: string;
+  // Required assets are always loaded by the solution; optional ones are
+  // only fetched on platforms without WASM SIMD or with other model settings
+  required: boolean;
+}
+
+// Files MediaPipe Hands requests through locateFile
+export const MEDIAPIPE_HANDS_ASSETS: ModelAssetEntry[] = [
+  {
+    file: "hands.binarypb",
+    sha256: "ab76c4215fca99cc2db1b5885cb8398d210e59ebe685245f72e692b4b58421e4",
+    required: true,
+  },
+  {
+    file: "hands_solution_packed_assets_loader.js",
+    sha256: "d05c073a62a0c8d2d21c18bc8f158424ece0078ea00a636e9527083b10ca1e17",
+    required: true,
+  },
+  {
+    file: "hands_solution_packed_assets.data",
+    sha256: "bdce7b66bfc5b39ba86a47775c98e0b186fe73f8308c2279f852af4c89ffdf42",
+    required: true,
+  },
+  {
+    file: "hands_solution_simd_wasm_bin.js",
+    sha256: "7720172e0775636e64955fb1091958c8294e01aa100c3272b59b2a543c028cb5",
+    required: true,
+  },
+  {
+    file: "hands_solution_simd_wasm_bin.wasm",
+    sha256: "78ef7eb86ebc6424ac06b13f89b9a1fc01ff35e07520e37de98887cf88c06653",
+    required: true,
+  },
+  {
+    file: "hand_landmark_full.tflite",
+    sha256: "8c026882c9ec059ce0f8e75266bee5a9a23c341a40e0000df755374d3d1b9b68",
+    required: true,
+  },
+  {
+    file: "hand_landmark_lite.tflite",
+    sha256: "d7fde8ac11f8ce03f8663775bfc323f4fc9f2a38062b4f4efa142874ef5b2a48",
+    required: false,
+  },
+  {
+    file: "hands_solution_wasm_bin.js",
+    sha256: "2e1faa9965a87f496316e85731c41bde1d9b07dd448f6cd30f5c2262bcd35e29",
+    required: false,
+  },
+  {
+    file: "hands_solution_wasm_bin.wasm",
+    sha256: "4e70eaf8063e0e9ac10e682d9d6b55c08d0788f0a8d49925e2e484636526e157",
+    required: false,
+  },
+];
+
+// "sha256", the default, downloads and hashes every asset (about 16 MB) on
+// top of MediaPipe's own download, so each URL is only hashed once per
+// session. "presence" only sends a HEAD request per asset.
+export type AssetIntegrityMode = "sha256" | "presence" | "off";
+
+// Asset URLs whose hash matched the manifest this session
+const hashVerifiedUrls = new Set<string>();
+
+// Resolves the base URL MediaPipe should load its model files from
+export interface ModelAssetResolver {
+  readonly source: "bundled" | "tauri" | "cdn";
+  getBaseUrl(): Promise<string>;
+}
+
+// Assets copied to the Vite output (or served by the dev server)
+export class BundledModelAssetResolver implements ModelAssetResolver {
+  readonly source = "bundled";
+
+  constructor(private readonly basePath: string = import.meta.env.BASE_URL) {}
+
+  async getBaseUrl(): Promise<string> {
+    return ensureTrailingSlash(
+      `${ensureTrailingSlash(this.basePath)}${BUNDLED_ASSET_PATH}`
+    );
+  }
+}
+
+// Assets shipped as Tauri resources and read through the asset protocol
+export class TauriModelAssetResolver implements ModelAssetResolver {
+  readonly source = "tauri";
+
+  async getBaseUrl(): Promise<string> {
+    try {
+      const resourceDir = await resolveResource(BUNDLED_ASSET_PATH);
+      return ensureTrailingSlash(convertFileSrc(resourceDir));
+    } catch (error) {
+      throw new MediaPipeInitializationError(
+        "Failed to resolve MediaPipe model assets from the app resource directory",
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+}
+
+// Remote CDN, pinned to the version the manifest was generated from
+export class CdnModelAssetResolver implements ModelAssetResolver {
+  readonly source = "cdn";
+
+  constructor(
+    private readonly baseUrl: string = `https://cdn.jsdelivr.net/npm/@mediapipe/hands@${MEDIAPIPE_HANDS_VERSION}/`
+  ) {}
+
+  async getBaseUrl(): Promise<string> {
+    return ensureTrailingSlash(this.baseUrl);
+  }
+}
+
+export function createDefaultModelAssetResolver(): ModelAssetResolver {
+  return isTauri()
+    ? new TauriModelAssetResolver()
+    : new BundledModelAssetResolver();
+}
+
+// Build a synchronous locateFile callback for the Hands constructor
+export async function createLocateFile(
+  resolver: ModelAssetResolver
+): Promise<(file: string) => string> {
+  const baseUrl = await resolver.getBaseUrl();
+  return (file: string) => `${baseUrl}${file}`;
+}
+
+// Check that every required asset is reachable (and unmodified when hashing)
+export async function verifyModelAssets(
+  resolver: ModelAssetResolver,
+  mode: AssetIntegrityMode = "sha256",
+  fetchFn: typeof fetch = fetch
+): Promise<void> {
+  if (mode === "off") {
+    return;
+  }
+
+  const baseUrl = await resolver.getBaseUrl();
+  const required = MEDIAPIPE_HANDS_ASSETS.filter((asset) => asset.required);
+
+  await Promise.all(
+    required.map(async (asset) => {
+      const url = `${baseUrl}${asset.file}`;
+      if (mode === "sha256" && hashVerifiedUrls.has(url)) {
+        return;
+      }
+      let response: Response;
+
+      try {
+        response = await fetchFn(url, {
+          method: mode === "presence" ? "HEAD" : "GET",
+        });
+      } catch (error) {
+        throw new MediaPipeInitializationError(
+          `MediaPipe model asset "${asset.file}" could not be loaded from ${resolver.source} (${url})`,
+          error instanceof Error ? error : undefined
+        );
+      }
+
+      if (!response.ok) {
+        throw new MediaPipeInitializationError(
+          `MediaPipe model asset "${asset.file}" is missing from ${resolver.source} (${url}, HTTP ${response.status})`
+        );
+      }
+
+      if (mode === "sha256") {
+        const digest = await sha256Hex(await response.arrayBuffer());
+        if (digest !== null && digest !== asset.sha256) {
+          throw new MediaPipeInitializationError(
+            `MediaPipe model asset "${asset.file}" failed integrity check (expected ${asset.sha256}, got ${digest})`
+          );
+        }
+        if (digest !== null) {
+          hashVerifiedUrls.add(url);
+        }
+      }
+    })
+  );
+}
+
+async function sha256Hex(data: ArrayBuffer): Promise<string | null> {
+  // crypto.subtle is only exposed in secure contexts
+  if (typeof crypto === "undefined" || !crypto.subtle) {
+    console.warn("SubtleCrypto unavailable, skipping model asset hash check");
+    return null;
+  }
+
+  const hash = await crypto.subtle.digest("SHA-256", new Uint8Array(data));
+  return Array.from(new Uint8Array(hash))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+function ensureTrailingSlash(path: string): string {
+  return path.endsWith("/") ? path : `${path}/`;
+}
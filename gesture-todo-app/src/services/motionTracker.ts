@@ -0,0 +1,239 @@
+/** @format */
+
+import { MotionGestureType } from "../types";
+import { stripUndefined } from "../utils";
+
+// Trajectory-based recognition of swipes and circles. Positions are in
+// normalized image coordinates (0..1, y down) as reported by MediaPipe, so
+// directions are as seen in the camera image. Durations are in milliseconds
+// and are measured from frame timestamps.
+export interface MotionTrackerConfig {
+  enabled?: boolean;
+  // Swipes: the wrist must travel this far within the swipe window...
+  swipeMinDistance?: number;
+  // ...at this average speed (image sizes per second)...
+  swipeMinVelocity?: number;
+  swipeWindow?: number;
+  // ...while drifting sideways by at most this fraction of the distance
+  swipeMaxDeviation?: number;
+  // Circles: the index fingertip must sweep this many degrees around the
+  // centre of its path within the circle window...
+  circleMinSweep?: number;
+  // ...on a path at least this large (radius, image sizes)...
+  circleMinRadius?: number;
+  // ...and reasonably round (standard deviation / mean of the radius)
+  circleMaxRadiusVariation?: number;
+  circleWindow?: number;
+  // Minimum time between two motion gestures
+  cooldown?: number;
+  // Above this speed (image sizes per second) the hand counts as moving
+  movingVelocity?: number;
+}
+
+export const DEFAULT_MOTION_TRACKER_CONFIG: Required<MotionTrackerConfig> = {
+  enabled: true,
+  swipeMinDistance: 0.25,
+  swipeMinVelocity: 0.8,
+  swipeWindow: 400,
+  swipeMaxDeviation: 0.5,
+  circleMinSweep: 320,
+  circleMinRadius: 0.04,
+  circleMaxRadiusVariation: 0.35,
+  circleWindow: 1500,
+  cooldown: 600,
+  movingVelocity: 0.5,
+};
+
+export interface MotionPoint {
+  x: number;
+  y: number;
+}
+
+// Points tracked in one frame
+export interface MotionSample {
+  // Whole-hand movement (swipes)
+  wrist: MotionPoint;
+  // Fingertip movement (circles)
+  indexTip: MotionPoint;
+}
+
+interface TrackedSample extends MotionSample {
+  timestamp: number;
+}
+
+// Fewer points than this cannot describe a circle
+const MIN_CIRCLE_POINTS = 8;
+// Speed used by isMoving() is measured over this much of the trajectory
+const MOVING_WINDOW = 100;
+
+export class MotionTracker {
+  private config: Required<MotionTrackerConfig>;
+  private history: TrackedSample[] = [];
+  private cooldownUntil = -Infinity;
+
+  constructor(config: MotionTrackerConfig = {}) {
+    this.config = {
+      ...DEFAULT_MOTION_TRACKER_CONFIG,
+      ...stripUndefined(config),
+    };
+  }
+
+  // Feed one frame (null when no hand was seen); returns a motion gesture
+  // once one has been completed
+  push(
+    sample: MotionSample | null,
+    timestamp: number
+  ): MotionGestureType | null {
+    const last = this.history[this.history.length - 1];
+
+    // A lost hand or a restarted clock breaks the trajectory
+    if (
+      !this.config.enabled ||
+      !sample ||
+      (last && timestamp < last.timestamp)
+    ) {
+      this.history = [];
+      return null;
+    }
+
+    this.history.push({ ...sample, timestamp });
+    const cutoff =
+      timestamp - Math.max(this.config.swipeWindow, this.config.circleWindow);
+    while (this.history.length > 0 && this.history[0].timestamp < cutoff) {
+      this.history.shift();
+    }
+
+    if (timestamp < this.cooldownUntil) {
+      return null;
+    }
+
+    const gesture = this.detectSwipe(timestamp) ?? this.detectCircle(timestamp);
+    if (gesture) {
+      this.cooldownUntil = timestamp + this.config.cooldown;
+      // The next motion needs a fresh trajectory
+      this.history = [];
+    }
+    return gesture;
+  }
+
+  // Whether the hand is currently moving fast, e.g. in the middle of a swipe
+  isMoving(): boolean {
+    if (this.history.length < 2) {
+      return false;
+    }
+
+    const last = this.history[this.history.length - 1];
+    const first =
+      this.history.find((s) => s.timestamp >= last.timestamp - MOVING_WINDOW) ??
+      last;
+    const elapsed = last.timestamp - first.timestamp;
+    if (elapsed === 0) {
+      return false;
+    }
+
+    const distance = Math.hypot(
+      last.wrist.x - first.wrist.x,
+      last.wrist.y - first.wrist.y
+    );
+    return (distance / elapsed) * 1000 > this.config.movingVelocity;
+  }
+
+  private detectSwipe(timestamp: number): MotionGestureType | null {
+    const { swipeMinDistance, swipeMinVelocity, swipeWindow } = this.config;
+    const samples = this.history.filter(
+      (s) => s.timestamp >= timestamp - swipeWindow
+    );
+    if (samples.length < 2) {
+      return null;
+    }
+
+    const first = samples[0];
+    const last = samples[samples.length - 1];
+    const dx = last.wrist.x - first.wrist.x;
+    const dy = last.wrist.y - first.wrist.y;
+    const distance = Math.hypot(dx, dy);
+    const elapsed = last.timestamp - first.timestamp;
+
+    if (
+      elapsed === 0 ||
+      distance < swipeMinDistance ||
+      (distance / elapsed) * 1000 < swipeMinVelocity
+    ) {
+      return null;
+    }
+
+    // Mostly along one axis
+    const horizontal = Math.abs(dx) >= Math.abs(dy);
+    const sideways = horizontal ? Math.abs(dy) : Math.abs(dx);
+    if (sideways > distance * this.config.swipeMaxDeviation) {
+      return null;
+    }
+
+    if (horizontal) {
+      return dx < 0 ? "swipe_left" : "swipe_right";
+    }
+    return dy < 0 ? "swipe_up" : "swipe_down";
+  }
+
+  private detectCircle(timestamp: number): MotionGestureType | null {
+    const { circleMinSweep, circleMinRadius, circleWindow } = this.config;
+    const points = this.history
+      .filter((s) => s.timestamp >= timestamp - circleWindow)
+      .map((s) => s.indexTip);
+    if (points.length < MIN_CIRCLE_POINTS) {
+      return null;
+    }
+
+    const centerX = points.reduce((sum, p) => sum + p.x, 0) / points.length;
+    const centerY = points.reduce((sum, p) => sum + p.y, 0) / points.length;
+    const radii = points.map((p) => Math.hypot(p.x - centerX, p.y - centerY));
+    const meanRadius = radii.reduce((sum, r) => sum + r, 0) / radii.length;
+
+    if (meanRadius < circleMinRadius) {
+      return null;
+    }
+
+    const variance =
+      radii.reduce((sum, r) => sum + (r - meanRadius) ** 2, 0) / radii.length;
+    if (
+      Math.sqrt(variance) / meanRadius >
+      this.config.circleMaxRadiusVariation
+    ) {
+      return null;
+    }
+
+    // Signed angle swept around the centre
+    let sweep = 0;
+    for (let i = 1; i < points.length; i++) {
+      let delta =
+        Math.atan2(points[i].y - centerY, points[i].x - centerX) -
+        Math.atan2(points[i - 1].y - centerY, points[i - 1].x - centerX);
+      if (delta > Math.PI) delta -= 2 * Math.PI;
+      if (delta < -Math.PI) delta += 2 * Math.PI;
+      sweep += delta;
+    }
+    const degrees = (sweep * 180) / Math.PI;
+
+    if (Math.abs(degrees) < circleMinSweep) {
+      return null;
+    }
+
+    // With y pointing down a positive angle turns clockwise on screen
+    return degrees > 0 ? "circle_cw" : "circle_ccw";
+  }
+
+  updateConfig(config: MotionTrackerConfig): void {
+    this.config = { ...this.config, ...stripUndefined(config) };
+    // The trajectory was collected under the old thresholds
+    this.history = [];
+  }
+
+  getConfig(): Required<MotionTrackerConfig> {
+    return { ...this.config };
+  }
+
+  reset(): void {
+    this.history = [];
+    this.cooldownUntil = -Infinity;
+  }
+}
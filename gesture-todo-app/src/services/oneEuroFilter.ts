@@ -0,0 +1,66 @@
+/** @format */
+
+import { stripUndefined } from "../utils";
+
+// One-Euro filter (Casiez et al., CHI 2012): a low-pass filter whose cutoff
+// rises with speed, so a still pointer is steady and a moving one does not
+// lag. Frequencies are in Hz; timestamps are in milliseconds.
+export interface OneEuroFilterConfig {
+  // Cutoff while the value is still; lower means less jitter
+  minCutoff?: number;
+  // How fast the cutoff rises with speed; higher means less lag
+  beta?: number;
+  // Cutoff used to smooth the speed itself
+  derivativeCutoff?: number;
+}
+
+export const DEFAULT_ONE_EURO_CONFIG: Required<OneEuroFilterConfig> = {
+  minCutoff: 1,
+  beta: 0.007,
+  derivativeCutoff: 1,
+};
+
+// Smoothing factor of an exponential filter with the given cutoff
+const smoothingFactor = (cutoff: number, elapsed: number) => {
+  const tau = 1 / (2 * Math.PI * cutoff);
+  return 1 / (1 + tau / elapsed);
+};
+
+export class OneEuroFilter {
+  private readonly config: Required<OneEuroFilterConfig>;
+  private value: number | null = null;
+  private derivative = 0;
+  private lastTimestamp = 0;
+
+  constructor(config: OneEuroFilterConfig = {}) {
+    this.config = { ...DEFAULT_ONE_EURO_CONFIG, ...stripUndefined(config) };
+  }
+
+  filter(value: number, timestamp: number): number {
+    const elapsed = (timestamp - this.lastTimestamp) / 1000;
+    if (this.value === null || elapsed <= 0) {
+      // First sample, or a repeated timestamp that carries no speed
+      if (this.value === null) {
+        this.value = value;
+      }
+      this.lastTimestamp = timestamp;
+      return this.value;
+    }
+
+    const { minCutoff, beta, derivativeCutoff } = this.config;
+    const rawDerivative = (value - this.value) / elapsed;
+    const derivativeAlpha = smoothingFactor(derivativeCutoff, elapsed);
+    this.derivative += derivativeAlpha * (rawDerivative - this.derivative);
+
+    const cutoff = minCutoff + beta * Math.abs(this.derivative);
+    this.value += smoothingFactor(cutoff, elapsed) * (value - this.value);
+    this.lastTimestamp = timestamp;
+    return this.value;
+  }
+
+  reset(): void {
+    this.value = null;
+    this.derivative = 0;
+    this.lastTimestamp = 0;
+  }
+}
@@ -0,0 +1,105 @@
+/** @format */
+
+import { PointerState } from "./handPointer";
+
+// Elements (and their descendants) that handle hand-pointer drags
+// themselves; drags starting elsewhere scroll the page
+export const POINTER_DRAGGABLE_ATTRIBUTE = "data-pointer-draggable";
+
+// Pointer id of the synthesized events, apart from real mice and touches
+export const HAND_POINTER_ID = 1000;
+
+const FOCUSABLE = "input, textarea, select, button, [tabindex]";
+
+// Operates the page with the hand pointer in pointer mode: a short pinch
+// clicks what is under the cursor, and a held pinch drags. Drags are sent as
+// pointerdown / pointermove / pointerup to the element the drag started on,
+// like an implicitly captured touch.
+export class PointerDriver {
+  private dragTarget: Element | null = null;
+  private lastClientY = 0;
+
+  constructor(private readonly view: Window = window) {}
+
+  update(state: PointerState | null): void {
+    if (!state) {
+      // The hand left the camera mid-drag
+      this.cancel();
+      return;
+    }
+
+    const clientX = state.x * this.view.innerWidth;
+    const clientY = state.y * this.view.innerHeight;
+
+    if (state.isDragging) {
+      if (this.dragTarget) {
+        this.dispatch(this.dragTarget, "pointermove", clientX, clientY);
+        if (!this.dragTarget.closest(`[${POINTER_DRAGGABLE_ATTRIBUTE}]`)) {
+          this.view.scrollBy(0, this.lastClientY - clientY);
+        }
+      } else {
+        this.dragTarget = this.elementAt(clientX, clientY);
+        if (this.dragTarget) {
+          this.dispatch(this.dragTarget, "pointerdown", clientX, clientY);
+        }
+      }
+      this.lastClientY = clientY;
+      return;
+    }
+
+    if (!state.pinchEnded) {
+      return;
+    }
+
+    if (this.dragTarget) {
+      this.dispatch(this.dragTarget, "pointerup", clientX, clientY);
+      this.dragTarget = null;
+      return;
+    }
+
+    const element = this.elementAt(clientX, clientY);
+    if (element instanceof HTMLElement) {
+      const focusable = element.closest(FOCUSABLE);
+      if (focusable instanceof HTMLElement) {
+        focusable.focus();
+      }
+      element.click();
+    }
+  }
+
+  // End a drag in progress without a drop
+  cancel(): void {
+    if (this.dragTarget) {
+      this.dispatch(this.dragTarget, "pointercancel", 0, 0);
+      this.dragTarget = null;
+    }
+  }
+
+  private elementAt(clientX: number, clientY: number): Element | null {
+    const { document } = this.view;
+    return typeof document.elementFromPoint === "function"
+      ? document.elementFromPoint(clientX, clientY)
+      : null;
+  }
+
+  private dispatch(
+    target: Element,
+    type: string,
+    clientX: number,
+    clientY: number
+  ): void {
+    const init: PointerEventInit = {
+      bubbles: true,
+      cancelable: true,
+      clientX,
+      clientY,
+      pointerId: HAND_POINTER_ID,
+      pointerType: "touch",
+      isPrimary: false,
+    };
+    // jsdom and older engines lack PointerEvent
+    const PointerEventType =
+      typeof PointerEvent === "function" ? PointerEvent : MouseEvent;
+    target.dispatchEvent(new PointerEventType(type, init));
+  }
+}
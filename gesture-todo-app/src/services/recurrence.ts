@@ -0,0 +1,284 @@
+/** @format */
+
+import { RecurrenceFrequency, RecurrenceRule, Task } from "../types";
+
+// Occurrences are worked out on the local calendar: the next occurrence of a
+// task due at 9:00 is at 9:00 again, whether or not a daylight saving change
+// falls in between. Rules are written as a subset of iCalendar RRULEs, e.g.
+// "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,FR".
+
+export class RecurrenceError extends Error {
+  constructor(
+    message: string,
+    public readonly cause?: Error
+  ) {
+    super(message);
+    this.name = "RecurrenceError";
+  }
+}
+
+// Rules the task editor offers without writing an RRULE
+export type RecurrencePreset = "daily" | "weekdays" | "weekly" | "monthly";
+
+const WEEKDAYS = [1, 2, 3, 4, 5];
+const DAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+// Short English day names, Sunday first
+export const WEEKDAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const FREQUENCIES: Record<string, RecurrenceFrequency> = {
+  DAILY: "daily",
+  WEEKLY: "weekly",
+  MONTHLY: "monthly",
+  YEARLY: "yearly",
+};
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function createRecurrence(
+  preset: RecurrencePreset,
+  dueDate: Date = new Date()
+): RecurrenceRule {
+  switch (preset) {
+    case "daily":
+      return { frequency: "daily", interval: 1 };
+    case "weekdays":
+      return { frequency: "weekly", interval: 1, weekdays: [...WEEKDAYS] };
+    case "weekly":
+      return { frequency: "weekly", interval: 1, weekdays: [dueDate.getDay()] };
+    case "monthly":
+      return { frequency: "monthly", interval: 1, monthDay: dueDate.getDate() };
+  }
+}
+
+// The preset a rule was made from, or "custom" for anything else
+export function getRecurrencePreset(
+  rule: RecurrenceRule
+): RecurrencePreset | "custom" {
+  if (rule.interval !== 1) {
+    return "custom";
+  }
+  switch (rule.frequency) {
+    case "daily":
+      return "daily";
+    case "weekly":
+      return sameDays(rule.weekdays ?? [], WEEKDAYS) ? "weekdays" : "weekly";
+    case "monthly":
+      return "monthly";
+    default:
+      return "custom";
+  }
+}
+
+const byNumber = (a: number, b: number) => a - b;
+
+const sameDays = (a: number[], b: number[]) =>
+  a.length === b.length &&
+  [...a].sort(byNumber).every((day, i) => day === b[i]);
+
+// Same time of day as `time`, on the given local date. Month and day
+// overflow roll over as usual.
+const atTimeOf = (time: Date, year: number, month: number, day: number) =>
+  new Date(
+    year,
+    month,
+    day,
+    time.getHours(),
+    time.getMinutes(),
+    time.getSeconds(),
+    time.getMilliseconds()
+  );
+
+const addDays = (date: Date, days: number) =>
+  atTimeOf(date, date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+// Days between the epoch and a local date, unaffected by DST
+const dayNumber = (date: Date) =>
+  Math.round(
+    Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) / DAY_MS
+  );
+
+const daysInMonth = (year: number, month: number) =>
+  new Date(year, month + 1, 0).getDate();
+
+// `monthDay` in the given month, on the last day if the month is too short
+const onMonthDay = (time: Date, year: number, month: number, day: number) => {
+  const first = new Date(year, month, 1);
+  const last = daysInMonth(first.getFullYear(), first.getMonth());
+  return atTimeOf(
+    time,
+    first.getFullYear(),
+    first.getMonth(),
+    day === -1 ? last : Math.min(day, last)
+  );
+};
+
+// First occurrence strictly after `after`, at the same time of day
+export function getNextOccurrence(rule: RecurrenceRule, after: Date): Date {
+  const interval = Math.max(1, Math.floor(rule.interval) || 1);
+
+  switch (rule.frequency) {
+    case "daily":
+      return addDays(after, interval);
+
+    case "weekly": {
+      const weekdays = rule.weekdays?.length ? rule.weekdays : [after.getDay()];
+      // Weeks start on Sunday; only every `interval`th week counts
+      const weekStart = dayNumber(after) - after.getDay();
+      for (let offset = 1; offset <= 7 * interval; offset++) {
+        const candidate = addDays(after, offset);
+        const week =
+          (dayNumber(candidate) - candidate.getDay() - weekStart) / 7;
+        if (week % interval === 0 && weekdays.includes(candidate.getDay())) {
+          return candidate;
+        }
+      }
+      return addDays(after, 7 * interval);
+    }
+
+    case "monthly": {
+      const day = rule.monthDay ?? after.getDate();
+      // The day may still be ahead in the current month
+      for (let months = 0; ; months += interval) {
+        const candidate = onMonthDay(
+          after,
+          after.getFullYear(),
+          after.getMonth() + months,
+          day
+        );
+        if (candidate > after) {
+          return candidate;
+        }
+      }
+    }
+
+    case "yearly":
+      return onMonthDay(
+        after,
+        after.getFullYear() + interval,
+        after.getMonth(),
+        rule.monthDay ?? after.getDate()
+      );
+  }
+}
+
+// Due date of the occurrence that follows a completed recurring task, or
+// null for a one-off task. Occurrences missed while the task was overdue are
+// skipped; a task without a due date recurs from today.
+export function getNextDueDate(
+  task: Pick<Task, "dueDate" | "recurrence">,
+  now: Date = new Date()
+): Date | null {
+  if (!task.recurrence) {
+    return null;
+  }
+
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  let next = getNextOccurrence(task.recurrence, task.dueDate ?? today);
+  while (next < today) {
+    next = getNextOccurrence(task.recurrence, next);
+  }
+  return next;
+}
+
+export function parseRecurrenceRule(text: string): RecurrenceRule {
+  const parts = text
+    .trim()
+    .replace(/^RRULE:/i, "")
+    .split(";")
+    .filter((part) => part.trim());
+  const fields = new Map<string, string>();
+  for (const part of parts) {
+    const [key, value, ...rest] = part.split("=");
+    if (!value || rest.length > 0) {
+      throw new RecurrenceError(`Invalid recurrence rule part: ${part}`);
+    }
+    fields.set(key.trim().toUpperCase(), value.trim().toUpperCase());
+  }
+
+  const frequency = FREQUENCIES[fields.get("FREQ") ?? ""];
+  if (!frequency) {
+    throw new RecurrenceError(
+      "Recurrence rule needs FREQ=DAILY, WEEKLY, MONTHLY or YEARLY"
+    );
+  }
+  const rule: RecurrenceRule = { frequency, interval: 1 };
+
+  for (const [key, value] of fields) {
+    switch (key) {
+      case "FREQ":
+        break;
+      case "INTERVAL":
+        rule.interval = Number(value);
+        if (!Number.isInteger(rule.interval) || rule.interval < 1) {
+          throw new RecurrenceError(`Invalid interval: ${value}`);
+        }
+        break;
+      case "BYDAY":
+        if (frequency !== "weekly") {
+          throw new RecurrenceError("BYDAY needs FREQ=WEEKLY");
+        }
+        rule.weekdays = value.split(",").map((code) => {
+          const day = DAY_CODES.indexOf(code);
+          if (day === -1) {
+            throw new RecurrenceError(`Invalid day: ${code}`);
+          }
+          return day;
+        });
+        break;
+      case "BYMONTHDAY": {
+        if (frequency !== "monthly" && frequency !== "yearly") {
+          throw new RecurrenceError("BYMONTHDAY needs FREQ=MONTHLY or YEARLY");
+        }
+        const day = Number(value);
+        if (!Number.isInteger(day) || (day !== -1 && (day < 1 || day > 31))) {
+          throw new RecurrenceError(`Invalid day of the month: ${value}`);
+        }
+        rule.monthDay = day;
+        break;
+      }
+      default:
+        throw new RecurrenceError(`Unsupported recurrence rule part: ${key}`);
+    }
+  }
+  return rule;
+}
+
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.frequency.toUpperCase()}`];
+  if (rule.interval !== 1) {
+    parts.push(`INTERVAL=${rule.interval}`);
+  }
+  if (rule.weekdays?.length) {
+    const days = [...rule.weekdays].sort(byNumber).map((day) => DAY_CODES[day]);
+    parts.push(`BYDAY=${days.join(",")}`);
+  }
+  if (rule.monthDay !== undefined) {
+    parts.push(`BYMONTHDAY=${rule.monthDay}`);
+  }
+  return parts.join(";");
+}
+
+// Short English description, e.g. "Every 2 weeks on Mon, Fri"
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const unit = {
+    daily: "day",
+    weekly: "week",
+    monthly: "month",
+    yearly: "year",
+  }[rule.frequency];
+  const every =
+    rule.interval === 1 ? `Every ${unit}` : `Every ${rule.interval} ${unit}s`;
+
+  if (rule.frequency === "weekly" && rule.weekdays?.length) {
+    if (rule.interval === 1 && sameDays(rule.weekdays, WEEKDAYS)) {
+      return "Every weekday";
+    }
+    const days = [...rule.weekdays].sort(byNumber).map((day) => WEEKDAY_NAMES[day]);
+    return `${every} on ${days.join(", ")}`;
+  }
+  if (rule.monthDay === -1) {
+    return `${every} on the last day`;
+  }
+  if (rule.monthDay !== undefined) {
+    return `${every} on day ${rule.monthDay}`;
+  }
+  return every;
+}
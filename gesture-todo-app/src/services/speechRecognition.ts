@@ -0,0 +1,197 @@
+/** @format */
+
+// Dictation error; `code` is the Web Speech error code (e.g. "not-allowed",
+// "no-speech", "network") or "unsupported"
+export class DictationError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string,
+    public readonly cause?: Error
+  ) {
+    super(message);
+    this.name = "DictationError";
+  }
+}
+
+export interface DictationTranscript {
+  // Text recognized with certainty since the last update
+  final: string;
+  // Text still being recognized; replaces the previous interim text
+  interim: string;
+}
+
+export interface DictationHandlers {
+  onTranscript: (transcript: DictationTranscript) => void;
+  onError: (error: DictationError) => void;
+  // Called once the session ends by itself (e.g. after silence) or after
+  // stop(); abort() ends it without further callbacks
+  onEnd: () => void;
+}
+
+export interface DictationOptions {
+  // BCP 47 language tag; defaults to the browser language
+  lang?: string;
+}
+
+// Source of speech-to-text for the add task dialog. Only one session runs at
+// a time; starting again replaces the running session.
+export interface SpeechRecognitionProvider {
+  readonly isSupported: boolean;
+  start(handlers: DictationHandlers, options?: DictationOptions): void;
+  // End the session, delivering any pending final text
+  stop(): void;
+  // End the session silently, dropping pending text
+  abort(): void;
+}
+
+// The parts of the Web Speech API used here; lib.dom only ships the result
+// types
+interface WebSpeechRecognitionEvent {
+  resultIndex: number;
+  results: SpeechRecognitionResultList;
+}
+
+interface WebSpeechRecognitionErrorEvent {
+  error: string;
+  message?: string;
+}
+
+interface WebSpeechRecognition {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  onresult: ((event: WebSpeechRecognitionEvent) => void) | null;
+  onerror: ((event: WebSpeechRecognitionErrorEvent) => void) | null;
+  onend: (() => void) | null;
+  start(): void;
+  stop(): void;
+  abort(): void;
+}
+
+type WebSpeechRecognitionConstructor = new () => WebSpeechRecognition;
+
+function getWebSpeechRecognition(): WebSpeechRecognitionConstructor | null {
+  if (typeof window === "undefined") {
+    return null;
+  }
+  const speechWindow = window as unknown as {
+    SpeechRecognition?: WebSpeechRecognitionConstructor;
+    webkitSpeechRecognition?: WebSpeechRecognitionConstructor;
+  };
+  return (
+    speechWindow.SpeechRecognition ??
+    speechWindow.webkitSpeechRecognition ??
+    null
+  );
+}
+
+// Browser speech recognition (prefixed in Chromium and Safari)
+export class WebSpeechRecognitionProvider implements SpeechRecognitionProvider {
+  private recognition: WebSpeechRecognition | null = null;
+
+  get isSupported(): boolean {
+    return getWebSpeechRecognition() !== null;
+  }
+
+  start(handlers: DictationHandlers, options: DictationOptions = {}): void {
+    const Recognition = getWebSpeechRecognition();
+    if (!Recognition) {
+      handlers.onError(
+        new DictationError(
+          "Speech recognition is not supported in this browser",
+          "unsupported"
+        )
+      );
+      handlers.onEnd();
+      return;
+    }
+
+    this.abort();
+
+    const recognition = new Recognition();
+    recognition.lang = options.lang ?? navigator.language;
+    recognition.continuous = true;
+    recognition.interimResults = true;
+
+    recognition.onresult = (event) => {
+      let final = "";
+      let interim = "";
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        const result = event.results[i];
+        if (result.isFinal) {
+          final += result[0].transcript;
+        } else {
+          interim += result[0].transcript;
+        }
+      }
+      handlers.onTranscript({ final, interim });
+    };
+    recognition.onerror = (event) => {
+      // The session was cut short, not a recognition failure
+      if (event.error === "aborted") {
+        return;
+      }
+      handlers.onError(
+        new DictationError(
+          event.message || `Speech recognition failed: ${event.error}`,
+          event.error
+        )
+      );
+    };
+    recognition.onend = () => {
+      if (this.recognition === recognition) {
+        this.recognition = null;
+      }
+      handlers.onEnd();
+    };
+
+    this.recognition = recognition;
+    try {
+      recognition.start();
+    } catch (error) {
+      this.recognition = null;
+      handlers.onError(
+        new DictationError(
+          "Failed to start speech recognition",
+          "start-failed",
+          error instanceof Error ? error : undefined
+        )
+      );
+      handlers.onEnd();
+    }
+  }
+
+  stop(): void {
+    this.recognition?.stop();
+  }
+
+  abort(): void {
+    const recognition = this.recognition;
+    if (!recognition) {
+      return;
+    }
+    recognition.onresult = null;
+    recognition.onerror = null;
+    recognition.onend = null;
+    this.recognition = null;
+    recognition.abort();
+  }
+}
+
+export function createDefaultSpeechRecognitionProvider(): SpeechRecognitionProvider {
+  return new WebSpeechRecognitionProvider();
+}
+
+// Append dictated text, adding a space only between words of space-separated
+// scripts (Japanese and Chinese transcripts come without spaces)
+export function appendTranscript(text: string, addition: string): string {
+  const trimmed = addition.trim();
+  if (!trimmed) {
+    return text;
+  }
+  if (!text) {
+    return trimmed;
+  }
+  const needsSpace = /[A-Za-z0-9]$/.test(text) && /^[A-Za-z0-9]/.test(trimmed);
+  return needsSpace ? `${text} ${trimmed}` : `${text}${trimmed}`;
+}
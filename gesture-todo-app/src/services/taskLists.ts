@@ -0,0 +1,162 @@
+/** @format */
+
+import { Task, TaskList } from "../types";
+import { generateId } from "../utils";
+
+// Tasks from before lists existed belong to this list; it cannot be deleted
+export const DEFAULT_LIST_ID = "default";
+export const TASK_LIST_EXPORT_VERSION = 1;
+
+export class TaskListError extends Error {
+  constructor(message: string, public readonly cause?: Error) {
+    super(message);
+    this.name = "TaskListError";
+  }
+}
+
+// One list and its tasks, as written to a list export file
+export interface TaskListExport {
+  version: typeof TASK_LIST_EXPORT_VERSION;
+  exportedAt: string;
+  list: TaskList;
+  tasks: Task[];
+}
+
+export const createDefaultTaskList = (): TaskList => ({
+  id: DEFAULT_LIST_ID,
+  name: "My Tasks",
+  archived: false,
+  createdAt: new Date(0),
+  updatedAt: new Date(0),
+});
+
+export function createTaskList(name: string, now: Date = new Date()): TaskList {
+  const trimmedName = name.trim();
+  if (!trimmedName) {
+    throw new TaskListError("List name is required");
+  }
+
+  return {
+    id: generateId(),
+    name: trimmedName,
+    archived: false,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+// The list to show after `activeId` when cycling by `step`, skipping archived
+// lists; null when there is nowhere else to go
+export function getAdjacentList(
+  lists: TaskList[],
+  activeId: string,
+  step: 1 | -1
+): TaskList | null {
+  const cycle = lists.filter((list) => !list.archived || list.id === activeId);
+  const index = cycle.findIndex((list) => list.id === activeId);
+  if (index === -1) {
+    return cycle[0] ?? null;
+  }
+  if (cycle.length < 2) {
+    return null;
+  }
+  return cycle[(index + step + cycle.length) % cycle.length];
+}
+
+export function serializeTaskList(list: TaskList, tasks: Task[]): string {
+  const data: TaskListExport = {
+    version: TASK_LIST_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    list,
+    tasks,
+  };
+  return JSON.stringify(data);
+}
+
+// Validate untrusted JSON (e.g. an exported file) as a list export. Dates are
+// revived; missing task fields are filled in when the tasks are stored.
+export function parseTaskListExport(data: unknown): TaskListExport {
+  let json: unknown;
+  try {
+    json = typeof data === "string" ? JSON.parse(data) : data;
+  } catch (error) {
+    throw new TaskListError(
+      "Export file is not valid JSON",
+      error instanceof Error ? error : undefined
+    );
+  }
+
+  if (!json || typeof json !== "object") {
+    throw new TaskListError("Export must be an object");
+  }
+
+  const exported = json as Partial<TaskListExport>;
+
+  if (exported.version !== TASK_LIST_EXPORT_VERSION) {
+    throw new TaskListError(
+      `Unsupported export version: ${String(exported.version)}`
+    );
+  }
+
+  const list = exported.list;
+  if (!list || typeof list.name !== "string" || !list.name.trim()) {
+    throw new TaskListError("Export has no list name");
+  }
+
+  if (!Array.isArray(exported.tasks)) {
+    throw new TaskListError("Export has no tasks array");
+  }
+
+  const tasks = exported.tasks.map((task, index) => {
+    if (typeof task.id !== "string" || typeof task.text !== "string") {
+      throw new TaskListError(`Task ${index} has no id or text`);
+    }
+    return {
+      ...task,
+      completed: task.completed === true,
+      ...(task.dueDate && { dueDate: new Date(task.dueDate) }),
+      createdAt: new Date(task.createdAt ?? 0),
+      updatedAt: new Date(task.updatedAt ?? task.createdAt ?? 0),
+    };
+  });
+
+  const createdAt = list.createdAt ? new Date(list.createdAt) : new Date();
+  return {
+    version: TASK_LIST_EXPORT_VERSION,
+    exportedAt: exported.exportedAt ?? new Date(0).toISOString(),
+    list: {
+      id: typeof list.id === "string" ? list.id : generateId(),
+      name: list.name.trim(),
+      archived: list.archived === true,
+      createdAt,
+      updatedAt: list.updatedAt ? new Date(list.updatedAt) : createdAt,
+    },
+    tasks,
+  };
+}
+
+// Copy of an exported list under new ids, so importing a file twice, or
+// into the device it came from, adds a list instead of overwriting one
+export function copyTaskList(
+  data: Pick<TaskListExport, "list" | "tasks">,
+  now: Date = new Date()
+): { list: TaskList; tasks: Task[] } {
+  const list: TaskList = {
+    ...data.list,
+    id: generateId(),
+    archived: false,
+    createdAt: now,
+    updatedAt: now,
+  };
+  // Subtasks follow their parents to the new ids
+  const ids = new Map(data.tasks.map((task) => [task.id, generateId()]));
+  return {
+    list,
+    tasks: data.tasks.map((task) => ({
+      ...task,
+      id: ids.get(task.id)!,
+      listId: list.id,
+      parentId: (task.parentId && ids.get(task.parentId)) ?? null,
+    })),
+  };
+}
@@ -0,0 +1,156 @@
+/** @format */
+
+import { SavedView, Task, TaskQuery, TaskSortKey } from "../types";
+import { TASK_PRIORITIES, generateId, toDateInputValue } from "../utils";
+import { isTaskHidden } from "../utils/taskTree";
+
+export class TaskQueryError extends Error {
+  constructor(message: string, public readonly cause?: Error) {
+    super(message);
+    this.name = "TaskQueryError";
+  }
+}
+
+// Every task, in the manual order
+export const DEFAULT_TASK_QUERY: TaskQuery = {
+  text: "",
+  status: "all",
+  tags: [],
+  priorities: [],
+  sort: "manual",
+};
+
+// Whether a query narrows down or reorders the list. Its matches are then
+// listed flat, like search results, rather than as a tree.
+export const isTaskQueryActive = (query: TaskQuery): boolean =>
+  query.text.trim() !== "" ||
+  query.status !== "all" ||
+  query.tags.length > 0 ||
+  query.priorities.length > 0 ||
+  !!query.dueFrom ||
+  !!query.dueTo ||
+  query.sort !== "manual";
+
+// Whether two queries show the same tasks in the same order
+export const isSameTaskQuery = (a: TaskQuery, b: TaskQuery): boolean =>
+  a.text.trim() === b.text.trim() &&
+  a.status === b.status &&
+  a.tags.join("\n") === b.tags.join("\n") &&
+  [...a.priorities].sort().join() === [...b.priorities].sort().join() &&
+  (a.dueFrom || "") === (b.dueFrom || "") &&
+  (a.dueTo || "") === (b.dueTo || "") &&
+  a.sort === b.sort;
+
+export function matchesTaskQuery(task: Task, query: TaskQuery): boolean {
+  const text = task.text.toLowerCase();
+  const words = query.text.toLowerCase().split(/\s+/).filter(Boolean);
+  if (!words.every((word) => text.includes(word))) {
+    return false;
+  }
+
+  if (
+    query.status !== "all" &&
+    task.completed !== (query.status === "completed")
+  ) {
+    return false;
+  }
+
+  const tags = task.tags.map((tag) => tag.toLowerCase());
+  if (!query.tags.every((tag) => tags.includes(tag.toLowerCase()))) {
+    return false;
+  }
+
+  if (
+    query.priorities.length > 0 &&
+    !query.priorities.includes(task.priority)
+  ) {
+    return false;
+  }
+
+  if (query.dueFrom || query.dueTo) {
+    // YYYY-MM-DD strings compare in date order
+    const due = task.dueDate && toDateInputValue(task.dueDate);
+    if (
+      !due ||
+      (query.dueFrom && due < query.dueFrom) ||
+      (query.dueTo && due > query.dueTo)
+    ) {
+      return false;
+    }
+  }
+  return true;
+}
+
+const TASK_COMPARATORS: Record<
+  Exclude<TaskSortKey, "manual">,
+  (a: Task, b: Task) => number
+> = {
+  // Soonest first, tasks without a due date last
+  dueDate: (a, b) =>
+    !a.dueDate || !b.dueDate
+      ? Number(!a.dueDate) - Number(!b.dueDate)
+      : a.dueDate.getTime() - b.dueDate.getTime(),
+  // Most urgent first
+  priority: (a, b) =>
+    TASK_PRIORITIES.indexOf(b.priority) - TASK_PRIORITIES.indexOf(a.priority),
+  // Newest first
+  createdAt: (a, b) => b.createdAt.getTime() - a.createdAt.getTime(),
+  text: (a, b) => a.text.localeCompare(b.text),
+};
+
+// Tasks in the order the list shows them, open tasks before done ones.
+// `tasks` are in tree order (see utils/taskTree). Without an active query
+// subtasks stay with their top-level task and are left out under collapsed
+// tasks; otherwise the matches are sorted flat, ties in the manual order.
+export function getVisibleTasks(
+  tasks: Task[],
+  query: TaskQuery,
+  collapsedTaskIds: string[]
+): Task[] {
+  let visible: Task[];
+  // Whether a task goes in the done group
+  const isDone = new Map<string, boolean>();
+
+  if (isTaskQueryActive(query)) {
+    visible = tasks.filter((task) => matchesTaskQuery(task, query));
+    if (query.sort !== "manual") {
+      visible.sort(TASK_COMPARATORS[query.sort]);
+    }
+    visible.forEach((task) => isDone.set(task.id, task.completed));
+  } else {
+    visible = tasks.filter(
+      (task) => !isTaskHidden(tasks, task, collapsedTaskIds)
+    );
+    // Parents come first, so subtasks can take their group
+    for (const task of tasks) {
+      isDone.set(task.id, isDone.get(task.parentId ?? "") ?? task.completed);
+    }
+  }
+
+  return [
+    ...visible.filter((task) => !isDone.get(task.id)),
+    ...visible.filter((task) => isDone.get(task.id)),
+  ];
+}
+
+export function createSavedView(
+  name: string,
+  query: TaskQuery,
+  now: Date = new Date()
+): SavedView {
+  const trimmedName = name.trim();
+  if (!trimmedName) {
+    throw new TaskQueryError("View name is required");
+  }
+
+  return { id: generateId(), name: trimmedName, query, createdAt: now };
+}
+
+// Saved views as read back from settings or a backup, which may predate
+// query fields or have been through JSON
+export const reviveSavedViews = (views: SavedView[]): SavedView[] =>
+  views.map((view) => ({
+    ...view,
+    query: { ...DEFAULT_TASK_QUERY, ...view.query },
+    createdAt: new Date(view.createdAt),
+  }));
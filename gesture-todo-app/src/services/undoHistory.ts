@@ -0,0 +1,118 @@
+/** @format */
+
+import { Task, TaskList } from "../types";
+import type { DatabaseExport } from "./database";
+
+// One reversible change to the task list. Toggling completion is an update.
+export type HistoryEntry =
+  | { type: "add"; task: Task }
+  // `next` is the occurrence added by completing a recurring task
+  | { type: "update"; before: Task; after: Task; next?: Task }
+  // `index` is the task's position in the list, so undo can put it back.
+  // `subtasks` are the subtasks at any depth deleted along with the task.
+  | { type: "delete"; task: Task; index: number; subtasks?: Task[] }
+  | { type: "import"; before: DatabaseExport; after: DatabaseExport }
+  // A list imported from a file or deleted, along with its tasks
+  | { type: "importList" | "deleteList"; list: TaskList; tasks: Task[] };
+
+// Persisted form of the undo and redo stacks, oldest entry first
+export interface UndoHistoryState {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
+// Oldest entries are dropped beyond this; imports hold full snapshots
+export const DEFAULT_HISTORY_LIMIT = 50;
+
+export class UndoHistory {
+  private past: HistoryEntry[];
+  private future: HistoryEntry[];
+
+  constructor(
+    state: UndoHistoryState = { past: [], future: [] },
+    private readonly limit = DEFAULT_HISTORY_LIMIT
+  ) {
+    this.past = state.past.slice(-limit);
+    this.future = state.future.slice(-limit);
+  }
+
+  // A new change makes the redo stack obsolete
+  record(entry: HistoryEntry): void {
+    this.past = [...this.past, entry].slice(-this.limit);
+    this.future = [];
+  }
+
+  // Revert the latest change. The stacks only move once `revert` succeeds,
+  // so a failed undo can be retried.
+  async undo(
+    revert: (entry: HistoryEntry) => Promise<void>
+  ): Promise<HistoryEntry | null> {
+    const entry = this.past[this.past.length - 1];
+    if (!entry) {
+      return null;
+    }
+
+    await revert(entry);
+    this.past = this.past.slice(0, -1);
+    this.future = [...this.future, entry];
+    return entry;
+  }
+
+  // Re-apply the latest undone change
+  async redo(
+    apply: (entry: HistoryEntry) => Promise<void>
+  ): Promise<HistoryEntry | null> {
+    const entry = this.future[this.future.length - 1];
+    if (!entry) {
+      return null;
+    }
+
+    await apply(entry);
+    this.future = this.future.slice(0, -1);
+    this.past = [...this.past, entry];
+    return entry;
+  }
+
+  canUndo(): boolean {
+    return this.past.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.future.length > 0;
+  }
+
+  getState(): UndoHistoryState {
+    return { past: [...this.past], future: [...this.future] };
+  }
+
+  clear(): void {
+    this.past = [];
+    this.future = [];
+  }
+}
+
+// Short description of a change, e.g. for the undo toast
+export function describeHistoryEntry(entry: HistoryEntry): string {
+  switch (entry.type) {
+    case "add":
+      return `Added "${entry.task.text}"`;
+    case "delete":
+      return `Deleted "${entry.task.text}"`;
+    case "update":
+      if (entry.before.completed !== entry.after.completed) {
+        return `${entry.after.completed ? "Completed" : "Reopened"} "${
+          entry.after.text
+        }"`;
+      }
+      if (entry.before.order !== entry.after.order) {
+        return `Moved "${entry.after.text}"`;
+      }
+      return `Updated "${entry.after.text}"`;
+    case "import":
+      return `Imported ${entry.after.tasks.length} tasks`;
+    case "importList":
+      return `Imported list "${entry.list.name}"`;
+    case "deleteList":
+      return `Deleted list "${entry.list.name}"`;
+  }
+}
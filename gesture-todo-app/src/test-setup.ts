@@ -24,6 +24,11 @@ async function testSetup() {
     const taskId = await db.addTask({
       text: "Test task",
       completed: false,
+      priority: "none",
+      tags: [],
+      order: "a0",
+      listId: "default",
+      parentId: null,
       createdAt: new Date(),
       updatedAt: new Date(),
     });
@@ -1,16 +1,99 @@
 /** @format */
 
+// Task priority, from least to most urgent
+export type TaskPriority = "none" | "low" | "medium" | "high";
+
 // Task model
 export interface Task {
   id: string;
   text: string;
   completed: boolean;
+  priority: TaskPriority;
+  // Local date and time the task is due; without hasDueTime only the date
+  // part is meaningful (the time is midnight)
+  dueDate?: Date;
+  hasDueTime?: boolean;
+  // Free-form labels, unique and without a leading "#"
+  tags: string[];
+  // Position in the manual order: a fractional index key (see
+  // utils/fractionalIndex), compared as a plain string
+  order: string;
+  // List the task belongs to
+  listId: string;
+  // Task this is a subtask of, in the same list; null for top-level tasks.
+  // Subtasks can have subtasks of their own.
+  parentId: string | null;
+  // Completing a recurring task adds its next occurrence, which takes the
+  // rule over
+  recurrence?: RecurrenceRule;
   createdAt: Date;
   updatedAt: Date;
 }
 
-// Gesture types
-export type GestureType =
+// How often a recurring task repeats
+export type RecurrenceFrequency = "daily" | "weekly" | "monthly" | "yearly";
+
+// When a recurring task comes back, modelled on iCalendar RRULEs (see
+// services/recurrence)
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  // Every `interval` days, weeks, months or years
+  interval: number;
+  // Weekly rules: days of the week, 0 = Sunday. Defaults to the due date's.
+  weekdays?: number[];
+  // Monthly and yearly rules: day of the month, -1 for the last. Days past
+  // the end of a short month fall on its last day.
+  monthDay?: number;
+}
+
+// Completion filter of the task list
+export type TaskStatusFilter = "all" | "active" | "completed";
+
+// Task list orders; "manual" is the drag-and-drop order with subtasks
+// under their parent
+export type TaskSortKey =
+  | "manual"
+  | "dueDate"
+  | "priority"
+  | "createdAt"
+  | "text";
+
+// Search, filters and sort applied to the task list (see services/taskQuery)
+export interface TaskQuery {
+  // Words that must all appear in the task text, in any case
+  text: string;
+  status: TaskStatusFilter;
+  // Tags a task must all have
+  tags: string[];
+  // Priorities to show; empty for all
+  priorities: TaskPriority[];
+  // Due date range as YYYY-MM-DD local dates, both ends included. Tasks
+  // without a due date are left out once either end is set.
+  dueFrom?: string;
+  dueTo?: string;
+  sort: TaskSortKey;
+}
+
+// Named query, offered in the query bar
+export interface SavedView {
+  id: string;
+  name: string;
+  query: TaskQuery;
+  createdAt: Date;
+}
+
+// Named list of tasks
+export interface TaskList {
+  id: string;
+  name: string;
+  // Archived lists are kept but skipped when cycling through lists
+  archived: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Static hand poses, classified frame by frame
+export type HandPoseType =
   | "thumbs_up" // 新規タスク追加
   | "peace_sign" // タスク完了
   | "fist" // タスク削除
@@ -19,13 +102,132 @@ export type GestureType =
   | "open_palm" // キャンセル
   | "none";
 
+// Hand movements, recognized from the trajectory over several frames
+export type MotionGestureType =
+  | "swipe_left"
+  | "swipe_right"
+  | "swipe_up" // 5件上に移動
+  | "swipe_down" // 5件下に移動
+  | "circle_cw" // ポインターモード切り替え
+  | "circle_ccw"; // 元に戻す
+
+// Poses made with both hands at once (two-hand mode). Left and right are as
+// labelled by MediaPipe's handedness.
+export type TwoHandGestureType =
+  | "both_palms_open" // 選択を解除
+  | "fist_and_point"; // left fist + right point_up
+
+// Gesture types
+export type GestureType = HandPoseType | MotionGestureType | TwoHandGestureType;
+
+// User-trained gesture, reported as "custom:<template id>"
+export type CustomGestureId = `custom:${string}`;
+
+// Anything the recognizer can report
+export type RecognizedGesture = GestureType | CustomGestureId;
+
+// How likely a gesture is in one frame, from 0 to 1. The scores of a frame
+// add up to 1.
+export interface GestureScore {
+  gesture: RecognizedGesture;
+  score: number;
+}
+
+// User-trained gesture template
+export interface CustomGestureTemplate {
+  id: string;
+  name: string;
+  // Normalized landmark feature vectors, one per recorded sample
+  samples: number[][];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Actions a gesture can trigger
+export type GestureActionType =
+  | "add"
+  | "complete"
+  | "delete"
+  | "navigate_up"
+  | "navigate_down"
+  | "page_up"
+  | "page_down"
+  | "clear_selection"
+  | "undo"
+  | "redo"
+  | "cancel"
+  // Switch between gesture commands and the hand pointer
+  | "toggle_pointer_mode"
+  // Pick up / put down the selected task; navigation moves a held task
+  | "grab"
+  // Cycle through the lists that are not archived
+  | "next_list"
+  | "previous_list"
+  // Select the first subtask of the selected task, or its parent task
+  | "step_in"
+  | "step_out";
+
+// Destructive gesture action armed and waiting for confirmation. Times are
+// Date.now() milliseconds.
+export interface PendingConfirmation {
+  action: GestureActionType;
+  // Gesture that armed the action
+  gesture: RecognizedGesture;
+  // Task the action applies to, captured when it was armed
+  taskId?: string;
+  armedAt: number;
+  expiresAt: number;
+  // When the current unbroken hold of the arming pose began; null while the
+  // pose is not held
+  heldSince: number | null;
+  holdDuration: number;
+  confirmGesture: RecognizedGesture;
+  abortGesture: RecognizedGesture;
+}
+
+// Gesture-to-action bindings (null = gesture does nothing)
+export type GestureBindings = Record<
+  Exclude<GestureType, "none">,
+  GestureActionType | null
+> &
+  Partial<Record<CustomGestureId, GestureActionType | null>>;
+
 // App state
 export interface TodoState {
+  // Tasks of the active list
   tasks: Task[];
+  lists: TaskList[];
+  activeListId: string;
+  // Search, filters and sort of the task list, and the saved ones
+  taskQuery: TaskQuery;
+  savedViews: SavedView[];
+  // Tasks as the list shows them: those matching the query, without
+  // subtasks of collapsed tasks. The selection and gesture navigation go by
+  // these.
+  visibleTasks: Task[];
+  // Index into visibleTasks
   selectedTaskIndex: number;
   isGestureMode: boolean;
   cameraStatus: "initializing" | "active" | "error" | "disabled";
-  currentGesture: GestureType | null;
+  currentGesture: RecognizedGesture | null;
+  pendingConfirmation: PendingConfirmation | null;
+  // Task picked up with the grab gesture, moved by the navigation gestures
+  grabbedTaskId: string | null;
+  // Tasks whose subtasks are hidden; not persisted
+  collapsedTaskIds: string[];
+}
+
+// Recognition and confirmation tuning, edited in the settings panel
+export interface GestureSettings {
+  sensitivity: number;
+  debounceTime: number;
+  confidenceThreshold: number;
+  // Recognize two-handed poses; also allows a second controlling hand
+  twoHandMode: boolean;
+  // Destructive gesture actions wait for a confirm gesture or a held pose
+  confirmDestructive: boolean;
+  // How long an armed destructive action waits, in milliseconds
+  confirmTimeout: number;
 }
 
 // App settings
@@ -35,6 +237,12 @@ export interface AppSettings {
   theme: "light" | "dark";
   confidenceThreshold: number;
   debounceTime: number;
+  twoHandMode: boolean;
+  confirmDestructive: boolean;
+  confirmTimeout: number;
+  gestureBindings: GestureBindings;
+  activeListId: string;
+  savedViews: SavedView[];
 }
 
 // Camera permission status
@@ -0,0 +1,46 @@
+/** @format */
+
+import { describe, it, expect } from "vitest";
+import { generateKeyBetween, generateKeysBetween } from "../fractionalIndex";
+
+describe("generateKeyBetween", () => {
+  it("should start at the zero key and extend in both directions", () => {
+    expect(generateKeyBetween(null, null)).toBe("a0");
+    expect(generateKeyBetween("a0", null)).toBe("a1");
+    expect(generateKeyBetween(null, "a0")).toBe("Zz");
+    expect(generateKeyBetween("az", null)).toBe("b00");
+    expect(generateKeyBetween(null, "b00")).toBe("az");
+  });
+
+  it("should find a key between any two keys", () => {
+    expect(generateKeyBetween("a0", "a1")).toBe("a0V");
+    expect(generateKeyBetween("a0", "a0V")).toBe("a0G");
+    expect(generateKeyBetween("a1", "a2")).toBe("a1V");
+
+    // Repeated inserts at the same place keep working
+    let low = "a0";
+    const high = "a1";
+    for (let i = 0; i < 50; i++) {
+      const key = generateKeyBetween(low, high);
+      expect(key > low && key < high).toBe(true);
+      low = key;
+    }
+  });
+
+  it("should reject keys given out of order or malformed", () => {
+    expect(() => generateKeyBetween("a1", "a0")).toThrow();
+    expect(() => generateKeyBetween("a0", "a0")).toThrow();
+    expect(() => generateKeyBetween("a10", null)).toThrow();
+    expect(() => generateKeyBetween("!", null)).toThrow();
+  });
+});
+
+describe("generateKeysBetween", () => {
+  it("should return ascending keys inside the bounds", () => {
+    const keys = generateKeysBetween("a0", "a1", 5);
+    expect(keys).toHaveLength(5);
+    expect([...keys].sort()).toEqual(keys);
+    expect(keys.every((key) => key > "a0" && key < "a1")).toBe(true);
+    expect(generateKeysBetween(null, null, 3)).toEqual(["a0", "a1", "a2"]);
+  });
+});
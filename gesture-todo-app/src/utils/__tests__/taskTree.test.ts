@@ -0,0 +1,76 @@
+/** @format */
+
+import { describe, it, expect } from "vitest";
+import {
+  getDescendantIds,
+  getSubtaskProgress,
+  isTaskHidden,
+  sortTaskTree,
+} from "../taskTree";
+
+const task = (id: string, order: string, parentId: string | null = null) => ({
+  id,
+  order,
+  parentId,
+  completed: false,
+});
+
+// Groceries
+//   Dairy
+//     Milk
+//   Bread
+// Laundry
+const tasks = [
+  task("laundry", "a1"),
+  task("bread", "a1", "groceries"),
+  task("milk", "a0", "dairy"),
+  task("groceries", "a0"),
+  task("dairy", "a0", "groceries"),
+];
+
+describe("task tree", () => {
+  it("should list every task before its subtasks", () => {
+    expect(sortTaskTree(tasks).map((t) => t.id)).toEqual([
+      "groceries",
+      "dairy",
+      "milk",
+      "bread",
+      "laundry",
+    ]);
+  });
+
+  it("should list orphans and parent cycles as top-level tasks", () => {
+    const sorted = sortTaskTree([
+      task("a", "a0", "b"),
+      task("b", "a1", "a"),
+      task("orphan", "a2", "gone"),
+    ]);
+    expect(sorted.map((t) => t.id)).toEqual(["orphan", "a", "b"]);
+  });
+
+  it("should find subtasks at any depth", () => {
+    expect(getDescendantIds(tasks, "groceries").sort()).toEqual([
+      "bread",
+      "dairy",
+      "milk",
+    ]);
+    expect(getDescendantIds(tasks, "laundry")).toEqual([]);
+  });
+
+  it("should hide subtasks under a collapsed task", () => {
+    const milk = tasks.find((t) => t.id === "milk")!;
+    expect(isTaskHidden(tasks, milk, [])).toBe(false);
+    expect(isTaskHidden(tasks, milk, ["groceries"])).toBe(true);
+    expect(isTaskHidden(tasks, milk, ["milk"])).toBe(false);
+  });
+
+  it("should count done direct subtasks", () => {
+    const withDone = tasks.map((t) =>
+      t.id === "bread" || t.id === "milk" ? { ...t, completed: true } : t
+    );
+    expect(getSubtaskProgress(withDone, "groceries")).toEqual({
+      completed: 1,
+      total: 2,
+    });
+  });
+});
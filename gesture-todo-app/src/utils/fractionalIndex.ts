@@ -0,0 +1,182 @@
+/** @format */
+
+// Fractional indexing: order keys that sort by plain string comparison, with
+// a key between any two. Moving an item then rewrites only that item's key.
+// Keys are an integer part, whose head character ("a".."z" for 0 and up,
+// "Z".."A" below 0) encodes its length, followed by a base-62 fraction
+// without trailing zeros. Compare keys with < and >, not localeCompare.
+
+const DIGITS = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz";
+const INTEGER_ZERO = "a0";
+const SMALLEST_INTEGER = "A" + "0".repeat(26);
+
+const integerLength = (head: string): number => {
+  if (head >= "a" && head <= "z") {
+    return head.charCodeAt(0) - "a".charCodeAt(0) + 2;
+  }
+  if (head >= "A" && head <= "Z") {
+    return "Z".charCodeAt(0) - head.charCodeAt(0) + 2;
+  }
+  throw new Error(`Invalid order key head: ${head}`);
+};
+
+const integerPart = (key: string): string => {
+  const length = integerLength(key[0]);
+  if (length > key.length) {
+    throw new Error(`Invalid order key: ${key}`);
+  }
+  return key.slice(0, length);
+};
+
+const validateKey = (key: string): void => {
+  if (key === SMALLEST_INTEGER) {
+    throw new Error(`Invalid order key: ${key}`);
+  }
+  const fraction = key.slice(integerPart(key).length);
+  if (fraction.endsWith("0")) {
+    throw new Error(`Invalid order key: ${key}`);
+  }
+};
+
+// Fraction strictly between a and b (null: above every fraction)
+const midpoint = (a: string, b: string | null): string => {
+  if (b !== null) {
+    // Keep the common prefix and split the rest
+    let n = 0;
+    while ((a[n] ?? "0") === b[n]) {
+      n++;
+    }
+    if (n > 0) {
+      return b.slice(0, n) + midpoint(a.slice(n), b.slice(n));
+    }
+  }
+
+  const digitA = a ? DIGITS.indexOf(a[0]) : 0;
+  const digitB = b !== null ? DIGITS.indexOf(b[0]) : DIGITS.length;
+  if (digitB - digitA > 1) {
+    return DIGITS[Math.round((digitA + digitB) / 2)];
+  }
+  // Adjacent digits: go one digit deeper
+  if (b !== null && b.length > 1) {
+    return b.slice(0, 1);
+  }
+  return DIGITS[digitA] + midpoint(a.slice(1), null);
+};
+
+const incrementInteger = (integer: string): string | null => {
+  const head = integer[0];
+  const digits = integer.slice(1).split("");
+  for (let i = digits.length - 1; i >= 0; i--) {
+    const digit = DIGITS.indexOf(digits[i]) + 1;
+    if (digit < DIGITS.length) {
+      digits[i] = DIGITS[digit];
+      return head + digits.join("");
+    }
+    digits[i] = "0";
+  }
+  // Carried out of every digit: one digit longer (or shorter below zero)
+  if (head === "Z") {
+    return INTEGER_ZERO;
+  }
+  if (head === "z") {
+    return null;
+  }
+  const nextHead = String.fromCharCode(head.charCodeAt(0) + 1);
+  if (nextHead > "a") {
+    digits.push("0");
+  } else {
+    digits.pop();
+  }
+  return nextHead + digits.join("");
+};
+
+const decrementInteger = (integer: string): string | null => {
+  const head = integer[0];
+  const digits = integer.slice(1).split("");
+  const highest = DIGITS[DIGITS.length - 1];
+  for (let i = digits.length - 1; i >= 0; i--) {
+    const digit = DIGITS.indexOf(digits[i]) - 1;
+    if (digit >= 0) {
+      digits[i] = DIGITS[digit];
+      return head + digits.join("");
+    }
+    digits[i] = highest;
+  }
+  if (head === "a") {
+    return "Z" + highest;
+  }
+  if (head === "A") {
+    return null;
+  }
+  const nextHead = String.fromCharCode(head.charCodeAt(0) - 1);
+  if (nextHead < "Z") {
+    digits.push(highest);
+  } else {
+    digits.pop();
+  }
+  return nextHead + digits.join("");
+};
+
+// Key that sorts after a and before b; null means no bound on that side
+export function generateKeyBetween(a: string | null, b: string | null): string {
+  if (a !== null) {
+    validateKey(a);
+  }
+  if (b !== null) {
+    validateKey(b);
+  }
+  if (a !== null && b !== null && a >= b) {
+    throw new Error(`Order keys out of order: ${a} >= ${b}`);
+  }
+
+  if (a === null) {
+    if (b === null) {
+      return INTEGER_ZERO;
+    }
+    const integerB = integerPart(b);
+    if (integerB === SMALLEST_INTEGER) {
+      return integerB + midpoint("", b.slice(integerB.length));
+    }
+    if (integerB < b) {
+      return integerB;
+    }
+    const previous = decrementInteger(integerB);
+    if (previous === null) {
+      throw new Error(`Cannot generate an order key before ${b}`);
+    }
+    return previous;
+  }
+
+  const integerA = integerPart(a);
+  const fractionA = a.slice(integerA.length);
+
+  if (b === null) {
+    const next = incrementInteger(integerA);
+    return next === null ? integerA + midpoint(fractionA, null) : next;
+  }
+
+  const integerB = integerPart(b);
+  if (integerA === integerB) {
+    return integerA + midpoint(fractionA, b.slice(integerB.length));
+  }
+  const next = incrementInteger(integerA);
+  if (next === null) {
+    throw new Error(`Cannot generate an order key after ${a}`);
+  }
+  return next < b ? next : integerA + midpoint(fractionA, null);
+}
+
+// `count` ascending keys between a and b
+export function generateKeysBetween(
+  a: string | null,
+  b: string | null,
+  count: number
+): string[] {
+  const keys: string[] = [];
+  let previous = a;
+  for (let i = 0; i < count; i++) {
+    previous = generateKeyBetween(previous, b);
+    keys.push(previous);
+  }
+  return keys;
+}
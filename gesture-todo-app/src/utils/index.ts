@@ -1,5 +1,7 @@
 /** @format */
 
+import { Task, TaskPriority } from "../types";
+
 // Utility functions
 
 export const generateId = (): string => {
@@ -17,6 +19,13 @@ export const debounce = <T extends (...args: any[]) => any>(
   };
 };
 
+// Drop keys whose value is undefined, e.g. before spreading partial config
+// over defaults
+export const stripUndefined = <T extends object>(value: T): Partial<T> =>
+  Object.fromEntries(
+    Object.entries(value).filter(([, v]) => v !== undefined)
+  ) as Partial<T>;
+
 export const formatDate = (date: Date): string => {
   return new Intl.DateTimeFormat("ja-JP", {
     year: "numeric",
@@ -26,3 +35,68 @@ export const formatDate = (date: Date): string => {
     minute: "2-digit",
   }).format(date);
 };
+
+// Task priorities, from least to most urgent
+export const TASK_PRIORITIES: TaskPriority[] = [
+  "none",
+  "low",
+  "medium",
+  "high",
+];
+
+// Split free-form input ("work, #home urgent") into unique tags
+export const parseTags = (input: string): string[] => {
+  const tags: string[] = [];
+  for (const part of input.split(/[\s,、]+/)) {
+    const tag = part.replace(/^#+/, "");
+    if (tag && !tags.some((t) => t.toLowerCase() === tag.toLowerCase())) {
+      tags.push(tag);
+    }
+  }
+  return tags;
+};
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+// Local date as used by <input type="date"> (YYYY-MM-DD)
+export const toDateInputValue = (date: Date): string =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+// Local time as used by <input type="time"> (HH:MM)
+export const toTimeInputValue = (date: Date): string =>
+  `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+
+// Build a local due date from date and optional time input values
+export const parseDueDate = (date: string, time = ""): Date | undefined => {
+  const [year, month, day] = date.split("-").map(Number);
+  if (!year || !month || !day) {
+    return undefined;
+  }
+
+  const [hours, minutes] = time ? time.split(":").map(Number) : [0, 0];
+  return new Date(year, month - 1, day, hours || 0, minutes || 0);
+};
+
+// Whether an open task is past due; date-only tasks are due at the end of
+// their day
+export const isTaskOverdue = (
+  task: Pick<Task, "completed" | "dueDate" | "hasDueTime">,
+  now = new Date()
+): boolean => {
+  if (task.completed || !task.dueDate) {
+    return false;
+  }
+
+  const due = new Date(task.dueDate);
+  if (!task.hasDueTime) {
+    due.setDate(due.getDate() + 1);
+    due.setHours(0, 0, 0, 0);
+  }
+  return now >= due;
+};
+
+// Manual order of tasks, by their fractional index keys
+export const compareTaskOrder = (
+  a: Pick<Task, "order">,
+  b: Pick<Task, "order">
+): number => (a.order < b.order ? -1 : a.order > b.order ? 1 : 0);
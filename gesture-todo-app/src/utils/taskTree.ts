@@ -0,0 +1,86 @@
+/** @format */
+
+import { Task } from "../types";
+import { compareTaskOrder } from ".";
+
+// Subtasks point at their parent through `parentId`. Task arrays are kept in
+// tree order: every task is followed by its subtasks, and siblings are in
+// their manual order. A task whose parent is missing counts as top-level.
+
+type TreeTask = Pick<Task, "id" | "parentId" | "order">;
+
+export function sortTaskTree<T extends TreeTask>(tasks: T[]): T[] {
+  const ids = new Set(tasks.map((task) => task.id));
+  const children = new Map<string | null, T[]>();
+  for (const task of [...tasks].sort(compareTaskOrder)) {
+    const parentId =
+      task.parentId != null && ids.has(task.parentId) ? task.parentId : null;
+    const siblings = children.get(parentId) ?? [];
+    siblings.push(task);
+    children.set(parentId, siblings);
+  }
+
+  const sorted: T[] = [];
+  const visited = new Set<string>();
+  const visit = (task: T) => {
+    if (visited.has(task.id)) return;
+    visited.add(task.id);
+    sorted.push(task);
+    children.get(task.id)?.forEach(visit);
+  };
+  children.get(null)?.forEach(visit);
+  // Tasks in a parent cycle (e.g. from a hand-edited export) are never
+  // reached from the top; list them as top-level tasks
+  tasks.filter((task) => !visited.has(task.id)).forEach(visit);
+  return sorted;
+}
+
+// Direct subtasks of a task, in their manual order
+export const getSubtasks = <T extends TreeTask>(tasks: T[], id: string): T[] =>
+  tasks.filter((task) => task.parentId === id).sort(compareTaskOrder);
+
+// Ids of a task's subtasks, their subtasks and so on
+export function getDescendantIds(tasks: TreeTask[], id: string): string[] {
+  const descendants: string[] = [];
+  const queue = [id];
+  while (queue.length > 0) {
+    const parentId = queue.shift();
+    for (const task of tasks) {
+      if (task.parentId === parentId && !descendants.includes(task.id)) {
+        descendants.push(task.id);
+        queue.push(task.id);
+      }
+    }
+  }
+  return descendants.filter((descendant) => descendant !== id);
+}
+
+// Whether a task is hidden because one of its ancestors is collapsed
+export function isTaskHidden(
+  tasks: TreeTask[],
+  task: TreeTask,
+  collapsedTaskIds: string[]
+): boolean {
+  const seen = new Set<string>();
+  let parentId = task.parentId;
+  while (parentId != null && !seen.has(parentId)) {
+    if (collapsedTaskIds.includes(parentId)) {
+      return true;
+    }
+    seen.add(parentId);
+    parentId = tasks.find((t) => t.id === parentId)?.parentId ?? null;
+  }
+  return false;
+}
+
+// How many of a task's direct subtasks are done
+export const getSubtaskProgress = (
+  tasks: Pick<Task, "parentId" | "completed">[],
+  id: string
+): { completed: number; total: number } => {
+  const subtasks = tasks.filter((task) => task.parentId === id);
+  return {
+    completed: subtasks.filter((task) => task.completed).length,
+    total: subtasks.length,
+  };
+};
@@ -1,12 +1,60 @@
-import { defineConfig } from "vite";
+import { defineConfig, Plugin } from "vite";
 import react from "@vitejs/plugin-react";
+import fs from "node:fs";
+import path from "node:path";
 
-// @ts-expect-error process is a nodejs global
 const host = process.env.TAURI_DEV_HOST;
 
+// MediaPipe Hands fetches its wasm/model files at runtime through `locateFile`.
+// Serve them from node_modules during dev and copy them into the build output
+// so gesture recognition works offline (see src/services/modelAssets.ts).
+const MEDIAPIPE_HANDS_DIR = path.resolve(
+  __dirname,
+  "node_modules/@mediapipe/hands"
+);
+const MEDIAPIPE_ASSET_PATH = "mediapipe/hands/";
+
+function mediapipeHandsAssets(): Plugin {
+  const assetFiles = () =>
+    fs
+      .readdirSync(MEDIAPIPE_HANDS_DIR)
+      .filter((file) => /\.(binarypb|data|js|tflite|wasm)$/.test(file));
+
+  return {
+    name: "mediapipe-hands-assets",
+    configureServer(server) {
+      server.middlewares.use(`/${MEDIAPIPE_ASSET_PATH}`, (req, res, next) => {
+        const file = path.basename((req.url ?? "").split("?")[0]);
+        if (!assetFiles().includes(file)) {
+          next();
+          return;
+        }
+        res.setHeader(
+          "Content-Type",
+          file.endsWith(".wasm")
+            ? "application/wasm"
+            : file.endsWith(".js")
+            ? "text/javascript"
+            : "application/octet-stream"
+        );
+        fs.createReadStream(path.join(MEDIAPIPE_HANDS_DIR, file)).pipe(res);
+      });
+    },
+    generateBundle() {
+      for (const file of assetFiles()) {
+        this.emitFile({
+          type: "asset",
+          fileName: `${MEDIAPIPE_ASSET_PATH}${file}`,
+          source: fs.readFileSync(path.join(MEDIAPIPE_HANDS_DIR, file)),
+        });
+      }
+    },
+  };
+}
+
 // https://vite.dev/config/
 export default defineConfig(async () => ({
-  plugins: [react()],
+  plugins: [react(), mediapipeHandsAssets()],
 
   // Vite options tailored for Tauri development and only applied in `tauri dev` or `tauri build`
   //